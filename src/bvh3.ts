@@ -0,0 +1,864 @@
+//!native
+
+import * as box3 from './box3';
+import * as obb3 from './obb3';
+import * as raycast3 from './raycast3';
+import * as triangle3 from './triangle3';
+import type { Box3, OBB3, Raycast3, Sphere, Vec3 } from './types';
+import * as vec3 from './vec3';
+
+/**
+ * A static bounding volume hierarchy over axis-aligned primitive bounds, stored in flat arrays.
+ * nodeBounds - node boxes, 6 numbers per node: [minX, minY, minZ, maxX, maxY, maxZ]
+ * nodes - 2 numbers per node: [offset, count]. Leaves (count > 0) own the primitives at
+ *   primitives[offset] to primitives[offset + count - 1], internal nodes (count 0) have their
+ *   children at node indices offset and offset + 1
+ * primitives - primitive indices, ordered so that every leaf owns a contiguous range
+ * primitiveBounds - primitive boxes, 6 numbers per primitive index
+ * Node 0 is the root, a BVH built from no primitives has no nodes.
+ * @see buildFromBoxes
+ * @see buildFromTriangles
+ */
+export type BVH3 = {
+    nodeBounds: number[];
+    nodes: number[];
+    primitives: number[];
+    primitiveBounds: number[];
+};
+
+/**
+ * Options for building a BVH
+ * maxLeafSize - leaves with more primitives than this are always split (default 4)
+ * @see buildFromBoxes
+ * @see buildFromTriangles
+ */
+export type BuildOptions = {
+    maxLeafSize?: number;
+};
+
+/**
+ * Creates a new empty BVH
+ * @returns A new BVH
+ */
+export function create(): BVH3 {
+    return {
+        nodeBounds: [],
+        nodes: [],
+        primitives: [],
+        primitiveBounds: [],
+    };
+}
+
+/**
+ * Builds a BVH over arbitrary boxes, e.g. the bounds of the objects in a static world.
+ * Primitive indices reported by queries are indices into the boxes array.
+ * @param out - The output BVH
+ * @param boxes - The leaf boxes
+ * @param options - Build options
+ * @returns The output BVH
+ */
+export function buildFromBoxes(out: BVH3, boxes: Box3[], options: BuildOptions = {}): BVH3 {
+    setBoundsFromBoxes(out.primitiveBounds, boxes);
+    build(out, boxes.size(), options.maxLeafSize ?? 4);
+    return out;
+}
+
+/**
+ * Builds a BVH over the triangles of an indexed triangle mesh, e.g. the output of quickhull3.
+ * Primitive indices reported by queries are triangle indices, the vertex indices of
+ * triangle i start at indices[i * 3].
+ * @param out - The output BVH
+ * @param positions - Flat array of vertex positions: [x0, y0, z0, x1, y1, z1, ...]
+ * @param indices - Flat array of triangle vertex indices: [i0, j0, k0, i1, j1, k1, ...]
+ * @param options - Build options
+ * @returns The output BVH
+ */
+export function buildFromTriangles(out: BVH3, positions: number[], indices: number[], options: BuildOptions = {}): BVH3 {
+    setBoundsFromTriangles(out.primitiveBounds, positions, indices);
+    build(out, math.floor(indices.size() / 3), options.maxLeafSize ?? 4);
+    return out;
+}
+
+/**
+ * Recomputes all node bounds bottom-up from the current primitive bounds, keeping the tree topology.
+ * Refitting is much cheaper than rebuilding, but query performance degrades as primitives move
+ * far from where they were when the BVH was built.
+ * @param bvh - The BVH to refit
+ * @returns The refitted BVH
+ */
+export function refit(bvh: BVH3): BVH3 {
+    const nodeBounds = bvh.nodeBounds;
+    const nodes = bvh.nodes;
+    const primitives = bvh.primitives;
+    const primitiveBounds = bvh.primitiveBounds;
+
+    // children are always allocated after their parent, so a reverse sweep visits them first
+    for (let node = nodes.size() / 2 - 1; node >= 0; node--) {
+        const offset = nodes[node * 2];
+        const count = nodes[node * 2 + 1];
+
+        if (count > 0) {
+            setEmpty(nodeBounds, node);
+            for (let i = offset; i < offset + count; i++) {
+                unionInto(nodeBounds, node, primitiveBounds, primitives[i]);
+            }
+        } else {
+            copyInto(nodeBounds, node, nodeBounds, offset);
+            unionInto(nodeBounds, node, nodeBounds, offset + 1);
+        }
+    }
+
+    return bvh;
+}
+
+/**
+ * Updates the primitive bounds from boxes and refits the BVH.
+ * @param bvh - The BVH to refit, built with {@link buildFromBoxes}
+ * @param boxes - The leaf boxes, in the same order as when the BVH was built
+ * @returns The refitted BVH
+ */
+export function refitFromBoxes(bvh: BVH3, boxes: Box3[]): BVH3 {
+    setBoundsFromBoxes(bvh.primitiveBounds, boxes);
+    return refit(bvh);
+}
+
+/**
+ * Updates the primitive bounds from moved mesh vertices and refits the BVH.
+ * @param bvh - The BVH to refit, built with {@link buildFromTriangles}
+ * @param positions - Flat array of vertex positions
+ * @param indices - Flat array of triangle vertex indices, unchanged since the BVH was built
+ * @returns The refitted BVH
+ */
+export function refitFromTriangles(bvh: BVH3, positions: number[], indices: number[]): BVH3 {
+    setBoundsFromTriangles(bvh.primitiveBounds, positions, indices);
+    return refit(bvh);
+}
+
+/**
+ * Gets the bounds of all primitives in the BVH
+ * @param out - The output box
+ * @param bvh - The BVH
+ * @returns The output box, empty if the BVH has no primitives
+ */
+export function getBounds(out: Box3, bvh: BVH3): Box3 {
+    if (bvh.nodes.size() === 0) return box3.empty(out);
+    return readBox(out, bvh.nodeBounds, 0);
+}
+
+const _query_stack: number[] = [];
+const _queryBox3_box = /*@__PURE__*/ box3.create();
+
+/**
+ * Finds all primitives whose bounds overlap a box.
+ * For triangle BVHs this is a broadphase test against triangle bounds, use
+ * box3.intersectsTriangle3 on the results for an exact test.
+ * @param out - The output array of primitive indices, cleared before use
+ * @param bvh - The BVH
+ * @param box - The box to test
+ * @returns The output array
+ */
+export function queryBox3(out: number[], bvh: BVH3, box: Box3): number[] {
+    out.clear();
+    if (bvh.nodes.size() === 0) return out;
+
+    const stack = _query_stack;
+    const nodeBox = _queryBox3_box;
+    const nodes = bvh.nodes;
+
+    stack.clear();
+    stack.push(0);
+
+    while (stack.size() > 0) {
+        const node = stack.pop()!;
+        if (!box3.intersectsBox3(readBox(nodeBox, bvh.nodeBounds, node), box)) continue;
+
+        const offset = nodes[node * 2];
+        const count = nodes[node * 2 + 1];
+
+        if (count === 0) {
+            stack.push(offset + 1, offset);
+            continue;
+        }
+
+        for (let i = offset; i < offset + count; i++) {
+            const primitive = bvh.primitives[i];
+            if (box3.intersectsBox3(readBox(nodeBox, bvh.primitiveBounds, primitive), box)) {
+                out.push(primitive);
+            }
+        }
+    }
+
+    return out;
+}
+
+const _querySphere_box = /*@__PURE__*/ box3.create();
+
+/**
+ * Finds all primitives whose bounds overlap a sphere.
+ * @param out - The output array of primitive indices, cleared before use
+ * @param bvh - The BVH
+ * @param sphere - The sphere to test
+ * @returns The output array
+ */
+export function querySphere(out: number[], bvh: BVH3, sphere: Sphere): number[] {
+    out.clear();
+    if (bvh.nodes.size() === 0) return out;
+
+    const stack = _query_stack;
+    const nodeBox = _querySphere_box;
+    const nodes = bvh.nodes;
+
+    stack.clear();
+    stack.push(0);
+
+    while (stack.size() > 0) {
+        const node = stack.pop()!;
+        if (!box3.intersectsSphere(readBox(nodeBox, bvh.nodeBounds, node), sphere)) continue;
+
+        const offset = nodes[node * 2];
+        const count = nodes[node * 2 + 1];
+
+        if (count === 0) {
+            stack.push(offset + 1, offset);
+            continue;
+        }
+
+        for (let i = offset; i < offset + count; i++) {
+            const primitive = bvh.primitives[i];
+            if (box3.intersectsSphere(readBox(nodeBox, bvh.primitiveBounds, primitive), sphere)) {
+                out.push(primitive);
+            }
+        }
+    }
+
+    return out;
+}
+
+const _queryOBB3_box = /*@__PURE__*/ box3.create();
+
+/**
+ * Finds all primitives whose bounds overlap an oriented bounding box.
+ * @param out - The output array of primitive indices, cleared before use
+ * @param bvh - The BVH
+ * @param obb - The oriented bounding box to test
+ * @returns The output array
+ */
+export function queryOBB3(out: number[], bvh: BVH3, obb: OBB3): number[] {
+    out.clear();
+    if (bvh.nodes.size() === 0) return out;
+
+    const stack = _query_stack;
+    const nodeBox = _queryOBB3_box;
+    const nodes = bvh.nodes;
+
+    stack.clear();
+    stack.push(0);
+
+    while (stack.size() > 0) {
+        const node = stack.pop()!;
+        if (!obb3.intersectsBox3(obb, readBox(nodeBox, bvh.nodeBounds, node))) continue;
+
+        const offset = nodes[node * 2];
+        const count = nodes[node * 2 + 1];
+
+        if (count === 0) {
+            stack.push(offset + 1, offset);
+            continue;
+        }
+
+        for (let i = offset; i < offset + count; i++) {
+            const primitive = bvh.primitives[i];
+            if (obb3.intersectsBox3(obb, readBox(nodeBox, bvh.primitiveBounds, primitive))) {
+                out.push(primitive);
+            }
+        }
+    }
+
+    return out;
+}
+
+/**
+ * Options for a BVH raycast
+ * mode - 'closest' finds the nearest hit, 'any' stops at the first hit found (default 'closest')
+ * @see raycast
+ */
+export type RaycastOptions = {
+    mode?: 'closest' | 'any';
+};
+
+/**
+ * Result of a raycast against the primitive boxes of a BVH
+ * fraction - hit distance as a fraction of the ray length
+ * primitive - index of the hit primitive, -1 on a miss
+ * normal - unit normal of the entry face of the hit box (zero when the ray starts inside it)
+ * @see createRaycastResult
+ * @see raycast
+ */
+export type RaycastResult = {
+    hit: boolean;
+    fraction: number;
+    primitive: number;
+    normal: Vec3;
+};
+
+/**
+ * Creates a new RaycastResult with default values.
+ * @returns A new RaycastResult.
+ */
+export function createRaycastResult(): RaycastResult {
+    return {
+        hit: false,
+        fraction: 0,
+        primitive: -1,
+        normal: vec3.create(),
+    };
+}
+
+const _raycast_ray = /*@__PURE__*/ raycast3.create();
+const _raycast_box = /*@__PURE__*/ box3.create();
+const _raycast_boxResult = /*@__PURE__*/ raycast3.createIntersectsBox3Result();
+
+/**
+ * Raycast against the primitive boxes of a BVH, e.g. one built with {@link buildFromBoxes}.
+ *
+ * @param out output object to store result (hit, fraction, primitive index, normal)
+ * @param bvh the BVH to test
+ * @param ray ray to test (with origin, direction, and length)
+ * @param options search mode
+ */
+export function raycast(out: RaycastResult, bvh: BVH3, ray: Raycast3, options: RaycastOptions = {}): void {
+    const box = _raycast_box;
+    const boxResult = _raycast_boxResult;
+
+    const best = traverseRay(bvh, raycast3.copy(_raycast_ray, ray), options.mode === 'any', 'boxes');
+
+    if (best === -1) {
+        out.hit = false;
+        out.fraction = 0;
+        out.primitive = -1;
+        vec3.zero(out.normal);
+        return;
+    }
+
+    raycast3.intersectsBox3WithResult(boxResult, ray, readBox(box, bvh.primitiveBounds, best));
+
+    out.hit = true;
+    out.fraction = boxResult.fractionNear;
+    out.primitive = best;
+    vec3.copy(out.normal, boxResult.normal);
+}
+
+const _raycastTriangles_ray = /*@__PURE__*/ raycast3.create();
+const _raycastTriangles_triangleResult = /*@__PURE__*/ raycast3.createIntersectsTriangleResult();
+const _raycastTriangles_a = /*@__PURE__*/ vec3.create();
+const _raycastTriangles_b = /*@__PURE__*/ vec3.create();
+const _raycastTriangles_c = /*@__PURE__*/ vec3.create();
+const _raycastTriangles_point = /*@__PURE__*/ vec3.create();
+
+/**
+ * Raycast against the triangles of a BVH built with {@link buildFromTriangles}.
+ * Produces the same result as raycast3.intersectsMesh, but only tests triangles in
+ * nodes the ray passes through.
+ *
+ * @param out output object to store result (hit, fraction, triangle index, barycentric coordinates, frontFacing)
+ * @param bvh the BVH built over the mesh
+ * @param ray ray to test (with origin, direction, and length)
+ * @param positions flat array of vertex positions: [x0, y0, z0, x1, y1, z1, ...]
+ * @param indices flat array of triangle vertex indices: [i0, j0, k0, i1, j1, k1, ...]
+ * @param options search mode and backface culling
+ */
+export function raycastTriangles(
+    out: raycast3.IntersectsMeshResult,
+    bvh: BVH3,
+    ray: Raycast3,
+    positions: number[],
+    indices: number[],
+    options: raycast3.IntersectsMeshOptions = {},
+): void {
+    const a = _raycastTriangles_a;
+    const b = _raycastTriangles_b;
+    const c = _raycastTriangles_c;
+
+    const testRay = raycast3.copy(_raycastTriangles_ray, ray);
+    const best = traverseRay(
+        bvh,
+        testRay,
+        options.mode === 'any',
+        'triangles',
+        positions,
+        indices,
+        options.backfaceCulling === true,
+    );
+
+    if (best === -1) {
+        out.hit = false;
+        out.fraction = 0;
+        out.triangleIndex = -1;
+        vec3.zero(out.barycentric);
+        out.frontFacing = false;
+        return;
+    }
+
+    // the traversal leaves the test ray shortened to the best hit distance
+    const t = testRay.length;
+
+    vec3.fromBuffer(a, positions, indices[best * 3] * 3);
+    vec3.fromBuffer(b, positions, indices[best * 3 + 1] * 3);
+    vec3.fromBuffer(c, positions, indices[best * 3 + 2] * 3);
+    const point = vec3.scaleAndAdd(_raycastTriangles_point, ray.origin, ray.direction, t);
+
+    out.hit = true;
+    out.fraction = ray.length > 0 ? t / ray.length : 0;
+    out.triangleIndex = best;
+    triangle3.barycentric(out.barycentric, point, a, b, c);
+    out.frontFacing = triangle3.isFrontFacing(a, b, c, ray.direction);
+}
+
+/**
+ * The kind of primitive a raycast tests in the leaves of a BVH:
+ * - 'boxes': the primitive bounds stored in the BVH
+ * - 'triangles': the triangles of a mesh, indexed like the BVH primitives
+ */
+type PrimitiveKind = 'boxes' | 'triangles';
+
+/** Returns the distance along the ray to a primitive box, or -1 on a miss */
+function intersectBox(bvh: BVH3, primitive: number, ray: Raycast3): number {
+    const boxResult = _raycast_boxResult;
+    raycast3.intersectsBox3WithResult(boxResult, ray, readBox(_raycast_box, bvh.primitiveBounds, primitive));
+    return boxResult.hit ? boxResult.fractionNear * ray.length : -1;
+}
+
+/** Returns the distance along the ray to a mesh triangle, or -1 on a miss */
+function intersectTriangle(
+    triangle: number,
+    ray: Raycast3,
+    positions: number[],
+    indices: number[],
+    backfaceCulling: boolean,
+): number {
+    const triangleResult = _raycastTriangles_triangleResult;
+    const a = vec3.fromBuffer(_raycastTriangles_a, positions, indices[triangle * 3] * 3);
+    const b = vec3.fromBuffer(_raycastTriangles_b, positions, indices[triangle * 3 + 1] * 3);
+    const c = vec3.fromBuffer(_raycastTriangles_c, positions, indices[triangle * 3 + 2] * 3);
+
+    raycast3.intersectsTriangle(triangleResult, ray, a, b, c, backfaceCulling);
+    return triangleResult.hit ? triangleResult.fraction * ray.length : -1;
+}
+
+const _traverseRay_stack: number[] = [];
+const _traverseRay_entries: number[] = [];
+
+/**
+ * Walks the nodes a ray passes through, nearest child first, intersecting each primitive in the
+ * visited leaves. positions, indices and backfaceCulling are only read for triangles.
+ * Every accepted hit shortens the ray, so farther nodes and primitives are culled.
+ * Returns the best primitive index, or -1 when nothing was hit.
+ */
+function traverseRay(
+    bvh: BVH3,
+    ray: Raycast3,
+    anyHit: boolean,
+    kind: PrimitiveKind,
+    positions?: number[],
+    indices?: number[],
+    backfaceCulling = false,
+): number {
+    const nodeBounds = bvh.nodeBounds;
+    const nodes = bvh.nodes;
+    const stack = _traverseRay_stack;
+    const entries = _traverseRay_entries;
+
+    stack.clear();
+    entries.clear();
+
+    if (nodes.size() === 0) return -1;
+
+    const rootEntry = rayEntry(ray, nodeBounds, 0);
+    if (rootEntry < 0) return -1;
+
+    stack.push(0);
+    entries.push(rootEntry);
+
+    let best = -1;
+
+    while (stack.size() > 0) {
+        const node = stack.pop()!;
+        const entry = entries.pop()!;
+
+        // the ray may have been shortened since this node was pushed
+        if (best !== -1 && entry > ray.length) continue;
+
+        const offset = nodes[node * 2];
+        const count = nodes[node * 2 + 1];
+
+        if (count > 0) {
+            for (let i = offset; i < offset + count; i++) {
+                const primitive = bvh.primitives[i];
+                const t =
+                    kind === 'boxes'
+                        ? intersectBox(bvh, primitive, ray)
+                        : intersectTriangle(primitive, ray, positions!, indices!, backfaceCulling);
+
+                if (t < 0 || (best !== -1 && t >= ray.length)) continue;
+
+                best = primitive;
+                ray.length = t;
+
+                if (anyHit || t === 0) return best;
+            }
+            continue;
+        }
+
+        const leftEntry = rayEntry(ray, nodeBounds, offset);
+        const rightEntry = rayEntry(ray, nodeBounds, offset + 1);
+
+        // push the farther child first so the nearer one is visited first
+        if (leftEntry >= 0 && rightEntry >= 0) {
+            if (leftEntry <= rightEntry) {
+                stack.push(offset + 1, offset);
+                entries.push(rightEntry, leftEntry);
+            } else {
+                stack.push(offset, offset + 1);
+                entries.push(leftEntry, rightEntry);
+            }
+        } else if (leftEntry >= 0) {
+            stack.push(offset);
+            entries.push(leftEntry);
+        } else if (rightEntry >= 0) {
+            stack.push(offset + 1);
+            entries.push(rightEntry);
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Slab test of a ray against a box stored in a flat array.
+ * Returns the entry distance along the ray (0 when the origin is inside), or -1 on a miss.
+ */
+function rayEntry(ray: Raycast3, array: number[], index: number): number {
+    const o = index * 6;
+    let tmin = 0;
+    let tmax = ray.length;
+
+    for (let i = 0; i < 3; i++) {
+        const d = ray.direction[i];
+        const min = array[o + i];
+        const max = array[o + i + 3];
+
+        if (math.abs(d) < 1e-10) {
+            // ray is parallel to slab: check if origin is within slab
+            if (ray.origin[i] < min || ray.origin[i] > max) return -1;
+        } else {
+            const invD = 1 / d;
+            let t0 = (min - ray.origin[i]) * invD;
+            let t1 = (max - ray.origin[i]) * invD;
+
+            if (invD < 0) {
+                const temp = t0;
+                t0 = t1;
+                t1 = temp;
+            }
+
+            tmin = math.max(tmin, t0);
+            tmax = math.min(tmax, t1);
+
+            if (tmax < tmin) return -1;
+        }
+    }
+
+    return tmin;
+}
+
+const BIN_COUNT = 16;
+
+/** cost of visiting a node relative to the cost of testing a primitive */
+const TRAVERSAL_COST = 1;
+
+const _build_stack: number[] = [];
+const _build_centroids: number[] = [];
+const _build_binCounts: number[] = [];
+const _build_binBounds: number[] = [];
+const _build_rightCosts: number[] = [];
+
+/**
+ * Builds the tree top-down with binned surface area heuristic splits.
+ * Reference: Ingo Wald, "On fast Construction of SAH-based Bounding Volume Hierarchies" (2007)
+ */
+function build(bvh: BVH3, primitiveCount: number, maxLeafSize: number): void {
+    const nodeBounds = bvh.nodeBounds;
+    const nodes = bvh.nodes;
+    const primitives = bvh.primitives;
+    const primitiveBounds = bvh.primitiveBounds;
+
+    nodeBounds.clear();
+    nodes.clear();
+    primitives.clear();
+
+    if (primitiveCount === 0) return;
+
+    const centroids = _build_centroids;
+    centroids.clear();
+
+    for (let i = 0; i < primitiveCount; i++) {
+        primitives.push(i);
+        centroids.push(
+            (primitiveBounds[i * 6] + primitiveBounds[i * 6 + 3]) * 0.5,
+            (primitiveBounds[i * 6 + 1] + primitiveBounds[i * 6 + 4]) * 0.5,
+            (primitiveBounds[i * 6 + 2] + primitiveBounds[i * 6 + 5]) * 0.5,
+        );
+    }
+
+    const binCounts = _build_binCounts;
+    const binBounds = _build_binBounds;
+    const rightCosts = _build_rightCosts;
+    binCounts.clear();
+    binBounds.clear();
+    rightCosts.clear();
+    for (let i = 0; i < BIN_COUNT; i++) {
+        binCounts.push(0);
+        binBounds.push(0, 0, 0, 0, 0, 0);
+        rightCosts.push(0);
+    }
+
+    nodes.push(0, primitiveCount);
+    nodeBounds.push(0, 0, 0, 0, 0, 0);
+
+    const stack = _build_stack;
+    stack.clear();
+    stack.push(0);
+
+    while (stack.size() > 0) {
+        const node = stack.pop()!;
+        const start = nodes[node * 2];
+        const count = nodes[node * 2 + 1];
+        const end = start + count;
+
+        // node bounds and the bounds of the primitive centroids
+        setEmpty(nodeBounds, node);
+        let cminX = math.huge;
+        let cminY = math.huge;
+        let cminZ = math.huge;
+        let cmaxX = -math.huge;
+        let cmaxY = -math.huge;
+        let cmaxZ = -math.huge;
+
+        for (let i = start; i < end; i++) {
+            const primitive = primitives[i];
+            unionInto(nodeBounds, node, primitiveBounds, primitive);
+
+            const cx = centroids[primitive * 3];
+            const cy = centroids[primitive * 3 + 1];
+            const cz = centroids[primitive * 3 + 2];
+            cminX = math.min(cminX, cx);
+            cminY = math.min(cminY, cy);
+            cminZ = math.min(cminZ, cz);
+            cmaxX = math.max(cmaxX, cx);
+            cmaxY = math.max(cmaxY, cy);
+            cmaxZ = math.max(cmaxZ, cz);
+        }
+
+        if (count === 1) continue;
+
+        const nodeArea = areaOf(nodeBounds, node);
+
+        // find the cheapest split plane between bins, over all axes
+        let bestAxis = -1;
+        let bestBin = 0;
+        let bestCost = math.huge;
+
+        for (let axis = 0; axis < 3; axis++) {
+            const cmin = axis === 0 ? cminX : axis === 1 ? cminY : cminZ;
+            const cmax = axis === 0 ? cmaxX : axis === 1 ? cmaxY : cmaxZ;
+            const extent = cmax - cmin;
+
+            if (extent <= 0) continue;
+
+            const scale = BIN_COUNT / extent;
+
+            for (let b = 0; b < BIN_COUNT; b++) {
+                binCounts[b] = 0;
+                setEmpty(binBounds, b);
+            }
+
+            for (let i = start; i < end; i++) {
+                const primitive = primitives[i];
+                const b = binIndex(centroids[primitive * 3 + axis], cmin, scale);
+                binCounts[b]++;
+                unionInto(binBounds, b, primitiveBounds, primitive);
+            }
+
+            // sweep from the right to get the cost of everything right of each split
+            let rminX = math.huge;
+            let rminY = math.huge;
+            let rminZ = math.huge;
+            let rmaxX = -math.huge;
+            let rmaxY = -math.huge;
+            let rmaxZ = -math.huge;
+            let rightCount = 0;
+
+            for (let b = BIN_COUNT - 1; b > 0; b--) {
+                rightCount += binCounts[b];
+                rminX = math.min(rminX, binBounds[b * 6]);
+                rminY = math.min(rminY, binBounds[b * 6 + 1]);
+                rminZ = math.min(rminZ, binBounds[b * 6 + 2]);
+                rmaxX = math.max(rmaxX, binBounds[b * 6 + 3]);
+                rmaxY = math.max(rmaxY, binBounds[b * 6 + 4]);
+                rmaxZ = math.max(rmaxZ, binBounds[b * 6 + 5]);
+                rightCosts[b] = rightCount === 0 ? -1 : rightCount * area(rminX, rminY, rminZ, rmaxX, rmaxY, rmaxZ);
+            }
+
+            // sweep from the left, splitting between bin b and bin b + 1
+            let lminX = math.huge;
+            let lminY = math.huge;
+            let lminZ = math.huge;
+            let lmaxX = -math.huge;
+            let lmaxY = -math.huge;
+            let lmaxZ = -math.huge;
+            let leftCount = 0;
+
+            for (let b = 0; b < BIN_COUNT - 1; b++) {
+                leftCount += binCounts[b];
+                lminX = math.min(lminX, binBounds[b * 6]);
+                lminY = math.min(lminY, binBounds[b * 6 + 1]);
+                lminZ = math.min(lminZ, binBounds[b * 6 + 2]);
+                lmaxX = math.max(lmaxX, binBounds[b * 6 + 3]);
+                lmaxY = math.max(lmaxY, binBounds[b * 6 + 4]);
+                lmaxZ = math.max(lmaxZ, binBounds[b * 6 + 5]);
+
+                const rightCost = rightCosts[b + 1];
+                if (leftCount === 0 || rightCost < 0) continue;
+
+                const cost = leftCount * area(lminX, lminY, lminZ, lmaxX, lmaxY, lmaxZ) + rightCost;
+                if (cost < bestCost) {
+                    bestCost = cost;
+                    bestAxis = axis;
+                    bestBin = b;
+                }
+            }
+        }
+
+        let mid: number;
+
+        if (bestAxis === -1) {
+            // all centroids coincide: no plane separates them, so split by count if the leaf is too big
+            if (count <= maxLeafSize) continue;
+            mid = start + math.floor(count / 2);
+        } else {
+            // compare costs scaled by the node area, to avoid dividing by a zero area
+            if (count <= maxLeafSize && count * nodeArea <= TRAVERSAL_COST * nodeArea + bestCost) continue;
+
+            const cmin = bestAxis === 0 ? cminX : bestAxis === 1 ? cminY : cminZ;
+            const cmax = bestAxis === 0 ? cmaxX : bestAxis === 1 ? cmaxY : cmaxZ;
+            const scale = BIN_COUNT / (cmax - cmin);
+
+            // partition the node's primitives in place around the split plane
+            let i = start;
+            let j = end - 1;
+            while (i <= j) {
+                if (binIndex(centroids[primitives[i] * 3 + bestAxis], cmin, scale) <= bestBin) {
+                    i++;
+                } else {
+                    const temp = primitives[i];
+                    primitives[i] = primitives[j];
+                    primitives[j] = temp;
+                    j--;
+                }
+            }
+            mid = i;
+        }
+
+        const left = nodes.size() / 2;
+        nodes[node * 2] = left;
+        nodes[node * 2 + 1] = 0;
+
+        nodes.push(start, mid - start, mid, end - mid);
+        nodeBounds.push(0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0);
+
+        stack.push(left + 1, left);
+    }
+}
+
+function binIndex(centroid: number, cmin: number, scale: number): number {
+    return math.min(BIN_COUNT - 1, math.floor((centroid - cmin) * scale));
+}
+
+function area(minX: number, minY: number, minZ: number, maxX: number, maxY: number, maxZ: number): number {
+    const dx = maxX - minX;
+    const dy = maxY - minY;
+    const dz = maxZ - minZ;
+    return 2 * (dx * dy + dy * dz + dz * dx);
+}
+
+function areaOf(array: number[], index: number): number {
+    const o = index * 6;
+    return area(array[o], array[o + 1], array[o + 2], array[o + 3], array[o + 4], array[o + 5]);
+}
+
+function readBox(out: Box3, array: number[], index: number): Box3 {
+    const o = index * 6;
+    out[0] = array[o];
+    out[1] = array[o + 1];
+    out[2] = array[o + 2];
+    out[3] = array[o + 3];
+    out[4] = array[o + 4];
+    out[5] = array[o + 5];
+    return out;
+}
+
+function setEmpty(array: number[], index: number): void {
+    const o = index * 6;
+    array[o] = math.huge;
+    array[o + 1] = math.huge;
+    array[o + 2] = math.huge;
+    array[o + 3] = -math.huge;
+    array[o + 4] = -math.huge;
+    array[o + 5] = -math.huge;
+}
+
+function copyInto(out: number[], outIndex: number, array: number[], index: number): void {
+    const o = outIndex * 6;
+    const a = index * 6;
+    out[o] = array[a];
+    out[o + 1] = array[a + 1];
+    out[o + 2] = array[a + 2];
+    out[o + 3] = array[a + 3];
+    out[o + 4] = array[a + 4];
+    out[o + 5] = array[a + 5];
+}
+
+function unionInto(out: number[], outIndex: number, array: number[], index: number): void {
+    const o = outIndex * 6;
+    const a = index * 6;
+    out[o] = math.min(out[o], array[a]);
+    out[o + 1] = math.min(out[o + 1], array[a + 1]);
+    out[o + 2] = math.min(out[o + 2], array[a + 2]);
+    out[o + 3] = math.max(out[o + 3], array[a + 3]);
+    out[o + 4] = math.max(out[o + 4], array[a + 4]);
+    out[o + 5] = math.max(out[o + 5], array[a + 5]);
+}
+
+function setBoundsFromBoxes(out: number[], boxes: Box3[]): void {
+    out.clear();
+    for (const box of boxes) {
+        out.push(box[0], box[1], box[2], box[3], box[4], box[5]);
+    }
+}
+
+function setBoundsFromTriangles(out: number[], positions: number[], indices: number[]): void {
+    out.clear();
+    for (let i = 0; i + 2 < indices.size(); i += 3) {
+        const a = indices[i] * 3;
+        const b = indices[i + 1] * 3;
+        const c = indices[i + 2] * 3;
+        out.push(
+            math.min(positions[a], positions[b], positions[c]),
+            math.min(positions[a + 1], positions[b + 1], positions[c + 1]),
+            math.min(positions[a + 2], positions[b + 2], positions[c + 2]),
+            math.max(positions[a], positions[b], positions[c]),
+            math.max(positions[a + 1], positions[b + 1], positions[c + 1]),
+            math.max(positions[a + 2], positions[b + 2], positions[c + 2]),
+        );
+    }
+}
@@ -0,0 +1,326 @@
+//!native
+
+import * as box3 from './box3';
+import * as gjk from './gjk';
+import * as segment3 from './segment3';
+import type { Box3, Capsule3, Sphere, Vec3 } from './types';
+import * as vec3 from './vec3';
+
+/**
+ * Creates a new capsule with a unit segment along the y axis and radius 0.5
+ * @returns A new capsule
+ */
+export function create(): Capsule3 {
+    return { start: [0, 0, 0], end: [0, 1, 0], radius: 0.5 };
+}
+
+/**
+ * Creates a new capsule from the endpoints of its segment and a radius
+ * @param start - The first endpoint of the segment
+ * @param end - The second endpoint of the segment
+ * @param radius - The radius of the capsule
+ * @returns A new capsule
+ */
+export function fromValues(start: Vec3, end: Vec3, radius: number): Capsule3 {
+    return { start: [start[0], start[1], start[2]], end: [end[0], end[1], end[2]], radius };
+}
+
+/**
+ * Clones a capsule
+ * @param capsule - The capsule to clone
+ * @returns A new capsule
+ */
+export function clone(capsule: Capsule3): Capsule3 {
+    return fromValues(capsule.start, capsule.end, capsule.radius);
+}
+
+/**
+ * Copies one capsule to another
+ * @param out - The output capsule
+ * @param capsule - The source capsule
+ * @returns The output capsule
+ */
+export function copy(out: Capsule3, capsule: Capsule3): Capsule3 {
+    vec3.copy(out.start, capsule.start);
+    vec3.copy(out.end, capsule.end);
+    out.radius = capsule.radius;
+    return out;
+}
+
+/**
+ * Sets the segment and radius of a capsule
+ * @param out - The output capsule
+ * @param start - The first endpoint of the segment
+ * @param end - The second endpoint of the segment
+ * @param radius - The radius of the capsule
+ * @returns The output capsule
+ */
+export function set(out: Capsule3, start: Vec3, end: Vec3, radius: number): Capsule3 {
+    vec3.copy(out.start, start);
+    vec3.copy(out.end, end);
+    out.radius = radius;
+    return out;
+}
+
+/**
+ * Computes the axis-aligned bounding box of a capsule
+ * @param out - The output Box3
+ * @param capsule - The capsule
+ * @returns The bounding box
+ */
+export function getBoundingBox(out: Box3, capsule: Capsule3): Box3 {
+    const { start, end, radius } = capsule;
+    out[0] = math.min(start[0], end[0]) - radius;
+    out[1] = math.min(start[1], end[1]) - radius;
+    out[2] = math.min(start[2], end[2]) - radius;
+    out[3] = math.max(start[0], end[0]) + radius;
+    out[4] = math.max(start[1], end[1]) + radius;
+    out[5] = math.max(start[2], end[2]) + radius;
+    return out;
+}
+
+const _containsPoint_closest = /*@__PURE__*/ vec3.create();
+
+/**
+ * Test if a point is contained within the capsule
+ * @param capsule - The capsule
+ * @param point - The point to test
+ * @returns true if the point is inside or on the surface of the capsule
+ */
+export function containsPoint(capsule: Capsule3, point: Vec3): boolean {
+    const closest = segment3.closestPoint(_containsPoint_closest, capsule, point);
+    return vec3.squaredDistance(closest, point) <= capsule.radius * capsule.radius;
+}
+
+const _distanceToPoint_closest = /*@__PURE__*/ vec3.create();
+
+/**
+ * Calculates the signed distance from a point to the surface of the capsule
+ * @param capsule - The capsule
+ * @param point - The point
+ * @returns The signed distance (negative = inside the capsule)
+ */
+export function distanceToPoint(capsule: Capsule3, point: Vec3): number {
+    const closest = segment3.closestPoint(_distanceToPoint_closest, capsule, point);
+    return vec3.distance(closest, point) - capsule.radius;
+}
+
+const _closestPoint_closest = /*@__PURE__*/ vec3.create();
+
+/**
+ * Calculates the point of the capsule closest to a given point.
+ * Points inside the capsule are returned unchanged.
+ * @param out - The output point
+ * @param capsule - The capsule
+ * @param point - The query point
+ * @returns The output point
+ */
+export function closestPoint(out: Vec3, capsule: Capsule3, point: Vec3): Vec3 {
+    const closest = segment3.closestPoint(_closestPoint_closest, capsule, point);
+    const distance = vec3.distance(closest, point);
+
+    if (distance <= capsule.radius) return vec3.copy(out, point);
+
+    return vec3.lerp(out, closest, point, capsule.radius / distance);
+}
+
+const _fallbackNormal_axis = /*@__PURE__*/ vec3.create();
+
+/**
+ * Writes a unit direction perpendicular to the capsule's segment, used to separate shapes whose
+ * closest points coincide
+ */
+function fallbackNormal(out: Vec3, capsule: Capsule3): Vec3 {
+    const axis = vec3.subtract(_fallbackNormal_axis, capsule.end, capsule.start);
+    if (vec3.squaredLength(axis) === 0) return vec3.set(out, 0, 1, 0);
+    return vec3.perpendicular(out, axis);
+}
+
+/**
+ * Fills in a penetration result from the closest points of two shapes' inner cores, inflating the
+ * cores by their radii. Expects out.pointA and out.pointB to hold the closest points of the cores,
+ * and out.normal to hold a unit fallback direction from A to B for when the points coincide.
+ */
+function inflatePenetration(out: gjk.PenetrationResult, radiusA: number, radiusB: number): void {
+    const distance = vec3.distance(out.pointA, out.pointB);
+    if (distance > 0) {
+        vec3.subtract(out.normal, out.pointB, out.pointA);
+        vec3.scale(out.normal, out.normal, 1 / distance);
+    }
+
+    out.depth = radiusA + radiusB - distance;
+    out.intersecting = out.depth >= 0;
+    vec3.scaleAndAdd(out.pointA, out.pointA, out.normal, radiusA);
+    vec3.scaleAndAdd(out.pointB, out.pointB, out.normal, -radiusB);
+}
+
+const _intersectsCapsule3_result = /*@__PURE__*/ segment3.createClosestPointsResult();
+
+/**
+ * Check whether two capsules intersect
+ * @param a - The first capsule
+ * @param b - The second capsule
+ * @returns true if the capsules overlap or touch
+ */
+export function intersectsCapsule3(a: Capsule3, b: Capsule3): boolean {
+    segment3.closestPointsToSegment(_intersectsCapsule3_result, a, b);
+    return _intersectsCapsule3_result.distance <= a.radius + b.radius;
+}
+
+const _penetrationCapsule3_result = /*@__PURE__*/ segment3.createClosestPointsResult();
+
+/**
+ * Computes the penetration depth, normal and contact points of two capsules.
+ * When the segments of the capsules cross, the normal is perpendicular to both segments.
+ * @param out - The output result (intersecting, depth, normal, contact points), see gjk.createPenetrationResult
+ * @param a - The first capsule
+ * @param b - The second capsule
+ */
+export function penetrationCapsule3(out: gjk.PenetrationResult, a: Capsule3, b: Capsule3): void {
+    const closest = _penetrationCapsule3_result;
+    segment3.closestPointsToSegment(closest, a, b);
+    vec3.copy(out.pointA, closest.pointA);
+    vec3.copy(out.pointB, closest.pointB);
+
+    if (closest.distance === 0) {
+        // the segments cross, separate along their common perpendicular
+        const ax = a.end[0] - a.start[0];
+        const ay = a.end[1] - a.start[1];
+        const az = a.end[2] - a.start[2];
+        const bx = b.end[0] - b.start[0];
+        const by = b.end[1] - b.start[1];
+        const bz = b.end[2] - b.start[2];
+        vec3.set(out.normal, ay * bz - az * by, az * bx - ax * bz, ax * by - ay * bx);
+
+        const lengthSq = vec3.squaredLength(out.normal);
+        if (lengthSq > 0) {
+            vec3.scale(out.normal, out.normal, 1 / math.sqrt(lengthSq));
+        } else if (vec3.squaredDistance(a.start, a.end) > 0) {
+            fallbackNormal(out.normal, a);
+        } else {
+            fallbackNormal(out.normal, b);
+        }
+    }
+
+    inflatePenetration(out, a.radius, b.radius);
+}
+
+const _intersectsSphere_closest = /*@__PURE__*/ vec3.create();
+
+/**
+ * Check whether a capsule and a sphere intersect
+ * @param capsule - The capsule
+ * @param sphere - The sphere
+ * @returns true if the shapes overlap or touch
+ */
+export function intersectsSphere(capsule: Capsule3, sphere: Sphere): boolean {
+    const closest = segment3.closestPoint(_intersectsSphere_closest, capsule, sphere.center);
+    const radiusSum = capsule.radius + sphere.radius;
+    return vec3.squaredDistance(closest, sphere.center) <= radiusSum * radiusSum;
+}
+
+/**
+ * Computes the penetration depth, normal and contact points of a capsule and a sphere.
+ * @param out - The output result (intersecting, depth, normal, contact points), see gjk.createPenetrationResult
+ * @param capsule - The capsule, shape A
+ * @param sphere - The sphere, shape B
+ */
+export function penetrationSphere(out: gjk.PenetrationResult, capsule: Capsule3, sphere: Sphere): void {
+    segment3.closestPoint(out.pointA, capsule, sphere.center);
+    vec3.copy(out.pointB, sphere.center);
+    fallbackNormal(out.normal, capsule);
+    inflatePenetration(out, capsule.radius, sphere.radius);
+}
+
+/* convex queries against the capsule's segment, inflated by its radius */
+
+const _core_start = /*@__PURE__*/ vec3.create();
+const _core_end = /*@__PURE__*/ vec3.create();
+const _core_support = /*@__PURE__*/ gjk.capsuleSupport(_core_start, _core_end, 0);
+
+const _box = /*@__PURE__*/ box3.create();
+const _box_support = /*@__PURE__*/ gjk.box3Support(_box);
+
+const _triangle_a = /*@__PURE__*/ vec3.create();
+const _triangle_b = /*@__PURE__*/ vec3.create();
+const _triangle_c = /*@__PURE__*/ vec3.create();
+const _triangle_support = /*@__PURE__*/ gjk.triangleSupport(_triangle_a, _triangle_b, _triangle_c);
+
+const _core_distance = /*@__PURE__*/ gjk.createDistanceResult();
+
+function setCore(capsule: Capsule3): void {
+    vec3.copy(_core_start, capsule.start);
+    vec3.copy(_core_end, capsule.end);
+}
+
+function setTriangle(a: Vec3, b: Vec3, c: Vec3): void {
+    vec3.copy(_triangle_a, a);
+    vec3.copy(_triangle_b, b);
+    vec3.copy(_triangle_c, c);
+}
+
+/**
+ * Completes a penetration result computed by GJK/EPA for the capsule's segment against shape B,
+ * inflating the segment by the capsule's radius. Inflating by a sphere deepens any penetration
+ * along the same normal by the radius, so the normal of the segment query is kept.
+ */
+function inflateCorePenetration(out: gjk.PenetrationResult, radius: number): void {
+    out.depth += radius;
+    out.intersecting = out.depth >= 0;
+    vec3.scaleAndAdd(out.pointA, out.pointA, out.normal, radius);
+}
+
+/**
+ * Check whether a capsule and an axis-aligned box intersect
+ * @param capsule - The capsule
+ * @param box - The box
+ * @returns true if the shapes overlap or touch
+ */
+export function intersectsBox3(capsule: Capsule3, box: Box3): boolean {
+    setCore(capsule);
+    box3.copy(_box, box);
+    gjk.distance(_core_distance, _core_support, _box_support);
+    return _core_distance.distance <= capsule.radius;
+}
+
+/**
+ * Computes the penetration depth, normal and contact points of a capsule and an axis-aligned box,
+ * using GJK/EPA against the capsule's segment.
+ * @param out - The output result (intersecting, depth, normal, contact points), see gjk.createPenetrationResult
+ * @param capsule - The capsule, shape A
+ * @param box - The box, shape B
+ */
+export function penetrationBox3(out: gjk.PenetrationResult, capsule: Capsule3, box: Box3): void {
+    setCore(capsule);
+    box3.copy(_box, box);
+    gjk.penetration(out, _core_support, _box_support);
+    inflateCorePenetration(out, capsule.radius);
+}
+
+/**
+ * Check whether a capsule and a triangle intersect
+ * @param capsule - The capsule
+ * @param a - The first vertex of the triangle
+ * @param b - The second vertex of the triangle
+ * @param c - The third vertex of the triangle
+ * @returns true if the shapes overlap or touch
+ */
+export function intersectsTriangle3(capsule: Capsule3, a: Vec3, b: Vec3, c: Vec3): boolean {
+    return segment3.distanceToTriangle(capsule, a, b, c) <= capsule.radius;
+}
+
+/**
+ * Computes the penetration depth, normal and contact points of a capsule and a triangle,
+ * using GJK/EPA against the capsule's segment.
+ * @param out - The output result (intersecting, depth, normal, contact points), see gjk.createPenetrationResult
+ * @param capsule - The capsule, shape A
+ * @param a - The first vertex of the triangle, shape B
+ * @param b - The second vertex of the triangle
+ * @param c - The third vertex of the triangle
+ */
+export function penetrationTriangle3(out: gjk.PenetrationResult, capsule: Capsule3, a: Vec3, b: Vec3, c: Vec3): void {
+    setCore(capsule);
+    setTriangle(a, b, c);
+    gjk.penetration(out, _core_support, _triangle_support);
+    inflateCorePenetration(out, capsule.radius);
+}
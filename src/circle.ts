@@ -1,7 +1,336 @@
 //!native
 
-import type { Circle } from './types';
+import { circumcircle } from './circumcircle';
+import * as common from './common';
+import * as segment2 from './segment2';
+import type { Circle, Mat2d, Vec2 } from './types';
+import * as vec2 from './vec2';
 
+/**
+ * Creates a new circle with a default center 0,0 and radius 0
+ * @returns A new circle
+ */
 export function create(): Circle {
     return { center: [0, 0], radius: 0 };
 }
+
+/**
+ * Creates a new circle from a center and radius
+ * @param center - The center of the circle
+ * @param radius - The radius of the circle
+ * @returns A new circle
+ */
+export function fromValues(center: Vec2, radius: number): Circle {
+    return { center: [center[0], center[1]], radius };
+}
+
+/**
+ * Clones a circle
+ * @param circle - The circle to clone
+ * @returns A new circle
+ */
+export function clone(circle: Circle): Circle {
+    return { center: [circle.center[0], circle.center[1]], radius: circle.radius };
+}
+
+/**
+ * Copies one circle to another
+ * @param out - The output circle
+ * @param circle - The source circle
+ * @returns The output circle
+ */
+export function copy(out: Circle, circle: Circle): Circle {
+    out.center[0] = circle.center[0];
+    out.center[1] = circle.center[1];
+    out.radius = circle.radius;
+    return out;
+}
+
+/**
+ * Sets the center and radius of a circle
+ * @param out - The output circle
+ * @param center - The center of the circle
+ * @param radius - The radius of the circle
+ * @returns The output circle
+ */
+export function set(out: Circle, center: Vec2, radius: number): Circle {
+    out.center[0] = center[0];
+    out.center[1] = center[1];
+    out.radius = radius;
+    return out;
+}
+
+/**
+ * Calculates the area of a circle
+ * @param circle - The circle
+ * @returns The area
+ */
+export function area(circle: Circle): number {
+    return math.pi * circle.radius * circle.radius;
+}
+
+/**
+ * Calculates the circumference of a circle
+ * @param circle - The circle
+ * @returns The circumference
+ */
+export function circumference(circle: Circle): number {
+    return 2 * math.pi * circle.radius;
+}
+
+/**
+ * Test if a point is contained within the circle
+ * @param circle - The circle
+ * @param point - The point to test
+ * @returns true if the point is inside or on the boundary of the circle
+ */
+export function containsPoint(circle: Circle, point: Vec2): boolean {
+    return vec2.squaredDistance(point, circle.center) <= circle.radius * circle.radius;
+}
+
+/**
+ * Check whether two circles intersect
+ * @param a - The first circle
+ * @param b - The second circle
+ * @returns true if the circles overlap or touch
+ */
+export function intersectsCircle(a: Circle, b: Circle): boolean {
+    const radiusSum = a.radius + b.radius;
+    return vec2.squaredDistance(a.center, b.center) <= radiusSum * radiusSum;
+}
+
+const _intersectsSegment_closestPoint = /*@__PURE__*/ vec2.create();
+
+/**
+ * Check whether a circle intersects a line segment
+ * @param circle - The circle
+ * @param a - First endpoint of the segment
+ * @param b - Second endpoint of the segment
+ * @returns true if any point of the segment is inside or on the boundary of the circle
+ */
+export function intersectsSegment(circle: Circle, a: Vec2, b: Vec2): boolean {
+    const closestPoint = segment2.closestPoint(_intersectsSegment_closestPoint, circle.center, a, b);
+    return containsPoint(circle, closestPoint);
+}
+
+/**
+ * Calculates the points where the boundaries of two circles cross.
+ * Reference: http://paulbourke.net/geometry/circlesphere/ (Intersection of two circles)
+ *
+ * @param outA - The first intersection point
+ * @param outB - The second intersection point (equal to outA when the circles touch)
+ * @param a - The first circle
+ * @param b - The second circle
+ * @returns The number of intersection points: 0 when the circles are separate, nested or coincident, 1 when they touch, 2 otherwise
+ */
+export function intersectionPoints(outA: Vec2, outB: Vec2, a: Circle, b: Circle): number {
+    const dx = b.center[0] - a.center[0];
+    const dy = b.center[1] - a.center[1];
+    const d = math.sqrt(dx * dx + dy * dy);
+
+    if (d <= common.EPSILON) return 0;
+    if (d > a.radius + b.radius || d < math.abs(a.radius - b.radius)) return 0;
+
+    // distance from a's center to the chord joining the intersection points
+    const l = (a.radius * a.radius - b.radius * b.radius + d * d) / (2 * d);
+    const h = math.sqrt(math.max(0, a.radius * a.radius - l * l));
+
+    const px = a.center[0] + (dx * l) / d;
+    const py = a.center[1] + (dy * l) / d;
+    const ox = (-dy * h) / d;
+    const oy = (dx * h) / d;
+
+    outA[0] = px + ox;
+    outA[1] = py + oy;
+    outB[0] = px - ox;
+    outB[1] = py - oy;
+
+    return h <= common.EPSILON * math.max(1, a.radius) ? 1 : 2;
+}
+
+/**
+ * Calculates the points on a circle where lines through an external point touch it tangentially
+ * @param outA - The first tangent point
+ * @param outB - The second tangent point
+ * @param circle - The circle
+ * @param point - The external point
+ * @returns true if tangent points exist, false if the point is inside the circle
+ */
+export function tangentPoints(outA: Vec2, outB: Vec2, circle: Circle, point: Vec2): boolean {
+    const dx = point[0] - circle.center[0];
+    const dy = point[1] - circle.center[1];
+    const dSq = dx * dx + dy * dy;
+    const rSq = circle.radius * circle.radius;
+
+    if (dSq < rSq) return false;
+
+    // tangent points lie on the chord at r²/d from the center, r·√(d² - r²)/d either side of the center line
+    const l = rSq / dSq;
+    const h = (circle.radius * math.sqrt(dSq - rSq)) / dSq;
+
+    const px = circle.center[0] + dx * l;
+    const py = circle.center[1] + dy * l;
+    const ox = -dy * h;
+    const oy = dx * h;
+
+    outA[0] = px + ox;
+    outA[1] = py + oy;
+    outB[0] = px - ox;
+    outB[1] = py - oy;
+
+    return true;
+}
+
+/**
+ * Transforms a circle by a 2D affine matrix.
+ * The center is transformed by the full matrix and the radius is scaled by
+ * the largest stretch of the matrix (its largest singular value), so a
+ * non-uniformly scaled or sheared circle yields the smallest circle around the
+ * same center that encloses the resulting ellipse.
+ * @param out - The output circle
+ * @param circle - The input circle
+ * @param m - The 2D affine transformation matrix
+ * @returns The transformed circle
+ */
+export function transformMat2d(out: Circle, circle: Circle, m: Mat2d): Circle {
+    // the squared singular values are the eigenvalues of the Gram matrix of the columns
+    const scaleXSq = m[0] * m[0] + m[1] * m[1];
+    const scaleYSq = m[2] * m[2] + m[3] * m[3];
+    const xy = m[0] * m[2] + m[1] * m[3];
+    const mean = (scaleXSq + scaleYSq) * 0.5;
+    const halfDifference = (scaleXSq - scaleYSq) * 0.5;
+    const largestSq = mean + math.sqrt(halfDifference * halfDifference + xy * xy);
+
+    vec2.transformMat2d(out.center, circle.center, m);
+    out.radius = circle.radius * math.sqrt(largestSq);
+
+    return out;
+}
+
+const _setFromPoints_order: number[] = [];
+const _setFromPoints_a = /*@__PURE__*/ vec2.create();
+const _setFromPoints_b = /*@__PURE__*/ vec2.create();
+const _setFromPoints_c = /*@__PURE__*/ vec2.create();
+
+/**
+ * Computes the minimal enclosing circle of a set of points using Welzl's algorithm.
+ * Points are given as a flat array, matching the layout used by quickhull2.
+ * An empty point array produces a zero radius circle at the origin.
+ *
+ * Reference: Emo Welzl, "Smallest enclosing disks (balls and ellipsoids)" (1991)
+ *
+ * @param out - The output circle
+ * @param points - Flat array of 2D points: [x0, y0, x1, y1, ...]
+ * @param randomFn - Function to generate random numbers for shuffling, defaults to math.random
+ * @returns The minimal enclosing circle
+ */
+export function setFromPoints(out: Circle, points: number[], randomFn: () => number = math.random): Circle {
+    const n = math.floor(points.size() / 2);
+
+    out.center[0] = 0;
+    out.center[1] = 0;
+    out.radius = 0;
+
+    if (n === 0) return out;
+
+    // shuffle point order for expected linear running time
+    const order = _setFromPoints_order;
+    order.clear();
+    for (let i = 0; i < n; i++) {
+        order.push(i);
+    }
+    for (let i = n - 1; i > 0; i--) {
+        const j = math.floor(randomFn() * (i + 1));
+        const tmp = order[i];
+        order[i] = order[j];
+        order[j] = tmp;
+    }
+
+    circleFrom1(out, points, order[0]);
+
+    for (let i = 1; i < n; i++) {
+        const pi = order[i];
+        if (containsIndex(out, points, pi)) continue;
+
+        circleFrom1(out, points, pi);
+
+        for (let j = 0; j < i; j++) {
+            const pj = order[j];
+            if (containsIndex(out, points, pj)) continue;
+
+            circleFrom2(out, points, pi, pj);
+
+            for (let k = 0; k < j; k++) {
+                const pk = order[k];
+                if (containsIndex(out, points, pk)) continue;
+
+                circleFrom3(out, points, pi, pj, pk);
+            }
+        }
+    }
+
+    return out;
+}
+
+function containsIndex(circle: Circle, points: number[], i: number): boolean {
+    const dx = points[i * 2] - circle.center[0];
+    const dy = points[i * 2 + 1] - circle.center[1];
+    // relative tolerance so support points re-tested against their own circle count as inside
+    const r = circle.radius + common.EPSILON * math.max(1, circle.radius);
+    return dx * dx + dy * dy <= r * r;
+}
+
+function circleFrom1(out: Circle, points: number[], a: number): void {
+    out.center[0] = points[a * 2];
+    out.center[1] = points[a * 2 + 1];
+    out.radius = 0;
+}
+
+function circleFrom2(out: Circle, points: number[], a: number, b: number): void {
+    const ax = points[a * 2];
+    const ay = points[a * 2 + 1];
+    const dx = points[b * 2] - ax;
+    const dy = points[b * 2 + 1] - ay;
+
+    out.center[0] = ax + dx * 0.5;
+    out.center[1] = ay + dy * 0.5;
+    out.radius = math.sqrt(dx * dx + dy * dy) * 0.5;
+}
+
+function circleFrom3(out: Circle, points: number[], a: number, b: number, c: number): void {
+    vec2.set(_setFromPoints_a, points[a * 2], points[a * 2 + 1]);
+    vec2.set(_setFromPoints_b, points[b * 2], points[b * 2 + 1]);
+    vec2.set(_setFromPoints_c, points[c * 2], points[c * 2 + 1]);
+
+    circumcircle(out, _setFromPoints_a, _setFromPoints_b, _setFromPoints_c);
+
+    if (out.radius === 0) {
+        // collinear: the longest edge spans all three points
+        const abSq = vec2.squaredDistance(_setFromPoints_a, _setFromPoints_b);
+        const acSq = vec2.squaredDistance(_setFromPoints_a, _setFromPoints_c);
+        const bcSq = vec2.squaredDistance(_setFromPoints_b, _setFromPoints_c);
+        if (abSq >= acSq && abSq >= bcSq) circleFrom2(out, points, a, b);
+        else if (acSq >= bcSq) circleFrom2(out, points, a, c);
+        else circleFrom2(out, points, b, c);
+    }
+}
+
+/**
+ * Returns whether or not the circles have exactly the same center and radius (when compared with ===)
+ * @param a - The first circle
+ * @param b - The second circle
+ * @returns True if the circles are equal, false otherwise
+ */
+export function exactEquals(a: Circle, b: Circle): boolean {
+    return vec2.exactEquals(a.center, b.center) && a.radius === b.radius;
+}
+
+/**
+ * Returns whether or not the circles have approximately the same center and radius
+ * @param a - The first circle
+ * @param b - The second circle
+ * @returns True if the circles are equal, false otherwise
+ */
+export function equals(a: Circle, b: Circle): boolean {
+    return vec2.equals(a.center, b.center) && common.equals(a.radius, b.radius);
+}
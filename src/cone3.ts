@@ -0,0 +1,139 @@
+//!native
+
+import type { Box3, Cone3, Vec3 } from './types';
+import * as vec3 from './vec3';
+
+/**
+ * Creates a new cone with its apex at the origin, a base one unit along the y axis and radius 0.5
+ * @returns A new cone
+ */
+export function create(): Cone3 {
+    return { apex: [0, 0, 0], base: [0, 1, 0], radius: 0.5 };
+}
+
+/**
+ * Creates a new cone from its apex, the center of its base and the radius of its base
+ * @param apex - The apex of the cone
+ * @param base - The center of the base disc
+ * @param radius - The radius of the base disc
+ * @returns A new cone
+ */
+export function fromValues(apex: Vec3, base: Vec3, radius: number): Cone3 {
+    return { apex: [apex[0], apex[1], apex[2]], base: [base[0], base[1], base[2]], radius };
+}
+
+/**
+ * Clones a cone
+ * @param cone - The cone to clone
+ * @returns A new cone
+ */
+export function clone(cone: Cone3): Cone3 {
+    return fromValues(cone.apex, cone.base, cone.radius);
+}
+
+/**
+ * Copies one cone to another
+ * @param out - The output cone
+ * @param cone - The source cone
+ * @returns The output cone
+ */
+export function copy(out: Cone3, cone: Cone3): Cone3 {
+    vec3.copy(out.apex, cone.apex);
+    vec3.copy(out.base, cone.base);
+    out.radius = cone.radius;
+    return out;
+}
+
+/**
+ * Sets the apex, base and radius of a cone
+ * @param out - The output cone
+ * @param apex - The apex of the cone
+ * @param base - The center of the base disc
+ * @param radius - The radius of the base disc
+ * @returns The output cone
+ */
+export function set(out: Cone3, apex: Vec3, base: Vec3, radius: number): Cone3 {
+    vec3.copy(out.apex, apex);
+    vec3.copy(out.base, base);
+    out.radius = radius;
+    return out;
+}
+
+/**
+ * Sets a cone from its apex, the direction it opens towards, its height and the angle between
+ * its axis and its surface, e.g. a view cone from an eye position, look direction, view range
+ * and half of the field of view
+ * @param out - The output cone
+ * @param apex - The apex of the cone
+ * @param direction - The direction from the apex to the base, need not be normalized
+ * @param height - The distance from the apex to the base
+ * @param angle - The half angle of the cone in radians, less than pi / 2
+ * @returns The output cone
+ */
+export function setFromDirectionAndAngle(out: Cone3, apex: Vec3, direction: Vec3, height: number, angle: number): Cone3 {
+    const length = vec3.length(direction);
+    const scale = length > 0 ? height / length : 0;
+    out.base[0] = apex[0] + direction[0] * scale;
+    out.base[1] = apex[1] + direction[1] * scale;
+    out.base[2] = apex[2] + direction[2] * scale;
+    vec3.copy(out.apex, apex);
+    out.radius = height * math.tan(angle);
+    return out;
+}
+
+/**
+ * Computes the axis-aligned bounding box of a cone, the bounds of its apex and base disc
+ * @param out - The output Box3
+ * @param cone - The cone
+ * @returns The bounding box
+ */
+export function getBoundingBox(out: Box3, cone: Cone3): Box3 {
+    const { apex, base, radius } = cone;
+    const dx = base[0] - apex[0];
+    const dy = base[1] - apex[1];
+    const dz = base[2] - apex[2];
+    const lengthSq = dx * dx + dy * dy + dz * dz;
+
+    // a disc of radius r around a unit axis n extends r * sqrt(1 - n_i^2) along world axis i
+    let ex = radius;
+    let ey = radius;
+    let ez = radius;
+    if (lengthSq > 0) {
+        ex = radius * math.sqrt(math.max(0, 1 - (dx * dx) / lengthSq));
+        ey = radius * math.sqrt(math.max(0, 1 - (dy * dy) / lengthSq));
+        ez = radius * math.sqrt(math.max(0, 1 - (dz * dz) / lengthSq));
+    }
+
+    out[0] = math.min(apex[0], base[0] - ex);
+    out[1] = math.min(apex[1], base[1] - ey);
+    out[2] = math.min(apex[2], base[2] - ez);
+    out[3] = math.max(apex[0], base[0] + ex);
+    out[4] = math.max(apex[1], base[1] + ey);
+    out[5] = math.max(apex[2], base[2] + ez);
+    return out;
+}
+
+/**
+ * Test if a point is contained within the cone
+ * @param cone - The cone
+ * @param point - The point to test
+ * @returns true if the point is inside or on the surface of the cone
+ */
+export function containsPoint(cone: Cone3, point: Vec3): boolean {
+    const { apex, base, radius } = cone;
+    const dx = base[0] - apex[0];
+    const dy = base[1] - apex[1];
+    const dz = base[2] - apex[2];
+    const px = point[0] - apex[0];
+    const py = point[1] - apex[1];
+    const pz = point[2] - apex[2];
+
+    const lengthSq = dx * dx + dy * dy + dz * dz;
+    const y = px * dx + py * dy + pz * dz;
+    if (lengthSq === 0 || y < 0 || y > lengthSq) return false;
+
+    // the radius grows linearly from 0 at the apex to radius at the base
+    const axial = y / lengthSq;
+    const allowed = radius * axial;
+    return px * px + py * py + pz * pz - y * axial <= allowed * allowed;
+}
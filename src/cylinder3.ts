@@ -0,0 +1,115 @@
+//!native
+
+import type { Box3, Cylinder3, Vec3 } from './types';
+import * as vec3 from './vec3';
+
+/**
+ * Creates a new cylinder with a unit axis along the y axis and radius 0.5
+ * @returns A new cylinder
+ */
+export function create(): Cylinder3 {
+    return { start: [0, 0, 0], end: [0, 1, 0], radius: 0.5 };
+}
+
+/**
+ * Creates a new cylinder from the centers of its caps and a radius
+ * @param start - The center of the first cap
+ * @param end - The center of the second cap
+ * @param radius - The radius of the cylinder
+ * @returns A new cylinder
+ */
+export function fromValues(start: Vec3, end: Vec3, radius: number): Cylinder3 {
+    return { start: [start[0], start[1], start[2]], end: [end[0], end[1], end[2]], radius };
+}
+
+/**
+ * Clones a cylinder
+ * @param cylinder - The cylinder to clone
+ * @returns A new cylinder
+ */
+export function clone(cylinder: Cylinder3): Cylinder3 {
+    return fromValues(cylinder.start, cylinder.end, cylinder.radius);
+}
+
+/**
+ * Copies one cylinder to another
+ * @param out - The output cylinder
+ * @param cylinder - The source cylinder
+ * @returns The output cylinder
+ */
+export function copy(out: Cylinder3, cylinder: Cylinder3): Cylinder3 {
+    vec3.copy(out.start, cylinder.start);
+    vec3.copy(out.end, cylinder.end);
+    out.radius = cylinder.radius;
+    return out;
+}
+
+/**
+ * Sets the caps and radius of a cylinder
+ * @param out - The output cylinder
+ * @param start - The center of the first cap
+ * @param end - The center of the second cap
+ * @param radius - The radius of the cylinder
+ * @returns The output cylinder
+ */
+export function set(out: Cylinder3, start: Vec3, end: Vec3, radius: number): Cylinder3 {
+    vec3.copy(out.start, start);
+    vec3.copy(out.end, end);
+    out.radius = radius;
+    return out;
+}
+
+/**
+ * Computes the axis-aligned bounding box of a cylinder, the bounds of its two cap discs
+ * @param out - The output Box3
+ * @param cylinder - The cylinder
+ * @returns The bounding box
+ */
+export function getBoundingBox(out: Box3, cylinder: Cylinder3): Box3 {
+    const { start, end, radius } = cylinder;
+    const dx = end[0] - start[0];
+    const dy = end[1] - start[1];
+    const dz = end[2] - start[2];
+    const lengthSq = dx * dx + dy * dy + dz * dz;
+
+    // a disc of radius r around a unit axis n extends r * sqrt(1 - n_i^2) along world axis i
+    let ex = radius;
+    let ey = radius;
+    let ez = radius;
+    if (lengthSq > 0) {
+        ex = radius * math.sqrt(math.max(0, 1 - (dx * dx) / lengthSq));
+        ey = radius * math.sqrt(math.max(0, 1 - (dy * dy) / lengthSq));
+        ez = radius * math.sqrt(math.max(0, 1 - (dz * dz) / lengthSq));
+    }
+
+    out[0] = math.min(start[0], end[0]) - ex;
+    out[1] = math.min(start[1], end[1]) - ey;
+    out[2] = math.min(start[2], end[2]) - ez;
+    out[3] = math.max(start[0], end[0]) + ex;
+    out[4] = math.max(start[1], end[1]) + ey;
+    out[5] = math.max(start[2], end[2]) + ez;
+    return out;
+}
+
+/**
+ * Test if a point is contained within the cylinder
+ * @param cylinder - The cylinder
+ * @param point - The point to test
+ * @returns true if the point is inside or on the surface of the cylinder
+ */
+export function containsPoint(cylinder: Cylinder3, point: Vec3): boolean {
+    const { start, end, radius } = cylinder;
+    const dx = end[0] - start[0];
+    const dy = end[1] - start[1];
+    const dz = end[2] - start[2];
+    const px = point[0] - start[0];
+    const py = point[1] - start[1];
+    const pz = point[2] - start[2];
+
+    const lengthSq = dx * dx + dy * dy + dz * dz;
+    const y = px * dx + py * dy + pz * dz;
+    if (lengthSq === 0 || y < 0 || y > lengthSq) return false;
+
+    // squared distance from the axis
+    return px * px + py * py + pz * pz - (y * y) / lengthSq <= radius * radius;
+}
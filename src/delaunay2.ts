@@ -0,0 +1,834 @@
+//!native
+
+import * as circle from './circle';
+import { circumcircle } from './circumcircle';
+import * as vec2 from './vec2';
+
+/**
+ * A 2D Delaunay triangulation with half-edge adjacency.
+ * Half-edge e belongs to triangle floor(e / 3) and runs from triangles[e] to triangles[nextHalfedge(e)].
+ *  triangles   - point indices, three per triangle in counter-clockwise order: [a0, b0, c0, a1, b1, c1, ...]
+ *  halfedges   - for each half-edge, the opposite half-edge in the adjacent triangle, or -1 on the hull
+ *  constrained - for each half-edge, whether it lies on a constrained edge
+ *  hull        - point indices of the convex hull in counter-clockwise order
+ * @see create
+ */
+export type Delaunay2 = {
+    triangles: number[];
+    halfedges: number[];
+    constrained: boolean[];
+    hull: number[];
+};
+
+/**
+ * Creates a new empty triangulation
+ * @returns A new triangulation
+ */
+export function create(): Delaunay2 {
+    return {
+        triangles: [],
+        halfedges: [],
+        constrained: [],
+        hull: [],
+    };
+}
+
+/**
+ * Gets the next half-edge of the same triangle
+ * @param e - The half-edge
+ * @returns The half-edge starting where e ends
+ */
+export function nextHalfedge(e: number): number {
+    return e % 3 === 2 ? e - 2 : e + 1;
+}
+
+/**
+ * Gets the previous half-edge of the same triangle
+ * @param e - The half-edge
+ * @returns The half-edge ending where e starts
+ */
+export function prevHalfedge(e: number): number {
+    return e % 3 === 0 ? e + 2 : e - 1;
+}
+
+/** Half the size of the super triangle, relative to the extent of the input points */
+const SUPER_TRIANGLE_SCALE = 1000;
+
+/** Relative size below which an in-circle determinant is treated as cocircular, so noise cannot trigger flips */
+const INCIRCLE_TOLERANCE = 1e-12;
+
+const _coords: number[] = [];
+const _alias: number[] = [];
+const _vertexEdge: number[] = [];
+
+/**
+ * Computes the Delaunay triangulation of a set of 2D points, optionally constrained to contain a set of edges.
+ *
+ * Points are inserted with the Bowyer-Watson algorithm, using the circumcircle of each triangle to find the
+ * triangles a new point invalidates. Constrained edges are then recovered by flipping the edges that cross them,
+ * after which the triangulation is Delaunay everywhere except across constrained edges.
+ *
+ * The triangulation always covers the convex hull of the points. Duplicate points are left out of the triangles,
+ * constrained edges referring to them use the first point at the same position instead.
+ * Fewer than 3 points or collinear points yield no triangles.
+ *
+ * References:
+ * - Adrian Bowyer, "Computing Dirichlet tessellations" (1981)
+ * - David F. Watson, "Computing the n-dimensional Delaunay tessellation with application to Voronoi polytopes" (1981)
+ * - S. W. Sloan, "A fast algorithm for generating constrained Delaunay triangulations" (1993)
+ *
+ * @param out - The output triangulation
+ * @param points - Flat array of 2D points: [x0, y0, x1, y1, ...]
+ * @param constraints - Flat array of point index pairs for edges that must appear in the triangulation: [a0, b0, a1, b1, ...]
+ * @returns The output triangulation
+ * @throws If two constrained edges cross each other
+ */
+export function triangulate(out: Delaunay2, points: number[], constraints?: number[]): Delaunay2 {
+    out.triangles.clear();
+    out.halfedges.clear();
+    out.constrained.clear();
+    out.hull.clear();
+
+    const n = math.floor(points.size() / 2);
+    if (n < 3) return out;
+
+    const coords = _coords;
+    const alias = _alias;
+    coords.clear();
+    alias.clear();
+
+    let minX = math.huge;
+    let minY = math.huge;
+    let maxX = -math.huge;
+    let maxY = -math.huge;
+
+    for (let i = 0; i < n; i++) {
+        const x = points[i * 2];
+        const y = points[i * 2 + 1];
+        coords.push(x, y);
+        alias.push(i);
+        minX = math.min(minX, x);
+        minY = math.min(minY, y);
+        maxX = math.max(maxX, x);
+        maxY = math.max(maxY, y);
+    }
+
+    // super triangle enclosing all points, its vertices follow the input points
+    const size = math.max(maxX - minX, maxY - minY, 1e-9) * SUPER_TRIANGLE_SCALE;
+    const midX = (minX + maxX) * 0.5;
+    const midY = (minY + maxY) * 0.5;
+    coords.push(midX - size, midY - size, midX + size, midY - size, midX, midY + size);
+
+    insertPoints(n);
+    extractTriangles(out, n);
+    if (out.triangles.size() === 0) return out;
+
+    fillHullPockets(out);
+
+    const vertexEdge = _vertexEdge;
+    vertexEdge.clear();
+    for (let i = 0; i < n; i++) {
+        vertexEdge.push(-1);
+    }
+    for (let e = 0; e < out.triangles.size(); e++) {
+        vertexEdge[out.triangles[e]] = e;
+    }
+
+    legalizeAll(out);
+
+    if (constraints !== undefined) {
+        for (let i = 0; i + 1 < constraints.size(); i += 2) {
+            insertConstraint(out, alias[constraints[i]], alias[constraints[i + 1]]);
+        }
+    }
+
+    computeHull(out);
+
+    return out;
+}
+
+// Bowyer-Watson insertion
+
+const _bw_triangles: number[] = [];
+const _bw_halfedges: number[] = [];
+const _bw_circles: number[] = [];
+const _bw_marks: number[] = [];
+const _bw_free: number[] = [];
+const _bw_stack: number[] = [];
+const _bw_cavity: number[] = [];
+const _bw_boundary: number[] = [];
+const _bw_created: number[] = [];
+const _bw_fan = new Map<number, number>();
+const _bw_circle = /*@__PURE__*/ circle.create();
+const _bw_a = /*@__PURE__*/ vec2.create();
+const _bw_b = /*@__PURE__*/ vec2.create();
+const _bw_c = /*@__PURE__*/ vec2.create();
+
+function insertPoints(n: number): void {
+    const coords = _coords;
+    const triangles = _bw_triangles;
+    const halfedges = _bw_halfedges;
+    const marks = _bw_marks;
+    const stack = _bw_stack;
+    const cavity = _bw_cavity;
+    const boundary = _bw_boundary;
+    const created = _bw_created;
+    const fan = _bw_fan;
+
+    triangles.clear();
+    halfedges.clear();
+    _bw_circles.clear();
+    marks.clear();
+    _bw_free.clear();
+
+    let last = addTriangle(n, n + 1, n + 2);
+    let stamp = 0;
+
+    for (let i = 0; i < n; i++) {
+        const px = coords[i * 2];
+        const py = coords[i * 2 + 1];
+
+        const start = locate(last, px, py);
+        if (start === -1) continue;
+
+        // duplicate points are skipped and stand in for the point they coincide with
+        let duplicate = -1;
+        for (let k = 0; k < 3; k++) {
+            const v = triangles[start * 3 + k];
+            if (coords[v * 2] === px && coords[v * 2 + 1] === py) duplicate = v;
+        }
+        if (duplicate !== -1) {
+            _alias[i] = _alias[duplicate];
+            continue;
+        }
+
+        // flood fill the triangles whose circumcircle contains the point
+        stamp++;
+        cavity.clear();
+        stack.clear();
+        marks[start] = stamp;
+        cavity.push(start);
+        stack.push(start);
+
+        while (stack.size() > 0) {
+            const t = stack.pop()!;
+            for (let k = 0; k < 3; k++) {
+                const twin = halfedges[t * 3 + k];
+                if (twin === -1) continue;
+
+                const u = math.floor(twin / 3);
+                if (marks[u] !== stamp && inCircumcircle(u, px, py)) {
+                    marks[u] = stamp;
+                    cavity.push(u);
+                    stack.push(u);
+                }
+            }
+        }
+
+        // the cavity must be star-shaped from the point, drop triangles that break this through rounding
+        let removed = true;
+        while (removed) {
+            removed = false;
+            boundary.clear();
+
+            for (const t of cavity) {
+                if (marks[t] !== stamp) continue;
+
+                for (let k = 0; k < 3; k++) {
+                    const e = t * 3 + k;
+                    const twin = halfedges[e];
+                    if (twin !== -1 && marks[math.floor(twin / 3)] === stamp) continue;
+
+                    const a = triangles[e];
+                    const b = triangles[nextHalfedge(e)];
+                    if (t !== start && orient(a, b, i) <= 0) {
+                        marks[t] = 0;
+                        removed = true;
+                        break;
+                    }
+                    boundary.push(a, b, twin);
+                }
+            }
+        }
+
+        for (const t of cavity) {
+            if (marks[t] !== stamp) continue;
+            triangles[t * 3] = -1;
+            _bw_free.push(t);
+        }
+
+        // connect the point to every boundary edge of the cavity
+        created.clear();
+        fan.clear();
+        for (let j = 0; j < boundary.size(); j += 3) {
+            const t = addTriangle(boundary[j], boundary[j + 1], i);
+            const twin = boundary[j + 2];
+            halfedges[t * 3] = twin;
+            if (twin !== -1) halfedges[twin] = t * 3;
+            fan.set(boundary[j], t);
+            created.push(t);
+        }
+
+        for (const t of created) {
+            const u = fan.get(triangles[t * 3 + 1])!;
+            halfedges[t * 3 + 1] = u * 3 + 2;
+            halfedges[u * 3 + 2] = t * 3 + 1;
+        }
+
+        last = created[created.size() - 1];
+    }
+}
+
+function addTriangle(a: number, b: number, c: number): number {
+    const triangles = _bw_triangles;
+    const halfedges = _bw_halfedges;
+    const circles = _bw_circles;
+    const t = _bw_free.size() > 0 ? _bw_free.pop()! : triangles.size() / 3;
+
+    if (t * 3 === triangles.size()) {
+        triangles.push(a, b, c);
+        halfedges.push(-1, -1, -1);
+        circles.push(0, 0, 0);
+        _bw_marks.push(0);
+    } else {
+        triangles[t * 3] = a;
+        triangles[t * 3 + 1] = b;
+        triangles[t * 3 + 2] = c;
+        halfedges[t * 3] = -1;
+        halfedges[t * 3 + 1] = -1;
+        halfedges[t * 3 + 2] = -1;
+        _bw_marks[t] = 0;
+    }
+
+    const coords = _coords;
+    vec2.set(_bw_a, coords[a * 2], coords[a * 2 + 1]);
+    vec2.set(_bw_b, coords[b * 2], coords[b * 2 + 1]);
+    vec2.set(_bw_c, coords[c * 2], coords[c * 2 + 1]);
+    circumcircle(_bw_circle, _bw_a, _bw_b, _bw_c);
+
+    // near degenerate triangles get no circle and fall back to the in-circle determinant
+    circles[t * 3] = _bw_circle.center[0];
+    circles[t * 3 + 1] = _bw_circle.center[1];
+    circles[t * 3 + 2] = _bw_circle.radius > 0 ? _bw_circle.radius * _bw_circle.radius : -1;
+
+    return t;
+}
+
+function inCircumcircle(t: number, px: number, py: number): boolean {
+    const circles = _bw_circles;
+    const radiusSq = circles[t * 3 + 2];
+
+    if (radiusSq > 0) {
+        const dx = px - circles[t * 3];
+        const dy = py - circles[t * 3 + 1];
+        return dx * dx + dy * dy < radiusSq;
+    }
+
+    const triangles = _bw_triangles;
+    const coords = _coords;
+    const a = triangles[t * 3] * 2;
+    const b = triangles[t * 3 + 1] * 2;
+    const c = triangles[t * 3 + 2] * 2;
+    return incircle(coords[a], coords[a + 1], coords[b], coords[b + 1], coords[c], coords[c + 1], px, py) > 0;
+}
+
+function locate(start: number, px: number, py: number): number {
+    const triangles = _bw_triangles;
+    const halfedges = _bw_halfedges;
+    const coords = _coords;
+    const count = triangles.size() / 3;
+
+    // walk towards the point, crossing any edge it lies beyond
+    let t = start;
+    for (let steps = 0; steps <= count; steps++) {
+        let next = -1;
+        for (let k = 0; k < 3; k++) {
+            const e = t * 3 + k;
+            const a = triangles[e] * 2;
+            const b = triangles[nextHalfedge(e)] * 2;
+            if (orient2(coords[a], coords[a + 1], coords[b], coords[b + 1], px, py) < 0) {
+                next = halfedges[e];
+                break;
+            }
+        }
+        if (next === -1) return t;
+        t = math.floor(next / 3);
+    }
+
+    // the walk can only cycle on rounding errors, fall back to a scan
+    for (let u = 0; u < count; u++) {
+        if (triangles[u * 3] === -1) continue;
+
+        let inside = true;
+        for (let k = 0; k < 3; k++) {
+            const e = u * 3 + k;
+            const a = triangles[e] * 2;
+            const b = triangles[nextHalfedge(e)] * 2;
+            if (orient2(coords[a], coords[a + 1], coords[b], coords[b + 1], px, py) < 0) inside = false;
+        }
+        if (inside) return u;
+    }
+
+    return -1;
+}
+
+const _extract_remap: number[] = [];
+
+function extractTriangles(out: Delaunay2, n: number): void {
+    const triangles = _bw_triangles;
+    const halfedges = _bw_halfedges;
+    const remap = _extract_remap;
+    const count = triangles.size() / 3;
+
+    // drop freed triangles and those touching the super triangle
+    remap.clear();
+    let kept = 0;
+    for (let t = 0; t < count; t++) {
+        const a = triangles[t * 3];
+        if (a === -1 || a >= n || triangles[t * 3 + 1] >= n || triangles[t * 3 + 2] >= n) {
+            remap.push(-1);
+        } else {
+            remap.push(kept);
+            kept++;
+        }
+    }
+
+    for (let t = 0; t < count; t++) {
+        if (remap[t] === -1) continue;
+
+        for (let k = 0; k < 3; k++) {
+            const twin = halfedges[t * 3 + k];
+            const u = twin === -1 ? -1 : remap[math.floor(twin / 3)];
+            out.triangles.push(triangles[t * 3 + k]);
+            out.halfedges.push(u === -1 ? -1 : u * 3 + (twin % 3));
+            out.constrained.push(false);
+        }
+    }
+}
+
+// Hull and edge flipping
+
+const _pockets_boundary = new Map<number, number>();
+const _pockets_edges: number[] = [];
+
+/**
+ * The finite super triangle can cut off thin slivers along the hull, fill the concave
+ * corners of the boundary with ears until it is convex again.
+ */
+function fillHullPockets(out: Delaunay2): void {
+    const triangles = out.triangles;
+    const halfedges = out.halfedges;
+    const boundary = _pockets_boundary;
+    const edges = _pockets_edges;
+
+    boundary.clear();
+    for (let e = 0; e < halfedges.size(); e++) {
+        if (halfedges[e] === -1) boundary.set(triangles[e], e);
+    }
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        edges.clear();
+        boundary.forEach((e) => {
+            edges.push(e);
+        });
+
+        for (const e1 of edges) {
+            if (halfedges[e1] !== -1) continue;
+
+            const a = triangles[e1];
+            const b = triangles[nextHalfedge(e1)];
+            const e2 = boundary.get(b);
+            if (e2 === undefined || halfedges[e2] !== -1) continue;
+
+            const c = triangles[nextHalfedge(e2)];
+            if (c === a || orient(a, b, c) >= 0) continue;
+
+            let blocked = false;
+            for (const [v] of boundary) {
+                if (v !== a && v !== b && v !== c && orient(a, c, v) >= 0 && orient(c, b, v) >= 0 && orient(b, a, v) >= 0) {
+                    blocked = true;
+                    break;
+                }
+            }
+            if (blocked) continue;
+
+            const t = triangles.size();
+            triangles.push(a, c, b);
+            halfedges.push(-1, e2, e1);
+            out.constrained.push(false, false, false);
+            halfedges[e2] = t + 1;
+            halfedges[e1] = t + 2;
+
+            boundary.delete(b);
+            boundary.set(a, t);
+            changed = true;
+        }
+    }
+}
+
+const _legalize_stack: number[] = [];
+
+function legalizeAll(out: Delaunay2): void {
+    const stack = _legalize_stack;
+    stack.clear();
+    for (let e = 0; e < out.halfedges.size(); e++) {
+        if (e < out.halfedges[e]) stack.push(e);
+    }
+
+    while (stack.size() > 0) {
+        const e = stack.pop()!;
+        if (!isIllegal(out, e)) continue;
+
+        flip(out, e);
+        stack.push(nextHalfedge(e), prevHalfedge(e));
+        const f = out.halfedges[e];
+        stack.push(nextHalfedge(f), prevHalfedge(f));
+    }
+}
+
+/**
+ * Whether the edge is shared by two triangles and the far vertex of the second lies inside the circumcircle of the first
+ */
+function isIllegal(out: Delaunay2, e: number): boolean {
+    const f = out.halfedges[e];
+    if (f === -1 || out.constrained[e]) return false;
+
+    const triangles = out.triangles;
+    const coords = _coords;
+    const p = triangles[e] * 2;
+    const q = triangles[nextHalfedge(e)] * 2;
+    const r = triangles[prevHalfedge(e)] * 2;
+    const s = triangles[prevHalfedge(f)] * 2;
+
+    const adx = coords[p] - coords[s];
+    const ady = coords[p + 1] - coords[s + 1];
+    const bdx = coords[q] - coords[s];
+    const bdy = coords[q + 1] - coords[s + 1];
+    const cdx = coords[r] - coords[s];
+    const cdy = coords[r + 1] - coords[s + 1];
+
+    const alift = adx * adx + ady * ady;
+    const blift = bdx * bdx + bdy * bdy;
+    const clift = cdx * cdx + cdy * cdy;
+    const ab = adx * bdy - ady * bdx;
+    const bc = bdx * cdy - bdy * cdx;
+    const ca = cdx * ady - cdy * adx;
+
+    const det = alift * bc + blift * ca + clift * ab;
+    const magnitude = alift * math.abs(bc) + blift * math.abs(ca) + clift * math.abs(ab);
+    return det > INCIRCLE_TOLERANCE * magnitude;
+}
+
+/**
+ * Replaces the diagonal p-q of the quad formed by the two triangles sharing half-edge e with the other diagonal r-s.
+ * The half-edges e and its twin keep their slots and become the new diagonal.
+ */
+function flip(out: Delaunay2, e: number): void {
+    const triangles = out.triangles;
+    const halfedges = out.halfedges;
+    const constrained = out.constrained;
+
+    const f = halfedges[e];
+    const en = nextHalfedge(e);
+    const ep = prevHalfedge(e);
+    const fn = nextHalfedge(f);
+    const fp = prevHalfedge(f);
+
+    // triangle e is p, q, r and triangle f is q, p, s
+    const p = triangles[e];
+    const q = triangles[en];
+    const r = triangles[ep];
+    const s = triangles[fp];
+
+    const twinEn = halfedges[en];
+    const twinEp = halfedges[ep];
+    const twinFn = halfedges[fn];
+    const twinFp = halfedges[fp];
+    const constrainedEn = constrained[en];
+    const constrainedEp = constrained[ep];
+    const constrainedFn = constrained[fn];
+    const constrainedFp = constrained[fp];
+
+    // new triangles s, r, p and r, s, q
+    triangles[e] = s;
+    triangles[en] = r;
+    triangles[ep] = p;
+    triangles[f] = r;
+    triangles[fn] = s;
+    triangles[fp] = q;
+
+    link(out, en, twinEp, constrainedEp);
+    link(out, ep, twinFn, constrainedFn);
+    link(out, fn, twinFp, constrainedFp);
+    link(out, fp, twinEn, constrainedEn);
+
+    const vertexEdge = _vertexEdge;
+    vertexEdge[p] = ep;
+    vertexEdge[q] = fp;
+    vertexEdge[r] = en;
+    vertexEdge[s] = fn;
+}
+
+function link(out: Delaunay2, e: number, twin: number, isConstrained: boolean): void {
+    out.halfedges[e] = twin;
+    out.constrained[e] = isConstrained;
+    if (twin !== -1) out.halfedges[twin] = e;
+}
+
+function computeHull(out: Delaunay2): void {
+    const triangles = out.triangles;
+    const halfedges = out.halfedges;
+    const boundary = _pockets_boundary;
+
+    boundary.clear();
+    let start = -1;
+    for (let e = 0; e < halfedges.size(); e++) {
+        if (halfedges[e] === -1) {
+            boundary.set(triangles[e], e);
+            start = e;
+        }
+    }
+
+    let e = start;
+    for (let i = 0; i < boundary.size(); i++) {
+        out.hull.push(triangles[e]);
+        e = boundary.get(triangles[nextHalfedge(e)])!;
+        if (e === start) break;
+    }
+}
+
+// Constrained edges
+
+const _constraint_outgoing: number[] = [];
+const _constraint_crossing: number[] = [];
+const _constraint_created: number[] = [];
+
+function insertConstraint(out: Delaunay2, a: number, b: number): void {
+    const triangles = out.triangles;
+    const halfedges = out.halfedges;
+    const outgoing = _constraint_outgoing;
+    const crossing = _constraint_crossing;
+
+    while (a !== b) {
+        if (_vertexEdge[a] === -1 || _vertexEdge[b] === -1) return;
+
+        const existing = findEdge(out, a, b);
+        if (existing !== -1) {
+            markConstrained(out, existing);
+            return;
+        }
+
+        // find the triangle around a that the segment leaves through, or a vertex lying on the segment
+        collectOutgoing(out, a, outgoing);
+        crossing.clear();
+
+        let cross = -1;
+        let through = -1;
+        for (const o of outgoing) {
+            const x = triangles[nextHalfedge(o)];
+            const y = triangles[prevHalfedge(o)];
+            const ox = orient(a, b, x);
+            const oy = orient(a, b, y);
+
+            if (ox === 0 && isAhead(a, b, x)) {
+                through = x;
+                break;
+            }
+            if (oy === 0 && isAhead(a, b, y)) {
+                through = y;
+                break;
+            }
+            if (ox < 0 && oy > 0) {
+                cross = nextHalfedge(o);
+                break;
+            }
+        }
+
+        // walk the triangles along the segment, collecting the edges it crosses
+        while (cross !== -1) {
+            if (out.constrained[cross]) throw 'Constrained edges must not cross';
+            crossing.push(triangles[cross], triangles[nextHalfedge(cross)]);
+
+            const twin = halfedges[cross];
+            const z = triangles[prevHalfedge(twin)];
+            if (z === b) break;
+
+            const oz = orient(a, b, z);
+            if (oz === 0) {
+                through = z;
+                break;
+            }
+            cross = oz > 0 ? nextHalfedge(twin) : prevHalfedge(twin);
+        }
+
+        const end = through === -1 ? b : through;
+        if (crossing.size() > 0) removeCrossings(out, a, end);
+
+        const e = findEdge(out, a, end);
+        if (e !== -1) markConstrained(out, e);
+
+        a = end;
+    }
+}
+
+/**
+ * Flips the edges crossing segment a-b until none remain, then restores the Delaunay
+ * property of the newly created edges.
+ */
+function removeCrossings(out: Delaunay2, a: number, b: number): void {
+    const triangles = out.triangles;
+    const crossing = _constraint_crossing;
+    const created = _constraint_created;
+    created.clear();
+
+    // each edge is flipped once its quad is convex, otherwise it is retried after the others
+    let head = 0;
+    let guard = 0;
+    const maxIterations = 16 * (crossing.size() + 4) * (crossing.size() + 4);
+
+    while (head < crossing.size()) {
+        guard++;
+        if (guard > maxIterations) throw 'Failed to insert constrained edge';
+
+        const u = crossing[head];
+        const v = crossing[head + 1];
+        head += 2;
+
+        const e = findEdge(out, u, v);
+        if (e === -1) continue;
+
+        const f = out.halfedges[e];
+        const r = triangles[prevHalfedge(e)];
+        const s = triangles[prevHalfedge(f)];
+
+        if (orient(r, s, u) * orient(r, s, v) >= 0) {
+            crossing.push(u, v);
+            continue;
+        }
+
+        flip(out, e);
+
+        if (r !== a && r !== b && s !== a && s !== b && orient(a, b, r) * orient(a, b, s) < 0) {
+            crossing.push(r, s);
+        } else {
+            created.push(r, s);
+        }
+    }
+
+    let swapped = true;
+    while (swapped) {
+        swapped = false;
+
+        for (let i = 0; i < created.size(); i += 2) {
+            const u = created[i];
+            const v = created[i + 1];
+            if ((u === a && v === b) || (u === b && v === a)) continue;
+
+            const e = findEdge(out, u, v);
+            if (e === -1 || !isIllegal(out, e)) continue;
+
+            const r = triangles[prevHalfedge(e)];
+            const s = triangles[prevHalfedge(out.halfedges[e])];
+            flip(out, e);
+            created[i] = r;
+            created[i + 1] = s;
+            swapped = true;
+        }
+    }
+}
+
+function markConstrained(out: Delaunay2, e: number): void {
+    out.constrained[e] = true;
+    const twin = out.halfedges[e];
+    if (twin !== -1) out.constrained[twin] = true;
+}
+
+/**
+ * Collects the half-edges leaving vertex a, rotating around it in both directions from its known edge
+ */
+function collectOutgoing(out: Delaunay2, a: number, result: number[]): void {
+    const halfedges = out.halfedges;
+    const start = _vertexEdge[a];
+    result.clear();
+
+    let e = start;
+    do {
+        result.push(e);
+        e = halfedges[prevHalfedge(e)];
+    } while (e !== -1 && e !== start);
+
+    if (e === start) return;
+
+    // hit the hull, rotate the other way
+    e = halfedges[start];
+    while (e !== -1) {
+        e = nextHalfedge(e);
+        result.push(e);
+        e = halfedges[e];
+    }
+}
+
+/**
+ * Finds the half-edge running from a to b, or from b to a when a-b lies on the hull with the triangle on b's side
+ */
+function findEdge(out: Delaunay2, a: number, b: number): number {
+    const triangles = out.triangles;
+    const outgoing = _findEdge_outgoing;
+
+    collectOutgoing(out, a, outgoing);
+    for (const e of outgoing) {
+        if (triangles[nextHalfedge(e)] === b) return e;
+    }
+    for (const e of outgoing) {
+        const p = prevHalfedge(e);
+        if (triangles[p] === b && out.halfedges[p] === -1) return p;
+    }
+
+    return -1;
+}
+
+const _findEdge_outgoing: number[] = [];
+
+// Predicates
+
+function orient(a: number, b: number, c: number): number {
+    const coords = _coords;
+    return orient2(coords[a * 2], coords[a * 2 + 1], coords[b * 2], coords[b * 2 + 1], coords[c * 2], coords[c * 2 + 1]);
+}
+
+/**
+ * Twice the signed area of triangle a, b, c: positive when counter-clockwise
+ */
+function orient2(ax: number, ay: number, bx: number, by: number, cx: number, cy: number): number {
+    return (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+}
+
+/**
+ * Whether collinear point c lies on the same side of a as b
+ */
+function isAhead(a: number, b: number, c: number): boolean {
+    const coords = _coords;
+    const dx = coords[b * 2] - coords[a * 2];
+    const dy = coords[b * 2 + 1] - coords[a * 2 + 1];
+    return (coords[c * 2] - coords[a * 2]) * dx + (coords[c * 2 + 1] - coords[a * 2 + 1]) * dy > 0;
+}
+
+/**
+ * Positive when d lies inside the circumcircle of the counter-clockwise triangle a, b, c
+ */
+function incircle(ax: number, ay: number, bx: number, by: number, cx: number, cy: number, dx: number, dy: number): number {
+    const adx = ax - dx;
+    const ady = ay - dy;
+    const bdx = bx - dx;
+    const bdy = by - dy;
+    const cdx = cx - dx;
+    const cdy = cy - dy;
+
+    return (
+        (adx * adx + ady * ady) * (bdx * cdy - bdy * cdx) +
+        (bdx * bdx + bdy * bdy) * (cdx * ady - cdy * adx) +
+        (cdx * cdx + cdy * cdy) * (adx * bdy - ady * bdx)
+    );
+}
@@ -0,0 +1,579 @@
+//!native
+
+import * as box3 from './box3';
+import * as raycast3 from './raycast3';
+import type { Box3, Raycast3, Vec3 } from './types';
+
+/**
+ * A dynamic AABB tree for broadphase collision detection of moving objects.
+ * Leaves store "fat" boxes, enlarged by a margin and by the predicted displacement, so
+ * objects can move a little without the tree being updated.
+ * Nodes are stored in flat arrays and addressed by index, leaf indices are the proxy ids
+ * returned by {@link createProxy}.
+ * root - index of the root node, -1 when the tree is empty
+ * nodeBounds - node boxes, 6 numbers per node: [minX, minY, minZ, maxX, maxY, maxZ]
+ * parents - parent index per node (-1 for the root), or the next free node for freed nodes
+ * children - 2 numbers per node, child indices, -1 for leaves
+ * heights - height per node, 0 for leaves, -1 for freed nodes
+ * freeList - index of the first freed node available for reuse, -1 when there is none
+ * margin - amount leaf boxes are enlarged by on every side
+ * displacementMultiplier - how far ahead of the displacement passed to {@link moveProxy} leaf boxes are enlarged
+ *
+ * Reference: Erin Catto, Box2D b2DynamicTree (https://github.com/erincatto/box2d)
+ */
+export type DynamicTree3 = {
+    root: number;
+    nodeBounds: number[];
+    parents: number[];
+    children: number[];
+    heights: number[];
+    freeList: number;
+    margin: number;
+    displacementMultiplier: number;
+};
+
+/**
+ * Creates a new empty dynamic tree
+ * @param margin - Amount leaf boxes are enlarged by on every side, defaults to 0.1
+ * @param displacementMultiplier - Multiplier for the predicted displacement of moved proxies, defaults to 4
+ * @returns A new dynamic tree
+ */
+export function create(margin = 0.1, displacementMultiplier = 4): DynamicTree3 {
+    return {
+        root: -1,
+        nodeBounds: [],
+        parents: [],
+        children: [],
+        heights: [],
+        freeList: -1,
+        margin,
+        displacementMultiplier,
+    };
+}
+
+/**
+ * Removes all proxies from a dynamic tree, keeping its margin and displacement multiplier
+ * @param tree - The tree to clear
+ * @returns The cleared tree
+ */
+export function clear(tree: DynamicTree3): DynamicTree3 {
+    tree.root = -1;
+    tree.nodeBounds.clear();
+    tree.parents.clear();
+    tree.children.clear();
+    tree.heights.clear();
+    tree.freeList = -1;
+    return tree;
+}
+
+const _createProxy_box = /*@__PURE__*/ box3.create();
+
+/**
+ * Creates a proxy for an object in the tree. The tree stores a fat box enlarged by the tree margin.
+ * @param tree - The tree
+ * @param box - The tight bounds of the object
+ * @returns The proxy id, used to move and destroy the proxy and reported by queries
+ */
+export function createProxy(tree: DynamicTree3, box: Box3): number {
+    const proxy = allocateNode(tree);
+
+    writeBox(tree.nodeBounds, proxy, box3.expandByMargin(_createProxy_box, box, tree.margin));
+    tree.heights[proxy] = 0;
+
+    insertLeaf(tree, proxy);
+
+    return proxy;
+}
+
+/**
+ * Destroys a proxy, its id may be reused by later calls to {@link createProxy}
+ * @param tree - The tree
+ * @param proxy - The proxy id
+ */
+export function destroyProxy(tree: DynamicTree3, proxy: number): void {
+    removeLeaf(tree, proxy);
+    freeNode(tree, proxy);
+}
+
+const _moveProxy_fatBox = /*@__PURE__*/ box3.create();
+const _moveProxy_hugeBox = /*@__PURE__*/ box3.create();
+const _moveProxy_treeBox = /*@__PURE__*/ box3.create();
+
+/**
+ * Updates the bounds of a moved proxy.
+ * The proxy is only reinserted when its tight box has left its fat box, or when its fat box
+ * has become much larger than needed. The new fat box is enlarged in the direction of the
+ * displacement, predicting where the object will move next.
+ * @param tree - The tree
+ * @param proxy - The proxy id
+ * @param box - The new tight bounds of the object
+ * @param displacement - The displacement of the object since its last move, e.g. velocity * dt
+ * @returns true if the proxy was reinserted, false if its fat box still fits
+ */
+export function moveProxy(tree: DynamicTree3, proxy: number, box: Box3, displacement: Vec3): boolean {
+    const margin = tree.margin;
+
+    // predict the next position of the object by extending the fat box along the displacement
+    const fatBox = box3.expandByMargin(_moveProxy_fatBox, box, margin);
+    for (let i = 0; i < 3; i++) {
+        const d = tree.displacementMultiplier * displacement[i];
+        if (d < 0) {
+            fatBox[i] += d;
+        } else {
+            fatBox[i + 3] += d;
+        }
+    }
+
+    const treeBox = readBox(_moveProxy_treeBox, tree.nodeBounds, proxy);
+    if (box3.containsBox3(treeBox, box)) {
+        // the tree box still contains the object, but it might be too large after a fast move
+        const hugeBox = box3.expandByMargin(_moveProxy_hugeBox, fatBox, 4 * margin);
+        if (box3.containsBox3(hugeBox, treeBox)) return false;
+    }
+
+    removeLeaf(tree, proxy);
+    writeBox(tree.nodeBounds, proxy, fatBox);
+    insertLeaf(tree, proxy);
+
+    return true;
+}
+
+/**
+ * Gets the fat box of a proxy
+ * @param out - The output box
+ * @param tree - The tree
+ * @param proxy - The proxy id
+ * @returns The output box
+ */
+export function getFatBox3(out: Box3, tree: DynamicTree3, proxy: number): Box3 {
+    return readBox(out, tree.nodeBounds, proxy);
+}
+
+/**
+ * Gets the height of the tree
+ * @param tree - The tree
+ * @returns The height of the root node, 0 for an empty tree or a single proxy
+ */
+export function getHeight(tree: DynamicTree3): number {
+    return tree.root === -1 ? 0 : tree.heights[tree.root];
+}
+
+const _query_stack: number[] = [];
+const _queryBox3_box = /*@__PURE__*/ box3.create();
+
+/**
+ * Finds all proxies whose fat boxes overlap a box
+ * @param out - The output array of proxy ids, cleared before use
+ * @param tree - The tree
+ * @param box - The box to test
+ * @returns The output array
+ */
+export function queryBox3(out: number[], tree: DynamicTree3, box: Box3): number[] {
+    out.clear();
+    if (tree.root === -1) return out;
+
+    const stack = _query_stack;
+    const nodeBox = _queryBox3_box;
+    const children = tree.children;
+
+    stack.clear();
+    stack.push(tree.root);
+
+    while (stack.size() > 0) {
+        const node = stack.pop()!;
+        if (!box3.intersectsBox3(readBox(nodeBox, tree.nodeBounds, node), box)) continue;
+
+        const child1 = children[node * 2];
+        if (child1 === -1) {
+            out.push(node);
+        } else {
+            stack.push(children[node * 2 + 1], child1);
+        }
+    }
+
+    return out;
+}
+
+const _queryPairs_leaves: number[] = [];
+const _queryPairs_box = /*@__PURE__*/ box3.create();
+const _queryPairs_nodeBox = /*@__PURE__*/ box3.create();
+
+/**
+ * Finds all pairs of proxies whose fat boxes overlap, for use as broadphase collision candidates.
+ * Each pair is reported once, with the smaller proxy id first.
+ * @param out - The output flat array of proxy id pairs: [a0, b0, a1, b1, ...], cleared before use
+ * @param tree - The tree
+ * @returns The output array
+ */
+export function queryPairs(out: number[], tree: DynamicTree3): number[] {
+    out.clear();
+    if (tree.root === -1) return out;
+
+    const stack = _query_stack;
+    const leaves = _queryPairs_leaves;
+    const box = _queryPairs_box;
+    const nodeBox = _queryPairs_nodeBox;
+    const children = tree.children;
+
+    // collect the leaves, then query the tree with each of them
+    leaves.clear();
+    stack.clear();
+    stack.push(tree.root);
+    while (stack.size() > 0) {
+        const node = stack.pop()!;
+        const child1 = children[node * 2];
+        if (child1 === -1) {
+            leaves.push(node);
+        } else {
+            stack.push(children[node * 2 + 1], child1);
+        }
+    }
+
+    for (const leaf of leaves) {
+        readBox(box, tree.nodeBounds, leaf);
+
+        stack.clear();
+        stack.push(tree.root);
+
+        while (stack.size() > 0) {
+            const node = stack.pop()!;
+            if (!box3.intersectsBox3(readBox(nodeBox, tree.nodeBounds, node), box)) continue;
+
+            const child1 = children[node * 2];
+            if (child1 !== -1) {
+                stack.push(children[node * 2 + 1], child1);
+            } else if (node > leaf) {
+                // only report each pair from the side with the smaller id
+                out.push(leaf, node);
+            }
+        }
+    }
+
+    return out;
+}
+
+const _raycast_ray = /*@__PURE__*/ raycast3.create();
+const _raycast_box = /*@__PURE__*/ box3.create();
+
+/**
+ * Casts a ray against the fat boxes in the tree, calling back for every proxy whose fat box the ray hits.
+ * The callback controls the query through its return value:
+ * - a negative value ignores the proxy and continues
+ * - 0 stops the query
+ * - a distance along the ray clips the ray to that distance, e.g. the distance to the proxy's
+ *   shape for a closest-hit query, or ray.length to continue unchanged
+ *
+ * @param tree the tree to test
+ * @param ray ray to test (with origin, direction, and length)
+ * @param callback called with each proxy id and the current clipped ray
+ */
+export function raycast(tree: DynamicTree3, ray: Raycast3, callback: (proxy: number, ray: Raycast3) => number): void {
+    if (tree.root === -1) return;
+
+    const testRay = raycast3.copy(_raycast_ray, ray);
+    const stack = _query_stack;
+    const nodeBox = _raycast_box;
+    const children = tree.children;
+
+    stack.clear();
+    stack.push(tree.root);
+
+    while (stack.size() > 0) {
+        const node = stack.pop()!;
+        if (!raycast3.intersectsBox3(testRay, readBox(nodeBox, tree.nodeBounds, node))) continue;
+
+        const child1 = children[node * 2];
+        if (child1 !== -1) {
+            stack.push(children[node * 2 + 1], child1);
+            continue;
+        }
+
+        const value = callback(node, testRay);
+        if (value === 0) return;
+        if (value > 0) testRay.length = math.min(testRay.length, value);
+    }
+}
+
+function allocateNode(tree: DynamicTree3): number {
+    let node = tree.freeList;
+
+    if (node === -1) {
+        node = tree.heights.size();
+        tree.nodeBounds.push(0, 0, 0, 0, 0, 0);
+        tree.parents.push(-1);
+        tree.children.push(-1, -1);
+        tree.heights.push(0);
+    } else {
+        tree.freeList = tree.parents[node];
+    }
+
+    tree.parents[node] = -1;
+    tree.children[node * 2] = -1;
+    tree.children[node * 2 + 1] = -1;
+    tree.heights[node] = 0;
+
+    return node;
+}
+
+function freeNode(tree: DynamicTree3, node: number): void {
+    tree.parents[node] = tree.freeList;
+    tree.heights[node] = -1;
+    tree.freeList = node;
+}
+
+const _insertLeaf_leafBox = /*@__PURE__*/ box3.create();
+const _insertLeaf_box = /*@__PURE__*/ box3.create();
+const _insertLeaf_combined = /*@__PURE__*/ box3.create();
+
+function insertLeaf(tree: DynamicTree3, leaf: number): void {
+    if (tree.root === -1) {
+        tree.root = leaf;
+        tree.parents[leaf] = -1;
+        return;
+    }
+
+    const nodeBounds = tree.nodeBounds;
+    const children = tree.children;
+    const leafBox = readBox(_insertLeaf_leafBox, nodeBounds, leaf);
+    const box = _insertLeaf_box;
+    const combined = _insertLeaf_combined;
+
+    // descend towards the sibling that minimizes the increase in surface area
+    let index = tree.root;
+    while (children[index * 2] !== -1) {
+        const child1 = children[index * 2];
+        const child2 = children[index * 2 + 1];
+
+        const area = box3.surfaceArea(readBox(box, nodeBounds, index));
+        const combinedArea = box3.surfaceArea(box3.union(combined, box, leafBox));
+
+        // cost of creating a new parent for this node and the new leaf
+        const cost = 2 * combinedArea;
+
+        // minimum cost of pushing the leaf further down the tree
+        const inheritanceCost = 2 * (combinedArea - area);
+
+        const cost1 = descendCost(tree, child1, leafBox) + inheritanceCost;
+        const cost2 = descendCost(tree, child2, leafBox) + inheritanceCost;
+
+        if (cost < cost1 && cost < cost2) break;
+
+        index = cost1 < cost2 ? child1 : child2;
+    }
+
+    const sibling = index;
+
+    // create a new parent for the sibling and the leaf
+    const oldParent = tree.parents[sibling];
+    const newParent = allocateNode(tree);
+    tree.parents[newParent] = oldParent;
+    writeBox(nodeBounds, newParent, box3.union(combined, leafBox, readBox(box, nodeBounds, sibling)));
+    tree.heights[newParent] = tree.heights[sibling] + 1;
+
+    if (oldParent !== -1) {
+        if (children[oldParent * 2] === sibling) {
+            children[oldParent * 2] = newParent;
+        } else {
+            children[oldParent * 2 + 1] = newParent;
+        }
+    } else {
+        tree.root = newParent;
+    }
+
+    children[newParent * 2] = sibling;
+    children[newParent * 2 + 1] = leaf;
+    tree.parents[sibling] = newParent;
+    tree.parents[leaf] = newParent;
+
+    fixUpwards(tree, tree.parents[leaf]);
+}
+
+const _descendCost_box = /*@__PURE__*/ box3.create();
+const _descendCost_combined = /*@__PURE__*/ box3.create();
+
+/** cost of descending into a child when inserting a leaf */
+function descendCost(tree: DynamicTree3, child: number, leafBox: Box3): number {
+    const box = readBox(_descendCost_box, tree.nodeBounds, child);
+    const combinedArea = box3.surfaceArea(box3.union(_descendCost_combined, leafBox, box));
+
+    if (tree.children[child * 2] === -1) return combinedArea;
+
+    return combinedArea - box3.surfaceArea(box);
+}
+
+function removeLeaf(tree: DynamicTree3, leaf: number): void {
+    if (leaf === tree.root) {
+        tree.root = -1;
+        return;
+    }
+
+    const children = tree.children;
+    const parent = tree.parents[leaf];
+    const grandParent = tree.parents[parent];
+    const sibling = children[parent * 2] === leaf ? children[parent * 2 + 1] : children[parent * 2];
+
+    if (grandParent !== -1) {
+        // connect the sibling to the grandparent, removing the parent
+        if (children[grandParent * 2] === parent) {
+            children[grandParent * 2] = sibling;
+        } else {
+            children[grandParent * 2 + 1] = sibling;
+        }
+        tree.parents[sibling] = grandParent;
+        freeNode(tree, parent);
+
+        fixUpwards(tree, grandParent);
+    } else {
+        tree.root = sibling;
+        tree.parents[sibling] = -1;
+        freeNode(tree, parent);
+    }
+}
+
+/** rebalances and refits the ancestors of a changed node, from the node up to the root */
+function fixUpwards(tree: DynamicTree3, index: number): void {
+    const nodeBounds = tree.nodeBounds;
+    const children = tree.children;
+    const heights = tree.heights;
+
+    while (index !== -1) {
+        index = balance(tree, index);
+
+        const child1 = children[index * 2];
+        const child2 = children[index * 2 + 1];
+
+        heights[index] = 1 + math.max(heights[child1], heights[child2]);
+        unionNodes(nodeBounds, index, child1, child2);
+
+        index = tree.parents[index];
+    }
+}
+
+/**
+ * Performs a left or right rotation if node a is imbalanced.
+ * Returns the index of the node that took a's place.
+ */
+function balance(tree: DynamicTree3, a: number): number {
+    const nodeBounds = tree.nodeBounds;
+    const parents = tree.parents;
+    const children = tree.children;
+    const heights = tree.heights;
+
+    if (children[a * 2] === -1 || heights[a] < 2) return a;
+
+    const b = children[a * 2];
+    const c = children[a * 2 + 1];
+    const imbalance = heights[c] - heights[b];
+
+    // rotate c up
+    if (imbalance > 1) {
+        const f = children[c * 2];
+        const g = children[c * 2 + 1];
+
+        // swap a and c
+        children[c * 2] = a;
+        parents[c] = parents[a];
+        parents[a] = c;
+        replaceChild(tree, parents[c], a, c);
+
+        // rotate
+        if (heights[f] > heights[g]) {
+            children[c * 2 + 1] = f;
+            children[a * 2 + 1] = g;
+            parents[g] = a;
+            unionNodes(nodeBounds, a, b, g);
+            unionNodes(nodeBounds, c, a, f);
+            heights[a] = 1 + math.max(heights[b], heights[g]);
+            heights[c] = 1 + math.max(heights[a], heights[f]);
+        } else {
+            children[c * 2 + 1] = g;
+            children[a * 2 + 1] = f;
+            parents[f] = a;
+            unionNodes(nodeBounds, a, b, f);
+            unionNodes(nodeBounds, c, a, g);
+            heights[a] = 1 + math.max(heights[b], heights[f]);
+            heights[c] = 1 + math.max(heights[a], heights[g]);
+        }
+
+        return c;
+    }
+
+    // rotate b up
+    if (imbalance < -1) {
+        const d = children[b * 2];
+        const e = children[b * 2 + 1];
+
+        // swap a and b
+        children[b * 2] = a;
+        parents[b] = parents[a];
+        parents[a] = b;
+        replaceChild(tree, parents[b], a, b);
+
+        // rotate
+        if (heights[d] > heights[e]) {
+            children[b * 2 + 1] = d;
+            children[a * 2] = e;
+            parents[e] = a;
+            unionNodes(nodeBounds, a, c, e);
+            unionNodes(nodeBounds, b, a, d);
+            heights[a] = 1 + math.max(heights[c], heights[e]);
+            heights[b] = 1 + math.max(heights[a], heights[d]);
+        } else {
+            children[b * 2 + 1] = e;
+            children[a * 2] = d;
+            parents[d] = a;
+            unionNodes(nodeBounds, a, c, d);
+            unionNodes(nodeBounds, b, a, e);
+            heights[a] = 1 + math.max(heights[c], heights[d]);
+            heights[b] = 1 + math.max(heights[a], heights[e]);
+        }
+
+        return b;
+    }
+
+    return a;
+}
+
+/** points parent (or the root, when parent is -1) at newChild instead of oldChild */
+function replaceChild(tree: DynamicTree3, parent: number, oldChild: number, newChild: number): void {
+    if (parent === -1) {
+        tree.root = newChild;
+    } else if (tree.children[parent * 2] === oldChild) {
+        tree.children[parent * 2] = newChild;
+    } else {
+        tree.children[parent * 2 + 1] = newChild;
+    }
+}
+
+function readBox(out: Box3, array: number[], index: number): Box3 {
+    const o = index * 6;
+    out[0] = array[o];
+    out[1] = array[o + 1];
+    out[2] = array[o + 2];
+    out[3] = array[o + 3];
+    out[4] = array[o + 4];
+    out[5] = array[o + 5];
+    return out;
+}
+
+function writeBox(array: number[], index: number, box: Box3): void {
+    const o = index * 6;
+    array[o] = box[0];
+    array[o + 1] = box[1];
+    array[o + 2] = box[2];
+    array[o + 3] = box[3];
+    array[o + 4] = box[4];
+    array[o + 5] = box[5];
+}
+
+function unionNodes(array: number[], out: number, a: number, b: number): void {
+    const o = out * 6;
+    const ao = a * 6;
+    const bo = b * 6;
+    array[o] = math.min(array[ao], array[bo]);
+    array[o + 1] = math.min(array[ao + 1], array[bo + 1]);
+    array[o + 2] = math.min(array[ao + 2], array[bo + 2]);
+    array[o + 3] = math.max(array[ao + 3], array[bo + 3]);
+    array[o + 4] = math.max(array[ao + 4], array[bo + 4]);
+    array[o + 5] = math.max(array[ao + 5], array[bo + 5]);
+}
@@ -0,0 +1,266 @@
+//!native
+
+import * as plane3 from './plane3';
+import type { Box3, Frustum3, Mat4, OBB3, Sphere, Vec3 } from './types';
+
+/**
+ * Creates a new frustum with default planes.
+ * Use fromMat4 to set it from a view-projection matrix.
+ * @returns A new frustum
+ */
+export function create(): Frustum3 {
+    return [plane3.create(), plane3.create(), plane3.create(), plane3.create(), plane3.create(), plane3.create()];
+}
+
+/**
+ * Clones a frustum
+ * @param frustum - The frustum to clone
+ * @returns A new frustum
+ */
+export function clone(frustum: Frustum3): Frustum3 {
+    return [
+        plane3.clone(frustum[0]),
+        plane3.clone(frustum[1]),
+        plane3.clone(frustum[2]),
+        plane3.clone(frustum[3]),
+        plane3.clone(frustum[4]),
+        plane3.clone(frustum[5]),
+    ];
+}
+
+/**
+ * Copies one frustum to another
+ * @param out - The output frustum
+ * @param frustum - The source frustum
+ * @returns The output frustum
+ */
+export function copy(out: Frustum3, frustum: Frustum3): Frustum3 {
+    for (let i = 0; i < 6; i++) {
+        plane3.copy(out[i], frustum[i]);
+    }
+    return out;
+}
+
+/**
+ * The clip space depth range of a projection matrix:
+ * - 'negative-one-to-one': near and far map to z = -1 and z = 1, as produced by mat4.perspective,
+ *   mat4.perspectiveNO, mat4.ortho and mat4.orthoNO
+ * - 'zero-to-one': near and far map to z = 0 and z = 1, as produced by mat4.perspectiveZO and mat4.orthoZO
+ */
+export type ClipDepth = 'negative-one-to-one' | 'zero-to-one';
+
+/**
+ * Sets one plane from a combination of matrix rows, normalized so distances are in world units.
+ * A zero normal, e.g. the far plane of an infinite projection, becomes a plane that contains everything.
+ */
+function setPlane(out: Frustum3, index: number, a: number, b: number, c: number, d: number): void {
+    const plane = out[index];
+    const length = math.sqrt(a * a + b * b + c * c);
+
+    if (length === 0) {
+        plane.normal[0] = 0;
+        plane.normal[1] = 0;
+        plane.normal[2] = 0;
+        plane.constant = 1;
+        return;
+    }
+
+    plane.normal[0] = a / length;
+    plane.normal[1] = b / length;
+    plane.normal[2] = c / length;
+    plane.constant = d / length;
+}
+
+/**
+ * Extracts the frustum planes from a projection or view-projection matrix.
+ * With a projection matrix the planes are in view space, with a view-projection matrix in world space.
+ * Reference: Fast Extraction of Viewing Frustum Planes from the World-View-Projection Matrix by Gribb and Hartmann
+ *
+ * @param out - The output frustum
+ * @param matrix - The projection or view-projection matrix
+ * @param clipDepth - The clip space depth range of the projection, defaults to 'negative-one-to-one'
+ * @returns The output frustum
+ */
+export function fromMat4(out: Frustum3, matrix: Mat4, clipDepth: ClipDepth = 'negative-one-to-one'): Frustum3 {
+    // matrices are column-major, row i is (m[i], m[4 + i], m[8 + i], m[12 + i])
+    const m0 = matrix[0];
+    const m1 = matrix[1];
+    const m2 = matrix[2];
+    const m3 = matrix[3];
+    const m4 = matrix[4];
+    const m5 = matrix[5];
+    const m6 = matrix[6];
+    const m7 = matrix[7];
+    const m8 = matrix[8];
+    const m9 = matrix[9];
+    const m10 = matrix[10];
+    const m11 = matrix[11];
+    const m12 = matrix[12];
+    const m13 = matrix[13];
+    const m14 = matrix[14];
+    const m15 = matrix[15];
+
+    // -w <= x <= w, -w <= y <= w
+    setPlane(out, 0, m3 + m0, m7 + m4, m11 + m8, m15 + m12);
+    setPlane(out, 1, m3 - m0, m7 - m4, m11 - m8, m15 - m12);
+    setPlane(out, 2, m3 + m1, m7 + m5, m11 + m9, m15 + m13);
+    setPlane(out, 3, m3 - m1, m7 - m5, m11 - m9, m15 - m13);
+
+    // -w <= z or 0 <= z, and z <= w
+    if (clipDepth === 'zero-to-one') {
+        setPlane(out, 4, m2, m6, m10, m14);
+    } else {
+        setPlane(out, 4, m3 + m2, m7 + m6, m11 + m10, m15 + m14);
+    }
+    setPlane(out, 5, m3 - m2, m7 - m6, m11 - m10, m15 - m14);
+
+    return out;
+}
+
+/**
+ * The result of testing a shape against a frustum:
+ * - 'inside': the shape is entirely inside the frustum
+ * - 'intersecting': the shape crosses or touches at least one plane of the frustum
+ * - 'outside': the shape is entirely outside the frustum
+ */
+export type Containment = 'inside' | 'intersecting' | 'outside';
+
+/**
+ * Classifies a shape from its signed distance to each plane, using the radius of the shape
+ * projected onto each plane's normal
+ */
+function classify(distance: number, radius: number, result: Containment): Containment {
+    if (distance < -radius) return 'outside';
+    if (distance < radius) return 'intersecting';
+    return result;
+}
+
+/**
+ * Test if a point is contained within the frustum
+ * @param frustum - The frustum
+ * @param point - The point to test
+ * @returns true if the point is inside or on the boundary of the frustum
+ */
+export function containsPoint(frustum: Frustum3, point: Vec3): boolean {
+    for (let i = 0; i < 6; i++) {
+        if (plane3.distanceToPoint(frustum[i], point) < 0) return false;
+    }
+    return true;
+}
+
+/**
+ * Tests a point against a frustum
+ * @param frustum - The frustum
+ * @param point - The point to test
+ * @returns 'inside', 'intersecting' when the point lies on a plane of the frustum, or 'outside'
+ */
+export function classifyPoint(frustum: Frustum3, point: Vec3): Containment {
+    let result: Containment = 'inside';
+    for (let i = 0; i < 6; i++) {
+        const distance = plane3.distanceToPoint(frustum[i], point);
+        if (distance < 0) return 'outside';
+        if (distance === 0) result = 'intersecting';
+    }
+    return result;
+}
+
+/**
+ * Tests a sphere against a frustum.
+ * Spheres near the corners of the frustum may be reported as intersecting while being outside.
+ * @param frustum - The frustum
+ * @param sphere - The sphere to test
+ * @returns 'inside', 'intersecting' or 'outside'
+ */
+export function classifySphere(frustum: Frustum3, sphere: Sphere): Containment {
+    let result: Containment = 'inside';
+    for (let i = 0; i < 6; i++) {
+        result = classify(plane3.distanceToPoint(frustum[i], sphere.center), sphere.radius, result);
+        if (result === 'outside') return result;
+    }
+    return result;
+}
+
+/**
+ * Check whether a sphere is at least partly inside a frustum, for culling.
+ * Spheres near the corners of the frustum may pass while being outside.
+ * @param frustum - The frustum
+ * @param sphere - The sphere to test
+ * @returns false if the sphere is outside the frustum
+ */
+export function intersectsSphere(frustum: Frustum3, sphere: Sphere): boolean {
+    return classifySphere(frustum, sphere) !== 'outside';
+}
+
+/**
+ * Tests an axis-aligned box against a frustum.
+ * Boxes near the corners of the frustum may be reported as intersecting while being outside.
+ * @param frustum - The frustum
+ * @param box - The box to test
+ * @returns 'inside', 'intersecting' or 'outside'
+ */
+export function classifyBox3(frustum: Frustum3, box: Box3): Containment {
+    const cx = (box[0] + box[3]) * 0.5;
+    const cy = (box[1] + box[4]) * 0.5;
+    const cz = (box[2] + box[5]) * 0.5;
+    const ex = (box[3] - box[0]) * 0.5;
+    const ey = (box[4] - box[1]) * 0.5;
+    const ez = (box[5] - box[2]) * 0.5;
+
+    let result: Containment = 'inside';
+    for (let i = 0; i < 6; i++) {
+        const { normal, constant } = frustum[i];
+        const distance = normal[0] * cx + normal[1] * cy + normal[2] * cz + constant;
+        const radius = ex * math.abs(normal[0]) + ey * math.abs(normal[1]) + ez * math.abs(normal[2]);
+        result = classify(distance, radius, result);
+        if (result === 'outside') return result;
+    }
+    return result;
+}
+
+/**
+ * Check whether an axis-aligned box is at least partly inside a frustum, for culling.
+ * Boxes near the corners of the frustum may pass while being outside.
+ * @param frustum - The frustum
+ * @param box - The box to test
+ * @returns false if the box is outside the frustum
+ */
+export function intersectsBox3(frustum: Frustum3, box: Box3): boolean {
+    return classifyBox3(frustum, box) !== 'outside';
+}
+
+/**
+ * Tests an oriented box against a frustum.
+ * Boxes near the corners of the frustum may be reported as intersecting while being outside.
+ * @param frustum - The frustum
+ * @param obb - The oriented box to test
+ * @returns 'inside', 'intersecting' or 'outside'
+ */
+export function classifyOBB3(frustum: Frustum3, obb: OBB3): Containment {
+    const { center, halfExtents, rotation: r } = obb;
+
+    let result: Containment = 'inside';
+    for (let i = 0; i < 6; i++) {
+        const { normal, constant } = frustum[i];
+        const distance = normal[0] * center[0] + normal[1] * center[1] + normal[2] * center[2] + constant;
+
+        // project the box onto the normal, the columns of the rotation are the box axes
+        const radius =
+            halfExtents[0] * math.abs(normal[0] * r[0] + normal[1] * r[1] + normal[2] * r[2]) +
+            halfExtents[1] * math.abs(normal[0] * r[3] + normal[1] * r[4] + normal[2] * r[5]) +
+            halfExtents[2] * math.abs(normal[0] * r[6] + normal[1] * r[7] + normal[2] * r[8]);
+        result = classify(distance, radius, result);
+        if (result === 'outside') return result;
+    }
+    return result;
+}
+
+/**
+ * Check whether an oriented box is at least partly inside a frustum, for culling.
+ * Boxes near the corners of the frustum may pass while being outside.
+ * @param frustum - The frustum
+ * @param obb - The oriented box to test
+ * @returns false if the box is outside the frustum
+ */
+export function intersectsOBB3(frustum: Frustum3, obb: OBB3): boolean {
+    return classifyOBB3(frustum, obb) !== 'outside';
+}
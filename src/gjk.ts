@@ -0,0 +1,909 @@
+//!native
+
+import * as triangle3 from './triangle3';
+import type { Box3, OBB3, Sphere, Vec3 } from './types';
+import * as vec3 from './vec3';
+
+/**
+ * A support function of a convex shape: writes the point of the shape furthest along
+ * direction into out. The direction is not necessarily normalized.
+ */
+export type SupportFunction = (out: Vec3, direction: Vec3) => Vec3;
+
+/**
+ * Creates a support function for a sphere
+ * @param sphere - The sphere, read on every call so it can be moved after creating the support function
+ * @returns The support function
+ */
+export function sphereSupport(sphere: Sphere): SupportFunction {
+    return (out, direction) => {
+        const length = vec3.length(direction);
+        if (length === 0) return vec3.set(out, sphere.center[0] + sphere.radius, sphere.center[1], sphere.center[2]);
+        return vec3.scaleAndAdd(out, sphere.center, direction, sphere.radius / length);
+    };
+}
+
+/**
+ * Creates a support function for an axis-aligned box
+ * @param box - The box, read on every call
+ * @returns The support function
+ */
+export function box3Support(box: Box3): SupportFunction {
+    return (out, direction) => {
+        out[0] = direction[0] >= 0 ? box[3] : box[0];
+        out[1] = direction[1] >= 0 ? box[4] : box[1];
+        out[2] = direction[2] >= 0 ? box[5] : box[2];
+        return out;
+    };
+}
+
+/**
+ * Creates a support function for an oriented box
+ * @param obb - The oriented box, read on every call
+ * @returns The support function
+ */
+export function obb3Support(obb: OBB3): SupportFunction {
+    return (out, direction) => {
+        const r = obb.rotation;
+        const h = obb.halfExtents;
+        vec3.copy(out, obb.center);
+
+        // pick the corner furthest along the direction in the box's local frame
+        for (let i = 0; i < 3; i++) {
+            const c = i * 3;
+            const d = direction[0] * r[c] + direction[1] * r[c + 1] + direction[2] * r[c + 2];
+            const e = d >= 0 ? h[i] : -h[i];
+            out[0] += r[c] * e;
+            out[1] += r[c + 1] * e;
+            out[2] += r[c + 2] * e;
+        }
+
+        return out;
+    };
+}
+
+/**
+ * Creates a support function for a triangle
+ * @param a - The first vertex of the triangle
+ * @param b - The second vertex of the triangle
+ * @param c - The third vertex of the triangle
+ * @returns The support function
+ */
+export function triangleSupport(a: Vec3, b: Vec3, c: Vec3): SupportFunction {
+    return (out, direction) => {
+        const da = vec3.dot(a, direction);
+        const db = vec3.dot(b, direction);
+        const dc = vec3.dot(c, direction);
+        if (da >= db && da >= dc) return vec3.copy(out, a);
+        return vec3.copy(out, db >= dc ? b : c);
+    };
+}
+
+/**
+ * Creates a support function for a capsule, the set of points within radius of the segment ab
+ * @param a - The first endpoint of the capsule's segment
+ * @param b - The second endpoint of the capsule's segment
+ * @param radius - The radius of the capsule
+ * @returns The support function
+ */
+export function capsuleSupport(a: Vec3, b: Vec3, radius: number): SupportFunction {
+    return (out, direction) => {
+        const end = vec3.dot(a, direction) >= vec3.dot(b, direction) ? a : b;
+        const length = vec3.length(direction);
+        if (length === 0) return vec3.set(out, end[0] + radius, end[1], end[2]);
+        return vec3.scaleAndAdd(out, end, direction, radius / length);
+    };
+}
+
+/**
+ * Creates a support function for a cylinder, capped with flat discs at a and b
+ * @param a - The center of the first cap
+ * @param b - The center of the second cap
+ * @param radius - The radius of the cylinder
+ * @returns The support function
+ */
+export function cylinderSupport(a: Vec3, b: Vec3, radius: number): SupportFunction {
+    return (out, direction) => {
+        const ax = b[0] - a[0];
+        const ay = b[1] - a[1];
+        const az = b[2] - a[2];
+        const lengthSq = ax * ax + ay * ay + az * az;
+        const along = ax * direction[0] + ay * direction[1] + az * direction[2];
+        const end = along >= 0 ? b : a;
+
+        // the rim point of the cap furthest along the direction, perpendicular to the axis
+        const f = lengthSq > 0 ? along / lengthSq : 0;
+        const px = direction[0] - ax * f;
+        const py = direction[1] - ay * f;
+        const pz = direction[2] - az * f;
+        const length = math.sqrt(px * px + py * py + pz * pz);
+        if (length === 0) return vec3.copy(out, end);
+
+        const scale = radius / length;
+        return vec3.set(out, end[0] + px * scale, end[1] + py * scale, end[2] + pz * scale);
+    };
+}
+
+/**
+ * Creates a support function for a cone, from its apex to a flat base disc
+ * @param apex - The apex of the cone
+ * @param base - The center of the base disc
+ * @param radius - The radius of the base disc
+ * @returns The support function
+ */
+export function coneSupport(apex: Vec3, base: Vec3, radius: number): SupportFunction {
+    return (out, direction) => {
+        const ax = base[0] - apex[0];
+        const ay = base[1] - apex[1];
+        const az = base[2] - apex[2];
+        const lengthSq = ax * ax + ay * ay + az * az;
+        const along = ax * direction[0] + ay * direction[1] + az * direction[2];
+
+        // the rim point of the base furthest along the direction, perpendicular to the axis
+        const f = lengthSq > 0 ? along / lengthSq : 0;
+        const px = direction[0] - ax * f;
+        const py = direction[1] - ay * f;
+        const pz = direction[2] - az * f;
+        const length = math.sqrt(px * px + py * py + pz * pz);
+        const scale = length > 0 ? radius / length : 0;
+        vec3.set(out, base[0] + px * scale, base[1] + py * scale, base[2] + pz * scale);
+
+        return vec3.dot(apex, direction) > vec3.dot(out, direction) ? vec3.copy(out, apex) : out;
+    };
+}
+
+/**
+ * Creates a support function for the convex hull of a point set, e.g. the points passed to quickhull3.
+ * @param positions - Flat array of points: [x0, y0, z0, x1, y1, z1, ...], read on every call
+ * @param indices - Optional flat array of point indices to consider, e.g. the triangle indices returned by
+ *   quickhull3, which skips points inside the hull. All points are considered when omitted.
+ * @returns The support function
+ */
+export function hullSupport(positions: number[], indices?: number[]): SupportFunction {
+    return (out, direction) => {
+        let best = -1;
+        let bestDot = -math.huge;
+
+        const count = indices !== undefined ? indices.size() : math.floor(positions.size() / 3);
+        for (let i = 0; i < count; i++) {
+            const index = indices !== undefined ? indices[i] : i;
+            const d =
+                positions[index * 3] * direction[0] +
+                positions[index * 3 + 1] * direction[1] +
+                positions[index * 3 + 2] * direction[2];
+            if (d > bestDot) {
+                bestDot = d;
+                best = index;
+            }
+        }
+
+        if (best === -1) return vec3.zero(out);
+        return vec3.fromBuffer(out, positions, best * 3);
+    };
+}
+
+/**
+ * Result of a GJK distance query
+ * intersecting - whether the shapes overlap or touch
+ * distance - the distance between the shapes, 0 when intersecting
+ * pointA - the point on shape A closest to shape B
+ * pointB - the point on shape B closest to shape A
+ * @see createDistanceResult
+ * @see distance
+ */
+export type DistanceResult = {
+    intersecting: boolean;
+    distance: number;
+    pointA: Vec3;
+    pointB: Vec3;
+};
+
+/**
+ * Creates a new DistanceResult with default values.
+ * @returns A new DistanceResult.
+ */
+export function createDistanceResult(): DistanceResult {
+    return {
+        intersecting: false,
+        distance: 0,
+        pointA: vec3.create(),
+        pointB: vec3.create(),
+    };
+}
+
+/**
+ * Result of a penetration query
+ * intersecting - whether the shapes overlap or touch
+ * depth - the penetration depth, or the negated distance between the shapes when they do not intersect
+ * normal - unit vector pointing from shape A towards shape B, translating B by normal * depth separates the shapes
+ * pointA - the deepest point of shape A inside B, or the closest point on A when not intersecting
+ * pointB - the deepest point of shape B inside A, or the closest point on B when not intersecting
+ * @see createPenetrationResult
+ * @see penetration
+ */
+export type PenetrationResult = {
+    intersecting: boolean;
+    depth: number;
+    normal: Vec3;
+    pointA: Vec3;
+    pointB: Vec3;
+};
+
+/**
+ * Creates a new PenetrationResult with default values.
+ * @returns A new PenetrationResult.
+ */
+export function createPenetrationResult(): PenetrationResult {
+    return {
+        intersecting: false,
+        depth: 0,
+        normal: vec3.create(),
+        pointA: vec3.create(),
+        pointB: vec3.create(),
+    };
+}
+
+/**
+ * Tests whether two convex shapes intersect using GJK.
+ * @param supportA support function of shape A
+ * @param supportB support function of shape B
+ * @returns true if the shapes overlap or touch
+ */
+export function intersects(supportA: SupportFunction, supportB: SupportFunction): boolean {
+    return runGjk(supportA, supportB);
+}
+
+/**
+ * Computes the distance and closest points between two convex shapes using GJK.
+ *
+ * Reference: Gino van den Bergen, "A Fast and Robust GJK Implementation for Collision Detection of Convex Objects" (1999)
+ *
+ * @param out output object to store result (intersecting, distance, closest points)
+ * @param supportA support function of shape A
+ * @param supportB support function of shape B
+ */
+export function distance(out: DistanceResult, supportA: SupportFunction, supportB: SupportFunction): void {
+    out.intersecting = runGjk(supportA, supportB);
+    simplexPoints(out.pointA, out.pointB);
+    out.distance = out.intersecting ? 0 : vec3.distance(out.pointA, out.pointB);
+}
+
+/**
+ * Computes the penetration depth, normal and contact points of two convex shapes, using GJK
+ * to detect the intersection and EPA (expanding polytope algorithm) to find the penetration.
+ * When the shapes do not intersect, the result holds the negated distance and the closest points.
+ * Flat shapes that only touch, e.g. two coplanar triangles, report zero depth.
+ *
+ * Reference: Gino van den Bergen, "Proximity Queries and Penetration Depth Computation on 3D Game Objects" (2001)
+ *
+ * @param out output object to store result (intersecting, depth, normal, contact points)
+ * @param supportA support function of shape A
+ * @param supportB support function of shape B
+ */
+export function penetration(out: PenetrationResult, supportA: SupportFunction, supportB: SupportFunction): void {
+    out.intersecting = runGjk(supportA, supportB);
+
+    if (!out.intersecting) {
+        simplexPoints(out.pointA, out.pointB);
+        const d = vec3.distance(out.pointA, out.pointB);
+        out.depth = -d;
+        if (d > 0) {
+            vec3.subtract(out.normal, out.pointB, out.pointA);
+            vec3.scale(out.normal, out.normal, 1 / d);
+        } else {
+            vec3.zero(out.normal);
+        }
+        return;
+    }
+
+    if (!expandSimplex(supportA, supportB)) {
+        // the Minkowski difference is flat, the shapes can only touch
+        simplexPoints(out.pointA, out.pointB);
+        out.depth = 0;
+        vec3.copy(out.normal, _expandSimplex_normal);
+        return;
+    }
+
+    runEpa(out, supportA, supportB);
+}
+
+/* GJK */
+
+const MAX_GJK_ITERATIONS = 64;
+
+/** squared length of the closest simplex point under which the origin is considered inside */
+const GJK_ABSOLUTE_TOLERANCE = 1e-12;
+
+/** relative gap between the upper and lower distance bounds at which GJK has converged */
+const GJK_RELATIVE_TOLERANCE = 1e-8;
+
+// simplex of the Minkowski difference A - B: w = a - b, with the support points a and b that produced w
+const _simplexW: Vec3[] = [vec3.create(), vec3.create(), vec3.create(), vec3.create()];
+const _simplexA: Vec3[] = [vec3.create(), vec3.create(), vec3.create(), vec3.create()];
+const _simplexB: Vec3[] = [vec3.create(), vec3.create(), vec3.create(), vec3.create()];
+const _lambdas: number[] = [1, 0, 0, 0];
+let _simplexCount = 0;
+
+/** closest point of the simplex to the origin */
+const _v = /*@__PURE__*/ vec3.create();
+
+const _runGjk_direction = /*@__PURE__*/ vec3.create();
+
+/**
+ * Runs GJK, leaving the final simplex and barycentric weights of its closest point in the module state.
+ * Returns true if the origin is inside the Minkowski difference, i.e. the shapes intersect.
+ */
+function runGjk(supportA: SupportFunction, supportB: SupportFunction): boolean {
+    const direction = _runGjk_direction;
+
+    vec3.set(direction, 1, 0, 0);
+    _simplexCount = 0;
+    addSupport(supportA, supportB, direction);
+    _lambdas[0] = 1;
+    vec3.copy(_v, _simplexW[0]);
+
+    for (let iteration = 0; iteration < MAX_GJK_ITERATIONS; iteration++) {
+        const vv = vec3.dot(_v, _v);
+        if (vv <= GJK_ABSOLUTE_TOLERANCE) return true;
+
+        vec3.negate(direction, _v);
+        const index = addSupport(supportA, supportB, direction);
+        const w = _simplexW[index];
+
+        // no progress towards the origin: _v is the closest point of the Minkowski difference
+        if (vv - vec3.dot(_v, w) <= GJK_RELATIVE_TOLERANCE * vv || isDuplicate(index)) {
+            _simplexCount--;
+            return false;
+        }
+
+        solveSimplex();
+
+        // the origin is inside the tetrahedron
+        if (_simplexCount === 4) return true;
+    }
+
+    return false;
+}
+
+/** adds a support point of the Minkowski difference in a direction, returning its index */
+function addSupport(supportA: SupportFunction, supportB: SupportFunction, direction: Vec3): number {
+    const index = _simplexCount;
+    supportA(_simplexA[index], direction);
+    supportB(_simplexB[index], vec3.negate(_addSupport_negated, direction));
+    vec3.subtract(_simplexW[index], _simplexA[index], _simplexB[index]);
+    _simplexCount++;
+    return index;
+}
+
+const _addSupport_negated = /*@__PURE__*/ vec3.create();
+
+function isDuplicate(index: number): boolean {
+    for (let i = 0; i < index; i++) {
+        if (vec3.exactEquals(_simplexW[i], _simplexW[index])) return true;
+    }
+    return false;
+}
+
+/** writes the points on A and B corresponding to the closest point of the simplex */
+function simplexPoints(outA: Vec3, outB: Vec3): void {
+    vec3.zero(outA);
+    vec3.zero(outB);
+    for (let i = 0; i < _simplexCount; i++) {
+        vec3.scaleAndAdd(outA, outA, _simplexA[i], _lambdas[i]);
+        vec3.scaleAndAdd(outB, outB, _simplexB[i], _lambdas[i]);
+    }
+}
+
+function copyVertex(to: number, from: number): void {
+    vec3.copy(_simplexW[to], _simplexW[from]);
+    vec3.copy(_simplexA[to], _simplexA[from]);
+    vec3.copy(_simplexB[to], _simplexB[from]);
+}
+
+/**
+ * Finds the closest point of the simplex to the origin, reducing the simplex to the
+ * smallest sub-simplex containing it and updating the weights and _v.
+ */
+function solveSimplex(): void {
+    if (_simplexCount === 2) {
+        solveSegment();
+    } else if (_simplexCount === 3) {
+        solveTriangle();
+    } else if (_simplexCount === 4) {
+        solveTetrahedron();
+    }
+
+    vec3.zero(_v);
+    for (let i = 0; i < _simplexCount; i++) {
+        vec3.scaleAndAdd(_v, _v, _simplexW[i], _lambdas[i]);
+    }
+}
+
+function reduceToVertex(i: number): void {
+    if (i !== 0) copyVertex(0, i);
+    _simplexCount = 1;
+    _lambdas[0] = 1;
+}
+
+function reduceToSegment(i: number, j: number, t: number): void {
+    // copy in an order that never overwrites a vertex before it is read
+    if (i !== 0) copyVertex(0, i);
+    if (j !== 1) copyVertex(1, j);
+    _simplexCount = 2;
+    _lambdas[0] = 1 - t;
+    _lambdas[1] = t;
+}
+
+function solveSegment(): void {
+    const a = _simplexW[0];
+    const b = _simplexW[1];
+    const abx = b[0] - a[0];
+    const aby = b[1] - a[1];
+    const abz = b[2] - a[2];
+    const abab = abx * abx + aby * aby + abz * abz;
+
+    if (abab === 0) {
+        reduceToVertex(0);
+        return;
+    }
+
+    const t = -(a[0] * abx + a[1] * aby + a[2] * abz) / abab;
+
+    if (t <= 0) {
+        reduceToVertex(0);
+    } else if (t >= 1) {
+        reduceToVertex(1);
+    } else {
+        reduceToSegment(0, 1, t);
+    }
+}
+
+/**
+ * Closest point of triangle 0, 1, 2 to the origin, by Voronoi regions.
+ * Reference: Real-Time Collision Detection by Christer Ericson (chapter 5.1.5)
+ */
+function solveTriangle(): void {
+    const a = _simplexW[0];
+    const b = _simplexW[1];
+    const c = _simplexW[2];
+
+    const abx = b[0] - a[0];
+    const aby = b[1] - a[1];
+    const abz = b[2] - a[2];
+    const acx = c[0] - a[0];
+    const acy = c[1] - a[1];
+    const acz = c[2] - a[2];
+
+    // vectors from the vertices to the origin are the negated vertices
+    const d1 = -(abx * a[0] + aby * a[1] + abz * a[2]);
+    const d2 = -(acx * a[0] + acy * a[1] + acz * a[2]);
+    if (d1 <= 0 && d2 <= 0) {
+        reduceToVertex(0);
+        return;
+    }
+
+    const d3 = -(abx * b[0] + aby * b[1] + abz * b[2]);
+    const d4 = -(acx * b[0] + acy * b[1] + acz * b[2]);
+    if (d3 >= 0 && d4 <= d3) {
+        reduceToVertex(1);
+        return;
+    }
+
+    const vc = d1 * d4 - d3 * d2;
+    if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+        reduceToSegment(0, 1, d1 / (d1 - d3));
+        return;
+    }
+
+    const d5 = -(abx * c[0] + aby * c[1] + abz * c[2]);
+    const d6 = -(acx * c[0] + acy * c[1] + acz * c[2]);
+    if (d6 >= 0 && d5 <= d6) {
+        reduceToVertex(2);
+        return;
+    }
+
+    const vb = d5 * d2 - d1 * d6;
+    if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+        reduceToSegment(0, 2, d2 / (d2 - d6));
+        return;
+    }
+
+    const va = d3 * d6 - d5 * d4;
+    if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+        reduceToSegment(1, 2, (d4 - d3) / (d4 - d3 + (d5 - d6)));
+        return;
+    }
+
+    const sum = va + vb + vc;
+    if (sum <= 0) {
+        // degenerate triangle: fall back to its first edge
+        _simplexCount = 2;
+        solveSegment();
+        return;
+    }
+
+    _lambdas[0] = va / sum;
+    _lambdas[1] = vb / sum;
+    _lambdas[2] = vc / sum;
+}
+
+// faces of a tetrahedron 0, 1, 2, 3 and the vertex opposite each face
+const TETRAHEDRON_FACES = [0, 1, 2, 3, 0, 2, 3, 1, 0, 3, 1, 2, 1, 3, 2, 0];
+
+const _tetrahedronW: Vec3[] = [vec3.create(), vec3.create(), vec3.create(), vec3.create()];
+const _tetrahedronA: Vec3[] = [vec3.create(), vec3.create(), vec3.create(), vec3.create()];
+const _tetrahedronB: Vec3[] = [vec3.create(), vec3.create(), vec3.create(), vec3.create()];
+const _bestW: Vec3[] = [vec3.create(), vec3.create(), vec3.create()];
+const _bestA: Vec3[] = [vec3.create(), vec3.create(), vec3.create()];
+const _bestB: Vec3[] = [vec3.create(), vec3.create(), vec3.create()];
+const _bestLambdas: number[] = [0, 0, 0];
+const _solveTetrahedron_normal = /*@__PURE__*/ vec3.create();
+const _solveTetrahedron_ab = /*@__PURE__*/ vec3.create();
+const _solveTetrahedron_ac = /*@__PURE__*/ vec3.create();
+const _solveTetrahedron_ad = /*@__PURE__*/ vec3.create();
+
+/**
+ * Closest point of tetrahedron 0, 1, 2, 3 to the origin: the closest point over the faces
+ * that have the origin on their outer side, or the origin itself when it is inside.
+ * Reference: Real-Time Collision Detection by Christer Ericson (chapter 5.1.6)
+ */
+function solveTetrahedron(): void {
+    for (let i = 0; i < 4; i++) {
+        vec3.copy(_tetrahedronW[i], _simplexW[i]);
+        vec3.copy(_tetrahedronA[i], _simplexA[i]);
+        vec3.copy(_tetrahedronB[i], _simplexB[i]);
+    }
+
+    let bestDistance = math.huge;
+    let bestCount = 0;
+
+    for (let f = 0; f < 16; f += 4) {
+        const i = TETRAHEDRON_FACES[f];
+        const j = TETRAHEDRON_FACES[f + 1];
+        const k = TETRAHEDRON_FACES[f + 2];
+        const l = TETRAHEDRON_FACES[f + 3];
+
+        const a = _tetrahedronW[i];
+        vec3.subtract(_solveTetrahedron_ab, _tetrahedronW[j], a);
+        vec3.subtract(_solveTetrahedron_ac, _tetrahedronW[k], a);
+        vec3.subtract(_solveTetrahedron_ad, _tetrahedronW[l], a);
+        const normal = vec3.cross(_solveTetrahedron_normal, _solveTetrahedron_ab, _solveTetrahedron_ac);
+
+        // the origin is outside the face when it is on the other side from the opposite vertex
+        const signOrigin = -vec3.dot(normal, a);
+        const signOpposite = vec3.dot(normal, _solveTetrahedron_ad);
+        if (signOrigin * signOpposite >= 0 && signOpposite !== 0) continue;
+
+        loadTetrahedronVertex(0, i);
+        loadTetrahedronVertex(1, j);
+        loadTetrahedronVertex(2, k);
+        _simplexCount = 3;
+        solveTriangle();
+
+        vec3.zero(_v);
+        for (let n = 0; n < _simplexCount; n++) {
+            vec3.scaleAndAdd(_v, _v, _simplexW[n], _lambdas[n]);
+        }
+        const distanceSq = vec3.dot(_v, _v);
+
+        if (distanceSq < bestDistance) {
+            bestDistance = distanceSq;
+            bestCount = _simplexCount;
+            for (let n = 0; n < _simplexCount; n++) {
+                vec3.copy(_bestW[n], _simplexW[n]);
+                vec3.copy(_bestA[n], _simplexA[n]);
+                vec3.copy(_bestB[n], _simplexB[n]);
+                _bestLambdas[n] = _lambdas[n];
+            }
+        }
+    }
+
+    if (bestCount === 0) {
+        // the origin is inside: restore the full tetrahedron
+        for (let i = 0; i < 4; i++) {
+            loadTetrahedronVertex(i, i);
+            _lambdas[i] = 0.25;
+        }
+        _simplexCount = 4;
+        return;
+    }
+
+    for (let n = 0; n < bestCount; n++) {
+        vec3.copy(_simplexW[n], _bestW[n]);
+        vec3.copy(_simplexA[n], _bestA[n]);
+        vec3.copy(_simplexB[n], _bestB[n]);
+        _lambdas[n] = _bestLambdas[n];
+    }
+    _simplexCount = bestCount;
+}
+
+function loadTetrahedronVertex(to: number, from: number): void {
+    vec3.copy(_simplexW[to], _tetrahedronW[from]);
+    vec3.copy(_simplexA[to], _tetrahedronA[from]);
+    vec3.copy(_simplexB[to], _tetrahedronB[from]);
+}
+
+/* EPA */
+
+const MAX_EPA_ITERATIONS = 64;
+
+/** gap between the closest face and the support point along its normal at which EPA has converged */
+const EPA_TOLERANCE = 1e-4;
+
+/** squared length under which directions and face normals are considered degenerate */
+const DEGENERATE_TOLERANCE = 1e-12;
+
+/** distance off the plane of a triangle under which a support point is considered coplanar */
+const FLAT_TOLERANCE = 1e-6;
+
+const EXPAND_DIRECTIONS: Vec3[] = [
+    [1, 0, 0],
+    [-1, 0, 0],
+    [0, 1, 0],
+    [0, -1, 0],
+    [0, 0, 1],
+    [0, 0, -1],
+];
+
+const _expandSimplex_direction = /*@__PURE__*/ vec3.create();
+const _expandSimplex_edge = /*@__PURE__*/ vec3.create();
+const _expandSimplex_edge2 = /*@__PURE__*/ vec3.create();
+const _expandSimplex_normal = /*@__PURE__*/ vec3.create();
+
+/**
+ * Grows the simplex left by GJK into a tetrahedron containing the origin, as required by EPA.
+ * Returns false if the Minkowski difference is flat, in which case _expandSimplex_normal holds
+ * a direction perpendicular to it.
+ */
+function expandSimplex(supportA: SupportFunction, supportB: SupportFunction): boolean {
+    const direction = _expandSimplex_direction;
+    const edge = _expandSimplex_edge;
+    const edge2 = _expandSimplex_edge2;
+    const normal = _expandSimplex_normal;
+
+    vec3.set(normal, 0, 0, 1);
+
+    // a point: add a second point in any direction that gives a distinct one
+    if (_simplexCount === 1) {
+        for (const d of EXPAND_DIRECTIONS) {
+            const index = addSupport(supportA, supportB, d);
+            if (vec3.squaredDistance(_simplexW[index], _simplexW[0]) > DEGENERATE_TOLERANCE) break;
+            _simplexCount--;
+        }
+        if (_simplexCount === 1) return false;
+    }
+
+    // a segment: add a point off its line, searching directions perpendicular to it
+    if (_simplexCount === 2) {
+        vec3.subtract(edge, _simplexW[1], _simplexW[0]);
+        for (const axis of EXPAND_DIRECTIONS) {
+            vec3.cross(direction, edge, axis);
+            if (vec3.squaredLength(direction) <= DEGENERATE_TOLERANCE) continue;
+
+            const index = addSupport(supportA, supportB, direction);
+            vec3.subtract(edge2, _simplexW[index], _simplexW[0]);
+            if (vec3.squaredLength(vec3.cross(normal, edge, edge2)) > DEGENERATE_TOLERANCE) break;
+            _simplexCount--;
+        }
+        if (_simplexCount === 2) {
+            // no direction found a point off the line: any perpendicular separates
+            const axis = math.abs(edge[0]) < math.abs(edge[1]) ? EXPAND_DIRECTIONS[0] : EXPAND_DIRECTIONS[2];
+            vec3.normalize(normal, vec3.cross(normal, edge, axis));
+            return false;
+        }
+    }
+
+    // a triangle: add a point off its plane, on either side
+    if (_simplexCount === 3) {
+        vec3.subtract(edge, _simplexW[1], _simplexW[0]);
+        vec3.subtract(edge2, _simplexW[2], _simplexW[0]);
+        vec3.normalize(normal, vec3.cross(normal, edge, edge2));
+
+        const planeDistance = vec3.dot(normal, _simplexW[0]);
+        let index = addSupport(supportA, supportB, normal);
+        if (math.abs(vec3.dot(normal, _simplexW[index]) - planeDistance) <= FLAT_TOLERANCE) {
+            _simplexCount--;
+            index = addSupport(supportA, supportB, vec3.negate(direction, normal));
+            if (math.abs(vec3.dot(normal, _simplexW[index]) - planeDistance) <= FLAT_TOLERANCE) {
+                _simplexCount--;
+                return false;
+            }
+        }
+    }
+
+    return true;
+}
+
+// polytope vertices, grown on demand
+const _polytopeW: Vec3[] = [];
+const _polytopeA: Vec3[] = [];
+const _polytopeB: Vec3[] = [];
+let _polytopeCount = 0;
+
+// polytope faces: 3 vertex indices, a unit outward normal and the distance from the origin per face
+const _faceVertices: number[] = [];
+const _faceNormals: number[] = [];
+const _faceDistances: number[] = [];
+
+// horizon edges, 2 vertex indices per edge
+const _horizon: number[] = [];
+
+const _runEpa_direction = /*@__PURE__*/ vec3.create();
+const _runEpa_negated = /*@__PURE__*/ vec3.create();
+const _runEpa_point = /*@__PURE__*/ vec3.create();
+const _runEpa_barycentric = /*@__PURE__*/ vec3.create();
+
+/** expands the tetrahedron in the simplex towards the boundary of the Minkowski difference closest to the origin */
+function runEpa(out: PenetrationResult, supportA: SupportFunction, supportB: SupportFunction): void {
+    _polytopeCount = 0;
+    _faceVertices.clear();
+    _faceNormals.clear();
+    _faceDistances.clear();
+
+    for (let i = 0; i < 4; i++) {
+        const index = addPolytopeVertex();
+        vec3.copy(_polytopeW[index], _simplexW[i]);
+        vec3.copy(_polytopeA[index], _simplexA[i]);
+        vec3.copy(_polytopeB[index], _simplexB[i]);
+    }
+
+    for (let f = 0; f < 16; f += 4) {
+        addOrientedFace(TETRAHEDRON_FACES[f], TETRAHEDRON_FACES[f + 1], TETRAHEDRON_FACES[f + 2], TETRAHEDRON_FACES[f + 3]);
+    }
+
+    const direction = _runEpa_direction;
+    let closest = 0;
+
+    for (let iteration = 0; iteration < MAX_EPA_ITERATIONS; iteration++) {
+        closest = closestFace();
+        const closestDistance = _faceDistances[closest];
+
+        vec3.fromBuffer(direction, _faceNormals, closest * 3);
+        const index = addPolytopeVertex();
+        supportA(_polytopeA[index], direction);
+        supportB(_polytopeB[index], vec3.negate(_runEpa_negated, direction));
+        const w = vec3.subtract(_polytopeW[index], _polytopeA[index], _polytopeB[index]);
+
+        // the support point is not beyond the closest face: it lies on the boundary
+        if (vec3.dot(w, direction) - closestDistance <= EPA_TOLERANCE) {
+            _polytopeCount--;
+            break;
+        }
+
+        // remove every face the new point can see, keeping the boundary of the hole
+        _horizon.clear();
+        for (let f = _faceDistances.size() - 1; f >= 0; f--) {
+            const v0 = _polytopeW[_faceVertices[f * 3]];
+            const visible =
+                _faceNormals[f * 3] * (w[0] - v0[0]) +
+                _faceNormals[f * 3 + 1] * (w[1] - v0[1]) +
+                _faceNormals[f * 3 + 2] * (w[2] - v0[2]);
+
+            if (visible > 0) {
+                addHorizonEdge(_faceVertices[f * 3], _faceVertices[f * 3 + 1]);
+                addHorizonEdge(_faceVertices[f * 3 + 1], _faceVertices[f * 3 + 2]);
+                addHorizonEdge(_faceVertices[f * 3 + 2], _faceVertices[f * 3]);
+                removeFace(f);
+            }
+        }
+
+        // close the hole with faces connecting the horizon to the new point
+        for (let e = 0; e < _horizon.size(); e += 2) {
+            addFace(_horizon[e], _horizon[e + 1], index);
+        }
+
+        if (_faceDistances.size() === 0) break;
+    }
+
+    closest = closestFace();
+
+    out.depth = _faceDistances[closest];
+    vec3.fromBuffer(out.normal, _faceNormals, closest * 3);
+
+    // the contact points correspond to the projection of the origin onto the closest face
+    const i = _faceVertices[closest * 3];
+    const j = _faceVertices[closest * 3 + 1];
+    const k = _faceVertices[closest * 3 + 2];
+    const point = vec3.scale(_runEpa_point, out.normal, out.depth);
+    const bary = triangle3.barycentric(_runEpa_barycentric, point, _polytopeW[i], _polytopeW[j], _polytopeW[k]);
+
+    vec3.scale(out.pointA, _polytopeA[i], bary[0]);
+    vec3.scaleAndAdd(out.pointA, out.pointA, _polytopeA[j], bary[1]);
+    vec3.scaleAndAdd(out.pointA, out.pointA, _polytopeA[k], bary[2]);
+    vec3.scale(out.pointB, _polytopeB[i], bary[0]);
+    vec3.scaleAndAdd(out.pointB, out.pointB, _polytopeB[j], bary[1]);
+    vec3.scaleAndAdd(out.pointB, out.pointB, _polytopeB[k], bary[2]);
+}
+
+function addPolytopeVertex(): number {
+    const index = _polytopeCount;
+    if (index === _polytopeW.size()) {
+        _polytopeW.push(vec3.create());
+        _polytopeA.push(vec3.create());
+        _polytopeB.push(vec3.create());
+    }
+    _polytopeCount++;
+    return index;
+}
+
+function closestFace(): number {
+    let closest = 0;
+    for (let f = 1; f < _faceDistances.size(); f++) {
+        if (_faceDistances[f] < _faceDistances[closest]) closest = f;
+    }
+    return closest;
+}
+
+const _addFace_ab = /*@__PURE__*/ vec3.create();
+const _addFace_ac = /*@__PURE__*/ vec3.create();
+const _addFace_normal = /*@__PURE__*/ vec3.create();
+
+/** adds a face i, j, k with its normal following the counter-clockwise winding */
+function addFace(i: number, j: number, k: number): void {
+    const a = _polytopeW[i];
+    vec3.subtract(_addFace_ab, _polytopeW[j], a);
+    vec3.subtract(_addFace_ac, _polytopeW[k], a);
+    const normal = vec3.cross(_addFace_normal, _addFace_ab, _addFace_ac);
+    const lengthSq = vec3.squaredLength(normal);
+
+    let distance = math.huge;
+    if (lengthSq > DEGENERATE_TOLERANCE * DEGENERATE_TOLERANCE) {
+        vec3.scale(normal, normal, 1 / math.sqrt(lengthSq));
+        distance = vec3.dot(normal, a);
+    } else {
+        // degenerate faces are never expanded
+        vec3.zero(normal);
+    }
+
+    _faceVertices.push(i, j, k);
+    _faceNormals.push(normal[0], normal[1], normal[2]);
+    _faceDistances.push(distance);
+}
+
+/** adds a face i, j, k of the initial tetrahedron, wound so its normal points away from the opposite vertex */
+function addOrientedFace(i: number, j: number, k: number, opposite: number): void {
+    const a = _polytopeW[i];
+    vec3.subtract(_addFace_ab, _polytopeW[j], a);
+    vec3.subtract(_addFace_ac, _polytopeW[k], a);
+    vec3.cross(_addFace_normal, _addFace_ab, _addFace_ac);
+
+    const o = _polytopeW[opposite];
+    const side = _addFace_normal[0] * (o[0] - a[0]) + _addFace_normal[1] * (o[1] - a[1]) + _addFace_normal[2] * (o[2] - a[2]);
+
+    if (side > 0) {
+        addFace(i, k, j);
+    } else {
+        addFace(i, j, k);
+    }
+}
+
+function removeFace(f: number): void {
+    const last = _faceDistances.size() - 1;
+    if (f !== last) {
+        for (let n = 0; n < 3; n++) {
+            _faceVertices[f * 3 + n] = _faceVertices[last * 3 + n];
+            _faceNormals[f * 3 + n] = _faceNormals[last * 3 + n];
+        }
+        _faceDistances[f] = _faceDistances[last];
+    }
+    for (let n = 0; n < 3; n++) {
+        _faceVertices.pop();
+        _faceNormals.pop();
+    }
+    _faceDistances.pop();
+}
+
+/** edges shared by two removed faces cancel out, leaving only the horizon */
+function addHorizonEdge(i: number, j: number): void {
+    for (let e = 0; e < _horizon.size(); e += 2) {
+        if (_horizon[e] === j && _horizon[e + 1] === i) {
+            const last = _horizon.size() - 2;
+            _horizon[e] = _horizon[last];
+            _horizon[e + 1] = _horizon[last + 1];
+            _horizon.pop();
+            _horizon.pop();
+            return;
+        }
+    }
+    _horizon.push(i, j);
+}
@@ -0,0 +1,188 @@
+//!native
+
+import * as Number from './Number';
+import * as plane3 from './plane3';
+import { convexHull3IsSolid } from './quickhull3';
+import * as raycast3 from './raycast3';
+import * as triangle3 from './triangle3';
+import type { Box3, ConvexHull3, Raycast3, Sphere, Vec3 } from './types';
+import * as vec3 from './vec3';
+
+/**
+ * Tests if a point is inside a convex hull, as computed by convexHull3.
+ * Empty and flat hulls enclose no volume and contain no points.
+ * @param hull - The convex hull
+ * @param point - The point to test
+ * @param tolerance - Distance outside the face planes still counted as inside, defaults to 0
+ * @returns True if the point is inside or on the boundary of the hull
+ */
+export function containsPoint(hull: ConvexHull3, point: Vec3, tolerance = 0): boolean {
+    if (!convexHull3IsSolid(hull)) return false;
+
+    for (const plane of hull.facePlanes) {
+        if (plane3.distanceToPoint(plane, point) > tolerance) return false;
+    }
+
+    return true;
+}
+
+const _closestPoint_a = /*@__PURE__*/ vec3.create();
+const _closestPoint_b = /*@__PURE__*/ vec3.create();
+const _closestPoint_c = /*@__PURE__*/ vec3.create();
+const _closestPoint_candidate = /*@__PURE__*/ vec3.create();
+
+/**
+ * Computes the closest point on the surface of a convex hull to a given point.
+ * Each polygon face is fanned into triangles and the nearest triangle point is kept.
+ * @param out - The output point, set to the query point if the hull has no faces
+ * @param hull - The convex hull
+ * @param points - Flat array of the points the hull was computed from: [x0, y0, z0, x1, y1, z1, ...]
+ * @param point - The query point
+ * @returns The output point
+ */
+export function closestPoint(out: Vec3, hull: ConvexHull3, points: number[], point: Vec3): Vec3 {
+    const a = _closestPoint_a;
+    const b = _closestPoint_b;
+    const c = _closestPoint_c;
+    const candidate = _closestPoint_candidate;
+
+    let bestDistanceSq = Number.POSITIVE_INFINITY;
+    vec3.copy(out, point);
+
+    for (const face of hull.faces) {
+        readPoint(a, points, face[0]);
+        for (let k = 1; k + 1 < face.size(); k++) {
+            readPoint(b, points, face[k]);
+            readPoint(c, points, face[k + 1]);
+            triangle3.closestPoint(candidate, point, a, b, c);
+
+            const distanceSq = vec3.squaredDistance(candidate, point);
+            if (distanceSq < bestDistanceSq) {
+                bestDistanceSq = distanceSq;
+                vec3.copy(out, candidate);
+            }
+        }
+    }
+
+    return out;
+}
+
+const _distanceToPoint_closest = /*@__PURE__*/ vec3.create();
+
+/**
+ * Calculates the signed distance from a point to the surface of a convex hull.
+ * @param hull - The convex hull
+ * @param points - Flat array of the points the hull was computed from: [x0, y0, z0, x1, y1, z1, ...]
+ * @param point - The query point
+ * @returns The distance to the hull surface, negative inside the hull. Infinity for an empty hull.
+ */
+export function distanceToPoint(hull: ConvexHull3, points: number[], point: Vec3): number {
+    if (hull.faces.size() === 0) return Number.POSITIVE_INFINITY;
+
+    if (convexHull3IsSolid(hull)) {
+        // inside, the nearest face plane is the nearest surface point
+        let maxDistance = Number.NEGATIVE_INFINITY;
+        for (const plane of hull.facePlanes) {
+            maxDistance = math.max(maxDistance, plane3.distanceToPoint(plane, point));
+        }
+        if (maxDistance <= 0) return maxDistance;
+    }
+
+    const closest = closestPoint(_distanceToPoint_closest, hull, points, point);
+    return vec3.distance(closest, point);
+}
+
+/**
+ * Ray-convex hull intersection test, clipping the ray against each face plane.
+ * Rays starting inside the hull hit at fraction 0, with the normal facing against the ray direction.
+ * Empty and flat hulls are never hit.
+ * @see raycast3.intersectsConvexHull3
+ *
+ * @param out output object to store result (hit boolean, fraction, point, normal)
+ * @param ray ray to test (with origin, direction, and length)
+ * @param hull convex hull to test against
+ */
+export function intersectsRay(out: raycast3.IntersectsShapeResult, ray: Raycast3, hull: ConvexHull3): void {
+    raycast3.intersectsConvexHull3(out, ray, hull);
+}
+
+const _intersectsBox3_axis = /*@__PURE__*/ vec3.create();
+const _intersectsBox3_edge = /*@__PURE__*/ vec3.create();
+
+/**
+ * Tests if a convex hull intersects an axis-aligned box using the separating axis theorem.
+ * Candidate axes are the box axes, the hull face normals and the cross products of hull edges with the box axes.
+ * @param hull - The convex hull
+ * @param points - Flat array of the points the hull was computed from: [x0, y0, z0, x1, y1, z1, ...]
+ * @param box - The box
+ * @returns True if the hull and box overlap or touch
+ */
+export function intersectsBox3(hull: ConvexHull3, points: number[], box: Box3): boolean {
+    if (hull.faces.size() === 0) return false;
+
+    const axis = _intersectsBox3_axis;
+
+    // box axes
+    for (let i = 0; i < 3; i++) {
+        vec3.zero(axis);
+        axis[i] = 1;
+        if (isSeparatingAxis(hull, points, box, axis)) return false;
+    }
+
+    // hull face normals
+    for (const plane of hull.facePlanes) {
+        if (isSeparatingAxis(hull, points, box, plane.normal)) return false;
+    }
+
+    // hull edges crossed with the box axes
+    const edge = _intersectsBox3_edge;
+    for (let e = 0; e < hull.edges.size(); e += 2) {
+        const ia = hull.edges[e] * 3;
+        const ib = hull.edges[e + 1] * 3;
+        vec3.set(edge, points[ib] - points[ia], points[ib + 1] - points[ia + 1], points[ib + 2] - points[ia + 2]);
+
+        for (let i = 0; i < 3; i++) {
+            vec3.zero(axis);
+            axis[i] = 1;
+            vec3.cross(axis, edge, axis);
+            // edges parallel to the box axis are covered by the face axes
+            if (vec3.squaredLength(axis) <= 1e-12 * vec3.squaredLength(edge)) continue;
+            if (isSeparatingAxis(hull, points, box, axis)) return false;
+        }
+    }
+
+    return true;
+}
+
+function isSeparatingAxis(hull: ConvexHull3, points: number[], box: Box3, axis: Vec3): boolean {
+    let hullMin = Number.POSITIVE_INFINITY;
+    let hullMax = Number.NEGATIVE_INFINITY;
+    for (const v of hull.vertices) {
+        const d = points[v * 3] * axis[0] + points[v * 3 + 1] * axis[1] + points[v * 3 + 2] * axis[2];
+        hullMin = math.min(hullMin, d);
+        hullMax = math.max(hullMax, d);
+    }
+
+    const center = (box[0] + box[3]) * 0.5 * axis[0] + (box[1] + box[4]) * 0.5 * axis[1] + (box[2] + box[5]) * 0.5 * axis[2];
+    const radius =
+        (box[3] - box[0]) * 0.5 * math.abs(axis[0]) +
+        (box[4] - box[1]) * 0.5 * math.abs(axis[1]) +
+        (box[5] - box[2]) * 0.5 * math.abs(axis[2]);
+
+    return hullMin > center + radius || hullMax < center - radius;
+}
+
+/**
+ * Tests if a convex hull intersects a sphere
+ * @param hull - The convex hull
+ * @param points - Flat array of the points the hull was computed from: [x0, y0, z0, x1, y1, z1, ...]
+ * @param sphere - The sphere
+ * @returns True if the hull and sphere overlap or touch
+ */
+export function intersectsSphere(hull: ConvexHull3, points: number[], sphere: Sphere): boolean {
+    return distanceToPoint(hull, points, sphere.center) <= sphere.radius;
+}
+
+function readPoint(out: Vec3, points: number[], index: number): Vec3 {
+    return vec3.set(out, points[index * 3], points[index * 3 + 1], points[index * 3 + 2]);
+}
@@ -17,16 +17,32 @@ export * as mat3 from './mat3';
 export * as mat4 from './mat4';
 
 export * as circle from './circle';
+export * as delaunay2 from './delaunay2';
+export * as polygon2 from './polygon2';
 export * as segment2 from './segment2';
+export * as voronoi2 from './voronoi2';
 
 export * as box3 from './box3';
+export * as bvh3 from './bvh3';
+export * as capsule3 from './capsule3';
+export * as cone3 from './cone3';
+export * as cylinder3 from './cylinder3';
+export * as dynamicTree3 from './dynamicTree3';
+export * as frustum3 from './frustum3';
+export * as hull3 from './hull3';
+export * as line3 from './line3';
+export * as massProperties3 from './massProperties3';
 export * as obb3 from './obb3';
 export * as plane3 from './plane3';
+export * as segment3 from './segment3';
 export * as sphere from './sphere';
 export * as spherical from './spherical';
 export * as triangle3 from './triangle3';
 
 export * as raycast3 from './raycast3';
+export * as sweep3 from './sweep3';
+
+export * as gjk from './gjk';
 
 export * from './quickhull3';
 export * from './quickhull2';
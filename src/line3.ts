@@ -0,0 +1,168 @@
+//!native
+
+import * as plane3 from './plane3';
+import type { Line3, Plane3, Segment3, Vec2, Vec3 } from './types';
+import * as vec3 from './vec3';
+
+/**
+ * Creates a new line through the origin along the x axis
+ * @returns A new line
+ */
+export function create(): Line3 {
+    return { origin: [0, 0, 0], direction: [1, 0, 0] };
+}
+
+/**
+ * Creates a new line from an origin and a direction
+ * @param origin - A point on the line
+ * @param direction - The direction of the line
+ * @returns A new line
+ */
+export function fromValues(origin: Vec3, direction: Vec3): Line3 {
+    return { origin: [origin[0], origin[1], origin[2]], direction: [direction[0], direction[1], direction[2]] };
+}
+
+/**
+ * Clones a line
+ * @param line - The line to clone
+ * @returns A new line
+ */
+export function clone(line: Line3): Line3 {
+    return fromValues(line.origin, line.direction);
+}
+
+/**
+ * Copies a line
+ * @param out - The output line
+ * @param line - The line to copy
+ * @returns The output line
+ */
+export function copy(out: Line3, line: Line3): Line3 {
+    vec3.copy(out.origin, line.origin);
+    vec3.copy(out.direction, line.direction);
+    return out;
+}
+
+/**
+ * Sets a line to pass through two points, with the direction from a to b
+ * @param out - The output line
+ * @param a - The first point, used as the origin
+ * @param b - The second point
+ * @returns The output line
+ */
+export function fromPoints(out: Line3, a: Vec3, b: Vec3): Line3 {
+    vec3.copy(out.origin, a);
+    vec3.subtract(out.direction, b, a);
+    return out;
+}
+
+/**
+ * Sets a line to extend a segment, with the direction from its start to its end
+ * @param out - The output line
+ * @param segment - The segment
+ * @returns The output line
+ */
+export function fromSegment(out: Line3, segment: Segment3): Line3 {
+    return fromPoints(out, segment.start, segment.end);
+}
+
+/**
+ * Calculates the point at a parameter along a line, origin + t * direction
+ * @param out - The output point
+ * @param line - The line
+ * @param t - The parameter, in multiples of the direction
+ * @returns The output point
+ */
+export function at(out: Vec3, line: Line3, t: number): Vec3 {
+    return vec3.scaleAndAdd(out, line.origin, line.direction, t);
+}
+
+/**
+ * Calculates the parameter along a line of the point closest to a given point
+ * @param line - The line
+ * @param point - The query point
+ * @returns The parameter, in multiples of the direction, 0 for a zero direction
+ */
+export function closestPointParameter(line: Line3, point: Vec3): number {
+    const lengthSq = vec3.squaredLength(line.direction);
+    if (lengthSq === 0) return 0;
+
+    const origin = line.origin;
+    const direction = line.direction;
+    return (
+        ((point[0] - origin[0]) * direction[0] + (point[1] - origin[1]) * direction[1] + (point[2] - origin[2]) * direction[2]) /
+        lengthSq
+    );
+}
+
+/**
+ * Calculates the closest point on a line to a given point
+ * @param out - The output point
+ * @param line - The line
+ * @param point - The query point
+ * @returns The output point
+ */
+export function closestPoint(out: Vec3, line: Line3, point: Vec3): Vec3 {
+    return at(out, line, closestPointParameter(line, point));
+}
+
+const _distanceToPoint_closest = /*@__PURE__*/ vec3.create();
+
+/**
+ * Calculates the distance from a point to a line
+ * @param line - The line
+ * @param point - The query point
+ * @returns The distance
+ */
+export function distanceToPoint(line: Line3, point: Vec3): number {
+    return vec3.distance(closestPoint(_distanceToPoint_closest, line, point), point);
+}
+
+/**
+ * Calculates the parameters of the closest points between two lines.
+ * Reference: Real-Time Collision Detection by Christer Ericson (chapter 5.1.8)
+ *
+ * @param out - The output parameters along the first and second line
+ * @param a - The first line
+ * @param b - The second line
+ * @returns True if the lines are not parallel, otherwise out is set to the origin of a and its closest point on b
+ */
+export function closestPointParameters(out: Vec2, a: Line3, b: Line3): boolean {
+    const d1 = a.direction;
+    const d2 = b.direction;
+    const rx = a.origin[0] - b.origin[0];
+    const ry = a.origin[1] - b.origin[1];
+    const rz = a.origin[2] - b.origin[2];
+
+    const aa = vec3.dot(d1, d1);
+    const bb = vec3.dot(d1, d2);
+    const ee = vec3.dot(d2, d2);
+    const c = d1[0] * rx + d1[1] * ry + d1[2] * rz;
+    const f = d2[0] * rx + d2[1] * ry + d2[2] * rz;
+    const denominator = aa * ee - bb * bb;
+
+    if (denominator <= 1e-12 * aa * ee) {
+        out[0] = 0;
+        out[1] = ee > 0 ? f / ee : 0;
+        return false;
+    }
+
+    out[0] = (bb * f - c * ee) / denominator;
+    out[1] = (aa * f - bb * c) / denominator;
+    return true;
+}
+
+/**
+ * Calculates where a line crosses a plane
+ * @param out - The output intersection point
+ * @param line - The line
+ * @param plane - The plane
+ * @returns True if the line crosses the plane, false if it is parallel to the plane
+ */
+export function intersectPlane3(out: Vec3, line: Line3, plane: Plane3): boolean {
+    const denominator = vec3.dot(plane.normal, line.direction);
+    if (denominator === 0) return false;
+
+    at(out, line, -plane3.distanceToPoint(plane, line.origin) / denominator);
+    return true;
+}
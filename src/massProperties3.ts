@@ -0,0 +1,295 @@
+//!native
+
+import * as mat3 from './mat3';
+import * as quat from './quat';
+import type { ConvexHull3, Mat3, Quat, Vec3 } from './types';
+import * as vec3 from './vec3';
+
+/**
+ * Mass properties of a solid body.
+ *  volume       - the enclosed volume, negative if the mesh winding is inside out
+ *  mass         - volume multiplied by density
+ *  centerOfMass - the center of mass, assuming uniform density
+ *  inertia      - the inertia tensor about the center of mass
+ */
+export type MassProperties3 = {
+    volume: number;
+    mass: number;
+    centerOfMass: Vec3;
+    inertia: Mat3;
+};
+
+/**
+ * Creates a new mass properties object with zero volume and mass
+ * @returns A new mass properties object
+ */
+export function create(): MassProperties3 {
+    return {
+        volume: 0,
+        mass: 0,
+        centerOfMass: vec3.create(),
+        inertia: mat3.zero(mat3.create()),
+    };
+}
+
+type Accumulator = {
+    refX: number;
+    refY: number;
+    refZ: number;
+    volume: number;
+    cx: number;
+    cy: number;
+    cz: number;
+    covariance: Mat3;
+};
+
+const _accumulator: Accumulator = {
+    refX: 0,
+    refY: 0,
+    refZ: 0,
+    volume: 0,
+    cx: 0,
+    cy: 0,
+    cz: 0,
+    covariance: /*@__PURE__*/ mat3.create(),
+};
+
+/**
+ * Computes the mass properties of a closed triangle mesh with uniform density, such as the output of quickhull3.
+ * Triangles must be wound counter-clockwise when seen from outside. The mesh is decomposed into
+ * tetrahedra against a reference vertex and their signed contributions are summed, so the mesh
+ * does not need to be convex.
+ *
+ * Reference: Jonathan Blow, Atman J Binstock, "How to find the inertia tensor (or other mass properties)
+ * of a 3D solid body represented by a triangle mesh" (2004)
+ *
+ * @param out - The output mass properties
+ * @param positions - Flat array of vertex positions: [x0, y0, z0, x1, y1, z1, ...]
+ * @param indices - Flat array of triangle vertex indices: [a0, b0, c0, a1, b1, c1, ...]
+ * @param density - The density of the body, defaults to 1
+ * @returns The output mass properties
+ */
+export function setFromMesh(out: MassProperties3, positions: number[], indices: number[], density = 1): MassProperties3 {
+    const acc = beginAccumulate(positions);
+
+    for (let i = 0; i + 2 < indices.size(); i += 3) {
+        accumulateTriangle(acc, positions, indices[i], indices[i + 1], indices[i + 2]);
+    }
+
+    return endAccumulate(out, acc, density);
+}
+
+/**
+ * Computes the mass properties of a convex hull with uniform density, as computed by convexHull3.
+ * Polygon faces are fanned into triangles.
+ *
+ * @param out - The output mass properties
+ * @param points - Flat array of the points the hull was computed from: [x0, y0, z0, x1, y1, z1, ...]
+ * @param hull - The convex hull
+ * @param density - The density of the body, defaults to 1
+ * @returns The output mass properties
+ */
+export function setFromConvexHull3(out: MassProperties3, points: number[], hull: ConvexHull3, density = 1): MassProperties3 {
+    const acc = beginAccumulate(points);
+
+    for (const face of hull.faces) {
+        for (let k = 1; k + 1 < face.size(); k++) {
+            accumulateTriangle(acc, points, face[0], face[k], face[k + 1]);
+        }
+    }
+
+    return endAccumulate(out, acc, density);
+}
+
+function beginAccumulate(positions: number[]): Accumulator {
+    const acc = _accumulator;
+
+    // summing tetrahedra against a vertex of the mesh rather than the origin keeps precision for meshes far from the origin
+    acc.refX = positions.size() >= 3 ? positions[0] : 0;
+    acc.refY = positions.size() >= 3 ? positions[1] : 0;
+    acc.refZ = positions.size() >= 3 ? positions[2] : 0;
+    acc.volume = 0;
+    acc.cx = 0;
+    acc.cy = 0;
+    acc.cz = 0;
+    mat3.zero(acc.covariance);
+
+    return acc;
+}
+
+function accumulateTriangle(acc: Accumulator, positions: number[], ia: number, ib: number, ic: number): void {
+    const ax = positions[ia * 3] - acc.refX;
+    const ay = positions[ia * 3 + 1] - acc.refY;
+    const az = positions[ia * 3 + 2] - acc.refZ;
+    const bx = positions[ib * 3] - acc.refX;
+    const by = positions[ib * 3 + 1] - acc.refY;
+    const bz = positions[ib * 3 + 2] - acc.refZ;
+    const cx = positions[ic * 3] - acc.refX;
+    const cy = positions[ic * 3 + 1] - acc.refY;
+    const cz = positions[ic * 3 + 2] - acc.refZ;
+
+    // six times the signed volume of the tetrahedron (ref, a, b, c)
+    const det = ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx);
+    if (det === 0) return;
+
+    const volume = det / 6;
+    acc.volume += volume;
+    acc.cx += (volume * (ax + bx + cx)) / 4;
+    acc.cy += (volume * (ay + by + cy)) / 4;
+    acc.cz += (volume * (az + bz + cz)) / 4;
+
+    // covariance of the tetrahedron: det / 120 * (a aᵀ + b bᵀ + c cᵀ + s sᵀ) with s = a + b + c
+    const sx = ax + bx + cx;
+    const sy = ay + by + cy;
+    const sz = az + bz + cz;
+    const f = det / 120;
+    const xx = f * (ax * ax + bx * bx + cx * cx + sx * sx);
+    const yy = f * (ay * ay + by * by + cy * cy + sy * sy);
+    const zz = f * (az * az + bz * bz + cz * cz + sz * sz);
+    const xy = f * (ax * ay + bx * by + cx * cy + sx * sy);
+    const xz = f * (ax * az + bx * bz + cx * cz + sx * sz);
+    const yz = f * (ay * az + by * bz + cy * cz + sy * sz);
+
+    const c = acc.covariance;
+    c[0] += xx;
+    c[1] += xy;
+    c[2] += xz;
+    c[3] += xy;
+    c[4] += yy;
+    c[5] += yz;
+    c[6] += xz;
+    c[7] += yz;
+    c[8] += zz;
+}
+
+function endAccumulate(out: MassProperties3, acc: Accumulator, density: number): MassProperties3 {
+    out.volume = acc.volume;
+    out.mass = acc.volume * density;
+
+    if (acc.volume === 0) {
+        vec3.set(out.centerOfMass, acc.refX, acc.refY, acc.refZ);
+        mat3.zero(out.inertia);
+        return out;
+    }
+
+    // center of mass relative to the reference vertex
+    const mx = acc.cx / acc.volume;
+    const my = acc.cy / acc.volume;
+    const mz = acc.cz / acc.volume;
+
+    // move the covariance to the center of mass: C' = C - V m mᵀ, then scale by density
+    const c = acc.covariance;
+    const v = acc.volume;
+    const xx = (c[0] - v * mx * mx) * density;
+    const yy = (c[4] - v * my * my) * density;
+    const zz = (c[8] - v * mz * mz) * density;
+    const xy = (c[1] - v * mx * my) * density;
+    const xz = (c[2] - v * mx * mz) * density;
+    const yz = (c[5] - v * my * mz) * density;
+
+    // inertia tensor from covariance: I = trace(C) E - C
+    const trace = xx + yy + zz;
+    mat3.set(out.inertia, trace - xx, -xy, -xz, -xy, trace - yy, -yz, -xz, -yz, trace - zz);
+
+    vec3.set(out.centerOfMass, mx + acc.refX, my + acc.refY, mz + acc.refZ);
+
+    return out;
+}
+
+const MAX_JACOBI_SWEEPS = 32;
+
+const _principalAxes_a: number[] = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+const _principalAxes_v = /*@__PURE__*/ mat3.create();
+
+/**
+ * Computes the principal axes and principal moments of inertia of an inertia tensor by
+ * eigen-decomposition with the cyclic Jacobi method.
+ * The rotation maps the local x, y and z axes onto the principal axes, so that
+ * inertia = R · diag(moments) · Rᵀ where R is the rotation matrix of the quaternion.
+ * Moments are sorted in ascending order.
+ *
+ * @param outRotation - The output rotation of the principal axes
+ * @param outMoments - The output principal moments of inertia
+ * @param inertia - The symmetric inertia tensor
+ * @returns The output rotation
+ */
+export function principalAxes(outRotation: Quat, outMoments: Vec3, inertia: Mat3): Quat {
+    // a is the working copy of the tensor, v accumulates the rotations, both column-major
+    const a = _principalAxes_a;
+    const v = mat3.identity(_principalAxes_v);
+    for (let i = 0; i < 9; i++) {
+        a[i] = inertia[i];
+    }
+
+    for (let sweep = 0; sweep < MAX_JACOBI_SWEEPS; sweep++) {
+        const offDiagonal = a[3] * a[3] + a[6] * a[6] + a[7] * a[7];
+        const diagonal = a[0] * a[0] + a[4] * a[4] + a[8] * a[8];
+        if (offDiagonal <= 1e-24 * diagonal || offDiagonal === 0) break;
+
+        jacobiRotate(a, v, 0, 1);
+        jacobiRotate(a, v, 0, 2);
+        jacobiRotate(a, v, 1, 2);
+    }
+
+    outMoments[0] = a[0];
+    outMoments[1] = a[4];
+    outMoments[2] = a[8];
+
+    // sort ascending, swapping eigenvector columns along with the moments
+    if (outMoments[0] > outMoments[1]) swapAxes(outMoments, v, 0, 1);
+    if (outMoments[1] > outMoments[2]) swapAxes(outMoments, v, 1, 2);
+    if (outMoments[0] > outMoments[1]) swapAxes(outMoments, v, 0, 1);
+
+    // eigenvectors may form a reflection, flip the last axis to make a proper rotation
+    if (mat3.determinant(v) < 0) {
+        v[6] = -v[6];
+        v[7] = -v[7];
+        v[8] = -v[8];
+    }
+
+    quat.fromMat3(outRotation, v);
+    return quat.normalize(outRotation, outRotation);
+}
+
+function jacobiRotate(a: number[], v: Mat3, p: number, q: number): void {
+    const apq = a[q * 3 + p];
+    if (apq === 0) return;
+
+    // rotation angle that zeroes a[p][q], taking the smaller root for stability
+    const theta = (a[q * 3 + q] - a[p * 3 + p]) / (2 * apq);
+    const t = (theta >= 0 ? 1 : -1) / (math.abs(theta) + math.sqrt(theta * theta + 1));
+    const c = 1 / math.sqrt(t * t + 1);
+    const s = t * c;
+
+    // a = Jᵀ a J and v = v J, where J is the rotation in the p-q plane
+    for (let k = 0; k < 3; k++) {
+        const akp = a[p * 3 + k];
+        const akq = a[q * 3 + k];
+        a[p * 3 + k] = c * akp - s * akq;
+        a[q * 3 + k] = s * akp + c * akq;
+    }
+    for (let k = 0; k < 3; k++) {
+        const apk = a[k * 3 + p];
+        const aqk = a[k * 3 + q];
+        a[k * 3 + p] = c * apk - s * aqk;
+        a[k * 3 + q] = s * apk + c * aqk;
+    }
+    for (let k = 0; k < 3; k++) {
+        const vkp = v[p * 3 + k];
+        const vkq = v[q * 3 + k];
+        v[p * 3 + k] = c * vkp - s * vkq;
+        v[q * 3 + k] = s * vkp + c * vkq;
+    }
+}
+
+function swapAxes(moments: Vec3, v: Mat3, i: number, j: number): void {
+    const m = moments[i];
+    moments[i] = moments[j];
+    moments[j] = m;
+
+    for (let k = 0; k < 3; k++) {
+        const t = v[i * 3 + k];
+        v[i * 3 + k] = v[j * 3 + k];
+        v[j * 3 + k] = t;
+    }
+}
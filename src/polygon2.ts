@@ -0,0 +1,1462 @@
+//!native
+
+import { EPSILON } from './common';
+import * as Number from './Number';
+import type { Vec2 } from './types';
+import * as vec2 from './vec2';
+
+/**
+ * Calculates the signed area of a polygon using the shoelace formula
+ * @param polygon - Flat array of the polygon vertices: [x0, y0, x1, y1, ...]
+ * @returns The area, positive for counter-clockwise and negative for clockwise winding
+ */
+export function signedArea(polygon: number[]): number {
+    const count = math.floor(polygon.size() / 2);
+    let area = 0;
+
+    for (let i = 0; i < count; i++) {
+        const j = i === count - 1 ? 0 : i + 1;
+        area += polygon[i * 2] * polygon[j * 2 + 1] - polygon[j * 2] * polygon[i * 2 + 1];
+    }
+
+    return area * 0.5;
+}
+
+/**
+ * Tests if a polygon is wound counter-clockwise
+ * @param polygon - Flat array of the polygon vertices: [x0, y0, x1, y1, ...]
+ * @returns True if the signed area is positive, false for clockwise and degenerate polygons
+ */
+export function isCounterClockwise(polygon: number[]): boolean {
+    return signedArea(polygon) > 0;
+}
+
+/**
+ * Reverses the winding order of a polygon
+ * @param out - The output polygon, may be the input polygon
+ * @param polygon - Flat array of the polygon vertices: [x0, y0, x1, y1, ...]
+ * @returns The output polygon
+ */
+export function reverse(out: number[], polygon: number[]): number[] {
+    const count = math.floor(polygon.size() / 2);
+
+    if (out === polygon) {
+        for (let i = 0; i < math.floor(count / 2); i++) {
+            const j = count - 1 - i;
+            const x = out[i * 2];
+            const y = out[i * 2 + 1];
+            out[i * 2] = out[j * 2];
+            out[i * 2 + 1] = out[j * 2 + 1];
+            out[j * 2] = x;
+            out[j * 2 + 1] = y;
+        }
+        return out;
+    }
+
+    out.clear();
+    for (let i = count - 1; i >= 0; i--) {
+        out.push(polygon[i * 2], polygon[i * 2 + 1]);
+    }
+
+    return out;
+}
+
+/**
+ * Calculates the area centroid of a polygon.
+ * Polygons with no area fall back to the average of their vertices.
+ * @param out - The output centroid
+ * @param polygon - Flat array of the polygon vertices: [x0, y0, x1, y1, ...]
+ * @returns The output centroid, zero for an empty polygon
+ */
+export function centroid(out: Vec2, polygon: number[]): Vec2 {
+    const count = math.floor(polygon.size() / 2);
+    if (count === 0) {
+        out[0] = 0;
+        out[1] = 0;
+        return out;
+    }
+
+    // relative to the first vertex to limit cancellation for polygons far from the origin
+    const ox = polygon[0];
+    const oy = polygon[1];
+    let area = 0;
+    let cx = 0;
+    let cy = 0;
+    let sumX = 0;
+    let sumY = 0;
+
+    for (let i = 0; i < count; i++) {
+        const j = i === count - 1 ? 0 : i + 1;
+        const x0 = polygon[i * 2] - ox;
+        const y0 = polygon[i * 2 + 1] - oy;
+        const x1 = polygon[j * 2] - ox;
+        const y1 = polygon[j * 2 + 1] - oy;
+        const cross = x0 * y1 - x1 * y0;
+
+        area += cross;
+        cx += (x0 + x1) * cross;
+        cy += (y0 + y1) * cross;
+        sumX += x0;
+        sumY += y0;
+    }
+
+    if (math.abs(area) <= EPSILON * EPSILON) {
+        out[0] = ox + sumX / count;
+        out[1] = oy + sumY / count;
+        return out;
+    }
+
+    out[0] = ox + cx / (3 * area);
+    out[1] = oy + cy / (3 * area);
+
+    return out;
+}
+
+/**
+ * Rule deciding which points are inside a polygon, used by {@link containsPoint}
+ * even-odd - inside if a ray from the point crosses the boundary an odd number of times
+ * non-zero - inside if the boundary winds around the point a non-zero number of times
+ */
+export type FillRule = 'even-odd' | 'non-zero';
+
+/**
+ * Calculates how many times a polygon winds around a point.
+ * Reference: Dan Sunday, "Inclusion of a Point in a Polygon" (2001)
+ * @param polygon - Flat array of the polygon vertices: [x0, y0, x1, y1, ...]
+ * @param point - The point
+ * @returns The winding number, positive for counter-clockwise windings
+ */
+export function windingNumber(polygon: number[], point: Vec2): number {
+    const count = math.floor(polygon.size() / 2);
+    const px = point[0];
+    const py = point[1];
+    let winding = 0;
+
+    for (let i = 0; i < count; i++) {
+        const j = i === count - 1 ? 0 : i + 1;
+        const ax = polygon[i * 2];
+        const ay = polygon[i * 2 + 1];
+        const bx = polygon[j * 2];
+        const by = polygon[j * 2 + 1];
+        const side = (bx - ax) * (py - ay) - (by - ay) * (px - ax);
+
+        if (ay <= py) {
+            // upward crossing with the point to the left of the edge
+            if (by > py && side > 0) winding++;
+        } else if (by <= py && side < 0) {
+            // downward crossing with the point to the right of the edge
+            winding--;
+        }
+    }
+
+    return winding;
+}
+
+/**
+ * Tests if a point is inside a polygon, which may be concave or self-intersecting.
+ * Points exactly on the boundary may be reported either inside or outside.
+ * @param polygon - Flat array of the polygon vertices: [x0, y0, x1, y1, ...]
+ * @param point - The point to test
+ * @param rule - The fill rule, defaults to 'even-odd'
+ * @returns True if the point is inside the polygon
+ */
+export function containsPoint(polygon: number[], point: Vec2, rule: FillRule = 'even-odd'): boolean {
+    if (rule === 'non-zero') return windingNumber(polygon, point) !== 0;
+
+    const count = math.floor(polygon.size() / 2);
+    const px = point[0];
+    const py = point[1];
+    let inside = false;
+
+    for (let i = 0; i < count; i++) {
+        const j = i === count - 1 ? 0 : i + 1;
+        const ax = polygon[i * 2];
+        const ay = polygon[i * 2 + 1];
+        const bx = polygon[j * 2];
+        const by = polygon[j * 2 + 1];
+
+        if (ay > py !== by > py && px < ((bx - ax) * (py - ay)) / (by - ay) + ax) {
+            inside = !inside;
+        }
+    }
+
+    return inside;
+}
+
+/**
+ * Tests if a polygon is convex, in either winding order.
+ * Collinear and repeated vertices are allowed, self-intersecting polygons are not convex.
+ * @param polygon - Flat array of the polygon vertices: [x0, y0, x1, y1, ...]
+ * @returns True if the polygon is convex and has a non-zero area
+ */
+export function isConvex(polygon: number[]): boolean {
+    const count = math.floor(polygon.size() / 2);
+    if (count < 3) return false;
+
+    let sign = 0;
+    let turning = 0;
+    let firstAngle = 0;
+    let previousAngle = 0;
+    let hasPrevious = false;
+
+    // the last step turns from the closing edge back onto the first edge
+    for (let i = 0; i <= count; i++) {
+        let angle = firstAngle;
+        if (i < count) {
+            const j = i === count - 1 ? 0 : i + 1;
+            const dx = polygon[j * 2] - polygon[i * 2];
+            const dy = polygon[j * 2 + 1] - polygon[i * 2 + 1];
+            if (dx === 0 && dy === 0) continue;
+            angle = math.atan2(dy, dx);
+        } else if (!hasPrevious) {
+            return false;
+        }
+
+        if (!hasPrevious) {
+            firstAngle = angle;
+            previousAngle = angle;
+            hasPrevious = true;
+            continue;
+        }
+
+        const turn = wrapAngle(angle - previousAngle);
+
+        // reversing onto the previous edge can not be convex
+        if (math.abs(math.abs(turn) - math.pi) < 1e-12) return false;
+
+        if (turn !== 0) {
+            const turnSign = turn > 0 ? 1 : -1;
+            if (sign !== 0 && turnSign !== sign) return false;
+            sign = turnSign;
+        }
+        turning += turn;
+        previousAngle = angle;
+    }
+
+    // a convex polygon turns exactly once, a star turns more than once in the same direction
+    return math.abs(math.abs(turning) - 2 * math.pi) < 1e-6;
+}
+
+/**
+ * Wraps an angle to [-pi, pi]
+ */
+function wrapAngle(angle: number): number {
+    if (angle > math.pi) return angle - 2 * math.pi;
+    if (angle < -math.pi) return angle + 2 * math.pi;
+    return angle;
+}
+
+const _clip_input: number[] = [];
+const _clip_output: number[] = [];
+
+/**
+ * Clips a polygon against a convex polygon using the Sutherland-Hodgman algorithm.
+ * The subject may be concave, in which case disjoint parts of the result stay connected
+ * by zero-width edges along the clip boundary.
+ * @param out - The output polygon, may be the subject polygon
+ * @param subject - Flat array of the polygon vertices to clip: [x0, y0, x1, y1, ...]
+ * @param clipPolygon - Flat array of the convex clip polygon vertices, in either winding order
+ * @returns The output polygon, empty if the polygons do not overlap
+ */
+export function clip(out: number[], subject: number[], clipPolygon: number[]): number[] {
+    const input = _clip_input;
+    const output = _clip_output;
+    output.clear();
+    for (const v of subject) {
+        output.push(v);
+    }
+
+    const sign = signedArea(clipPolygon) < 0 ? -1 : 1;
+    const clipCount = math.floor(clipPolygon.size() / 2);
+
+    for (let i = 0; i < clipCount && output.size() > 0; i++) {
+        const j = i === clipCount - 1 ? 0 : i + 1;
+        const ax = clipPolygon[i * 2];
+        const ay = clipPolygon[i * 2 + 1];
+        const ex = clipPolygon[j * 2] - ax;
+        const ey = clipPolygon[j * 2 + 1] - ay;
+        if (ex === 0 && ey === 0) continue;
+
+        input.clear();
+        for (const v of output) {
+            input.push(v);
+        }
+        output.clear();
+
+        const count = math.floor(input.size() / 2);
+        let px = input[count * 2 - 2];
+        let py = input[count * 2 - 1];
+        let previousSide = sign * (ex * (py - ay) - ey * (px - ax));
+
+        for (let k = 0; k < count; k++) {
+            const cx = input[k * 2];
+            const cy = input[k * 2 + 1];
+            const side = sign * (ex * (cy - ay) - ey * (cx - ax));
+
+            // crossing the clip edge into or out of the inside half-plane
+            if ((side >= 0 && previousSide < 0) || (side < 0 && previousSide > 0)) {
+                const t = previousSide / (previousSide - side);
+                output.push(px + (cx - px) * t, py + (cy - py) * t);
+            }
+            if (side >= 0) output.push(cx, cy);
+
+            px = cx;
+            py = cy;
+            previousSide = side;
+        }
+    }
+
+    out.clear();
+    for (const v of output) {
+        out.push(v);
+    }
+
+    return out;
+}
+
+const _offset_vertices: number[] = [];
+
+/**
+ * Offsets the edges of a polygon outward by a distance, joining them with mitered corners.
+ * Corners whose miter would reach further than miterLimit times the distance are beveled instead.
+ * Self-intersections created by large inward offsets are not resolved.
+ * @param out - The output polygon, may be the input polygon
+ * @param polygon - Flat array of the polygon vertices, in either winding order: [x0, y0, x1, y1, ...]
+ * @param distance - The offset distance, positive to grow and negative to shrink the polygon
+ * @param miterLimit - The maximum miter length as a multiple of the distance, defaults to 2
+ * @returns The output polygon, in the winding order of the input
+ */
+export function offset(out: number[], polygon: number[], distance: number, miterLimit = 2): number[] {
+    // skip repeated vertices, which have no edge direction
+    const vertices = _offset_vertices;
+    vertices.clear();
+    const count = math.floor(polygon.size() / 2);
+    for (let i = 0; i < count; i++) {
+        const x = polygon[i * 2];
+        const y = polygon[i * 2 + 1];
+        const n = vertices.size();
+        if (n > 0 && x === vertices[n - 2] && y === vertices[n - 1]) continue;
+        vertices.push(x, y);
+    }
+    while (
+        vertices.size() > 2 &&
+        vertices[0] === vertices[vertices.size() - 2] &&
+        vertices[1] === vertices[vertices.size() - 1]
+    ) {
+        vertices.pop();
+        vertices.pop();
+    }
+
+    out.clear();
+    const n = vertices.size() / 2;
+    if (n < 3) return out;
+
+    // outward normals are to the right of counter-clockwise edges
+    const sign = signedArea(vertices) < 0 ? -1 : 1;
+
+    for (let i = 0; i < n; i++) {
+        const prev = i === 0 ? n - 1 : i - 1;
+        const next = i === n - 1 ? 0 : i + 1;
+        const x = vertices[i * 2];
+        const y = vertices[i * 2 + 1];
+
+        let n0x = y - vertices[prev * 2 + 1];
+        let n0y = vertices[prev * 2] - x;
+        let length = math.sqrt(n0x * n0x + n0y * n0y);
+        n0x = (n0x / length) * sign;
+        n0y = (n0y / length) * sign;
+
+        let n1x = vertices[next * 2 + 1] - y;
+        let n1y = x - vertices[next * 2];
+        length = math.sqrt(n1x * n1x + n1y * n1y);
+        n1x = (n1x / length) * sign;
+        n1y = (n1y / length) * sign;
+
+        // the miter m satisfies dot(m, n0) = dot(m, n1) = 1
+        const denominator = 1 + n0x * n1x + n0y * n1y;
+        if (denominator * miterLimit * miterLimit >= 2) {
+            out.push(x + ((n0x + n1x) / denominator) * distance, y + ((n0y + n1y) / denominator) * distance);
+        } else {
+            out.push(x + n0x * distance, y + n0y * distance, x + n1x * distance, y + n1y * distance);
+        }
+    }
+
+    return out;
+}
+
+/*
+ * Ring vertices are stored as circular doubly linked lists in these module level arrays, indexed
+ * by node. Bridges between holes and the outer ring duplicate nodes, so there can be more nodes
+ * than input vertices.
+ */
+const _node_x: number[] = [];
+const _node_y: number[] = [];
+const _node_index: number[] = [];
+const _node_prev: number[] = [];
+const _node_next: number[] = [];
+
+const _triangulate_holeQueue: number[] = [];
+
+/**
+ * Triangulates a polygon with holes using ear clipping.
+ *
+ * Rings may be given in either winding order, and may repeat their first vertex at the end.
+ * Duplicate and collinear vertices are skipped, and self-touching rings are split into pieces
+ * that can be clipped. Holes are joined to the outer ring by bridge edges before clipping.
+ *
+ * Based on the earcut library by Mapbox: https://github.com/mapbox/earcut
+ *
+ * @param out - The output array of triangle vertex indices: [a0, b0, c0, a1, b1, c1, ...]
+ * @param outer - Flat array of the outer ring vertices: [x0, y0, x1, y1, ...]
+ * @param holes - Flat arrays of hole ring vertices, defaults to none
+ * @returns The output array. Triangles are counter-clockwise and index the outer ring vertices
+ * first, followed by the vertices of each hole in order.
+ */
+export function triangulate(out: number[], outer: number[], holes: number[][] = []): number[] {
+    out.clear();
+    _node_x.clear();
+    _node_y.clear();
+    _node_index.clear();
+    _node_prev.clear();
+    _node_next.clear();
+
+    let outerNode = linkRing(outer, 0, true);
+    if (outerNode === -1 || _node_next[outerNode] === _node_prev[outerNode]) return out;
+
+    if (holes.size() > 0) outerNode = eliminateHoles(holes, math.floor(outer.size() / 2), outerNode);
+
+    earcutLinked(out, outerNode, 0);
+
+    return out;
+}
+
+/**
+ * Twice the signed area of triangle abc, positive if counter-clockwise
+ */
+function cross(a: number, b: number, c: number): number {
+    return (_node_x[b] - _node_x[a]) * (_node_y[c] - _node_y[a]) - (_node_y[b] - _node_y[a]) * (_node_x[c] - _node_x[a]);
+}
+
+function equals(a: number, b: number): boolean {
+    return _node_x[a] === _node_x[b] && _node_y[a] === _node_y[b];
+}
+
+function insertNode(index: number, x: number, y: number, last: number): number {
+    const node = _node_x.size();
+    _node_x.push(x);
+    _node_y.push(y);
+    _node_index.push(index);
+
+    if (last === -1) {
+        _node_prev.push(node);
+        _node_next.push(node);
+    } else {
+        const next = _node_next[last];
+        _node_prev.push(last);
+        _node_next.push(next);
+        _node_prev[next] = node;
+        _node_next[last] = node;
+    }
+
+    return node;
+}
+
+function removeNode(node: number): void {
+    _node_prev[_node_next[node]] = _node_prev[node];
+    _node_next[_node_prev[node]] = _node_next[node];
+}
+
+/**
+ * Creates a circular linked list from a flat ring, in the requested winding order
+ * @returns The last node, or -1 for an empty ring
+ */
+function linkRing(ring: number[], offset: number, counterClockwise: boolean): number {
+    const count = math.floor(ring.size() / 2);
+
+    let area = 0;
+    for (let i = 0; i < count; i++) {
+        const j = i === 0 ? count - 1 : i - 1;
+        area += ring[j * 2] * ring[i * 2 + 1] - ring[i * 2] * ring[j * 2 + 1];
+    }
+
+    let last = -1;
+    const forward = area > 0 === counterClockwise;
+    if (forward) {
+        for (let i = 0; i < count; i++) {
+            last = insertNode(offset + i, ring[i * 2], ring[i * 2 + 1], last);
+        }
+    } else {
+        for (let i = count - 1; i >= 0; i--) {
+            last = insertNode(offset + i, ring[i * 2], ring[i * 2 + 1], last);
+        }
+    }
+
+    // drop a closing vertex that repeats the first
+    if (last !== -1 && last !== _node_next[last] && equals(last, _node_next[last])) {
+        const first = _node_next[last];
+        if (forward) {
+            removeNode(last);
+            last = first;
+        } else {
+            removeNode(first);
+        }
+    }
+
+    return last;
+}
+
+/**
+ * Removes duplicate and collinear vertices between start and end
+ * @returns The node the list ends on, or -1 if start is -1
+ */
+function filterPoints(start: number, end = -1): number {
+    if (start === -1) return start;
+    if (end === -1) end = start;
+
+    let p = start;
+    let again: boolean;
+    do {
+        again = false;
+
+        if (equals(p, _node_next[p]) || cross(_node_prev[p], p, _node_next[p]) === 0) {
+            removeNode(p);
+            p = _node_prev[p];
+            end = p;
+            if (p === _node_next[p]) break;
+            again = true;
+        } else {
+            p = _node_next[p];
+        }
+    } while (again || p !== end);
+
+    return end;
+}
+
+/**
+ * Main ear clipping loop. When no ears are left, falls back to filtering degenerate vertices,
+ * then to curing small self-intersections, then to splitting the polygon in two.
+ */
+function earcutLinked(out: number[], ear: number, pass: number): void {
+    if (ear === -1) return;
+
+    let stop = ear;
+    while (_node_prev[ear] !== _node_next[ear]) {
+        const prev = _node_prev[ear];
+        const next = _node_next[ear];
+
+        if (isEar(ear)) {
+            out.push(_node_index[prev], _node_index[ear], _node_index[next]);
+            removeNode(ear);
+
+            // skipping the next vertex leads to fewer sliver triangles
+            ear = _node_next[next];
+            stop = ear;
+            continue;
+        }
+
+        ear = next;
+
+        if (ear === stop) {
+            if (pass === 0) {
+                earcutLinked(out, filterPoints(ear), 1);
+            } else if (pass === 1) {
+                earcutLinked(out, cureLocalIntersections(out, filterPoints(ear)), 2);
+            } else {
+                splitEarcut(out, ear);
+            }
+            break;
+        }
+    }
+}
+
+/**
+ * Tests if a convex vertex can be clipped, with no reflex vertex of the polygon inside its ear
+ */
+function isEar(ear: number): boolean {
+    const a = _node_prev[ear];
+    const c = _node_next[ear];
+    if (cross(a, ear, c) <= 0) return false;
+
+    const ax = _node_x[a];
+    const ay = _node_y[a];
+    const bx = _node_x[ear];
+    const by = _node_y[ear];
+    const cx = _node_x[c];
+    const cy = _node_y[c];
+
+    let p = _node_next[c];
+    while (p !== a) {
+        const px = _node_x[p];
+        const py = _node_y[p];
+        if (
+            !(px === ax && py === ay) &&
+            pointInTriangle(ax, ay, bx, by, cx, cy, px, py) &&
+            cross(_node_prev[p], p, _node_next[p]) <= 0
+        ) {
+            return false;
+        }
+        p = _node_next[p];
+    }
+
+    return true;
+}
+
+/**
+ * Clips the middle of two consecutive edges crossing each other, a - p - p.next - b, as one triangle
+ */
+function cureLocalIntersections(out: number[], start: number): number {
+    let p = start;
+    do {
+        const a = _node_prev[p];
+        const b = _node_next[_node_next[p]];
+
+        if (!equals(a, b) && intersects(a, p, _node_next[p], b) && locallyInside(a, b) && locallyInside(b, a)) {
+            out.push(_node_index[a], _node_index[p], _node_index[b]);
+
+            removeNode(p);
+            removeNode(_node_next[p]);
+
+            p = b;
+            start = b;
+        }
+        p = _node_next[p];
+    } while (p !== start);
+
+    return filterPoints(p);
+}
+
+/**
+ * Splits the polygon along a valid diagonal and triangulates both halves separately
+ */
+function splitEarcut(out: number[], start: number): void {
+    let a = start;
+    do {
+        let b = _node_next[_node_next[a]];
+        while (b !== _node_prev[a]) {
+            if (_node_index[a] !== _node_index[b] && isValidDiagonal(a, b)) {
+                let c = splitPolygon(a, b);
+
+                a = filterPoints(a, _node_next[a]);
+                c = filterPoints(c, _node_next[c]);
+
+                earcutLinked(out, a, 0);
+                earcutLinked(out, c, 0);
+                return;
+            }
+            b = _node_next[b];
+        }
+        a = _node_next[a];
+    } while (a !== start);
+}
+
+/**
+ * Links every hole into the outer ring with a bridge, from left to right
+ */
+function eliminateHoles(holes: number[][], offset: number, outerNode: number): number {
+    const queue = _triangulate_holeQueue;
+    queue.clear();
+
+    for (const hole of holes) {
+        const list = linkRing(hole, offset, false);
+        offset += math.floor(hole.size() / 2);
+        if (list === -1) continue;
+
+        // insertion sort by the leftmost vertex, holes are few
+        const leftmost = getLeftmost(list);
+        let i = queue.size();
+        queue.push(leftmost);
+        while (i > 0 && compareX(leftmost, queue[i - 1]) < 0) {
+            queue[i] = queue[i - 1];
+            i--;
+        }
+        queue[i] = leftmost;
+    }
+
+    for (const hole of queue) {
+        outerNode = eliminateHole(hole, outerNode);
+    }
+
+    return outerNode;
+}
+
+function compareX(a: number, b: number): number {
+    if (_node_x[a] !== _node_x[b]) return _node_x[a] - _node_x[b];
+    return _node_y[a] - _node_y[b];
+}
+
+function eliminateHole(hole: number, outerNode: number): number {
+    const bridge = findHoleBridge(hole, outerNode);
+    if (bridge === -1) return outerNode;
+
+    const bridgeReverse = splitPolygon(bridge, hole);
+
+    // filter collinear points around the cuts
+    filterPoints(bridgeReverse, _node_next[bridgeReverse]);
+    return filterPoints(bridge, _node_next[bridge]);
+}
+
+/**
+ * Finds an outer ring vertex visible from the leftmost vertex of a hole, using the
+ * approach of David Eberly: https://www.geometrictools.com/Documentation/TriangulationByEarClipping.pdf
+ */
+function findHoleBridge(hole: number, outerNode: number): number {
+    const hx = _node_x[hole];
+    const hy = _node_y[hole];
+    let qx = Number.NEGATIVE_INFINITY;
+    let m = -1;
+
+    // find the nearest segment intersected by a ray from the hole's leftmost vertex to the left,
+    // the segment's endpoint with the lesser x is a bridge candidate
+    let p = outerNode;
+    do {
+        const next = _node_next[p];
+        const py = _node_y[p];
+        const ny = _node_y[next];
+        if (hy <= py && hy >= ny && ny !== py) {
+            const x = _node_x[p] + ((hy - py) * (_node_x[next] - _node_x[p])) / (ny - py);
+            if (x <= hx && x > qx) {
+                qx = x;
+                m = _node_x[p] < _node_x[next] ? p : next;
+
+                // the hole touches the outer segment
+                if (x === hx) return m;
+            }
+        }
+        p = next;
+    } while (p !== outerNode);
+
+    if (m === -1) return -1;
+
+    // look for reflex vertices inside the triangle of the hole vertex, the intersection and the
+    // candidate; if there are any, the one with the smallest angle to the ray is the bridge
+    const stop = m;
+    const mx = _node_x[m];
+    const my = _node_y[m];
+    let tanMin = Number.POSITIVE_INFINITY;
+
+    p = m;
+    do {
+        const px = _node_x[p];
+        const py = _node_y[p];
+        if (hx >= px && px >= mx && hx !== px && pointInTriangle(hy < my ? hx : qx, hy, mx, my, hy < my ? qx : hx, hy, px, py)) {
+            const tan = math.abs(hy - py) / (hx - px);
+            if (
+                locallyInside(p, hole) &&
+                (tan < tanMin || (tan === tanMin && (px > _node_x[m] || (px === _node_x[m] && sectorContainsSector(m, p)))))
+            ) {
+                m = p;
+                tanMin = tan;
+            }
+        }
+        p = _node_next[p];
+    } while (p !== stop);
+
+    return m;
+}
+
+/**
+ * Tests if the sector of vertex m contains the sector of vertex p, when both are at the same position
+ */
+function sectorContainsSector(m: number, p: number): boolean {
+    return cross(_node_prev[m], m, _node_prev[p]) > 0 && cross(_node_next[p], m, _node_next[m]) > 0;
+}
+
+function getLeftmost(start: number): number {
+    let p = start;
+    let leftmost = start;
+    do {
+        if (_node_x[p] < _node_x[leftmost] || (_node_x[p] === _node_x[leftmost] && _node_y[p] < _node_y[leftmost])) {
+            leftmost = p;
+        }
+        p = _node_next[p];
+    } while (p !== start);
+    return leftmost;
+}
+
+function pointInTriangle(
+    ax: number,
+    ay: number,
+    bx: number,
+    by: number,
+    cx: number,
+    cy: number,
+    px: number,
+    py: number,
+): boolean {
+    return (
+        (cx - px) * (ay - py) >= (ax - px) * (cy - py) &&
+        (ax - px) * (by - py) >= (bx - px) * (ay - py) &&
+        (bx - px) * (cy - py) >= (cx - px) * (by - py)
+    );
+}
+
+/**
+ * Tests if a diagonal between two vertices lies inside the polygon without crossing its edges
+ */
+function isValidDiagonal(a: number, b: number): boolean {
+    return (
+        _node_index[_node_next[a]] !== _node_index[b] &&
+        _node_index[_node_prev[a]] !== _node_index[b] &&
+        !intersectsPolygon(a, b) &&
+        ((locallyInside(a, b) &&
+            locallyInside(b, a) &&
+            middleInside(a, b) &&
+            // does not create opposite-facing sectors
+            (cross(_node_prev[a], a, _node_prev[b]) !== 0 || cross(a, _node_prev[b], b) !== 0)) ||
+            // zero-length diagonal between two reflex vertices at the same position
+            (equals(a, b) && cross(_node_prev[a], a, _node_next[a]) < 0 && cross(_node_prev[b], b, _node_next[b]) < 0))
+    );
+}
+
+function sign(value: number): number {
+    return value > 0 ? 1 : value < 0 ? -1 : 0;
+}
+
+/**
+ * Tests if q lies on segment pr, given that the three points are collinear
+ */
+function onSegment(p: number, q: number, r: number): boolean {
+    return (
+        _node_x[q] <= math.max(_node_x[p], _node_x[r]) &&
+        _node_x[q] >= math.min(_node_x[p], _node_x[r]) &&
+        _node_y[q] <= math.max(_node_y[p], _node_y[r]) &&
+        _node_y[q] >= math.min(_node_y[p], _node_y[r])
+    );
+}
+
+/**
+ * Tests if segments p1q1 and p2q2 intersect, including touching and collinear overlap
+ */
+function intersects(p1: number, q1: number, p2: number, q2: number): boolean {
+    const o1 = sign(cross(p1, q1, p2));
+    const o2 = sign(cross(p1, q1, q2));
+    const o3 = sign(cross(p2, q2, p1));
+    const o4 = sign(cross(p2, q2, q1));
+
+    if (o1 !== o2 && o3 !== o4) return true;
+
+    if (o1 === 0 && onSegment(p1, p2, q1)) return true;
+    if (o2 === 0 && onSegment(p1, q2, q1)) return true;
+    if (o3 === 0 && onSegment(p2, p1, q2)) return true;
+    if (o4 === 0 && onSegment(p2, q1, q2)) return true;
+
+    return false;
+}
+
+/**
+ * Tests if a diagonal crosses any polygon edge not sharing one of its vertices
+ */
+function intersectsPolygon(a: number, b: number): boolean {
+    const ia = _node_index[a];
+    const ib = _node_index[b];
+
+    let p = a;
+    do {
+        const next = _node_next[p];
+        const ip = _node_index[p];
+        const inext = _node_index[next];
+        if (ip !== ia && inext !== ia && ip !== ib && inext !== ib && intersects(p, next, a, b)) return true;
+        p = next;
+    } while (p !== a);
+
+    return false;
+}
+
+/**
+ * Tests if the diagonal from a to b starts into the interior of the polygon at a
+ */
+function locallyInside(a: number, b: number): boolean {
+    const prev = _node_prev[a];
+    const next = _node_next[a];
+    return cross(prev, a, next) > 0
+        ? cross(a, b, next) <= 0 && cross(a, prev, b) <= 0
+        : cross(a, b, prev) > 0 || cross(a, next, b) > 0;
+}
+
+/**
+ * Tests if the middle of the diagonal from a to b is inside the polygon, by counting ray crossings
+ */
+function middleInside(a: number, b: number): boolean {
+    const px = (_node_x[a] + _node_x[b]) * 0.5;
+    const py = (_node_y[a] + _node_y[b]) * 0.5;
+    let inside = false;
+
+    let p = a;
+    do {
+        const next = _node_next[p];
+        const x0 = _node_x[p];
+        const y0 = _node_y[p];
+        const x1 = _node_x[next];
+        const y1 = _node_y[next];
+        if (y0 > py !== y1 > py && y1 !== y0 && px < ((x1 - x0) * (py - y0)) / (y1 - y0) + x0) {
+            inside = !inside;
+        }
+        p = next;
+    } while (p !== a);
+
+    return inside;
+}
+
+/**
+ * Splits the polygon in two along the diagonal from a to b, duplicating both vertices
+ * @returns The duplicate of b, in the second polygon
+ */
+function splitPolygon(a: number, b: number): number {
+    const an = _node_next[a];
+    const bp = _node_prev[b];
+    const a2 = insertNode(_node_index[a], _node_x[a], _node_y[a], -1);
+    const b2 = insertNode(_node_index[b], _node_x[b], _node_y[b], -1);
+
+    _node_next[a] = b;
+    _node_prev[b] = a;
+
+    _node_next[a2] = an;
+    _node_prev[an] = a2;
+
+    _node_next[b2] = a2;
+    _node_prev[a2] = b2;
+
+    _node_next[bp] = b2;
+    _node_prev[b2] = bp;
+
+    return b2;
+}
+
+type BooleanOperation = 'union' | 'intersection' | 'difference' | 'xor';
+
+/*
+ * Boolean operations split the edges of both inputs at their intersections, keep or reverse each
+ * piece depending on whether it lies inside the other input, then link the kept pieces into rings.
+ * Vertices that coincide within tolerance are merged with a union-find over these arrays.
+ */
+const _boolean_x: number[] = [];
+const _boolean_y: number[] = [];
+const _boolean_parent: number[] = [];
+const _boolean_edgeFrom: number[] = [];
+const _boolean_edgeTo: number[] = [];
+const _boolean_splitT: number[][] = [];
+const _boolean_splitId: number[][] = [];
+const _boolean_pieceFrom: number[] = [];
+const _boolean_pieceTo: number[] = [];
+const _boolean_aPieceKeys = new Set<number>();
+const _boolean_bPieceKeys = new Set<number>();
+const _boolean_resultFrom: number[] = [];
+const _boolean_resultTo: number[] = [];
+const _boolean_used: boolean[] = [];
+const _boolean_outgoing = new Map<number, number[]>();
+const _boolean_vertexKeys = new Map<string, number>();
+
+/**
+ * Computes the union of two polygons with holes.
+ * Each input is a list of flat rings: [[x0, y0, x1, y1, ...], ...], filled with the even-odd rule,
+ * so holes are simply rings inside outer rings and may be given in either winding order.
+ * @param out - The output rings, counter-clockwise for outer boundaries and clockwise for holes
+ * @param a - The rings of the first polygon
+ * @param b - The rings of the second polygon
+ * @returns The output rings
+ */
+export function union(out: number[][], a: number[][], b: number[][]): number[][] {
+    return booleanOperation(out, a, b, 'union');
+}
+
+/**
+ * Computes the intersection of two polygons with holes.
+ * Each input is a list of flat rings: [[x0, y0, x1, y1, ...], ...], filled with the even-odd rule,
+ * so holes are simply rings inside outer rings and may be given in either winding order.
+ * @param out - The output rings, counter-clockwise for outer boundaries and clockwise for holes
+ * @param a - The rings of the first polygon
+ * @param b - The rings of the second polygon
+ * @returns The output rings
+ */
+export function intersection(out: number[][], a: number[][], b: number[][]): number[][] {
+    return booleanOperation(out, a, b, 'intersection');
+}
+
+/**
+ * Computes the difference of two polygons with holes, the area of a not covered by b.
+ * Each input is a list of flat rings: [[x0, y0, x1, y1, ...], ...], filled with the even-odd rule,
+ * so holes are simply rings inside outer rings and may be given in either winding order.
+ * @param out - The output rings, counter-clockwise for outer boundaries and clockwise for holes
+ * @param a - The rings of the polygon to subtract from
+ * @param b - The rings of the polygon to subtract
+ * @returns The output rings
+ */
+export function difference(out: number[][], a: number[][], b: number[][]): number[][] {
+    return booleanOperation(out, a, b, 'difference');
+}
+
+/**
+ * Computes the symmetric difference of two polygons with holes, the area covered by exactly one of them.
+ * Each input is a list of flat rings: [[x0, y0, x1, y1, ...], ...], filled with the even-odd rule,
+ * so holes are simply rings inside outer rings and may be given in either winding order.
+ * @param out - The output rings, counter-clockwise for outer boundaries and clockwise for holes
+ * @param a - The rings of the first polygon
+ * @param b - The rings of the second polygon
+ * @returns The output rings
+ */
+export function xor(out: number[][], a: number[][], b: number[][]): number[][] {
+    return booleanOperation(out, a, b, 'xor');
+}
+
+const _booleanOperation_midpoint = /*@__PURE__*/ vec2.create();
+
+function booleanOperation(out: number[][], a: number[][], b: number[][], operation: BooleanOperation): number[][] {
+    out.clear();
+    _boolean_x.clear();
+    _boolean_y.clear();
+    _boolean_parent.clear();
+    _boolean_edgeFrom.clear();
+    _boolean_edgeTo.clear();
+    _boolean_pieceFrom.clear();
+    _boolean_pieceTo.clear();
+    _boolean_resultFrom.clear();
+    _boolean_resultTo.clear();
+    _boolean_vertexKeys.clear();
+
+    // tolerance relative to the extent of the inputs
+    let extent = 0;
+    for (const rings of [a, b]) {
+        for (const ring of rings) {
+            for (const v of ring) {
+                extent = math.max(extent, math.abs(v));
+            }
+        }
+    }
+    if (extent === 0) return out;
+    const tolerance = extent * 1e-10;
+
+    addRings(a);
+    const aEdgeCount = _boolean_edgeFrom.size();
+    addRings(b);
+    const edgeCount = _boolean_edgeFrom.size();
+
+    for (let e = 0; e < edgeCount; e++) {
+        if (_boolean_splitT[e] === undefined) {
+            _boolean_splitT.push([]);
+            _boolean_splitId.push([]);
+        }
+        _boolean_splitT[e].clear();
+        _boolean_splitId[e].clear();
+    }
+
+    for (let i = 0; i < aEdgeCount; i++) {
+        for (let j = aEdgeCount; j < edgeCount; j++) {
+            intersectEdges(i, j, tolerance);
+        }
+    }
+
+    for (let e = 0; e < edgeCount; e++) {
+        sortSplits(e, tolerance);
+    }
+
+    // split edges into pieces between consecutive intersections, keyed by direction for each input
+    const vertexCount = _boolean_x.size();
+    const aPieceKeys = _boolean_aPieceKeys;
+    const bPieceKeys = _boolean_bPieceKeys;
+    aPieceKeys.clear();
+    bPieceKeys.clear();
+
+    splitEdges(0, aEdgeCount, aPieceKeys, vertexCount);
+    const aPieceCount = _boolean_pieceFrom.size();
+    splitEdges(aEdgeCount, edgeCount, bPieceKeys, vertexCount);
+    const pieceCount = _boolean_pieceFrom.size();
+
+    const midpoint = _booleanOperation_midpoint;
+    for (let p = 0; p < pieceCount; p++) {
+        const fromA = p < aPieceCount;
+        const u = _boolean_pieceFrom[p];
+        const v = _boolean_pieceTo[p];
+        const otherKeys = fromA ? bPieceKeys : aPieceKeys;
+
+        // pieces on the boundary of both inputs are kept once, from a
+        if (otherKeys.has(u * vertexCount + v)) {
+            if (fromA && (operation === 'union' || operation === 'intersection')) addResultEdge(u, v);
+            continue;
+        }
+        if (otherKeys.has(v * vertexCount + u)) {
+            if (fromA && operation === 'difference') addResultEdge(u, v);
+            continue;
+        }
+
+        midpoint[0] = (_boolean_x[u] + _boolean_x[v]) * 0.5;
+        midpoint[1] = (_boolean_y[u] + _boolean_y[v]) * 0.5;
+        const inside = containsPointInRings(fromA ? b : a, midpoint);
+
+        if (operation === 'union') {
+            if (!inside) addResultEdge(u, v);
+        } else if (operation === 'intersection') {
+            if (inside) addResultEdge(u, v);
+        } else if (operation === 'difference') {
+            if (fromA && !inside) addResultEdge(u, v);
+            else if (!fromA && inside) addResultEdge(v, u);
+        } else if (inside) {
+            addResultEdge(v, u);
+        } else {
+            addResultEdge(u, v);
+        }
+    }
+
+    linkRings(out, tolerance);
+
+    return out;
+}
+
+/**
+ * Adds the edges of a list of rings, oriented so the interior is on their left
+ */
+function addRings(rings: number[][]): void {
+    for (let r = 0; r < rings.size(); r++) {
+        const ring = rings[r];
+        const area = signedArea(ring);
+        if (area === 0) continue;
+
+        // holes are nested an odd number of times and wind clockwise
+        const depth = ringDepth(rings, r);
+        const reversed = area > 0 !== (depth % 2 === 0);
+
+        const first = _boolean_x.size();
+        const count = math.floor(ring.size() / 2);
+        for (let i = 0; i < count; i++) {
+            const x = ring[i * 2];
+            const y = ring[i * 2 + 1];
+            const last = _boolean_x.size() - 1;
+            if (last >= first && x === _boolean_x[last] && y === _boolean_y[last]) continue;
+            _boolean_x.push(x);
+            _boolean_y.push(y);
+            _boolean_parent.push(_boolean_parent.size());
+        }
+
+        // drop a closing vertex that repeats the first
+        let last = _boolean_x.size() - 1;
+        if (last > first && _boolean_x[last] === _boolean_x[first] && _boolean_y[last] === _boolean_y[first]) {
+            _boolean_x.pop();
+            _boolean_y.pop();
+            _boolean_parent.pop();
+            last--;
+        }
+
+        for (let i = first; i <= last; i++) {
+            // rings of either input touching at a vertex share it
+            const key = `${_boolean_x[i]},${_boolean_y[i]}`;
+            const existing = _boolean_vertexKeys.get(key);
+            if (existing === undefined) _boolean_vertexKeys.set(key, i);
+            else mergeVertices(existing, i);
+
+            const j = i === last ? first : i + 1;
+            if (reversed) {
+                _boolean_edgeFrom.push(j);
+                _boolean_edgeTo.push(i);
+            } else {
+                _boolean_edgeFrom.push(i);
+                _boolean_edgeTo.push(j);
+            }
+        }
+    }
+}
+
+const _ringDepth_point = /*@__PURE__*/ vec2.create();
+
+/**
+ * Counts the other rings containing a ring, tested at the middle of its longest edge
+ */
+function ringDepth(rings: number[][], index: number): number {
+    const ring = rings[index];
+    const count = math.floor(ring.size() / 2);
+    const point = _ringDepth_point;
+
+    let longest = -1;
+    for (let i = 0; i < count; i++) {
+        const j = i === count - 1 ? 0 : i + 1;
+        const dx = ring[j * 2] - ring[i * 2];
+        const dy = ring[j * 2 + 1] - ring[i * 2 + 1];
+        const lengthSq = dx * dx + dy * dy;
+        if (lengthSq > longest) {
+            longest = lengthSq;
+            point[0] = ring[i * 2] + dx * 0.5;
+            point[1] = ring[i * 2 + 1] + dy * 0.5;
+        }
+    }
+
+    let depth = 0;
+    for (let r = 0; r < rings.size(); r++) {
+        if (r !== index && containsPoint(rings[r], point)) depth++;
+    }
+
+    return depth;
+}
+
+function containsPointInRings(rings: number[][], point: Vec2): boolean {
+    let inside = false;
+    for (const ring of rings) {
+        if (containsPoint(ring, point)) inside = !inside;
+    }
+    return inside;
+}
+
+function findVertex(id: number): number {
+    while (_boolean_parent[id] !== id) {
+        _boolean_parent[id] = _boolean_parent[_boolean_parent[id]];
+        id = _boolean_parent[id];
+    }
+    return id;
+}
+
+function mergeVertices(a: number, b: number): void {
+    const ra = findVertex(a);
+    const rb = findVertex(b);
+    if (ra !== rb) _boolean_parent[rb] = ra;
+}
+
+function addSplit(edge: number, t: number, id: number): void {
+    _boolean_splitT[edge].push(t);
+    _boolean_splitId[edge].push(id);
+}
+
+/**
+ * Records where edge i of the first input and edge j of the second input touch, as splits of
+ * either edge or as merged endpoints
+ */
+function intersectEdges(i: number, j: number, tolerance: number): void {
+    const a0 = _boolean_edgeFrom[i];
+    const a1 = _boolean_edgeTo[i];
+    const b0 = _boolean_edgeFrom[j];
+    const b1 = _boolean_edgeTo[j];
+
+    const px = _boolean_x[a0];
+    const py = _boolean_y[a0];
+    const rx = _boolean_x[a1] - px;
+    const ry = _boolean_y[a1] - py;
+    const qx = _boolean_x[b0];
+    const qy = _boolean_y[b0];
+    const sx = _boolean_x[b1] - qx;
+    const sy = _boolean_y[b1] - qy;
+
+    const rLength = math.sqrt(rx * rx + ry * ry);
+    const sLength = math.sqrt(sx * sx + sy * sy);
+    if (rLength === 0 || sLength === 0) return;
+
+    // quick reject on bounds
+    if (
+        math.min(px, px + rx) > math.max(qx, qx + sx) + tolerance ||
+        math.max(px, px + rx) < math.min(qx, qx + sx) - tolerance ||
+        math.min(py, py + ry) > math.max(qy, qy + sy) + tolerance ||
+        math.max(py, py + ry) < math.min(qy, qy + sy) - tolerance
+    ) {
+        return;
+    }
+
+    const tolA = tolerance / rLength;
+    const tolB = tolerance / sLength;
+    const qpx = qx - px;
+    const qpy = qy - py;
+    const denominator = rx * sy - ry * sx;
+
+    if (math.abs(denominator) > 1e-10 * rLength * sLength) {
+        const t = (qpx * sy - qpy * sx) / denominator;
+        const u = (qpx * ry - qpy * rx) / denominator;
+        if (t < -tolA || t > 1 + tolA || u < -tolB || u > 1 + tolB) return;
+
+        const aEnd = t <= tolA ? a0 : t >= 1 - tolA ? a1 : -1;
+        const bEnd = u <= tolB ? b0 : u >= 1 - tolB ? b1 : -1;
+
+        if (aEnd !== -1 && bEnd !== -1) {
+            mergeVertices(aEnd, bEnd);
+        } else if (aEnd !== -1) {
+            addSplit(j, u, aEnd);
+        } else if (bEnd !== -1) {
+            addSplit(i, t, bEnd);
+        } else {
+            const id = _boolean_x.size();
+            _boolean_x.push(px + rx * t);
+            _boolean_y.push(py + ry * t);
+            _boolean_parent.push(id);
+            addSplit(i, t, id);
+            addSplit(j, u, id);
+        }
+        return;
+    }
+
+    // parallel edges only touch if collinear
+    if (math.abs(qpx * ry - qpy * rx) > tolerance * rLength) return;
+
+    // endpoints of each edge lying on the other edge
+    splitCollinear(i, a0, a1, b0, tolerance);
+    splitCollinear(i, a0, a1, b1, tolerance);
+    splitCollinear(j, b0, b1, a0, tolerance);
+    splitCollinear(j, b0, b1, a1, tolerance);
+}
+
+/**
+ * Splits an edge at a vertex collinear with it, or merges the vertex with an edge endpoint
+ */
+function splitCollinear(edge: number, from: number, to: number, vertex: number, tolerance: number): void {
+    const px = _boolean_x[from];
+    const py = _boolean_y[from];
+    const rx = _boolean_x[to] - px;
+    const ry = _boolean_y[to] - py;
+    const lengthSq = rx * rx + ry * ry;
+    const t = ((_boolean_x[vertex] - px) * rx + (_boolean_y[vertex] - py) * ry) / lengthSq;
+    const tol = tolerance / math.sqrt(lengthSq);
+
+    if (math.abs(t) <= tol) mergeVertices(from, vertex);
+    else if (math.abs(t - 1) <= tol) mergeVertices(to, vertex);
+    else if (t > 0 && t < 1) addSplit(edge, t, vertex);
+}
+
+/**
+ * Sorts the splits of an edge along it, merging splits that land on the same position
+ */
+function sortSplits(edge: number, tolerance: number): void {
+    const splitT = _boolean_splitT[edge];
+    const splitId = _boolean_splitId[edge];
+
+    // insertion sort, edges have few splits
+    for (let k = 1; k < splitT.size(); k++) {
+        const t = splitT[k];
+        const id = splitId[k];
+        let m = k;
+        while (m > 0 && splitT[m - 1] > t) {
+            splitT[m] = splitT[m - 1];
+            splitId[m] = splitId[m - 1];
+            m--;
+        }
+        splitT[m] = t;
+        splitId[m] = id;
+    }
+
+    // splits from different edges through the same point carry different vertices
+    const from = _boolean_edgeFrom[edge];
+    const to = _boolean_edgeTo[edge];
+    const dx = _boolean_x[to] - _boolean_x[from];
+    const dy = _boolean_y[to] - _boolean_y[from];
+    const tol = tolerance / math.sqrt(dx * dx + dy * dy);
+
+    for (let k = 0; k < splitT.size(); k++) {
+        if (splitT[k] <= tol) mergeVertices(from, splitId[k]);
+        else if (splitT[k] >= 1 - tol) mergeVertices(to, splitId[k]);
+        else if (k > 0 && splitT[k] - splitT[k - 1] <= tol) mergeVertices(splitId[k - 1], splitId[k]);
+    }
+}
+
+/**
+ * Splits a range of edges at their sorted splits into pieces, recording the direction of each piece
+ */
+function splitEdges(start: number, end: number, keys: Set<number>, vertexCount: number): void {
+    for (let e = start; e < end; e++) {
+        const splitT = _boolean_splitT[e];
+        const splitId = _boolean_splitId[e];
+
+        let previous = findVertex(_boolean_edgeFrom[e]);
+        for (let k = 0; k <= splitT.size(); k++) {
+            const id = findVertex(k < splitT.size() ? splitId[k] : _boolean_edgeTo[e]);
+            if (id === previous) continue;
+
+            _boolean_pieceFrom.push(previous);
+            _boolean_pieceTo.push(id);
+            keys.add(previous * vertexCount + id);
+            previous = id;
+        }
+    }
+}
+
+function addResultEdge(from: number, to: number): void {
+    _boolean_resultFrom.push(from);
+    _boolean_resultTo.push(to);
+}
+
+/**
+ * Links the result edges into closed rings. Where several edges leave a vertex, the leftmost turn
+ * is taken, closing the tightest loop, so rings touching at a vertex are kept apart.
+ */
+function linkRings(out: number[][], tolerance: number): void {
+    const outgoing = _boolean_outgoing;
+    const used = _boolean_used;
+    outgoing.clear();
+    used.clear();
+
+    const edgeCount = _boolean_resultFrom.size();
+    for (let e = 0; e < edgeCount; e++) {
+        const from = _boolean_resultFrom[e];
+        let edges = outgoing.get(from);
+        if (edges === undefined) {
+            edges = [];
+            outgoing.set(from, edges);
+        }
+        edges.push(e);
+        used.push(false);
+    }
+
+    for (let start = 0; start < edgeCount; start++) {
+        if (used[start]) continue;
+
+        const origin = _boolean_resultFrom[start];
+        const ring: number[] = [];
+        let closed = false;
+        let e = start;
+
+        while (true) {
+            used[e] = true;
+            const from = _boolean_resultFrom[e];
+            const to = _boolean_resultTo[e];
+            ring.push(_boolean_x[from], _boolean_y[from]);
+
+            if (to === origin) {
+                closed = true;
+                break;
+            }
+
+            // smallest clockwise turn from the reversed incoming edge
+            const backAngle = math.atan2(_boolean_y[from] - _boolean_y[to], _boolean_x[from] - _boolean_x[to]);
+            let next = -1;
+            let bestTurn = Number.POSITIVE_INFINITY;
+            for (const candidate of outgoing.get(to) ?? []) {
+                if (used[candidate]) continue;
+                const target = _boolean_resultTo[candidate];
+                let turn = backAngle - math.atan2(_boolean_y[target] - _boolean_y[to], _boolean_x[target] - _boolean_x[to]);
+                while (turn <= 0) turn += 2 * math.pi;
+                if (turn < bestTurn) {
+                    bestTurn = turn;
+                    next = candidate;
+                }
+            }
+
+            if (next === -1) break;
+            e = next;
+        }
+
+        if (!closed) continue;
+
+        removeCollinearVertices(ring, tolerance);
+        if (ring.size() >= 6 && math.abs(signedArea(ring)) > tolerance * tolerance) out.push(ring);
+    }
+}
+
+/**
+ * Removes vertices within tolerance of the line through their neighbors, left where edges were split
+ */
+function removeCollinearVertices(ring: number[], tolerance: number): void {
+    let removed = true;
+    while (removed && ring.size() >= 6) {
+        removed = false;
+        const count = ring.size() / 2;
+
+        for (let i = 0; i < count; i++) {
+            const prev = i === 0 ? count - 1 : i - 1;
+            const next = i === count - 1 ? 0 : i + 1;
+            const ax = ring[prev * 2];
+            const ay = ring[prev * 2 + 1];
+            const dx = ring[next * 2] - ax;
+            const dy = ring[next * 2 + 1] - ay;
+            const ex = ring[i * 2] - ax;
+            const ey = ring[i * 2 + 1] - ay;
+            const length = math.sqrt(dx * dx + dy * dy);
+
+            if (math.abs(dx * ey - dy * ex) <= tolerance * length || length <= tolerance) {
+                ring.remove(i * 2);
+                ring.remove(i * 2);
+                removed = true;
+                break;
+            }
+        }
+    }
+}
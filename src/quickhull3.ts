@@ -1,6 +1,7 @@
 //!native
 
 import * as Number from './Number';
+import type { ConvexHull3, Plane3 } from './types';
 
 /**
  * Incremental Convex Hull 3D implementation based on Three.js ConvexHull.
@@ -74,13 +75,272 @@ type HullState = {
  * @returns An array of indices representing the triangles of the convex hull (i1, j1, k1, i2, j2, k2, ...).
  */
 export function quickhull3(points: number[]): number[] {
+    const state = buildHull(points);
+    if (state === undefined) return [];
+
+    return getTriangleIndices(state);
+}
+
+/**
+ * Computes the convex hull of a set of 3D points using an incremental QuickHull algorithm,
+ * returning the structure of the hull rather than a flat triangle list.
+ *
+ * Adjacent coplanar triangles are merged into polygon faces, so a box yields 6 quads and 12 edges.
+ * Returns an empty hull for fewer than 4 points or collinear points, coplanar points yield a flat hull
+ * of two opposite faces.
+ *
+ * @param points An array of numbers representing the 3D points (x1, y1, z1, x2, y2, z2, ...)
+ * @param coplanarTolerance Distance from a face's plane within which a neighboring triangle is merged into it,
+ * defaults to a tolerance derived from the magnitude of the input coordinates.
+ * @returns The convex hull with vertices, polygon faces, face planes, edges and adjacency.
+ */
+export function convexHull3(points: number[], coplanarTolerance?: number): ConvexHull3 {
+    return extractConvexHull(buildHull(points), coplanarTolerance);
+}
+
+/**
+ * Tests if a convex hull encloses a volume.
+ * Hulls with fewer faces than a tetrahedron are empty or flat and enclose no volume.
+ *
+ * @param hull The convex hull, as computed by convexHull3
+ * @returns True if the hull encloses a volume.
+ */
+export function convexHull3IsSolid(hull: ConvexHull3): boolean {
+    return hull.facePlanes.size() >= 4;
+}
+
+function extractConvexHull(state: HullState | undefined, coplanarTolerance?: number): ConvexHull3 {
+    const hull: ConvexHull3 = {
+        vertices: [],
+        faces: [],
+        facePlanes: [],
+        faceNeighbors: [],
+        edges: [],
+        edgeFaces: [],
+    };
+
+    if (state === undefined || state.faces.size() === 0) return hull;
+    const points = state.points;
+
+    const tolerance = coplanarTolerance ?? 1000 * state.tolerance;
+
+    // Flood fill groups of coplanar triangles, measured against the plane of the group's first triangle
+    const groupOf = new Map<Face, number>();
+    const groups: Face[][] = [];
+
+    for (const seed of state.faces) {
+        if (groupOf.has(seed)) continue;
+
+        const group = groups.size();
+        const members = [seed];
+        groupOf.set(seed, group);
+
+        for (let i = 0; i < members.size(); i++) {
+            const start = members[i].edge!;
+            let edge = start;
+
+            do {
+                const neighbor = edge.twin!.face;
+                if (!groupOf.has(neighbor) && faceIsCoplanar(state, seed, neighbor, tolerance)) {
+                    groupOf.set(neighbor, group);
+                    members.push(neighbor);
+                }
+                edge = edge.next!;
+            } while (edge !== start);
+        }
+
+        groups.push(members);
+    }
+
+    // Walk the boundary of each group to get the polygon loop
+    const isHullVertex = new Set<number>();
+
+    for (let group = 0; group < groups.size(); group++) {
+        const loop: number[] = [];
+        const neighbors: number[] = [];
+        const start = findBoundaryEdge(groups[group], groupOf, group);
+        let edge = start;
+
+        do {
+            const vertex = halfEdgeTail(edge)!.index;
+            loop.push(vertex);
+            neighbors.push(groupOf.get(edge.twin!.face)!);
+
+            if (!isHullVertex.has(vertex)) {
+                isHullVertex.add(vertex);
+                hull.vertices.push(vertex);
+            }
+
+            // Rotate around the head vertex until leaving the group
+            let next = edge.next!;
+            while (groupOf.get(next.twin!.face) === group) {
+                next = next.twin!.next!;
+            }
+            edge = next;
+        } while (edge !== start);
+
+        hull.faces.push(loop);
+        hull.faceNeighbors.push(neighbors);
+        hull.facePlanes.push(computePolygonPlane(points, loop));
+    }
+
+    // Each edge is shared by two faces, record it from the face with the lower index
+    for (let face = 0; face < hull.faces.size(); face++) {
+        const loop = hull.faces[face];
+        const neighbors = hull.faceNeighbors[face];
+
+        for (let k = 0; k < loop.size(); k++) {
+            if (face < neighbors[k]) {
+                hull.edges.push(loop[k], loop[(k + 1) % loop.size()]);
+                hull.edgeFaces.push(face, neighbors[k]);
+            }
+        }
+    }
+
+    return hull;
+}
+
+/**
+ * A convex hull built by adding points one at a time.
+ * Indices in the hulls it produces refer to points in the order they were added.
+ *  points  - all points added so far: [x0, y0, z0, x1, y1, z1, ...], only append through quickhull3BuilderAddPoint
+ *  extents - internal, the largest absolute coordinate along each axis, which scales the distance tolerance
+ *  hull    - internal, the incremental hull, undefined until the points span a volume
+ * @see createQuickhull3Builder
+ */
+export type Quickhull3Builder = {
+    points: number[];
+    extents: [number, number, number];
+    hull: unknown;
+};
+
+/**
+ * Creates a new hull builder with no points
+ * @returns A new hull builder
+ */
+export function createQuickhull3Builder(): Quickhull3Builder {
+    return {
+        points: [],
+        extents: [0, 0, 0],
+        hull: undefined,
+    };
+}
+
+/**
+ * Adds a point to a hull builder, extending the hull if the point lies outside it.
+ *
+ * Points inside the current hull are kept in the point array but can never become hull vertices,
+ * since the hull only grows. Until the points added so far span a volume there is no hull to test
+ * against, and every point is reported as extending it.
+ *
+ * @param builder The hull builder
+ * @param x The x coordinate of the point
+ * @param y The y coordinate of the point
+ * @param z The z coordinate of the point
+ * @returns True if the point extended the hull, false if it was inside the current hull.
+ */
+export function quickhull3BuilderAddPoint(builder: Quickhull3Builder, x: number, y: number, z: number): boolean {
+    const points = builder.points;
+    const index = points.size() / 3;
+    points.push(x, y, z);
+
+    const extents = builder.extents;
+    extents[0] = math.max(extents[0], math.abs(x));
+    extents[1] = math.max(extents[1], math.abs(y));
+    extents[2] = math.max(extents[2], math.abs(z));
+
+    const state = builder.hull as HullState | undefined;
+    if (state === undefined) {
+        builder.hull = buildSolidHull(points);
+        return true;
+    }
+
+    // Same tolerance computeExtremes derives for the full point set
+    state.tolerance = 3 * Number.EPSILON * (extents[0] + extents[1] + extents[2]);
+
+    const vertex = createVertexNode(index);
+    state.vertices.push(vertex);
+
+    let maxDistance = state.tolerance;
+    let maxFace: Face | undefined;
+
+    for (const face of state.faces) {
+        const distance = faceDistanceToPoint(face, points, index);
+        if (distance > maxDistance) {
+            maxDistance = distance;
+            maxFace = face;
+        }
+    }
+
+    if (maxFace === undefined) return false;
+
+    addVertexToFace(state, vertex, maxFace);
+    completeHull(state);
+
+    return true;
+}
+
+/**
+ * Gets the triangles of the current hull of a hull builder, in the same layout as quickhull3.
+ *
+ * @param builder The hull builder
+ * @returns An array of indices representing the triangles of the convex hull (i1, j1, k1, i2, j2, k2, ...).
+ */
+export function quickhull3BuilderGetTriangles(builder: Quickhull3Builder): number[] {
+    // Flat point sets have no incremental hull, fall back to the one-shot hull for consistent output
+    const state = builder.hull as HullState | undefined;
+    if (state === undefined) return quickhull3(builder.points);
+
+    return getTriangleIndices(state);
+}
+
+/**
+ * Gets the structure of the current hull of a hull builder, in the same layout as convexHull3.
+ *
+ * @param builder The hull builder
+ * @param coplanarTolerance Distance from a face's plane within which a neighboring triangle is merged into it,
+ * defaults to a tolerance derived from the magnitude of the input coordinates.
+ * @returns The convex hull with vertices, polygon faces, face planes, edges and adjacency.
+ */
+export function quickhull3BuilderGetConvexHull(builder: Quickhull3Builder, coplanarTolerance?: number): ConvexHull3 {
+    return extractConvexHull((builder.hull as HullState | undefined) ?? buildHull(builder.points), coplanarTolerance);
+}
+
+function buildHull(points: number[]): HullState | undefined {
     const n = points.size() / 3;
-    if (n < 4) return [];
+    if (n < 4) return undefined;
 
     const state = createHullState(points, n);
 
     computeInitialHull(state);
+    completeHull(state);
+
+    return state;
+}
+
+/**
+ * Builds the hull of a point set only if the initial tetrahedron has volume, so that a builder
+ * keeps collecting points while they are coincident, collinear or coplanar.
+ */
+function buildSolidHull(points: number[]): HullState | undefined {
+    const n = points.size() / 3;
+    if (n < 4) return undefined;
 
+    const state = createHullState(points, n);
+
+    computeInitialHull(state);
+    if (state.faces.size() === 0) return undefined;
+
+    // The second face of the initial tetrahedron starts at the apex, measure it against the base
+    const apex = state.faces[1].edge!.vertex.index;
+    if (math.abs(faceDistanceToPoint(state.faces[0], points, apex)) <= state.tolerance) return undefined;
+
+    completeHull(state);
+
+    return state;
+}
+
+function completeHull(state: HullState): void {
     // Incrementally add vertices to hull
     let vertex = nextVertexToAdd(state);
     while (vertex !== undefined) {
@@ -89,8 +349,6 @@ export function quickhull3(points: number[]): number[] {
     }
 
     reindexFaces(state);
-
-    return getTriangleIndices(state);
 }
 
 // Hull state management
@@ -355,6 +613,36 @@ function faceDistanceToPoint(face: Face, points: number[], vertexIndex: number):
     return face.normal[0] * points[idx] + face.normal[1] * points[idx + 1] + face.normal[2] * points[idx + 2] - face.constant;
 }
 
+function faceIsCoplanar(state: HullState, face: Face, other: Face, tolerance: number): boolean {
+    const n = face.normal;
+    if (n[0] * other.normal[0] + n[1] * other.normal[1] + n[2] * other.normal[2] <= 0) return false;
+
+    const start = other.edge!;
+    let edge = start;
+
+    do {
+        if (math.abs(faceDistanceToPoint(face, state.points, edge.vertex.index)) > tolerance) return false;
+        edge = edge.next!;
+    } while (edge !== start);
+
+    return true;
+}
+
+function findBoundaryEdge(members: Face[], groupOf: Map<Face, number>, group: number): HalfEdge {
+    for (const face of members) {
+        const start = face.edge!;
+        let edge = start;
+
+        do {
+            if (groupOf.get(edge.twin!.face) !== group) return edge;
+            edge = edge.next!;
+        } while (edge !== start);
+    }
+
+    // Unreachable for a closed hull, every group borders another
+    return members[0].edge!;
+}
+
 // Hull computation functions
 
 function computeExtremes(state: HullState): { min: VertexNode[]; max: VertexNode[] } {
@@ -770,6 +1058,41 @@ function computePlane(points: number[], v0: number, v1: number, v2: number, outN
     return -(outNormal[0] * p0x + outNormal[1] * p0y + outNormal[2] * p0z);
 }
 
+/**
+ * Computes the plane of a polygon using Newell's method, which averages out small deviations of
+ * vertices from a common plane. The plane follows the Plane3 convention: normal · p + constant = 0.
+ */
+function computePolygonPlane(points: number[], loop: number[]): Plane3 {
+    let nx = 0;
+    let ny = 0;
+    let nz = 0;
+    let cx = 0;
+    let cy = 0;
+    let cz = 0;
+
+    for (let k = 0; k < loop.size(); k++) {
+        const i = loop[k] * 3;
+        const j = loop[(k + 1) % loop.size()] * 3;
+
+        nx += (points[i + 1] - points[j + 1]) * (points[i + 2] + points[j + 2]);
+        ny += (points[i + 2] - points[j + 2]) * (points[i] + points[j]);
+        nz += (points[i] - points[j]) * (points[i + 1] + points[j + 1]);
+
+        cx += points[i];
+        cy += points[i + 1];
+        cz += points[i + 2];
+    }
+
+    const len = math.sqrt(nx * nx + ny * ny + nz * nz);
+    const normal: [number, number, number] = len > EPSILON ? [nx / len, ny / len, nz / len] : [0, 0, 1];
+    const count = loop.size();
+
+    return {
+        normal,
+        constant: -(normal[0] * cx + normal[1] * cy + normal[2] * cz) / count,
+    };
+}
+
 function distanceToPlane(points: number[], idx: number, normal: [number, number, number], offset: number): number {
     const x = points[idx * 3];
     const y = points[idx * 3 + 1];
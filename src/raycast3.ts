@@ -1,6 +1,10 @@
 //!native
 
-import type { Box3, Raycast3, Vec3 } from './types';
+import * as Number from './Number';
+import * as plane3 from './plane3';
+import { convexHull3IsSolid } from './quickhull3';
+import * as triangle3 from './triangle3';
+import type { Box3, ConvexHull3, OBB3, Plane3, Raycast3, Sphere, Vec3 } from './types';
 import * as vec3 from './vec3';
 
 /**
@@ -223,6 +227,131 @@ export function intersectsTriangle(
     }
 }
 
+/**
+ * Options for a ray-mesh intersection test
+ * mode - 'closest' finds the nearest hit, 'any' stops at the first hit found (default 'closest')
+ * backfaceCulling - if true, backfaces will not be considered hits (default false)
+ * @see intersectsMesh
+ */
+export type IntersectsMeshOptions = {
+    mode?: 'closest' | 'any';
+    backfaceCulling?: boolean;
+};
+
+/**
+ * Result of a ray-mesh intersection test
+ * fraction - hit distance as a fraction of the ray length
+ * triangleIndex - index of the hit triangle (the hit triangle's vertex indices start at indices[triangleIndex * 3]), -1 on a miss
+ * barycentric - barycentric coordinates (u, v, w) of the hit point, weights of the triangle's first, second and third vertex
+ * frontFacing - whether the hit triangle faces the ray
+ * @see createIntersectsMeshResult
+ * @see intersectsMesh
+ */
+export type IntersectsMeshResult = {
+    hit: boolean;
+    fraction: number;
+    triangleIndex: number;
+    barycentric: Vec3;
+    frontFacing: boolean;
+};
+
+/**
+ * Creates a new IntersectsMeshResult with default values.
+ * @returns A new IntersectsMeshResult.
+ */
+export function createIntersectsMeshResult(): IntersectsMeshResult {
+    return {
+        hit: false,
+        fraction: 0,
+        triangleIndex: -1,
+        barycentric: vec3.create(),
+        frontFacing: false,
+    };
+}
+
+const _intersectsMesh_ray = /*@__PURE__*/ create();
+const _intersectsMesh_triangleResult = /*@__PURE__*/ createIntersectsTriangleResult();
+const _intersectsMesh_a = /*@__PURE__*/ vec3.create();
+const _intersectsMesh_b = /*@__PURE__*/ vec3.create();
+const _intersectsMesh_c = /*@__PURE__*/ vec3.create();
+const _intersectsMesh_point = /*@__PURE__*/ vec3.create();
+
+/**
+ * Ray-triangle mesh intersection test over indexed flat arrays.
+ * Every triangle is tested with {@link intersectsTriangle}; in 'closest' mode the ray is
+ * shortened after each hit so farther triangles are rejected early.
+ *
+ * @param out output object to store result (hit, fraction, triangle index, barycentric coordinates, frontFacing)
+ * @param ray ray to test (with origin, direction, and length)
+ * @param positions flat array of vertex positions: [x0, y0, z0, x1, y1, z1, ...]
+ * @param indices flat array of triangle vertex indices: [i0, j0, k0, i1, j1, k1, ...], as returned by quickhull3
+ * @param options search mode and backface culling
+ */
+export function intersectsMesh(
+    out: IntersectsMeshResult,
+    ray: Raycast3,
+    positions: number[],
+    indices: number[],
+    options: IntersectsMeshOptions = {},
+): void {
+    const anyHit = options.mode === 'any';
+    const backfaceCulling = options.backfaceCulling === true;
+
+    const testRay = copy(_intersectsMesh_ray, ray);
+    const triangleResult = _intersectsMesh_triangleResult;
+    const a = _intersectsMesh_a;
+    const b = _intersectsMesh_b;
+    const c = _intersectsMesh_c;
+
+    let bestTriangle = -1;
+    let bestT = 0;
+    let bestFrontFacing = false;
+
+    const triangleCount = math.floor(indices.size() / 3);
+
+    for (let i = 0; i < triangleCount; i++) {
+        vec3.fromBuffer(a, positions, indices[i * 3] * 3);
+        vec3.fromBuffer(b, positions, indices[i * 3 + 1] * 3);
+        vec3.fromBuffer(c, positions, indices[i * 3 + 2] * 3);
+
+        intersectsTriangle(triangleResult, testRay, a, b, c, backfaceCulling);
+
+        if (!triangleResult.hit) continue;
+
+        const t = triangleResult.fraction * testRay.length;
+        if (bestTriangle !== -1 && t >= bestT) continue;
+
+        bestTriangle = i;
+        bestT = t;
+        bestFrontFacing = triangleResult.frontFacing;
+
+        if (anyHit || t === 0) break;
+
+        // only nearer triangles can improve on this hit
+        testRay.length = t;
+    }
+
+    if (bestTriangle === -1) {
+        out.hit = false;
+        out.fraction = 0;
+        out.triangleIndex = -1;
+        vec3.zero(out.barycentric);
+        out.frontFacing = false;
+        return;
+    }
+
+    vec3.fromBuffer(a, positions, indices[bestTriangle * 3] * 3);
+    vec3.fromBuffer(b, positions, indices[bestTriangle * 3 + 1] * 3);
+    vec3.fromBuffer(c, positions, indices[bestTriangle * 3 + 2] * 3);
+    const point = vec3.scaleAndAdd(_intersectsMesh_point, ray.origin, ray.direction, bestT);
+
+    out.hit = true;
+    out.fraction = ray.length > 0 ? bestT / ray.length : 0;
+    out.triangleIndex = bestTriangle;
+    triangle3.barycentric(out.barycentric, point, a, b, c);
+    out.frontFacing = bestFrontFacing;
+}
+
 /**
  * Test if a ray intersects an axis-aligned bounding box.
  * Uses slab-based algorithm that handles parallel rays correctly.
@@ -266,3 +395,665 @@ export function intersectsBox3(ray: Raycast3, aabb: Box3): boolean {
 
     return true;
 }
+
+/**
+ * Result of a ray-box intersection test
+ * fractionNear - entry distance as a fraction of the ray length (0 when the origin is inside)
+ * fractionFar - exit distance as a fraction of the ray length, clamped to 1 when the ray ends inside the box
+ * normal - unit normal of the entry face (zero when the origin is inside)
+ * inside - whether the ray origin is inside the box
+ * @see createIntersectsBox3Result
+ * @see intersectsBox3WithResult
+ */
+export type IntersectsBox3Result = {
+    hit: boolean;
+    fractionNear: number;
+    fractionFar: number;
+    normal: Vec3;
+    inside: boolean;
+};
+
+/**
+ * Creates a new IntersectsBox3Result with default values.
+ * @returns A new IntersectsBox3Result.
+ */
+export function createIntersectsBox3Result(): IntersectsBox3Result {
+    return {
+        hit: false,
+        fractionNear: 0,
+        fractionFar: 0,
+        normal: vec3.create(),
+        inside: false,
+    };
+}
+
+/**
+ * Ray-AABB intersection test that reports where the ray enters and leaves the box.
+ * Uses the same slab-based algorithm as {@link intersectsBox3}, which remains the
+ * faster choice when only a yes/no answer is needed.
+ *
+ * @param out output object to store result (hit, near and far fractions, entry normal, inside)
+ * @param ray ray to test (with origin, direction, and length)
+ * @param aabb AABB to test against
+ */
+export function intersectsBox3WithResult(out: IntersectsBox3Result, ray: Raycast3, aabb: Box3): void {
+    let tmin = 0;
+    let tmax = ray.length;
+    let axis = -1;
+    let axisSign = 0;
+
+    for (let i = 0; i < 3; i++) {
+        const d = ray.direction[i];
+
+        if (math.abs(d) < 1e-10) {
+            // ray is parallel to slab: check if origin is within slab
+            if (ray.origin[i] < aabb[i] || ray.origin[i] > aabb[i + 3]) {
+                setBox3Miss(out);
+                return;
+            }
+        } else {
+            // compute intersection times with slab
+            const invD = 1 / d;
+            let t0 = (aabb[i] - ray.origin[i]) * invD;
+            let t1 = (aabb[i + 3] - ray.origin[i]) * invD;
+            // entering through the min face when moving in +axis direction
+            let sign = -1;
+
+            if (invD < 0) {
+                const temp = t0;
+                t0 = t1;
+                t1 = temp;
+                sign = 1;
+            }
+
+            if (t0 > tmin) {
+                tmin = t0;
+                axis = i;
+                axisSign = sign;
+            }
+            tmax = math.min(tmax, t1);
+
+            if (tmax < tmin) {
+                setBox3Miss(out);
+                return;
+            }
+        }
+    }
+
+    out.hit = true;
+    out.inside = axis === -1;
+    out.fractionNear = ray.length > 0 ? tmin / ray.length : 0;
+    out.fractionFar = ray.length > 0 ? tmax / ray.length : 0;
+    vec3.zero(out.normal);
+    if (axis !== -1) {
+        out.normal[axis] = axisSign;
+    }
+}
+
+function setBox3Miss(out: IntersectsBox3Result): void {
+    out.hit = false;
+    out.fractionNear = 0;
+    out.fractionFar = 0;
+    vec3.zero(out.normal);
+    out.inside = false;
+}
+
+/**
+ * Result of a ray-shape intersection test
+ * fraction - hit distance as a fraction of the ray length, in [0, 1]
+ * point - the hit point in world space
+ * normal - the unit surface normal at the hit point
+ * Rays starting inside a solid shape hit at fraction 0, with the normal facing against the ray direction.
+ * @see createIntersectsShapeResult
+ */
+export type IntersectsShapeResult = {
+    hit: boolean;
+    fraction: number;
+    point: Vec3;
+    normal: Vec3;
+};
+
+/**
+ * Creates a new IntersectsShapeResult with default values.
+ * @returns A new IntersectsShapeResult.
+ */
+export function createIntersectsShapeResult(): IntersectsShapeResult {
+    return {
+        hit: false,
+        fraction: 0,
+        point: vec3.create(),
+        normal: vec3.create(),
+    };
+}
+
+function setMiss(out: IntersectsShapeResult): void {
+    out.hit = false;
+    out.fraction = 0;
+    vec3.zero(out.point);
+    vec3.zero(out.normal);
+}
+
+function setHit(out: IntersectsShapeResult, ray: Raycast3, t: number, nx: number, ny: number, nz: number): void {
+    out.hit = true;
+    out.fraction = ray.length > 0 ? t / ray.length : 0;
+    vec3.scaleAndAdd(out.point, ray.origin, ray.direction, t);
+    vec3.normalize(out.normal, vec3.set(out.normal, nx, ny, nz));
+}
+
+function setHitInside(out: IntersectsShapeResult, ray: Raycast3): void {
+    setHit(out, ray, 0, -ray.direction[0], -ray.direction[1], -ray.direction[2]);
+}
+
+/**
+ * Ray-sphere intersection test.
+ * Reference: Real-Time Collision Detection by Christer Ericson (chapter 5.3.2)
+ *
+ * @param out output object to store result (hit boolean, fraction, point, normal)
+ * @param ray ray to test (with origin, direction, and length)
+ * @param sphere sphere to test against
+ */
+export function intersectsSphere(out: IntersectsShapeResult, ray: Raycast3, sphere: Sphere): void {
+    const { center, radius } = sphere;
+    const d = ray.direction;
+
+    // m = origin - center
+    const mx = ray.origin[0] - center[0];
+    const my = ray.origin[1] - center[1];
+    const mz = ray.origin[2] - center[2];
+
+    const c = mx * mx + my * my + mz * mz - radius * radius;
+
+    if (c <= 0) {
+        // origin inside sphere
+        setHitInside(out, ray);
+        return;
+    }
+
+    const a = d[0] * d[0] + d[1] * d[1] + d[2] * d[2];
+    const b = mx * d[0] + my * d[1] + mz * d[2];
+
+    // ray pointing away from sphere, or zero length direction
+    if (b > 0 || a === 0) {
+        setMiss(out);
+        return;
+    }
+
+    const discriminant = b * b - a * c;
+    if (discriminant < 0) {
+        setMiss(out);
+        return;
+    }
+
+    const t = (-b - math.sqrt(discriminant)) / a;
+    if (t > ray.length) {
+        setMiss(out);
+        return;
+    }
+
+    setHit(out, ray, t, mx + t * d[0], my + t * d[1], mz + t * d[2]);
+}
+
+/**
+ * Ray-plane intersection test.
+ * The reported normal is the plane normal flipped to face the ray origin.
+ *
+ * @param out output object to store result (hit boolean, fraction, point, normal)
+ * @param ray ray to test (with origin, direction, and length)
+ * @param plane plane to test against
+ */
+export function intersectsPlane3(out: IntersectsShapeResult, ray: Raycast3, plane: Plane3): void {
+    const n = plane.normal;
+    const denom = n[0] * ray.direction[0] + n[1] * ray.direction[1] + n[2] * ray.direction[2];
+    const distance = n[0] * ray.origin[0] + n[1] * ray.origin[1] + n[2] * ray.origin[2] + plane.constant;
+
+    if (denom === 0) {
+        // ray parallel to plane: only a hit if the origin lies on the plane
+        if (distance === 0) {
+            setHit(out, ray, 0, n[0], n[1], n[2]);
+        } else {
+            setMiss(out);
+        }
+        return;
+    }
+
+    const t = -distance / denom;
+    if (t < 0 || t > ray.length) {
+        setMiss(out);
+        return;
+    }
+
+    const side = distance > 0 || (distance === 0 && denom < 0) ? 1 : -1;
+    setHit(out, ray, t, n[0] * side, n[1] * side, n[2] * side);
+}
+
+const _intersectsOBB3_localOrigin = /*@__PURE__*/ vec3.create();
+const _intersectsOBB3_localDirection = /*@__PURE__*/ vec3.create();
+
+/**
+ * Ray-oriented bounding box intersection test.
+ * Transforms the ray into the box's local frame and runs a slab test there.
+ * Reference: Real-Time Collision Detection by Christer Ericson (chapter 5.3.3)
+ *
+ * @param out output object to store result (hit boolean, fraction, point, normal)
+ * @param ray ray to test (with origin, direction, and length)
+ * @param obb OBB to test against
+ */
+export function intersectsOBB3(out: IntersectsShapeResult, ray: Raycast3, obb: OBB3): void {
+    const r = obb.rotation;
+    const h = obb.halfExtents;
+
+    const dx = ray.origin[0] - obb.center[0];
+    const dy = ray.origin[1] - obb.center[1];
+    const dz = ray.origin[2] - obb.center[2];
+
+    // project onto box axes (columns of the rotation matrix)
+    const o = _intersectsOBB3_localOrigin;
+    const d = _intersectsOBB3_localDirection;
+    o[0] = dx * r[0] + dy * r[1] + dz * r[2];
+    o[1] = dx * r[3] + dy * r[4] + dz * r[5];
+    o[2] = dx * r[6] + dy * r[7] + dz * r[8];
+    d[0] = ray.direction[0] * r[0] + ray.direction[1] * r[1] + ray.direction[2] * r[2];
+    d[1] = ray.direction[0] * r[3] + ray.direction[1] * r[4] + ray.direction[2] * r[5];
+    d[2] = ray.direction[0] * r[6] + ray.direction[1] * r[7] + ray.direction[2] * r[8];
+
+    let tmin = 0;
+    let tmax = ray.length;
+    let axis = -1;
+    let axisSign = 0;
+
+    for (let i = 0; i < 3; i++) {
+        if (math.abs(d[i]) < 1e-10) {
+            // ray is parallel to slab: check if origin is within slab
+            if (o[i] < -h[i] || o[i] > h[i]) {
+                setMiss(out);
+                return;
+            }
+        } else {
+            const invD = 1 / d[i];
+            let t0 = (-h[i] - o[i]) * invD;
+            let t1 = (h[i] - o[i]) * invD;
+            // entering through the -axis face when moving in +axis direction
+            let sign = -1;
+
+            if (invD < 0) {
+                const temp = t0;
+                t0 = t1;
+                t1 = temp;
+                sign = 1;
+            }
+
+            if (t0 > tmin) {
+                tmin = t0;
+                axis = i;
+                axisSign = sign;
+            }
+            tmax = math.min(tmax, t1);
+
+            if (tmax < tmin) {
+                setMiss(out);
+                return;
+            }
+        }
+    }
+
+    if (axis === -1) {
+        // origin inside box
+        setHitInside(out, ray);
+        return;
+    }
+
+    const c = axis * 3;
+    setHit(out, ray, tmin, r[c] * axisSign, r[c + 1] * axisSign, r[c + 2] * axisSign);
+}
+
+/**
+ * Ray-convex hull intersection test, clipping the ray against each face plane.
+ * Empty and flat hulls, with fewer faces than a tetrahedron, are never hit.
+ * Reference: Real-Time Collision Detection by Christer Ericson (chapter 5.3.8)
+ *
+ * @param out output object to store result (hit boolean, fraction, point, normal)
+ * @param ray ray to test (with origin, direction, and length)
+ * @param hull convex hull to test against, as computed by convexHull3
+ */
+export function intersectsConvexHull3(out: IntersectsShapeResult, ray: Raycast3, hull: ConvexHull3): void {
+    if (!convexHull3IsSolid(hull)) {
+        setMiss(out);
+        return;
+    }
+
+    let tmin = 0;
+    let tmax = ray.length;
+    let face = -1;
+
+    for (let i = 0; i < hull.facePlanes.size(); i++) {
+        const plane = hull.facePlanes[i];
+        const denom = vec3.dot(plane.normal, ray.direction);
+        const distance = plane3.distanceToPoint(plane, ray.origin);
+
+        if (denom === 0) {
+            // ray parallel to the face: a miss unless the origin is behind its plane
+            if (distance > 0) {
+                setMiss(out);
+                return;
+            }
+            continue;
+        }
+
+        const t = -distance / denom;
+        if (denom < 0) {
+            // entering the face's half-space
+            if (t > tmin) {
+                tmin = t;
+                face = i;
+            }
+        } else if (t < tmax) {
+            tmax = t;
+        }
+
+        if (tmin > tmax) {
+            setMiss(out);
+            return;
+        }
+    }
+
+    if (face === -1) {
+        // origin inside hull
+        setHitInside(out, ray);
+        return;
+    }
+
+    const normal = hull.facePlanes[face].normal;
+    setHit(out, ray, tmin, normal[0], normal[1], normal[2]);
+}
+
+/**
+ * Ray-capsule intersection test.
+ * The capsule is the set of points within radius of the segment a-b.
+ * Reference: https://iquilezles.org/articles/intersectors/
+ *
+ * @param out output object to store result (hit boolean, fraction, point, normal)
+ * @param ray ray to test (with origin, direction, and length)
+ * @param a first endpoint of the capsule segment
+ * @param b second endpoint of the capsule segment
+ * @param radius radius of the capsule
+ */
+export function intersectsCapsule(out: IntersectsShapeResult, ray: Raycast3, a: Vec3, b: Vec3, radius: number): void {
+    const d = ray.direction;
+
+    const bax = b[0] - a[0];
+    const bay = b[1] - a[1];
+    const baz = b[2] - a[2];
+    const oax = ray.origin[0] - a[0];
+    const oay = ray.origin[1] - a[1];
+    const oaz = ray.origin[2] - a[2];
+
+    const baba = bax * bax + bay * bay + baz * baz;
+    const bard = bax * d[0] + bay * d[1] + baz * d[2];
+    const baoa = bax * oax + bay * oay + baz * oaz;
+    const rdrd = d[0] * d[0] + d[1] * d[1] + d[2] * d[2];
+    const rdoa = d[0] * oax + d[1] * oay + d[2] * oaz;
+    const oaoa = oax * oax + oay * oay + oaz * oaz;
+    const rr = radius * radius;
+
+    // origin inside capsule: distance from origin to segment <= radius
+    const s = baba > 0 ? math.max(0, math.min(1, baoa / baba)) : 0;
+    const cx = oax - bax * s;
+    const cy = oay - bay * s;
+    const cz = oaz - baz * s;
+    if (cx * cx + cy * cy + cz * cz <= rr) {
+        setHitInside(out, ray);
+        return;
+    }
+
+    let tBest = Number.POSITIVE_INFINITY;
+    let nx = 0;
+    let ny = 0;
+    let nz = 0;
+
+    // lateral surface of the infinite cylinder, restricted to the segment
+    const k2 = baba * rdrd - bard * bard;
+    if (k2 > 1e-10 * baba * rdrd) {
+        const k1 = baba * rdoa - baoa * bard;
+        const k0 = baba * oaoa - baoa * baoa - rr * baba;
+        const h = k1 * k1 - k2 * k0;
+        if (h >= 0) {
+            const t = (-k1 - math.sqrt(h)) / k2;
+            const y = baoa + t * bard;
+            if (t >= 0 && y > 0 && y < baba) {
+                tBest = t;
+                const f = y / baba;
+                nx = oax + t * d[0] - bax * f;
+                ny = oay + t * d[1] - bay * f;
+                nz = oaz + t * d[2] - baz * f;
+            }
+        }
+    }
+
+    // hemispherical caps
+    for (let cap = 0; cap < 2; cap++) {
+        const ox = cap === 0 ? oax : oax - bax;
+        const oy = cap === 0 ? oay : oay - bay;
+        const oz = cap === 0 ? oaz : oaz - baz;
+        const hb = ox * d[0] + oy * d[1] + oz * d[2];
+        const hc = ox * ox + oy * oy + oz * oz - rr;
+        const h = hb * hb - rdrd * hc;
+        if (rdrd > 0 && h >= 0) {
+            const t = (-hb - math.sqrt(h)) / rdrd;
+            if (t >= 0 && t < tBest) {
+                tBest = t;
+                nx = ox + t * d[0];
+                ny = oy + t * d[1];
+                nz = oz + t * d[2];
+            }
+        }
+    }
+
+    if (tBest > ray.length) {
+        setMiss(out);
+        return;
+    }
+
+    setHit(out, ray, tBest, nx, ny, nz);
+}
+
+/**
+ * Ray-cylinder intersection test.
+ * The cylinder is capped with flat discs at the endpoints a and b.
+ * Reference: https://iquilezles.org/articles/intersectors/
+ *
+ * @param out output object to store result (hit boolean, fraction, point, normal)
+ * @param ray ray to test (with origin, direction, and length)
+ * @param a center of the first cap
+ * @param b center of the second cap
+ * @param radius radius of the cylinder
+ */
+export function intersectsCylinder(out: IntersectsShapeResult, ray: Raycast3, a: Vec3, b: Vec3, radius: number): void {
+    const d = ray.direction;
+
+    const bax = b[0] - a[0];
+    const bay = b[1] - a[1];
+    const baz = b[2] - a[2];
+    const oax = ray.origin[0] - a[0];
+    const oay = ray.origin[1] - a[1];
+    const oaz = ray.origin[2] - a[2];
+
+    const baba = bax * bax + bay * bay + baz * baz;
+    const bard = bax * d[0] + bay * d[1] + baz * d[2];
+    const baoa = bax * oax + bay * oay + baz * oaz;
+    const rdrd = d[0] * d[0] + d[1] * d[1] + d[2] * d[2];
+    const rdoa = d[0] * oax + d[1] * oay + d[2] * oaz;
+    const oaoa = oax * oax + oay * oay + oaz * oaz;
+    const rr = radius * radius;
+
+    if (baba === 0) {
+        setMiss(out);
+        return;
+    }
+
+    // origin inside cylinder: within the slab and within radius of the axis
+    if (baoa >= 0 && baoa <= baba && oaoa - (baoa * baoa) / baba <= rr) {
+        setHitInside(out, ray);
+        return;
+    }
+
+    let tBest = Number.POSITIVE_INFINITY;
+    let nx = 0;
+    let ny = 0;
+    let nz = 0;
+
+    // lateral surface
+    const k2 = baba * rdrd - bard * bard;
+    if (k2 > 1e-10 * baba * rdrd) {
+        const k1 = baba * rdoa - baoa * bard;
+        const k0 = baba * oaoa - baoa * baoa - rr * baba;
+        const h = k1 * k1 - k2 * k0;
+        if (h >= 0) {
+            const t = (-k1 - math.sqrt(h)) / k2;
+            const y = baoa + t * bard;
+            if (t >= 0 && y > 0 && y < baba) {
+                tBest = t;
+                const f = y / baba;
+                nx = oax + t * d[0] - bax * f;
+                ny = oay + t * d[1] - bay * f;
+                nz = oaz + t * d[2] - baz * f;
+            }
+        }
+    }
+
+    // flat caps
+    if (bard !== 0) {
+        for (let cap = 0; cap < 2; cap++) {
+            const capY = cap === 0 ? 0 : baba;
+            const t = (capY - baoa) / bard;
+            if (t >= 0 && t < tBest) {
+                const f = capY / baba;
+                const px = oax + t * d[0] - bax * f;
+                const py = oay + t * d[1] - bay * f;
+                const pz = oaz + t * d[2] - baz * f;
+                if (px * px + py * py + pz * pz <= rr) {
+                    tBest = t;
+                    const sign = cap === 0 ? -1 : 1;
+                    nx = bax * sign;
+                    ny = bay * sign;
+                    nz = baz * sign;
+                }
+            }
+        }
+    }
+
+    if (tBest > ray.length) {
+        setMiss(out);
+        return;
+    }
+
+    setHit(out, ray, tBest, nx, ny, nz);
+}
+
+/**
+ * Ray-cone intersection test.
+ * The cone narrows from a flat base disc of radius centered at base to a point at apex.
+ *
+ * @param out output object to store result (hit boolean, fraction, point, normal)
+ * @param ray ray to test (with origin, direction, and length)
+ * @param apex apex of the cone
+ * @param base center of the base disc
+ * @param radius radius of the base disc
+ */
+export function intersectsCone(out: IntersectsShapeResult, ray: Raycast3, apex: Vec3, base: Vec3, radius: number): void {
+    const d = ray.direction;
+
+    const bax = base[0] - apex[0];
+    const bay = base[1] - apex[1];
+    const baz = base[2] - apex[2];
+    const oax = ray.origin[0] - apex[0];
+    const oay = ray.origin[1] - apex[1];
+    const oaz = ray.origin[2] - apex[2];
+
+    const baba = bax * bax + bay * bay + baz * baz;
+    const bard = bax * d[0] + bay * d[1] + baz * d[2];
+    const baoa = bax * oax + bay * oay + baz * oaz;
+    const rdrd = d[0] * d[0] + d[1] * d[1] + d[2] * d[2];
+    const rdoa = d[0] * oax + d[1] * oay + d[2] * oaz;
+    const oaoa = oax * oax + oay * oay + oaz * oaz;
+
+    if (baba === 0) {
+        setMiss(out);
+        return;
+    }
+
+    // a point q relative to the apex is inside the infinite double cone when baba * |q|^2 <= m * (q.ba)^2
+    const m = 1 + (radius * radius) / baba;
+
+    // origin inside cone: within the slab and inside the lateral surface
+    if (baoa >= 0 && baoa <= baba && baba * oaoa - m * baoa * baoa <= 0) {
+        setHitInside(out, ray);
+        return;
+    }
+
+    let tBest = Number.POSITIVE_INFINITY;
+    let nx = 0;
+    let ny = 0;
+    let nz = 0;
+
+    // lateral surface, the roots of the quadratic in t for q = oa + t * d
+    const k2 = baba * rdrd - m * bard * bard;
+    const k1 = baba * rdoa - m * baoa * bard;
+    const k0 = baba * oaoa - m * baoa * baoa;
+    let t0 = Number.POSITIVE_INFINITY;
+    let t1 = Number.POSITIVE_INFINITY;
+    if (math.abs(k2) > 1e-10 * baba * rdrd) {
+        const h = k1 * k1 - k2 * k0;
+        if (h >= 0) {
+            const sqrtH = math.sqrt(h);
+            t0 = (-k1 - sqrtH) / k2;
+            t1 = (-k1 + sqrtH) / k2;
+        }
+    } else if (k1 !== 0) {
+        // the ray is parallel to a line of the surface and crosses it once
+        t0 = -k0 / (2 * k1);
+    }
+
+    for (let root = 0; root < 2; root++) {
+        const t = root === 0 ? t0 : t1;
+        const y = baoa + t * bard;
+
+        // restricted to the nappe between the apex and the base
+        if (t >= 0 && t < tBest && y >= 0 && y <= baba) {
+            tBest = t;
+            if (y === 0) {
+                // the apex, face back along the axis
+                nx = -bax;
+                ny = -bay;
+                nz = -baz;
+            } else {
+                // gradient of the surface equation, pointing outwards
+                nx = baba * (oax + t * d[0]) - m * y * bax;
+                ny = baba * (oay + t * d[1]) - m * y * bay;
+                nz = baba * (oaz + t * d[2]) - m * y * baz;
+            }
+        }
+    }
+
+    // flat base
+    if (bard !== 0) {
+        const t = (baba - baoa) / bard;
+        if (t >= 0 && t < tBest) {
+            const px = oax + t * d[0] - bax;
+            const py = oay + t * d[1] - bay;
+            const pz = oaz + t * d[2] - baz;
+            if (px * px + py * py + pz * pz <= radius * radius) {
+                tBest = t;
+                nx = bax;
+                ny = bay;
+                nz = baz;
+            }
+        }
+    }
+
+    if (tBest > ray.length) {
+        setMiss(out);
+        return;
+    }
+
+    setHit(out, ray, tBest, nx, ny, nz);
+}
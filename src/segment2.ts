@@ -1,6 +1,9 @@
 //!native
 
-import type { Vec2 } from './types';
+import * as common from './common';
+import * as Number from './Number';
+import type { Circle, Vec2 } from './types';
+import * as vec2 from './vec2';
 
 /**
  * Calculates the closest point on a line segment to a given point
@@ -26,3 +29,452 @@ export function closestPoint(out: Vec2, point: Vec2, a: Vec2, b: Vec2): Vec2 {
 
     return out;
 }
+
+/**
+ * Calculates the length of a line segment
+ * @param a First endpoint of the segment
+ * @param b Second endpoint of the segment
+ */
+export function length(a: Vec2, b: Vec2): number {
+    return vec2.distance(a, b);
+}
+
+/**
+ * Calculates the unit direction of a line segment, from a towards b
+ * @param out Output parameter for the direction, zero for a degenerate segment
+ * @param a First endpoint of the segment
+ * @param b Second endpoint of the segment
+ */
+export function direction(out: Vec2, a: Vec2, b: Vec2): Vec2 {
+    out[0] = b[0] - a[0];
+    out[1] = b[1] - a[1];
+    return vec2.normalize(out, out);
+}
+
+/**
+ * Calculates the unit normal of a line segment, its direction rotated a quarter turn counter-clockwise
+ * @param out Output parameter for the normal, zero for a degenerate segment
+ * @param a First endpoint of the segment
+ * @param b Second endpoint of the segment
+ */
+export function normal(out: Vec2, a: Vec2, b: Vec2): Vec2 {
+    const dx = b[0] - a[0];
+    out[0] = a[1] - b[1];
+    out[1] = dx;
+    return vec2.normalize(out, out);
+}
+
+/**
+ * Calculates the point at a fraction along a line segment
+ * @param out Output parameter for the point
+ * @param a First endpoint of the segment
+ * @param b Second endpoint of the segment
+ * @param t Fraction along the segment, 0 at a and 1 at b
+ */
+export function lerp(out: Vec2, a: Vec2, b: Vec2, t: number): Vec2 {
+    return vec2.lerp(out, a, b, t);
+}
+
+/**
+ * Calculates the orientation of point c relative to the directed line from a to b,
+ * as twice the signed area of triangle abc
+ * @param a First point on the line
+ * @param b Second point on the line
+ * @param c The point to classify
+ * @returns Positive if c is to the left (abc is counter-clockwise), negative if to the right, zero if collinear
+ */
+export function orient2d(a: Vec2, b: Vec2, c: Vec2): number {
+    return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
+
+/**
+ * Kind of intersection between two line segments
+ * none - the segments do not touch
+ * point - the segments cross or touch at a single point
+ * overlap - the segments are collinear and share a sub-segment
+ */
+export type IntersectionType = 'none' | 'point' | 'overlap';
+
+/**
+ * Result of a segment-segment intersection test
+ * type - the kind of intersection
+ * start - the intersection point, or the start of the shared sub-segment along the first segment
+ * end - equal to start for a point intersection, or the end of the shared sub-segment
+ * fractionA - fraction along the first segment of start
+ * fractionB - fraction along the second segment of start
+ * endFractionA - fraction along the first segment of end
+ * endFractionB - fraction along the second segment of end
+ * @see createIntersectsSegmentResult
+ * @see intersectsSegment
+ */
+export type IntersectsSegmentResult = {
+    type: IntersectionType;
+    start: Vec2;
+    end: Vec2;
+    fractionA: number;
+    fractionB: number;
+    endFractionA: number;
+    endFractionB: number;
+};
+
+/**
+ * Creates a new IntersectsSegmentResult with default values.
+ * @returns A new IntersectsSegmentResult.
+ */
+export function createIntersectsSegmentResult(): IntersectsSegmentResult {
+    return {
+        type: 'none',
+        start: vec2.create(),
+        end: vec2.create(),
+        fractionA: 0,
+        fractionB: 0,
+        endFractionA: 0,
+        endFractionB: 0,
+    };
+}
+
+function setNoIntersection(out: IntersectsSegmentResult): void {
+    out.type = 'none';
+    vec2.zero(out.start);
+    vec2.zero(out.end);
+    setFractions(out, 0, 0, 0, 0);
+}
+
+function setFractions(out: IntersectsSegmentResult, startA: number, startB: number, endA: number, endB: number): void {
+    out.fractionA = startA;
+    out.fractionB = startB;
+    out.endFractionA = endA;
+    out.endFractionB = endB;
+}
+
+/**
+ * Segment-segment intersection test, classifying crossing, touching and collinear overlapping segments.
+ * Degenerate segments are treated as points.
+ * Reference: Real-Time Collision Detection by Christer Ericson (chapter 5.1.9.1)
+ *
+ * @param out output object to store result (type, start, end and their fractions along each segment)
+ * @param a First endpoint of the first segment
+ * @param b Second endpoint of the first segment
+ * @param c First endpoint of the second segment
+ * @param d Second endpoint of the second segment
+ */
+export function intersectsSegment(out: IntersectsSegmentResult, a: Vec2, b: Vec2, c: Vec2, d: Vec2): void {
+    const rx = b[0] - a[0];
+    const ry = b[1] - a[1];
+    const sx = d[0] - c[0];
+    const sy = d[1] - c[1];
+    const qx = c[0] - a[0];
+    const qy = c[1] - a[1];
+
+    const rr = rx * rx + ry * ry;
+    const ss = sx * sx + sy * sy;
+    const denominator = rx * sy - ry * sx;
+    const tolerance = common.EPSILON * math.max(1, math.sqrt(math.max(rr, ss)));
+
+    if (denominator * denominator > common.EPSILON * common.EPSILON * rr * ss) {
+        // segments are not parallel, solve a + t r = c + u s
+        const t = (qx * sy - qy * sx) / denominator;
+        const u = (qx * ry - qy * rx) / denominator;
+        const tolT = tolerance / math.sqrt(rr);
+        const tolU = tolerance / math.sqrt(ss);
+
+        if (t < -tolT || t > 1 + tolT || u < -tolU || u > 1 + tolU) {
+            setNoIntersection(out);
+            return;
+        }
+
+        const fractionA = math.max(0, math.min(1, t));
+        const fractionB = math.max(0, math.min(1, u));
+        out.type = 'point';
+        setFractions(out, fractionA, fractionB, fractionA, fractionB);
+        vec2.lerp(out.start, a, b, fractionA);
+        vec2.copy(out.end, out.start);
+        return;
+    }
+
+    // parallel: only collinear segments can touch
+    if (rr === 0 && ss === 0) {
+        if (qx * qx + qy * qy > tolerance * tolerance) {
+            setNoIntersection(out);
+            return;
+        }
+        out.type = 'point';
+        setFractions(out, 0, 0, 0, 0);
+        vec2.copy(out.start, a);
+        vec2.copy(out.end, a);
+        return;
+    }
+
+    if (rr === 0 || ss === 0) {
+        // a point against a segment
+        const point = rr === 0 ? a : c;
+        const start = rr === 0 ? c : a;
+        const end = rr === 0 ? d : b;
+        const closest = closestPoint(_intersectsSegment_closest, point, start, end);
+        if (vec2.squaredDistance(closest, point) > tolerance * tolerance) {
+            setNoIntersection(out);
+            return;
+        }
+
+        const ex = end[0] - start[0];
+        const ey = end[1] - start[1];
+        const f = ((point[0] - start[0]) * ex + (point[1] - start[1]) * ey) / (ex * ex + ey * ey);
+        out.type = 'point';
+        const fractionA = rr === 0 ? 0 : f;
+        const fractionB = rr === 0 ? f : 0;
+        setFractions(out, fractionA, fractionB, fractionA, fractionB);
+        vec2.copy(out.start, point);
+        vec2.copy(out.end, point);
+        return;
+    }
+
+    // distance of c from the line through a and b
+    const longest = rr >= ss ? rr : ss;
+    const side = rr >= ss ? qx * ry - qy * rx : qx * sy - qy * sx;
+    if (side * side > tolerance * tolerance * longest) {
+        setNoIntersection(out);
+        return;
+    }
+
+    // project the second segment onto the first and intersect the parameter ranges
+    const t0 = (qx * rx + qy * ry) / rr;
+    const t1 = t0 + (sx * rx + sy * ry) / rr;
+    const tMin = math.max(0, math.min(t0, t1));
+    const tMax = math.min(1, math.max(t0, t1));
+    const tolT = tolerance / math.sqrt(rr);
+
+    if (tMin > tMax + tolT) {
+        setNoIntersection(out);
+        return;
+    }
+
+    const tEnd = math.max(tMin, tMax);
+    vec2.lerp(out.start, a, b, tMin);
+    vec2.lerp(out.end, a, b, tEnd);
+
+    // fractions along the second segment of the same points
+    const ux = (out.start[0] - c[0]) * sx + (out.start[1] - c[1]) * sy;
+    const vx = (out.end[0] - c[0]) * sx + (out.end[1] - c[1]) * sy;
+    const uStart = math.max(0, math.min(1, ux / ss));
+    const uEnd = math.max(0, math.min(1, vx / ss));
+
+    out.type = (tEnd - tMin) * math.sqrt(rr) > tolerance ? 'overlap' : 'point';
+    if (out.type === 'point') {
+        vec2.copy(out.end, out.start);
+        setFractions(out, tMin, uStart, tMin, uStart);
+    } else {
+        setFractions(out, tMin, uStart, tEnd, uEnd);
+    }
+}
+
+const _intersectsSegment_closest = /*@__PURE__*/ vec2.create();
+
+/**
+ * Result of a segment-circle intersection test
+ * count - the number of intersection points: 0 when the segment misses the circle or lies inside it, 1 when
+ * it enters, exits or touches the circle, 2 when it passes through
+ * start - the first intersection point along the segment
+ * end - the second intersection point, equal to start when there is one
+ * fraction - fraction along the segment of start
+ * endFraction - fraction along the segment of end
+ * @see createIntersectsCircleResult
+ * @see intersectsCircle
+ */
+export type IntersectsCircleResult = {
+    count: number;
+    start: Vec2;
+    end: Vec2;
+    fraction: number;
+    endFraction: number;
+};
+
+/**
+ * Creates a new IntersectsCircleResult with default values.
+ * @returns A new IntersectsCircleResult.
+ */
+export function createIntersectsCircleResult(): IntersectsCircleResult {
+    return {
+        count: 0,
+        start: vec2.create(),
+        end: vec2.create(),
+        fraction: 0,
+        endFraction: 0,
+    };
+}
+
+function setNoCircleIntersection(out: IntersectsCircleResult): void {
+    out.count = 0;
+    vec2.zero(out.start);
+    vec2.zero(out.end);
+    out.fraction = 0;
+    out.endFraction = 0;
+}
+
+/**
+ * Calculates the points where a line segment crosses the boundary of a circle, ordered from a to b.
+ * @param out output object to store result (count, start, end, fraction, endFraction)
+ * @param a First endpoint of the segment
+ * @param b Second endpoint of the segment
+ * @param circle The circle
+ */
+export function intersectsCircle(out: IntersectsCircleResult, a: Vec2, b: Vec2, circle: Circle): void {
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const fx = a[0] - circle.center[0];
+    const fy = a[1] - circle.center[1];
+
+    // solve |f + t d|^2 = r^2 for t
+    const qa = dx * dx + dy * dy;
+    const qb = fx * dx + fy * dy;
+    const qc = fx * fx + fy * fy - circle.radius * circle.radius;
+
+    const discriminant = qb * qb - qa * qc;
+    if (qa === 0 || discriminant < 0) {
+        setNoCircleIntersection(out);
+        return;
+    }
+
+    const root = math.sqrt(discriminant);
+    const t0 = (-qb - root) / qa;
+    const t1 = (-qb + root) / qa;
+
+    // a tangent segment touches the circle once
+    const enters = t0 >= 0 && t0 <= 1;
+    const exits = t1 >= 0 && t1 <= 1 && !(enters && root <= common.EPSILON * qa);
+    if (!enters && !exits) {
+        setNoCircleIntersection(out);
+        return;
+    }
+
+    out.count = enters && exits ? 2 : 1;
+    out.fraction = enters ? t0 : t1;
+    out.endFraction = exits ? t1 : t0;
+    vec2.lerp(out.start, a, b, out.fraction);
+    vec2.lerp(out.end, a, b, out.endFraction);
+}
+
+const _distanceToPoint_closest = /*@__PURE__*/ vec2.create();
+
+/**
+ * Calculates the distance from a point to a line segment
+ * @param a First endpoint of the segment
+ * @param b Second endpoint of the segment
+ * @param point The point
+ */
+export function distanceToPoint(a: Vec2, b: Vec2, point: Vec2): number {
+    return vec2.distance(closestPoint(_distanceToPoint_closest, point, a, b), point);
+}
+
+/**
+ * Result of a closest points query between two segments
+ * fractionA - fraction along the first segment of pointA
+ * fractionB - fraction along the second segment of pointB
+ * pointA - the closest point on the first segment
+ * pointB - the closest point on the second segment
+ * distance - the distance between pointA and pointB
+ * @see createClosestPointsResult
+ * @see closestPointsToSegment
+ */
+export type ClosestPointsResult = {
+    fractionA: number;
+    fractionB: number;
+    pointA: Vec2;
+    pointB: Vec2;
+    distance: number;
+};
+
+/**
+ * Creates a new ClosestPointsResult with default values.
+ * @returns A new ClosestPointsResult.
+ */
+export function createClosestPointsResult(): ClosestPointsResult {
+    return {
+        fractionA: 0,
+        fractionB: 0,
+        pointA: vec2.create(),
+        pointB: vec2.create(),
+        distance: 0,
+    };
+}
+
+const _closestPointsToSegment_intersection = /*@__PURE__*/ createIntersectsSegmentResult();
+const _closestPointsToSegment_candidate = /*@__PURE__*/ vec2.create();
+
+/**
+ * Calculates the closest points between two line segments.
+ * Crossing segments share a closest point, otherwise one of the closest points is a segment endpoint.
+ * @param out output object to store result (fractionA, fractionB, pointA, pointB, distance)
+ * @param a First endpoint of the first segment
+ * @param b Second endpoint of the first segment
+ * @param c First endpoint of the second segment
+ * @param d Second endpoint of the second segment
+ */
+export function closestPointsToSegment(out: ClosestPointsResult, a: Vec2, b: Vec2, c: Vec2, d: Vec2): void {
+    const intersection = _closestPointsToSegment_intersection;
+    intersectsSegment(intersection, a, b, c, d);
+    if (intersection.type !== 'none') {
+        out.fractionA = intersection.fractionA;
+        out.fractionB = intersection.fractionB;
+        vec2.copy(out.pointA, intersection.start);
+        vec2.copy(out.pointB, intersection.start);
+        out.distance = 0;
+        return;
+    }
+
+    // otherwise the closest points involve an endpoint of either segment
+    let best = Number.POSITIVE_INFINITY;
+    best = closestToEndpoint(out, best, c, 0, a, b, false);
+    best = closestToEndpoint(out, best, d, 1, a, b, false);
+    best = closestToEndpoint(out, best, a, 0, c, d, true);
+    best = closestToEndpoint(out, best, b, 1, c, d, true);
+
+    out.distance = math.sqrt(best);
+}
+
+/**
+ * Keeps an endpoint at the given fraction of its segment, and its closest point on the other segment,
+ * if nearer than the best so far
+ */
+function closestToEndpoint(
+    out: ClosestPointsResult,
+    best: number,
+    point: Vec2,
+    pointFraction: number,
+    a: Vec2,
+    b: Vec2,
+    onFirst: boolean,
+): number {
+    const abx = b[0] - a[0];
+    const aby = b[1] - a[1];
+    const lengthSq = abx * abx + aby * aby;
+    let fraction = 0;
+    if (lengthSq > 0) {
+        fraction = ((point[0] - a[0]) * abx + (point[1] - a[1]) * aby) / lengthSq;
+        fraction = math.max(0, math.min(1, fraction));
+    }
+
+    const candidate = lerp(_closestPointsToSegment_candidate, a, b, fraction);
+    const distanceSq = vec2.squaredDistance(candidate, point);
+    if (distanceSq >= best) return best;
+
+    out.fractionA = onFirst ? pointFraction : fraction;
+    out.fractionB = onFirst ? fraction : pointFraction;
+    vec2.copy(onFirst ? out.pointA : out.pointB, point);
+    vec2.copy(onFirst ? out.pointB : out.pointA, candidate);
+    return distanceSq;
+}
+
+const _distanceToSegment_result = /*@__PURE__*/ createClosestPointsResult();
+
+/**
+ * Calculates the distance between two line segments
+ * @param a First endpoint of the first segment
+ * @param b Second endpoint of the first segment
+ * @param c First endpoint of the second segment
+ * @param d Second endpoint of the second segment
+ * @returns The distance between the segments, zero if they intersect
+ */
+export function distanceToSegment(a: Vec2, b: Vec2, c: Vec2, d: Vec2): number {
+    closestPointsToSegment(_distanceToSegment_result, a, b, c, d);
+    return _distanceToSegment_result.distance;
+}
@@ -0,0 +1,377 @@
+//!native
+
+import * as plane3 from './plane3';
+import * as triangle3 from './triangle3';
+import type { Box3, Plane3, Segment3, Vec3 } from './types';
+import * as vec3 from './vec3';
+
+/** Squared segment lengths at or below this are treated as points */
+const DEGENERATE_LENGTH_SQ = 1e-12;
+
+/**
+ * Segments and triangles are treated as parallel when the triple product of the segment and
+ * the triangle edges is at or below this fraction of the product of their lengths
+ */
+const PARALLEL_TOLERANCE = 1e-10;
+
+/**
+ * Creates a new segment with both endpoints at the origin
+ * @returns A new segment
+ */
+export function create(): Segment3 {
+    return { start: [0, 0, 0], end: [0, 0, 0] };
+}
+
+/**
+ * Creates a new segment from two endpoints
+ * @param start - The first endpoint
+ * @param end - The second endpoint
+ * @returns A new segment
+ */
+export function fromValues(start: Vec3, end: Vec3): Segment3 {
+    return { start: [start[0], start[1], start[2]], end: [end[0], end[1], end[2]] };
+}
+
+/**
+ * Clones a segment
+ * @param segment - The segment to clone
+ * @returns A new segment
+ */
+export function clone(segment: Segment3): Segment3 {
+    return fromValues(segment.start, segment.end);
+}
+
+/**
+ * Copies a segment
+ * @param out - The output segment
+ * @param segment - The segment to copy
+ * @returns The output segment
+ */
+export function copy(out: Segment3, segment: Segment3): Segment3 {
+    vec3.copy(out.start, segment.start);
+    vec3.copy(out.end, segment.end);
+    return out;
+}
+
+/**
+ * Sets the endpoints of a segment
+ * @param out - The output segment
+ * @param start - The first endpoint
+ * @param end - The second endpoint
+ * @returns The output segment
+ */
+export function set(out: Segment3, start: Vec3, end: Vec3): Segment3 {
+    vec3.copy(out.start, start);
+    vec3.copy(out.end, end);
+    return out;
+}
+
+/**
+ * Calculates the length of a segment
+ * @param segment - The segment
+ * @returns The distance between the endpoints
+ */
+export function length(segment: Segment3): number {
+    return vec3.distance(segment.start, segment.end);
+}
+
+/**
+ * Calculates the point at a fraction along a segment
+ * @param out - The output point
+ * @param segment - The segment
+ * @param t - Fraction along the segment, 0 at the start and 1 at the end
+ * @returns The output point
+ */
+export function lerp(out: Vec3, segment: Segment3, t: number): Vec3 {
+    return vec3.lerp(out, segment.start, segment.end, t);
+}
+
+/**
+ * Calculates the fraction along a segment of the point closest to a given point
+ * @param segment - The segment
+ * @param point - The query point
+ * @returns The fraction in [0, 1], 0 for a degenerate segment
+ */
+export function closestPointFraction(segment: Segment3, point: Vec3): number {
+    const start = segment.start;
+    const end = segment.end;
+    const dx = end[0] - start[0];
+    const dy = end[1] - start[1];
+    const dz = end[2] - start[2];
+    const lengthSq = dx * dx + dy * dy + dz * dz;
+    if (lengthSq === 0) return 0;
+
+    const t = ((point[0] - start[0]) * dx + (point[1] - start[1]) * dy + (point[2] - start[2]) * dz) / lengthSq;
+    return math.max(0, math.min(1, t));
+}
+
+/**
+ * Calculates the closest point on a segment to a given point
+ * @param out - The output point
+ * @param segment - The segment
+ * @param point - The query point
+ * @returns The output point
+ */
+export function closestPoint(out: Vec3, segment: Segment3, point: Vec3): Vec3 {
+    return lerp(out, segment, closestPointFraction(segment, point));
+}
+
+const _distanceToPoint_closest = /*@__PURE__*/ vec3.create();
+
+/**
+ * Calculates the distance from a point to a segment
+ * @param segment - The segment
+ * @param point - The query point
+ * @returns The distance
+ */
+export function distanceToPoint(segment: Segment3, point: Vec3): number {
+    return vec3.distance(closestPoint(_distanceToPoint_closest, segment, point), point);
+}
+
+/**
+ * Result of a closest points query between two segments
+ * fractionA - fraction along the first segment of pointA
+ * fractionB - fraction along the second segment of pointB
+ * pointA - the closest point on the first segment
+ * pointB - the closest point on the second segment
+ * distance - the distance between pointA and pointB
+ * @see createClosestPointsResult
+ * @see closestPointsToSegment
+ */
+export type ClosestPointsResult = {
+    fractionA: number;
+    fractionB: number;
+    pointA: Vec3;
+    pointB: Vec3;
+    distance: number;
+};
+
+/**
+ * Creates a new ClosestPointsResult with default values.
+ * @returns A new ClosestPointsResult.
+ */
+export function createClosestPointsResult(): ClosestPointsResult {
+    return {
+        fractionA: 0,
+        fractionB: 0,
+        pointA: vec3.create(),
+        pointB: vec3.create(),
+        distance: 0,
+    };
+}
+
+/**
+ * Calculates the closest points between two segments.
+ * When the segments are parallel, any pair of closest points may be returned.
+ * Reference: Real-Time Collision Detection by Christer Ericson (chapter 5.1.9)
+ *
+ * @param out - The output result (fractionA, fractionB, pointA, pointB, distance)
+ * @param a - The first segment
+ * @param b - The second segment
+ */
+export function closestPointsToSegment(out: ClosestPointsResult, a: Segment3, b: Segment3): void {
+    const p1 = a.start;
+    const p2 = b.start;
+    const d1x = a.end[0] - p1[0];
+    const d1y = a.end[1] - p1[1];
+    const d1z = a.end[2] - p1[2];
+    const d2x = b.end[0] - p2[0];
+    const d2y = b.end[1] - p2[1];
+    const d2z = b.end[2] - p2[2];
+    const rx = p1[0] - p2[0];
+    const ry = p1[1] - p2[1];
+    const rz = p1[2] - p2[2];
+
+    const aa = d1x * d1x + d1y * d1y + d1z * d1z;
+    const ee = d2x * d2x + d2y * d2y + d2z * d2z;
+    const f = d2x * rx + d2y * ry + d2z * rz;
+
+    let s = 0;
+    let t = 0;
+
+    if (aa <= DEGENERATE_LENGTH_SQ && ee <= DEGENERATE_LENGTH_SQ) {
+        // both segments degenerate into points
+    } else if (aa <= DEGENERATE_LENGTH_SQ) {
+        t = math.max(0, math.min(1, f / ee));
+    } else {
+        const c = d1x * rx + d1y * ry + d1z * rz;
+        if (ee <= DEGENERATE_LENGTH_SQ) {
+            s = math.max(0, math.min(1, -c / aa));
+        } else {
+            const bb = d1x * d2x + d1y * d2y + d1z * d2z;
+            const denominator = aa * ee - bb * bb;
+
+            // parallel segments pick s = 0
+            if (denominator > 0) s = math.max(0, math.min(1, (bb * f - c * ee) / denominator));
+
+            t = (bb * s + f) / ee;
+
+            // clamp t and recompute s for the clamped t
+            if (t < 0) {
+                t = 0;
+                s = math.max(0, math.min(1, -c / aa));
+            } else if (t > 1) {
+                t = 1;
+                s = math.max(0, math.min(1, (bb - c) / aa));
+            }
+        }
+    }
+
+    out.fractionA = s;
+    out.fractionB = t;
+    vec3.lerp(out.pointA, a.start, a.end, s);
+    vec3.lerp(out.pointB, b.start, b.end, t);
+    out.distance = vec3.distance(out.pointA, out.pointB);
+}
+
+/**
+ * Tests if a segment crosses a triangle, including its edges
+ * Reference: Fast, Minimum Storage Ray/Triangle Intersection by Möller and Trumbore
+ */
+function intersectsTriangle(segment: Segment3, a: Vec3, b: Vec3, c: Vec3): boolean {
+    const start = segment.start;
+    const dx = segment.end[0] - start[0];
+    const dy = segment.end[1] - start[1];
+    const dz = segment.end[2] - start[2];
+    const e1x = b[0] - a[0];
+    const e1y = b[1] - a[1];
+    const e1z = b[2] - a[2];
+    const e2x = c[0] - a[0];
+    const e2y = c[1] - a[1];
+    const e2z = c[2] - a[2];
+
+    const px = dy * e2z - dz * e2y;
+    const py = dz * e2x - dx * e2z;
+    const pz = dx * e2y - dy * e2x;
+    const det = e1x * px + e1y * py + e1z * pz;
+
+    // parallel segments are handled by the edge distances, the tolerance scales with the lengths
+    // so the test does not depend on the scale of the geometry
+    const dd = dx * dx + dy * dy + dz * dz;
+    const e1e1 = e1x * e1x + e1y * e1y + e1z * e1z;
+    const e2e2 = e2x * e2x + e2y * e2y + e2z * e2z;
+    if (det * det <= PARALLEL_TOLERANCE * PARALLEL_TOLERANCE * dd * e1e1 * e2e2) return false;
+
+    const inv = 1 / det;
+    const tx = start[0] - a[0];
+    const ty = start[1] - a[1];
+    const tz = start[2] - a[2];
+    const u = (tx * px + ty * py + tz * pz) * inv;
+    if (u < 0 || u > 1) return false;
+
+    const qx = ty * e1z - tz * e1y;
+    const qy = tz * e1x - tx * e1z;
+    const qz = tx * e1y - ty * e1x;
+    const v = (dx * qx + dy * qy + dz * qz) * inv;
+    if (v < 0 || u + v > 1) return false;
+
+    const t = (e2x * qx + e2y * qy + e2z * qz) * inv;
+    return t >= 0 && t <= 1;
+}
+
+const _distanceToTriangle_closest = /*@__PURE__*/ vec3.create();
+const _distanceToTriangle_edge = /*@__PURE__*/ create();
+const _distanceToTriangle_result = /*@__PURE__*/ createClosestPointsResult();
+
+/**
+ * Calculates the distance between a segment and a triangle.
+ * Unless the segment crosses the triangle, the closest points lie on an endpoint of the
+ * segment or on an edge of the triangle.
+ * @param segment - The segment
+ * @param a - The first vertex of the triangle
+ * @param b - The second vertex of the triangle
+ * @param c - The third vertex of the triangle
+ * @returns The distance, zero if the segment touches the triangle
+ */
+export function distanceToTriangle(segment: Segment3, a: Vec3, b: Vec3, c: Vec3): number {
+    if (intersectsTriangle(segment, a, b, c)) return 0;
+
+    const closest = _distanceToTriangle_closest;
+    let distance = vec3.distance(triangle3.closestPoint(closest, segment.start, a, b, c), segment.start);
+    distance = math.min(distance, vec3.distance(triangle3.closestPoint(closest, segment.end, a, b, c), segment.end));
+
+    const edge = _distanceToTriangle_edge;
+    const result = _distanceToTriangle_result;
+    closestPointsToSegment(result, segment, set(edge, a, b));
+    distance = math.min(distance, result.distance);
+    closestPointsToSegment(result, segment, set(edge, b, c));
+    distance = math.min(distance, result.distance);
+    closestPointsToSegment(result, segment, set(edge, c, a));
+    distance = math.min(distance, result.distance);
+
+    return distance;
+}
+
+/**
+ * Calculates where a segment crosses a plane
+ * @param out - The output intersection point, the start of the segment if it lies in the plane
+ * @param segment - The segment
+ * @param plane - The plane
+ * @returns True if the segment touches the plane
+ */
+export function intersectPlane3(out: Vec3, segment: Segment3, plane: Plane3): boolean {
+    const startDistance = plane3.distanceToPoint(plane, segment.start);
+    const endDistance = plane3.distanceToPoint(plane, segment.end);
+
+    if ((startDistance > 0 && endDistance > 0) || (startDistance < 0 && endDistance < 0)) return false;
+
+    if (startDistance === endDistance) {
+        // both endpoints in the plane
+        vec3.copy(out, segment.start);
+        return true;
+    }
+
+    lerp(out, segment, startDistance / (startDistance - endDistance));
+    return true;
+}
+
+/**
+ * Clips a segment to the part inside an axis-aligned box, using the Liang-Barsky slab method
+ * @param out - The output segment, may be the input segment
+ * @param segment - The segment to clip
+ * @param box - The box
+ * @returns True if any part of the segment is inside or on the boundary of the box, otherwise out is unchanged
+ */
+export function clipBox3(out: Segment3, segment: Segment3, box: Box3): boolean {
+    const start = segment.start;
+    const end = segment.end;
+    let tmin = 0;
+    let tmax = 1;
+
+    for (let i = 0; i < 3; i++) {
+        const origin = start[i];
+        const delta = end[i] - origin;
+        const min = box[i];
+        const max = box[i + 3];
+
+        if (delta === 0) {
+            // parallel to the slab, outside unless between its planes
+            if (origin < min || origin > max) return false;
+            continue;
+        }
+
+        let t0 = (min - origin) / delta;
+        let t1 = (max - origin) / delta;
+        if (t0 > t1) {
+            const swap = t0;
+            t0 = t1;
+            t1 = swap;
+        }
+
+        tmin = math.max(tmin, t0);
+        tmax = math.min(tmax, t1);
+        if (tmin > tmax) return false;
+    }
+
+    // compute both points before writing, out may alias the input
+    const sx = start[0];
+    const sy = start[1];
+    const sz = start[2];
+    const dx = end[0] - sx;
+    const dy = end[1] - sy;
+    const dz = end[2] - sz;
+    vec3.set(out.start, sx + dx * tmin, sy + dy * tmin, sz + dz * tmin);
+    vec3.set(out.end, sx + dx * tmax, sy + dy * tmax, sz + dz * tmax);
+
+    return true;
+}
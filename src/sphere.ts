@@ -1,6 +1,9 @@
 //!native
 
-import type { Sphere } from './types';
+import * as common from './common';
+import * as Number from './Number';
+import type { Box3, Mat4, Sphere, Vec3 } from './types';
+import * as vec3 from './vec3';
 
 /**
  * Creates a new sphere with a default center 0,0,0 and radius 1
@@ -9,3 +12,634 @@ import type { Sphere } from './types';
 export function create(): Sphere {
     return { center: [0, 0, 0], radius: 1 };
 }
+
+/**
+ * Creates a new sphere from a center and radius
+ * @param center - The center of the sphere
+ * @param radius - The radius of the sphere
+ * @returns A new sphere
+ */
+export function fromValues(center: Vec3, radius: number): Sphere {
+    return { center: [center[0], center[1], center[2]], radius };
+}
+
+/**
+ * Clones a sphere
+ * @param sphere - The sphere to clone
+ * @returns A new sphere
+ */
+export function clone(sphere: Sphere): Sphere {
+    return { center: [sphere.center[0], sphere.center[1], sphere.center[2]], radius: sphere.radius };
+}
+
+/**
+ * Copies one sphere to another
+ * @param out - The output sphere
+ * @param sphere - The source sphere
+ * @returns The output sphere
+ */
+export function copy(out: Sphere, sphere: Sphere): Sphere {
+    out.center[0] = sphere.center[0];
+    out.center[1] = sphere.center[1];
+    out.center[2] = sphere.center[2];
+    out.radius = sphere.radius;
+    return out;
+}
+
+/**
+ * Sets the center and radius of a sphere
+ * @param out - The output sphere
+ * @param center - The center of the sphere
+ * @param radius - The radius of the sphere
+ * @returns The output sphere
+ */
+export function set(out: Sphere, center: Vec3, radius: number): Sphere {
+    out.center[0] = center[0];
+    out.center[1] = center[1];
+    out.center[2] = center[2];
+    out.radius = radius;
+    return out;
+}
+
+/**
+ * Sets a sphere to empty (center at the origin, radius -1).
+ * An empty sphere contains no points and is ignored by union.
+ * @param out - The sphere to make empty
+ * @returns The emptied sphere
+ */
+export function empty(out: Sphere): Sphere {
+    out.center[0] = 0;
+    out.center[1] = 0;
+    out.center[2] = 0;
+    out.radius = -1;
+    return out;
+}
+
+/**
+ * Returns whether a sphere is empty (has a negative radius)
+ * @param sphere - The sphere to test
+ * @returns True if the sphere is empty
+ */
+export function isEmpty(sphere: Sphere): boolean {
+    return sphere.radius < 0;
+}
+
+/**
+ * Test if a point is contained within the sphere
+ * @param sphere - The sphere
+ * @param point - The point to test
+ * @returns true if the point is inside or on the surface of the sphere, always false for an empty sphere
+ */
+export function containsPoint(sphere: Sphere, point: Vec3): boolean {
+    if (isEmpty(sphere)) return false;
+
+    return vec3.squaredDistance(point, sphere.center) <= sphere.radius * sphere.radius;
+}
+
+/**
+ * Calculates the signed distance from a point to the surface of the sphere
+ * @param sphere - The sphere
+ * @param point - The point
+ * @returns The signed distance (negative = inside the sphere)
+ */
+export function distanceToPoint(sphere: Sphere, point: Vec3): number {
+    return vec3.distance(point, sphere.center) - sphere.radius;
+}
+
+/**
+ * Clamps a point to the surface or interior of the sphere.
+ * Points inside the sphere are returned unchanged.
+ * An empty sphere has nothing to clamp to and returns the point unchanged.
+ * @param out - The clamped point result
+ * @param sphere - The sphere
+ * @param point - The point to clamp
+ * @returns out
+ */
+export function clampPoint(out: Vec3, sphere: Sphere, point: Vec3): Vec3 {
+    if (isEmpty(sphere)) return vec3.copy(out, point);
+
+    const { center, radius } = sphere;
+    const dx = point[0] - center[0];
+    const dy = point[1] - center[1];
+    const dz = point[2] - center[2];
+    const distanceSq = dx * dx + dy * dy + dz * dz;
+
+    if (distanceSq > radius * radius) {
+        const scale = radius / math.sqrt(distanceSq);
+        out[0] = center[0] + dx * scale;
+        out[1] = center[1] + dy * scale;
+        out[2] = center[2] + dz * scale;
+    } else {
+        out[0] = point[0];
+        out[1] = point[1];
+        out[2] = point[2];
+    }
+
+    return out;
+}
+
+/**
+ * Check whether two spheres intersect
+ * @param a - The first sphere
+ * @param b - The second sphere
+ * @returns true if the spheres overlap or touch, always false if either sphere is empty
+ */
+export function intersectsSphere(a: Sphere, b: Sphere): boolean {
+    if (isEmpty(a) || isEmpty(b)) return false;
+
+    const radiusSum = a.radius + b.radius;
+    return vec3.squaredDistance(a.center, b.center) <= radiusSum * radiusSum;
+}
+
+/**
+ * Expands a sphere to include a point.
+ * The sphere grows towards the point, moving its center by the least amount needed.
+ * An empty sphere becomes a zero radius sphere at the point.
+ * @param out - The output sphere
+ * @param sphere - The input sphere
+ * @param point - The point to include
+ * @returns The expanded sphere
+ */
+export function expandByPoint(out: Sphere, sphere: Sphere, point: Vec3): Sphere {
+    if (isEmpty(sphere)) {
+        out.center[0] = point[0];
+        out.center[1] = point[1];
+        out.center[2] = point[2];
+        out.radius = 0;
+        return out;
+    }
+
+    const cx = sphere.center[0];
+    const cy = sphere.center[1];
+    const cz = sphere.center[2];
+    const radius = sphere.radius;
+
+    const dx = point[0] - cx;
+    const dy = point[1] - cy;
+    const dz = point[2] - cz;
+    const distanceSq = dx * dx + dy * dy + dz * dz;
+
+    if (distanceSq > radius * radius) {
+        const distance = math.sqrt(distanceSq);
+        const delta = (distance - radius) * 0.5;
+        const scale = delta / distance;
+        out.center[0] = cx + dx * scale;
+        out.center[1] = cy + dy * scale;
+        out.center[2] = cz + dz * scale;
+        out.radius = radius + delta;
+    } else if (out !== sphere) {
+        copy(out, sphere);
+    }
+
+    return out;
+}
+
+/**
+ * Computes the smallest sphere enclosing two spheres.
+ * Empty spheres are ignored.
+ * @param out - The output sphere
+ * @param a - The first sphere
+ * @param b - The second sphere
+ * @returns The union sphere
+ */
+export function union(out: Sphere, a: Sphere, b: Sphere): Sphere {
+    if (isEmpty(b)) return copy(out, a);
+    if (isEmpty(a)) return copy(out, b);
+
+    const dx = b.center[0] - a.center[0];
+    const dy = b.center[1] - a.center[1];
+    const dz = b.center[2] - a.center[2];
+    const distance = math.sqrt(dx * dx + dy * dy + dz * dz);
+
+    // one sphere already encloses the other
+    if (distance + b.radius <= a.radius) return copy(out, a);
+    if (distance + a.radius <= b.radius) return copy(out, b);
+
+    const radius = (distance + a.radius + b.radius) * 0.5;
+    const scale = (radius - a.radius) / distance;
+
+    out.center[0] = a.center[0] + dx * scale;
+    out.center[1] = a.center[1] + dy * scale;
+    out.center[2] = a.center[2] + dz * scale;
+    out.radius = radius;
+
+    return out;
+}
+
+/**
+ * Computes the largest eigenvalue of the symmetric 3x3 matrix [[a, d, e], [d, b, f], [e, f, c]],
+ * from the trigonometric solution of its characteristic cubic.
+ * Reference: Eigenvalues of a symmetric 3x3 matrix by Oliver K. Smith (1961)
+ */
+function largestEigenvalue(a: number, b: number, c: number, d: number, e: number, f: number): number {
+    const offDiagonalSq = d * d + e * e + f * f;
+    if (offDiagonalSq === 0) return math.max(a, b, c);
+
+    const q = (a + b + c) / 3;
+    const aq = a - q;
+    const bq = b - q;
+    const cq = c - q;
+    const p = math.sqrt((aq * aq + bq * bq + cq * cq + 2 * offDiagonalSq) / 6);
+
+    // half the determinant of (A - qI) / p, the cosine of three times the angle of the largest root
+    const det = aq * (bq * cq - f * f) - d * (d * cq - f * e) + e * (d * f - bq * e);
+    const phi = math.acos(common.clamp(det / (2 * p * p * p), -1, 1)) / 3;
+
+    return q + 2 * p * math.cos(phi);
+}
+
+/**
+ * Transforms a sphere by a 4x4 matrix.
+ * The center is transformed by the full matrix and the radius is scaled by
+ * the largest stretch of the matrix (its largest singular value), so a
+ * non-uniformly scaled or sheared sphere yields the smallest sphere around the
+ * same center that encloses the resulting ellipsoid.
+ * Assumes mat is affine (no perspective).
+ * @param out - The output sphere
+ * @param sphere - The input sphere
+ * @param mat - The 4x4 transformation matrix
+ * @returns The transformed sphere
+ */
+export function transformMat4(out: Sphere, sphere: Sphere, mat: Mat4): Sphere {
+    if (isEmpty(sphere)) return copy(out, sphere);
+
+    // the squared singular values are the eigenvalues of the Gram matrix of the columns
+    const scaleXSq = mat[0] * mat[0] + mat[1] * mat[1] + mat[2] * mat[2];
+    const scaleYSq = mat[4] * mat[4] + mat[5] * mat[5] + mat[6] * mat[6];
+    const scaleZSq = mat[8] * mat[8] + mat[9] * mat[9] + mat[10] * mat[10];
+    const xy = mat[0] * mat[4] + mat[1] * mat[5] + mat[2] * mat[6];
+    const xz = mat[0] * mat[8] + mat[1] * mat[9] + mat[2] * mat[10];
+    const yz = mat[4] * mat[8] + mat[5] * mat[9] + mat[6] * mat[10];
+
+    vec3.transformMat4(out.center, sphere.center, mat);
+    out.radius = sphere.radius * math.sqrt(math.max(0, largestEigenvalue(scaleXSq, scaleYSq, scaleZSq, xy, xz, yz)));
+
+    return out;
+}
+
+/**
+ * Computes the axis-aligned bounding box of a sphere.
+ * An empty sphere produces an empty box.
+ * @param out - The output Box3
+ * @param sphere - The input sphere
+ * @returns The bounding box
+ */
+export function getBoundingBox(out: Box3, sphere: Sphere): Box3 {
+    if (isEmpty(sphere)) {
+        out[0] = Number.POSITIVE_INFINITY;
+        out[1] = Number.POSITIVE_INFINITY;
+        out[2] = Number.POSITIVE_INFINITY;
+        out[3] = Number.NEGATIVE_INFINITY;
+        out[4] = Number.NEGATIVE_INFINITY;
+        out[5] = Number.NEGATIVE_INFINITY;
+        return out;
+    }
+
+    const { center, radius } = sphere;
+    out[0] = center[0] - radius;
+    out[1] = center[1] - radius;
+    out[2] = center[2] - radius;
+    out[3] = center[0] + radius;
+    out[4] = center[1] + radius;
+    out[5] = center[2] + radius;
+
+    return out;
+}
+
+/**
+ * Algorithm used by {@link setFromPoints}
+ * ritter - fast approximation, typically within 5-20% of the minimal radius
+ * welzl - exact minimal bounding sphere, expected linear time over a randomly shuffled input
+ */
+export type SetFromPointsMode = 'ritter' | 'welzl';
+
+const _setFromPoints_order: number[] = [];
+
+/**
+ * Computes a bounding sphere from a set of points.
+ * Points are given as a flat array, matching the layout used by quickhull3.
+ * An empty point array produces an empty sphere.
+ *
+ * References:
+ * - Jack Ritter, "An Efficient Bounding Sphere", Graphics Gems I (1990)
+ * - Emo Welzl, "Smallest enclosing disks (balls and ellipsoids)" (1991)
+ *
+ * @param out - The output sphere
+ * @param points - Flat array of 3D points: [x0, y0, z0, x1, y1, z1, ...]
+ * @param mode - The algorithm to use, defaults to 'ritter'
+ * @param randomFn - Function to generate random numbers for shuffling in 'welzl' mode, defaults to math.random
+ * @returns The bounding sphere
+ */
+export function setFromPoints(
+    out: Sphere,
+    points: number[],
+    mode: SetFromPointsMode = 'ritter',
+    randomFn: () => number = math.random,
+): Sphere {
+    const n = math.floor(points.size() / 3);
+    if (n === 0) return empty(out);
+
+    if (mode === 'welzl') {
+        welzl(out, points, n, randomFn);
+    } else {
+        ritter(out, points, n);
+    }
+
+    return out;
+}
+
+function ritter(out: Sphere, points: number[], n: number): void {
+    // find the point y farthest from the first point, then z farthest from y
+    const y = farthestPointFrom(points, n, 0);
+    const z = farthestPointFrom(points, n, y);
+
+    sphereFrom2(out, points, y, z);
+
+    // grow the sphere to include any remaining outside points
+    for (let i = 0; i < n; i++) {
+        const dx = points[i * 3] - out.center[0];
+        const dy = points[i * 3 + 1] - out.center[1];
+        const dz = points[i * 3 + 2] - out.center[2];
+        const distanceSq = dx * dx + dy * dy + dz * dz;
+
+        if (distanceSq > out.radius * out.radius) {
+            const distance = math.sqrt(distanceSq);
+            const delta = (distance - out.radius) * 0.5;
+            const scale = delta / distance;
+            out.center[0] += dx * scale;
+            out.center[1] += dy * scale;
+            out.center[2] += dz * scale;
+            out.radius += delta;
+        }
+    }
+}
+
+function welzl(out: Sphere, points: number[], n: number, randomFn: () => number): void {
+    // shuffle point order for expected linear running time
+    const order = _setFromPoints_order;
+    order.clear();
+    for (let i = 0; i < n; i++) {
+        order.push(i);
+    }
+    for (let i = n - 1; i > 0; i--) {
+        const j = math.floor(randomFn() * (i + 1));
+        const tmp = order[i];
+        order[i] = order[j];
+        order[j] = tmp;
+    }
+
+    // iterative move-to-front free formulation: each nested loop fixes one more support point
+    sphereFrom1(out, points, order[0]);
+
+    for (let i = 1; i < n; i++) {
+        const pi = order[i];
+        if (containsIndex(out, points, pi)) continue;
+
+        sphereFrom1(out, points, pi);
+
+        for (let j = 0; j < i; j++) {
+            const pj = order[j];
+            if (containsIndex(out, points, pj)) continue;
+
+            sphereFrom2(out, points, pi, pj);
+
+            for (let k = 0; k < j; k++) {
+                const pk = order[k];
+                if (containsIndex(out, points, pk)) continue;
+
+                sphereFrom3(out, points, pi, pj, pk);
+
+                for (let l = 0; l < k; l++) {
+                    const pl = order[l];
+                    if (containsIndex(out, points, pl)) continue;
+
+                    sphereFrom4(out, points, pi, pj, pk, pl);
+                }
+            }
+        }
+    }
+}
+
+function farthestPointFrom(points: number[], n: number, from: number): number {
+    const x = points[from * 3];
+    const y = points[from * 3 + 1];
+    const z = points[from * 3 + 2];
+
+    let farthest = from;
+    let maxDistanceSq = -1;
+
+    for (let i = 0; i < n; i++) {
+        const dx = points[i * 3] - x;
+        const dy = points[i * 3 + 1] - y;
+        const dz = points[i * 3 + 2] - z;
+        const distanceSq = dx * dx + dy * dy + dz * dz;
+        if (distanceSq > maxDistanceSq) {
+            maxDistanceSq = distanceSq;
+            farthest = i;
+        }
+    }
+
+    return farthest;
+}
+
+function containsIndex(sphere: Sphere, points: number[], i: number): boolean {
+    const dx = points[i * 3] - sphere.center[0];
+    const dy = points[i * 3 + 1] - sphere.center[1];
+    const dz = points[i * 3 + 2] - sphere.center[2];
+    // relative tolerance so support points re-tested against their own sphere count as inside
+    const r = sphere.radius + common.EPSILON * math.max(1, sphere.radius);
+    return dx * dx + dy * dy + dz * dz <= r * r;
+}
+
+function sphereFrom1(out: Sphere, points: number[], a: number): void {
+    out.center[0] = points[a * 3];
+    out.center[1] = points[a * 3 + 1];
+    out.center[2] = points[a * 3 + 2];
+    out.radius = 0;
+}
+
+function sphereFrom2(out: Sphere, points: number[], a: number, b: number): void {
+    const ax = points[a * 3];
+    const ay = points[a * 3 + 1];
+    const az = points[a * 3 + 2];
+    const dx = points[b * 3] - ax;
+    const dy = points[b * 3 + 1] - ay;
+    const dz = points[b * 3 + 2] - az;
+
+    out.center[0] = ax + dx * 0.5;
+    out.center[1] = ay + dy * 0.5;
+    out.center[2] = az + dz * 0.5;
+    out.radius = math.sqrt(dx * dx + dy * dy + dz * dz) * 0.5;
+}
+
+/**
+ * Smallest sphere with three points on its surface: the circumcircle of the triangle.
+ * Falls back to the sphere spanning the longest edge when the points are collinear.
+ */
+function sphereFrom3(out: Sphere, points: number[], a: number, b: number, c: number): void {
+    const ax = points[a * 3];
+    const ay = points[a * 3 + 1];
+    const az = points[a * 3 + 2];
+
+    const abx = points[b * 3] - ax;
+    const aby = points[b * 3 + 1] - ay;
+    const abz = points[b * 3 + 2] - az;
+    const acx = points[c * 3] - ax;
+    const acy = points[c * 3 + 1] - ay;
+    const acz = points[c * 3 + 2] - az;
+
+    // n = ab × ac
+    const nx = aby * acz - abz * acy;
+    const ny = abz * acx - abx * acz;
+    const nz = abx * acy - aby * acx;
+
+    const abSq = abx * abx + aby * aby + abz * abz;
+    const acSq = acx * acx + acy * acy + acz * acz;
+    const nSq = nx * nx + ny * ny + nz * nz;
+
+    if (nSq <= common.EPSILON * abSq * acSq) {
+        // collinear: the longest edge spans all three points
+        const bcx = acx - abx;
+        const bcy = acy - aby;
+        const bcz = acz - abz;
+        const bcSq = bcx * bcx + bcy * bcy + bcz * bcz;
+        if (abSq >= acSq && abSq >= bcSq) sphereFrom2(out, points, a, b);
+        else if (acSq >= bcSq) sphereFrom2(out, points, a, c);
+        else sphereFrom2(out, points, b, c);
+        return;
+    }
+
+    // offset = (|ac|² (n × ab) + |ab|² (ac × n)) / (2 |n|²)
+    const inv = 1 / (2 * nSq);
+    const ox = (acSq * (ny * abz - nz * aby) + abSq * (acy * nz - acz * ny)) * inv;
+    const oy = (acSq * (nz * abx - nx * abz) + abSq * (acz * nx - acx * nz)) * inv;
+    const oz = (acSq * (nx * aby - ny * abx) + abSq * (acx * ny - acy * nx)) * inv;
+
+    out.center[0] = ax + ox;
+    out.center[1] = ay + oy;
+    out.center[2] = az + oz;
+    out.radius = math.sqrt(ox * ox + oy * oy + oz * oz);
+}
+
+const _sphereFrom4_candidate = /*@__PURE__*/ create();
+const _sphereFrom4_largest = /*@__PURE__*/ create();
+
+/**
+ * Circumsphere of three of the four coplanar points passed to sphereFrom4, copied to out when it
+ * encloses all four points and is smaller than bestRadius. The largest candidate is kept in
+ * _sphereFrom4_largest as a fallback.
+ * @returns The new best radius
+ */
+function coplanarCandidate(
+    out: Sphere,
+    points: number[],
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    i: number,
+    j: number,
+    k: number,
+    bestRadius: number,
+): number {
+    const candidate = _sphereFrom4_candidate;
+    sphereFrom3(candidate, points, i, j, k);
+
+    if (candidate.radius > _sphereFrom4_largest.radius) copy(_sphereFrom4_largest, candidate);
+
+    if (
+        candidate.radius < bestRadius &&
+        containsIndex(candidate, points, a) &&
+        containsIndex(candidate, points, b) &&
+        containsIndex(candidate, points, c) &&
+        containsIndex(candidate, points, d)
+    ) {
+        copy(out, candidate);
+        return candidate.radius;
+    }
+
+    return bestRadius;
+}
+
+/**
+ * Sphere with four points on its surface: the circumsphere of the tetrahedron.
+ * Falls back to the smallest enclosing triangle circumcircle when the points are coplanar, or to the
+ * largest triangle circumcircle if rounding leaves none of them enclosing all four points.
+ */
+function sphereFrom4(out: Sphere, points: number[], a: number, b: number, c: number, d: number): void {
+    const ax = points[a * 3];
+    const ay = points[a * 3 + 1];
+    const az = points[a * 3 + 2];
+
+    const abx = points[b * 3] - ax;
+    const aby = points[b * 3 + 1] - ay;
+    const abz = points[b * 3 + 2] - az;
+    const acx = points[c * 3] - ax;
+    const acy = points[c * 3 + 1] - ay;
+    const acz = points[c * 3 + 2] - az;
+    const adx = points[d * 3] - ax;
+    const ady = points[d * 3 + 1] - ay;
+    const adz = points[d * 3 + 2] - az;
+
+    // ac × ad, ad × ab, ab × ac
+    const cdx = acy * adz - acz * ady;
+    const cdy = acz * adx - acx * adz;
+    const cdz = acx * ady - acy * adx;
+    const dbx = ady * abz - adz * aby;
+    const dby = adz * abx - adx * abz;
+    const dbz = adx * aby - ady * abx;
+    const bcx = aby * acz - abz * acy;
+    const bcy = abz * acx - abx * acz;
+    const bcz = abx * acy - aby * acx;
+
+    const det = abx * cdx + aby * cdy + abz * cdz;
+
+    const abSq = abx * abx + aby * aby + abz * abz;
+    const acSq = acx * acx + acy * acy + acz * acz;
+    const adSq = adx * adx + ady * ady + adz * adz;
+
+    const scale = math.sqrt(abSq * acSq * adSq);
+
+    if (math.abs(det) <= common.EPSILON * scale) {
+        // coplanar: pick the smallest triangle circumcircle containing all four points
+        _sphereFrom4_largest.radius = -1;
+        let bestRadius = Number.POSITIVE_INFINITY;
+        bestRadius = coplanarCandidate(out, points, a, b, c, d, a, b, d, bestRadius);
+        bestRadius = coplanarCandidate(out, points, a, b, c, d, a, c, d, bestRadius);
+        bestRadius = coplanarCandidate(out, points, a, b, c, d, b, c, d, bestRadius);
+        bestRadius = coplanarCandidate(out, points, a, b, c, d, a, b, c, bestRadius);
+        if (bestRadius === Number.POSITIVE_INFINITY) copy(out, _sphereFrom4_largest);
+        return;
+    }
+
+    // offset = (|ab|² (ac × ad) + |ac|² (ad × ab) + |ad|² (ab × ac)) / (2 ab · (ac × ad))
+    const inv = 1 / (2 * det);
+    const ox = (abSq * cdx + acSq * dbx + adSq * bcx) * inv;
+    const oy = (abSq * cdy + acSq * dby + adSq * bcy) * inv;
+    const oz = (abSq * cdz + acSq * dbz + adSq * bcz) * inv;
+
+    out.center[0] = ax + ox;
+    out.center[1] = ay + oy;
+    out.center[2] = az + oz;
+    out.radius = math.sqrt(ox * ox + oy * oy + oz * oz);
+}
+
+/**
+ * Returns whether or not the spheres have exactly the same center and radius (when compared with ===)
+ * @param a - The first sphere
+ * @param b - The second sphere
+ * @returns True if the spheres are equal, false otherwise
+ */
+export function exactEquals(a: Sphere, b: Sphere): boolean {
+    return vec3.exactEquals(a.center, b.center) && a.radius === b.radius;
+}
+
+/**
+ * Returns whether or not the spheres have approximately the same center and radius
+ * @param a - The first sphere
+ * @param b - The second sphere
+ * @returns True if the spheres are equal, false otherwise
+ */
+export function equals(a: Sphere, b: Sphere): boolean {
+    return vec3.equals(a.center, b.center) && common.equals(a.radius, b.radius);
+}
@@ -0,0 +1,347 @@
+//!native
+
+import * as box3 from './box3';
+import * as Number from './Number';
+import * as raycast3 from './raycast3';
+import * as sphere from './sphere';
+import * as triangle3 from './triangle3';
+import type { Box3, Raycast3, Sphere, Vec3 } from './types';
+import * as vec3 from './vec3';
+
+/**
+ * Result of a sweep test, moving one shape by a displacement against a static shape
+ * hit - whether the moving shape touches the static shape during the motion
+ * time - time of impact as a fraction of the displacement, in [0, 1]
+ * point - the contact point at the time of impact
+ * normal - the unit contact normal, pointing from the static shape towards the moving shape
+ * Shapes that already overlap hit at time 0, with the normal facing against the displacement and
+ * the point inside the overlap. Without a displacement the normal instead points from the static
+ * shape towards the moving shape, along the axis of least overlap for boxes.
+ * @see createSweepResult
+ */
+export type SweepResult = {
+    hit: boolean;
+    time: number;
+    point: Vec3;
+    normal: Vec3;
+};
+
+/**
+ * Creates a new SweepResult with default values.
+ * @returns A new SweepResult.
+ */
+export function createSweepResult(): SweepResult {
+    return {
+        hit: false,
+        time: 0,
+        point: vec3.create(),
+        normal: vec3.create(),
+    };
+}
+
+function setMiss(out: SweepResult): void {
+    out.hit = false;
+    out.time = 0;
+    vec3.zero(out.point);
+    vec3.zero(out.normal);
+}
+
+/**
+ * Sets an overlapping result, separation is the direction from the static shape towards the moving
+ * shape used for the normal when there is no displacement
+ */
+function setOverlap(out: SweepResult, displacement: Vec3, point: Vec3, separation: Vec3): void {
+    out.hit = true;
+    out.time = 0;
+    vec3.copy(out.point, point);
+
+    if (vec3.squaredLength(displacement) > 0) {
+        vec3.normalize(out.normal, vec3.negate(out.normal, displacement));
+    } else if (vec3.squaredLength(separation) > 0) {
+        vec3.normalize(out.normal, separation);
+    } else {
+        // concentric shapes, any direction separates them
+        vec3.set(out.normal, 0, 1, 0);
+    }
+}
+
+/**
+ * Writes the face normal of the static box along which the moving box is pushed out the least,
+ * pointing from the static box towards the moving box
+ */
+function leastOverlapAxis(out: Vec3, moving: Box3, target: Box3): Vec3 {
+    let least = Number.POSITIVE_INFINITY;
+    for (let i = 0; i < 3; i++) {
+        const positive = target[i + 3] - moving[i];
+        const negative = moving[i + 3] - target[i];
+        if (positive < least) {
+            least = positive;
+            vec3.zero(out);
+            out[i] = 1;
+        }
+        if (negative < least) {
+            least = negative;
+            vec3.zero(out);
+            out[i] = -1;
+        }
+    }
+    return out;
+}
+
+const _ray = /*@__PURE__*/ raycast3.create();
+const _ray_end = /*@__PURE__*/ vec3.create();
+
+/** Sets the scratch ray to follow a point over the displacement, its fractions are times of impact */
+function setRay(origin: Vec3, displacement: Vec3): Raycast3 {
+    return raycast3.fromSegment(_ray, origin, vec3.add(_ray_end, origin, displacement));
+}
+
+const _sphereSphere_separation = /*@__PURE__*/ vec3.create();
+const _sphereSphere_target = /*@__PURE__*/ sphere.create();
+const _sphereSphere_hit = /*@__PURE__*/ raycast3.createIntersectsShapeResult();
+
+/**
+ * Sweeps a sphere against a static sphere.
+ * @param out output object to store result (hit boolean, time, point, normal)
+ * @param moving sphere at the start of the motion
+ * @param displacement motion of the moving sphere
+ * @param target static sphere
+ */
+export function sphereSphere(out: SweepResult, moving: Sphere, displacement: Vec3, target: Sphere): void {
+    if (sphere.intersectsSphere(moving, target)) {
+        const separation = vec3.subtract(_sphereSphere_separation, moving.center, target.center);
+        setOverlap(out, displacement, sphere.clampPoint(out.point, target, moving.center), separation);
+        return;
+    }
+
+    // the center of the moving sphere against the target grown by its radius
+    const grown = sphere.set(_sphereSphere_target, target.center, target.radius + moving.radius);
+    const hit = _sphereSphere_hit;
+    raycast3.intersectsSphere(hit, setRay(moving.center, displacement), grown);
+    if (!hit.hit) {
+        setMiss(out);
+        return;
+    }
+
+    out.hit = true;
+    out.time = hit.fraction;
+    vec3.copy(out.normal, hit.normal);
+    vec3.scaleAndAdd(out.point, target.center, hit.normal, target.radius);
+}
+
+const _sphereTriangle3_closest = /*@__PURE__*/ vec3.create();
+const _sphereTriangle3_separation = /*@__PURE__*/ vec3.create();
+const _sphereTriangle3_normal = /*@__PURE__*/ vec3.create();
+const _sphereTriangle3_contact = /*@__PURE__*/ vec3.create();
+const _sphereEdge_hit = /*@__PURE__*/ raycast3.createIntersectsShapeResult();
+
+/**
+ * Sweeps the center of a sphere against a capsule around an edge, keeping the earliest hit in out.
+ * out.hit must be initialized.
+ */
+function sphereEdge(out: SweepResult, ray: Raycast3, a: Vec3, b: Vec3, radius: number): void {
+    const hit = _sphereEdge_hit;
+    raycast3.intersectsCapsule(hit, ray, a, b, radius);
+    if (!hit.hit || (out.hit && hit.fraction >= out.time)) return;
+
+    out.hit = true;
+    out.time = hit.fraction;
+    vec3.copy(out.normal, hit.normal);
+    vec3.scaleAndAdd(out.point, hit.point, hit.normal, -radius);
+}
+
+/**
+ * Sweeps a sphere against a static triangle, hitting either side of the triangle.
+ * Reference: Real-Time Collision Detection by Christer Ericson (chapter 5.5.6)
+ *
+ * @param out output object to store result (hit boolean, time, point, normal)
+ * @param moving sphere at the start of the motion
+ * @param displacement motion of the moving sphere
+ * @param a first vertex of the triangle
+ * @param b second vertex of the triangle
+ * @param c third vertex of the triangle
+ */
+export function sphereTriangle3(out: SweepResult, moving: Sphere, displacement: Vec3, a: Vec3, b: Vec3, c: Vec3): void {
+    const { center, radius } = moving;
+
+    const closest = triangle3.closestPoint(_sphereTriangle3_closest, center, a, b, c);
+    if (vec3.squaredDistance(closest, center) <= radius * radius) {
+        // a center on the triangle separates along the face normal
+        const separation = vec3.subtract(_sphereTriangle3_separation, center, closest);
+        if (vec3.squaredLength(separation) === 0) triangle3.normal(separation, a, b, c);
+        setOverlap(out, displacement, closest, separation);
+        return;
+    }
+
+    // the sphere first touches the plane of the triangle, which is the contact if it is inside the triangle
+    const normal = triangle3.normal(_sphereTriangle3_normal, a, b, c);
+    if (vec3.squaredLength(normal) > 0) {
+        let distance = vec3.dot(normal, center) - vec3.dot(normal, a);
+        if (distance < 0) {
+            vec3.negate(normal, normal);
+            distance = -distance;
+        }
+
+        const approach = -vec3.dot(normal, displacement);
+        if (approach > 0) {
+            const t = (distance - radius) / approach;
+            if (t >= 0 && t <= 1) {
+                const contact = vec3.scaleAndAdd(_sphereTriangle3_contact, center, displacement, t);
+                vec3.scaleAndAdd(contact, contact, normal, -radius);
+                if (triangle3.containsPoint(contact, a, b, c)) {
+                    out.hit = true;
+                    out.time = t;
+                    vec3.copy(out.point, contact);
+                    vec3.copy(out.normal, normal);
+                    return;
+                }
+            }
+        }
+    }
+
+    // otherwise the sphere first touches an edge or a vertex
+    out.hit = false;
+    const ray = setRay(center, displacement);
+    sphereEdge(out, ray, a, b, radius);
+    sphereEdge(out, ray, b, c, radius);
+    sphereEdge(out, ray, c, a, radius);
+
+    if (!out.hit) setMiss(out);
+}
+
+const _sphereBox3_closest = /*@__PURE__*/ vec3.create();
+const _sphereBox3_separation = /*@__PURE__*/ vec3.create();
+const _sphereBox3_centerBox = /*@__PURE__*/ box3.create();
+const _sphereBox3_slab = /*@__PURE__*/ box3.create();
+const _sphereBox3_slabHit = /*@__PURE__*/ raycast3.createIntersectsBox3Result();
+const _sphereBox3_start = /*@__PURE__*/ vec3.create();
+const _sphereBox3_end = /*@__PURE__*/ vec3.create();
+
+/**
+ * Sweeps a sphere against a static axis-aligned box.
+ * The box grown by the radius of the sphere is the union of the box grown along each axis and
+ * capsules around its twelve edges, which the center of the sphere is raycast against.
+ *
+ * @param out output object to store result (hit boolean, time, point, normal)
+ * @param moving sphere at the start of the motion
+ * @param displacement motion of the moving sphere
+ * @param box static box
+ */
+export function sphereBox3(out: SweepResult, moving: Sphere, displacement: Vec3, box: Box3): void {
+    const { center, radius } = moving;
+
+    const closest = _sphereBox3_closest;
+    for (let i = 0; i < 3; i++) {
+        closest[i] = math.max(box[i], math.min(box[i + 3], center[i]));
+    }
+    if (vec3.squaredDistance(closest, center) <= radius * radius) {
+        // a center inside the box separates through the nearest face
+        const separation = vec3.subtract(_sphereBox3_separation, center, closest);
+        if (vec3.squaredLength(separation) === 0) {
+            const centerBox = _sphereBox3_centerBox;
+            for (let i = 0; i < 3; i++) {
+                centerBox[i] = center[i];
+                centerBox[i + 3] = center[i];
+            }
+            leastOverlapAxis(separation, centerBox, box);
+        }
+        setOverlap(out, displacement, closest, separation);
+        return;
+    }
+
+    out.hit = false;
+    const ray = setRay(center, displacement);
+
+    // faces
+    const slab = _sphereBox3_slab;
+    const slabHit = _sphereBox3_slabHit;
+    for (let axis = 0; axis < 3; axis++) {
+        box3.copy(slab, box);
+        slab[axis] -= radius;
+        slab[axis + 3] += radius;
+
+        raycast3.intersectsBox3WithResult(slabHit, ray, slab);
+        if (slabHit.hit && (!out.hit || slabHit.fractionNear < out.time)) {
+            out.hit = true;
+            out.time = slabHit.fractionNear;
+            vec3.copy(out.normal, slabHit.normal);
+            vec3.scaleAndAdd(out.point, ray.origin, ray.direction, slabHit.fractionNear * ray.length);
+            vec3.scaleAndAdd(out.point, out.point, slabHit.normal, -radius);
+        }
+    }
+
+    // edges and corners
+    const start = _sphereBox3_start;
+    const end = _sphereBox3_end;
+    for (let axis = 0; axis < 3; axis++) {
+        const u = (axis + 1) % 3;
+        const v = (axis + 2) % 3;
+        for (let corner = 0; corner < 4; corner++) {
+            start[axis] = box[axis];
+            end[axis] = box[axis + 3];
+            start[u] = corner % 2 === 0 ? box[u] : box[u + 3];
+            end[u] = start[u];
+            start[v] = corner < 2 ? box[v] : box[v + 3];
+            end[v] = start[v];
+            sphereEdge(out, ray, start, end, radius);
+        }
+    }
+
+    if (!out.hit) setMiss(out);
+}
+
+const _box3Box3_grown = /*@__PURE__*/ box3.create();
+const _box3Box3_separation = /*@__PURE__*/ vec3.create();
+const _box3Box3_center = /*@__PURE__*/ vec3.create();
+const _box3Box3_hit = /*@__PURE__*/ raycast3.createIntersectsBox3Result();
+
+/**
+ * Writes the center of the overlap of two boxes, with the first box moved by a displacement
+ * scaled by time
+ */
+function overlapCenter(out: Vec3, moving: Box3, displacement: Vec3, time: number, target: Box3): void {
+    for (let i = 0; i < 3; i++) {
+        const offset = displacement[i] * time;
+        const min = math.max(moving[i] + offset, target[i]);
+        const max = math.min(moving[i + 3] + offset, target[i + 3]);
+        out[i] = (min + max) * 0.5;
+    }
+}
+
+/**
+ * Sweeps an axis-aligned box against a static axis-aligned box.
+ * The point of the result is the center of the touching region of the boxes.
+ * @param out output object to store result (hit boolean, time, point, normal)
+ * @param moving box at the start of the motion
+ * @param displacement motion of the moving box
+ * @param target static box
+ */
+export function box3Box3(out: SweepResult, moving: Box3, displacement: Vec3, target: Box3): void {
+    if (box3.intersectsBox3(moving, target)) {
+        overlapCenter(out.point, moving, displacement, 0, target);
+        setOverlap(out, displacement, out.point, leastOverlapAxis(_box3Box3_separation, moving, target));
+        return;
+    }
+
+    // the center of the moving box against the target grown by its half extents
+    const grown = _box3Box3_grown;
+    const center = _box3Box3_center;
+    for (let i = 0; i < 3; i++) {
+        const halfExtent = (moving[i + 3] - moving[i]) * 0.5;
+        center[i] = moving[i] + halfExtent;
+        grown[i] = target[i] - halfExtent;
+        grown[i + 3] = target[i + 3] + halfExtent;
+    }
+
+    const hit = _box3Box3_hit;
+    raycast3.intersectsBox3WithResult(hit, setRay(center, displacement), grown);
+    if (!hit.hit) {
+        setMiss(out);
+        return;
+    }
+
+    out.hit = true;
+    out.time = hit.fractionNear;
+    vec3.copy(out.normal, hit.normal);
+    overlapCenter(out.point, moving, displacement, hit.fractionNear, target);
+}
@@ -1,6 +1,6 @@
 //!native
 
-import type { Box3, Vec3 } from './types';
+import type { Box3, Plane3, Vec3 } from './types';
 
 /**
  * Computes the axis-aligned bounding box of a triangle defined by three vertices.
@@ -69,3 +69,279 @@ export function centroid(out: Vec3, a: Vec3, b: Vec3, c: Vec3): Vec3 {
 
     return out;
 }
+
+/**
+ * Computes the area of a triangle defined by three vertices.
+ * @param a the first vertex of the triangle.
+ * @param b the second vertex of the triangle.
+ * @param c the third vertex of the triangle.
+ * @returns the area of the triangle.
+ */
+export function area(a: Vec3, b: Vec3, c: Vec3): number {
+    const abx = b[0] - a[0];
+    const aby = b[1] - a[1];
+    const abz = b[2] - a[2];
+
+    const acx = c[0] - a[0];
+    const acy = c[1] - a[1];
+    const acz = c[2] - a[2];
+
+    const nx = aby * acz - abz * acy;
+    const ny = abz * acx - abx * acz;
+    const nz = abx * acy - aby * acx;
+
+    return math.sqrt(nx * nx + ny * ny + nz * nz) * 0.5;
+}
+
+/**
+ * Computes the plane containing a triangle defined by three vertices.
+ * The plane normal follows the counter-clockwise winding of a, b, c.
+ * @param out the output plane to store the result.
+ * @param a the first vertex of the triangle.
+ * @param b the second vertex of the triangle.
+ * @param c the third vertex of the triangle.
+ * @returns the output plane.
+ */
+export function getPlane(out: Plane3, a: Vec3, b: Vec3, c: Vec3): Plane3 {
+    normal(out.normal, a, b, c);
+    out.constant = -(out.normal[0] * a[0] + out.normal[1] * a[1] + out.normal[2] * a[2]);
+
+    return out;
+}
+
+/**
+ * Determines whether a triangle faces towards a direction, e.g. a view or ray direction.
+ * The front face is the one with counter-clockwise winding of a, b, c.
+ * @param a the first vertex of the triangle.
+ * @param b the second vertex of the triangle.
+ * @param c the third vertex of the triangle.
+ * @param direction the direction to test against.
+ * @returns true if the front face of the triangle faces against the direction.
+ */
+export function isFrontFacing(a: Vec3, b: Vec3, c: Vec3, direction: Vec3): boolean {
+    const abx = b[0] - a[0];
+    const aby = b[1] - a[1];
+    const abz = b[2] - a[2];
+
+    const acx = c[0] - a[0];
+    const acy = c[1] - a[1];
+    const acz = c[2] - a[2];
+
+    const nx = aby * acz - abz * acy;
+    const ny = abz * acx - abx * acz;
+    const nz = abx * acy - aby * acx;
+
+    return nx * direction[0] + ny * direction[1] + nz * direction[2] < 0;
+}
+
+/**
+ * Computes barycentric coordinates into out, returning false for degenerate triangles.
+ * Reference: Real-Time Collision Detection by Christer Ericson (chapter 3.4)
+ */
+function computeBarycentric(out: Vec3, p: Vec3, a: Vec3, b: Vec3, c: Vec3): boolean {
+    const v0x = b[0] - a[0];
+    const v0y = b[1] - a[1];
+    const v0z = b[2] - a[2];
+    const v1x = c[0] - a[0];
+    const v1y = c[1] - a[1];
+    const v1z = c[2] - a[2];
+    const v2x = p[0] - a[0];
+    const v2y = p[1] - a[1];
+    const v2z = p[2] - a[2];
+
+    const d00 = v0x * v0x + v0y * v0y + v0z * v0z;
+    const d01 = v0x * v1x + v0y * v1y + v0z * v1z;
+    const d11 = v1x * v1x + v1y * v1y + v1z * v1z;
+    const d20 = v2x * v0x + v2y * v0y + v2z * v0z;
+    const d21 = v2x * v1x + v2y * v1y + v2z * v1z;
+    const denom = d00 * d11 - d01 * d01;
+
+    if (denom === 0) {
+        out[0] = 0;
+        out[1] = 0;
+        out[2] = 0;
+        return false;
+    }
+
+    const v = (d11 * d20 - d01 * d21) / denom;
+    const w = (d00 * d21 - d01 * d20) / denom;
+
+    out[0] = 1 - v - w;
+    out[1] = v;
+    out[2] = w;
+
+    return true;
+}
+
+/**
+ * Computes the barycentric coordinates of a point with respect to a triangle.
+ * Points off the triangle's plane are projected onto it.
+ * A degenerate (zero area) triangle yields (0, 0, 0).
+ * @param out the output vector to store the weights (u, v, w) of a, b and c.
+ * @param p the point.
+ * @param a the first vertex of the triangle.
+ * @param b the second vertex of the triangle.
+ * @param c the third vertex of the triangle.
+ * @returns the output vector containing the barycentric coordinates.
+ */
+export function barycentric(out: Vec3, p: Vec3, a: Vec3, b: Vec3, c: Vec3): Vec3 {
+    computeBarycentric(out, p, a, b, c);
+
+    return out;
+}
+
+const _containsPoint_barycentric: Vec3 = [0, 0, 0];
+
+/**
+ * Determines whether a point lies inside a triangle, when projected onto the triangle's plane.
+ * Points on the edges are considered inside. A degenerate triangle contains no points.
+ * @param p the point.
+ * @param a the first vertex of the triangle.
+ * @param b the second vertex of the triangle.
+ * @param c the third vertex of the triangle.
+ * @returns true if the projected point is inside the triangle.
+ */
+export function containsPoint(p: Vec3, a: Vec3, b: Vec3, c: Vec3): boolean {
+    const bary = _containsPoint_barycentric;
+    if (!computeBarycentric(bary, p, a, b, c)) return false;
+
+    return bary[0] >= 0 && bary[1] >= 0 && bary[2] >= 0;
+}
+
+/**
+ * Computes the closest point on a triangle to a given point.
+ * Determines which Voronoi region of the triangle (vertex, edge or face) the point lies in.
+ * Reference: Real-Time Collision Detection by Christer Ericson (chapter 5.1.5)
+ * @param out the output vector to store the result.
+ * @param p the point.
+ * @param a the first vertex of the triangle.
+ * @param b the second vertex of the triangle.
+ * @param c the third vertex of the triangle.
+ * @returns the output vector containing the closest point on the triangle.
+ */
+export function closestPoint(out: Vec3, p: Vec3, a: Vec3, b: Vec3, c: Vec3): Vec3 {
+    const abx = b[0] - a[0];
+    const aby = b[1] - a[1];
+    const abz = b[2] - a[2];
+    const acx = c[0] - a[0];
+    const acy = c[1] - a[1];
+    const acz = c[2] - a[2];
+
+    // vertex region outside a
+    const apx = p[0] - a[0];
+    const apy = p[1] - a[1];
+    const apz = p[2] - a[2];
+    const d1 = abx * apx + aby * apy + abz * apz;
+    const d2 = acx * apx + acy * apy + acz * apz;
+    if (d1 <= 0 && d2 <= 0) {
+        out[0] = a[0];
+        out[1] = a[1];
+        out[2] = a[2];
+        return out;
+    }
+
+    // vertex region outside b
+    const bpx = p[0] - b[0];
+    const bpy = p[1] - b[1];
+    const bpz = p[2] - b[2];
+    const d3 = abx * bpx + aby * bpy + abz * bpz;
+    const d4 = acx * bpx + acy * bpy + acz * bpz;
+    if (d3 >= 0 && d4 <= d3) {
+        out[0] = b[0];
+        out[1] = b[1];
+        out[2] = b[2];
+        return out;
+    }
+
+    // edge region of ab
+    const vc = d1 * d4 - d3 * d2;
+    if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+        const v = d1 / (d1 - d3);
+        out[0] = a[0] + abx * v;
+        out[1] = a[1] + aby * v;
+        out[2] = a[2] + abz * v;
+        return out;
+    }
+
+    // vertex region outside c
+    const cpx = p[0] - c[0];
+    const cpy = p[1] - c[1];
+    const cpz = p[2] - c[2];
+    const d5 = abx * cpx + aby * cpy + abz * cpz;
+    const d6 = acx * cpx + acy * cpy + acz * cpz;
+    if (d6 >= 0 && d5 <= d6) {
+        out[0] = c[0];
+        out[1] = c[1];
+        out[2] = c[2];
+        return out;
+    }
+
+    // edge region of ac
+    const vb = d5 * d2 - d1 * d6;
+    if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+        const w = d2 / (d2 - d6);
+        out[0] = a[0] + acx * w;
+        out[1] = a[1] + acy * w;
+        out[2] = a[2] + acz * w;
+        return out;
+    }
+
+    // edge region of bc
+    const va = d3 * d6 - d5 * d4;
+    if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+        const w = (d4 - d3) / (d4 - d3 + (d5 - d6));
+        out[0] = b[0] + (c[0] - b[0]) * w;
+        out[1] = b[1] + (c[1] - b[1]) * w;
+        out[2] = b[2] + (c[2] - b[2]) * w;
+        return out;
+    }
+
+    // inside face region
+    const denom = 1 / (va + vb + vc);
+    const v = vb * denom;
+    const w = vc * denom;
+    out[0] = a[0] + abx * v + acx * w;
+    out[1] = a[1] + aby * v + acy * w;
+    out[2] = a[2] + abz * v + acz * w;
+
+    return out;
+}
+
+const _interpolate_barycentric: Vec3 = [0, 0, 0];
+
+/**
+ * Interpolates per-vertex attributes (e.g. normals or colors) at a point on a triangle,
+ * weighting each vertex attribute by the point's barycentric coordinates.
+ * @param out the output vector to store the interpolated attribute.
+ * @param p the point on the triangle.
+ * @param a the first vertex of the triangle.
+ * @param b the second vertex of the triangle.
+ * @param c the third vertex of the triangle.
+ * @param attributeA the attribute at the first vertex.
+ * @param attributeB the attribute at the second vertex.
+ * @param attributeC the attribute at the third vertex.
+ * @returns the output vector containing the interpolated attribute.
+ */
+export function interpolate(
+    out: Vec3,
+    p: Vec3,
+    a: Vec3,
+    b: Vec3,
+    c: Vec3,
+    attributeA: Vec3,
+    attributeB: Vec3,
+    attributeC: Vec3,
+): Vec3 {
+    const bary = _interpolate_barycentric;
+    computeBarycentric(bary, p, a, b, c);
+
+    const u = bary[0];
+    const v = bary[1];
+    const w = bary[2];
+
+    out[0] = attributeA[0] * u + attributeB[0] * v + attributeC[0] * w;
+    out[1] = attributeA[1] * u + attributeB[1] * v + attributeC[1] * w;
+    out[2] = attributeA[2] * u + attributeB[2] * v + attributeC[2] * w;
+
+    return out;
+}
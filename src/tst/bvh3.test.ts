@@ -0,0 +1,234 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { type Box3, box3, bvh3, createMulberry32Generator, obb3, quat, raycast3, sphere } from '../';
+
+function randomBoxes(count: number, seed: number): Box3[] {
+    const random = createMulberry32Generator(seed);
+    const boxes: Box3[] = [];
+    for (let i = 0; i < count; i++) {
+        const x = random() * 100 - 50;
+        const y = random() * 100 - 50;
+        const z = random() * 100 - 50;
+        boxes.push([x, y, z, x + random() * 4, y + random() * 4, z + random() * 4]);
+    }
+    return boxes;
+}
+
+/** a grid of quads in the xz plane, split into triangles, with a random height per vertex */
+function terrain(size: number, seed: number): { positions: number[]; indices: number[] } {
+    const random = createMulberry32Generator(seed);
+    const positions: number[] = [];
+    const indices: number[] = [];
+    for (let z = 0; z <= size; z++) {
+        for (let x = 0; x <= size; x++) {
+            positions.push(x, random() * 2, z);
+        }
+    }
+    for (let z = 0; z < size; z++) {
+        for (let x = 0; x < size; x++) {
+            const i = z * (size + 1) + x;
+            indices.push(i, i + size + 1, i + 1, i + 1, i + size + 1, i + size + 2);
+        }
+    }
+    return { positions, indices };
+}
+
+function sorted(values: number[]): number[] {
+    const copy = [...values];
+    copy.sort((a, b) => a < b);
+    return copy;
+}
+
+describe('bvh3', () => {
+    describe('buildFromBoxes', () => {
+        it('builds an empty tree from no boxes', () => {
+            const bvh = bvh3.buildFromBoxes(bvh3.create(), []);
+            expect(bvh.nodes.size()).toBe(0);
+            expect(bvh3.queryBox3([], bvh, [-1, -1, -1, 1, 1, 1]).size()).toBe(0);
+
+            const result = bvh3.createRaycastResult();
+            bvh3.raycast(result, bvh, raycast3.fromValues([0, 0, 0], [1, 0, 0], 10));
+            expect(result.hit).toBe(false);
+        });
+
+        it('references every primitive exactly once and bounds all boxes', () => {
+            const boxes = randomBoxes(200, 1);
+            const bvh = bvh3.buildFromBoxes(bvh3.create(), boxes);
+
+            const seen: Record<number, boolean> = {};
+            for (let node = 0; node < bvh.nodes.size() / 2; node++) {
+                const count = bvh.nodes[node * 2 + 1];
+                expect(count).toBeLessThanOrEqual(4);
+                for (let i = 0; i < count; i++) {
+                    const primitive = bvh.primitives[bvh.nodes[node * 2] + i];
+                    expect(seen[primitive]).toBe(undefined);
+                    seen[primitive] = true;
+                }
+            }
+            expect(bvh.primitives.size()).toBe(200);
+
+            const bounds = bvh3.getBounds(box3.create(), bvh);
+            for (const box of boxes) {
+                expect(box3.containsBox3(bounds, box)).toBe(true);
+            }
+        });
+
+        it('respects maxLeafSize and handles coincident boxes', () => {
+            const boxes: Box3[] = [];
+            for (let i = 0; i < 10; i++) {
+                boxes.push([0, 0, 0, 1, 1, 1]);
+            }
+            const bvh = bvh3.buildFromBoxes(bvh3.create(), boxes, { maxLeafSize: 2 });
+            for (let node = 0; node < bvh.nodes.size() / 2; node++) {
+                expect(bvh.nodes[node * 2 + 1]).toBeLessThanOrEqual(2);
+            }
+            expect(sorted(bvh3.queryBox3([], bvh, [0.5, 0.5, 0.5, 2, 2, 2])).size()).toBe(10);
+        });
+    });
+
+    describe('queries', () => {
+        const boxes = randomBoxes(300, 2);
+        const bvh = bvh3.buildFromBoxes(bvh3.create(), boxes);
+
+        it('queryBox3 matches a brute force search', () => {
+            const query: Box3 = [-10, -10, -10, 15, 5, 20];
+            const expected: number[] = [];
+            boxes.forEach((box, i) => {
+                if (box3.intersectsBox3(box, query)) expected.push(i);
+            });
+            expect(expected.size() > 0).toBe(true);
+            expect(sorted(bvh3.queryBox3([], bvh, query))).toEqual(sorted(expected));
+        });
+
+        it('querySphere matches a brute force search', () => {
+            const query = sphere.fromValues([5, -5, 10], 20);
+            const expected: number[] = [];
+            boxes.forEach((box, i) => {
+                if (box3.intersectsSphere(box, query)) expected.push(i);
+            });
+            expect(expected.size() > 0).toBe(true);
+            expect(sorted(bvh3.querySphere([], bvh, query))).toEqual(sorted(expected));
+        });
+
+        it('queryOBB3 matches a brute force search', () => {
+            const query = obb3.setFromCenterHalfExtentsQuaternion(
+                obb3.create(),
+                [0, 0, 0],
+                [40, 15, 15],
+                quat.setAxisAngle(quat.create(), [0, 1, 0], math.pi / 4),
+            );
+            const expected: number[] = [];
+            boxes.forEach((box, i) => {
+                if (obb3.intersectsBox3(query, box)) expected.push(i);
+            });
+            expect(expected.size() > 0).toBe(true);
+            expect(sorted(bvh3.queryOBB3([], bvh, query))).toEqual(sorted(expected));
+        });
+    });
+
+    describe('raycast', () => {
+        it('finds the closest box and its entry normal', () => {
+            const boxes: Box3[] = [
+                [10, -1, -1, 11, 1, 1],
+                [4, -1, -1, 5, 1, 1],
+                [7, -1, -1, 8, 1, 1],
+                [4, 5, -1, 5, 6, 1],
+            ];
+            const bvh = bvh3.buildFromBoxes(bvh3.create(), boxes, { maxLeafSize: 1 });
+            const result = bvh3.createRaycastResult();
+
+            bvh3.raycast(result, bvh, raycast3.fromValues([0, 0, 0], [1, 0, 0], 20));
+            expect(result.hit).toBe(true);
+            expect(result.primitive).toBe(1);
+            expect(result.fraction).toBeCloseTo(0.2);
+            expect(result.normal).toEqual([-1, 0, 0]);
+
+            bvh3.raycast(result, bvh, raycast3.fromValues([0, 0, 0], [1, 0, 0], 3));
+            expect(result.hit).toBe(false);
+            expect(result.primitive).toBe(-1);
+        });
+
+        it('stops at any hit in any mode', () => {
+            const boxes = randomBoxes(100, 3);
+            const bvh = bvh3.buildFromBoxes(bvh3.create(), boxes);
+            const ray = raycast3.fromValues([-60, 0, 0], [1, 0, 0], 120);
+            const closest = bvh3.createRaycastResult();
+            const any = bvh3.createRaycastResult();
+
+            bvh3.raycast(closest, bvh, ray);
+            bvh3.raycast(any, bvh, ray, { mode: 'any' });
+            expect(any.hit).toBe(closest.hit);
+            if (any.hit) {
+                expect(any.fraction).toBeGreaterThanOrEqual(closest.fraction);
+                expect(raycast3.intersectsBox3(ray, boxes[any.primitive])).toBe(true);
+            }
+        });
+    });
+
+    describe('raycastTriangles', () => {
+        const { positions, indices } = terrain(16, 4);
+        const bvh = bvh3.buildFromTriangles(bvh3.create(), positions, indices);
+
+        it('matches raycast3.intersectsMesh', () => {
+            const random = createMulberry32Generator(5);
+            const expected = raycast3.createIntersectsMeshResult();
+            const actual = raycast3.createIntersectsMeshResult();
+
+            for (let i = 0; i < 50; i++) {
+                const origin: [number, number, number] = [random() * 16, 5, random() * 16];
+                const target: [number, number, number] = [random() * 16, -1, random() * 16];
+                const ray = raycast3.fromSegment(raycast3.create(), origin, target);
+
+                raycast3.intersectsMesh(expected, ray, positions, indices);
+                bvh3.raycastTriangles(actual, bvh, ray, positions, indices);
+
+                expect(actual.hit).toBe(expected.hit);
+                expect(actual.triangleIndex).toBe(expected.triangleIndex);
+                expect(actual.fraction).toBeCloseTo(expected.fraction);
+                expect(actual.frontFacing).toBe(expected.frontFacing);
+                expect(actual.barycentric[0]).toBeCloseTo(expected.barycentric[0]);
+                expect(actual.barycentric[1]).toBeCloseTo(expected.barycentric[1]);
+            }
+        });
+
+        it('honours backface culling', () => {
+            const ray = raycast3.fromValues([8, -5, 8], [0, 1, 0], 20);
+            const result = raycast3.createIntersectsMeshResult();
+
+            bvh3.raycastTriangles(result, bvh, ray, positions, indices);
+            expect(result.hit).toBe(true);
+            expect(result.frontFacing).toBe(false);
+
+            bvh3.raycastTriangles(result, bvh, ray, positions, indices, { backfaceCulling: true });
+            expect(result.hit).toBe(false);
+        });
+    });
+
+    describe('refit', () => {
+        it('updates node bounds after boxes move', () => {
+            const boxes = randomBoxes(50, 6);
+            const bvh = bvh3.buildFromBoxes(bvh3.create(), boxes);
+
+            boxes[7] = [200, 200, 200, 201, 201, 201];
+            bvh3.refitFromBoxes(bvh, boxes);
+
+            expect(box3.containsBox3(bvh3.getBounds(box3.create(), bvh), boxes[7])).toBe(true);
+            expect(bvh3.queryBox3([], bvh, [199, 199, 199, 202, 202, 202])).toEqual([7]);
+        });
+
+        it('updates triangle bounds after vertices move', () => {
+            const { positions, indices } = terrain(4, 7);
+            const bvh = bvh3.buildFromTriangles(bvh3.create(), positions, indices);
+
+            for (let i = 1; i < positions.size(); i += 3) {
+                positions[i] += 10;
+            }
+            bvh3.refitFromTriangles(bvh, positions, indices);
+
+            const result = raycast3.createIntersectsMeshResult();
+            bvh3.raycastTriangles(result, bvh, raycast3.fromValues([2.2, 20, 2.7], [0, -1, 0], 20), positions, indices);
+            expect(result.hit).toBe(true);
+            expect(result.fraction).toBeGreaterThan(0.4);
+            expect(result.fraction).toBeLessThan(0.5);
+        });
+    });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { type Box3, capsule3, createMulberry32Generator, gjk, sphere, type Vec3, vec3 } from '../';
+
+function expectVec3(actual: Vec3, expected: Vec3): void {
+    expect(actual[0]).toBeCloseTo(expected[0]);
+    expect(actual[1]).toBeCloseTo(expected[1]);
+    expect(actual[2]).toBeCloseTo(expected[2]);
+}
+
+describe('capsule3', () => {
+    const capsule = capsule3.fromValues([0, 0, 0], [0, 4, 0], 1);
+
+    describe('points', () => {
+        it('contains points near the segment', () => {
+            expect(capsule3.containsPoint(capsule, [0.9, 2, 0])).toBe(true);
+            expect(capsule3.containsPoint(capsule, [0, -1, 0])).toBe(true);
+            expect(capsule3.containsPoint(capsule, [0.8, 4.8, 0])).toBe(false);
+            expect(capsule3.distanceToPoint(capsule, [3, 2, 0])).toBeCloseTo(2);
+            expect(capsule3.distanceToPoint(capsule, [0, 2, 0])).toBeCloseTo(-1);
+        });
+
+        it('finds the closest point on the surface', () => {
+            const out = vec3.create();
+            expectVec3(capsule3.closestPoint(out, capsule, [3, 2, 0]), [1, 2, 0]);
+            expectVec3(capsule3.closestPoint(out, capsule, [0, 7, 0]), [0, 5, 0]);
+            expectVec3(capsule3.closestPoint(out, capsule, [0.5, 1, 0]), [0.5, 1, 0]);
+        });
+
+        it('computes the bounding box', () => {
+            const out: Box3 = [0, 0, 0, 0, 0, 0];
+            expect(capsule3.getBoundingBox(out, capsule)).toEqual([-1, -1, -1, 1, 5, 1]);
+        });
+    });
+
+    describe('capsule', () => {
+        it('measures separated and overlapping capsules', () => {
+            const out = gjk.createPenetrationResult();
+            const other = capsule3.fromValues([3, 1, 0], [3, 3, 0], 0.5);
+
+            expect(capsule3.intersectsCapsule3(capsule, other)).toBe(false);
+            capsule3.penetrationCapsule3(out, capsule, other);
+            expect(out.intersecting).toBe(false);
+            expect(out.depth).toBeCloseTo(-1.5);
+            expectVec3(out.normal, [1, 0, 0]);
+            expect(out.pointA[0]).toBeCloseTo(1);
+            expect(out.pointB[0]).toBeCloseTo(2.5);
+
+            other.start[0] = 1.25;
+            other.end[0] = 1.25;
+            expect(capsule3.intersectsCapsule3(capsule, other)).toBe(true);
+            capsule3.penetrationCapsule3(out, capsule, other);
+            expect(out.intersecting).toBe(true);
+            expect(out.depth).toBeCloseTo(0.25);
+        });
+
+        it('separates crossing segments along their common perpendicular', () => {
+            const out = gjk.createPenetrationResult();
+            capsule3.penetrationCapsule3(out, capsule, capsule3.fromValues([-2, 2, 0], [2, 2, 0], 0.5));
+
+            expect(out.intersecting).toBe(true);
+            expect(out.depth).toBeCloseTo(1.5);
+            expect(math.abs(out.normal[2])).toBeCloseTo(1);
+        });
+    });
+
+    describe('sphere', () => {
+        it('measures spheres around the cap and the side', () => {
+            const out = gjk.createPenetrationResult();
+
+            expect(capsule3.intersectsSphere(capsule, sphere.fromValues([0, 6, 0], 0.5))).toBe(false);
+            capsule3.penetrationSphere(out, capsule, sphere.fromValues([0, 6, 0], 0.5));
+            expect(out.depth).toBeCloseTo(-0.5);
+            expectVec3(out.normal, [0, 1, 0]);
+            expectVec3(out.pointA, [0, 5, 0]);
+            expectVec3(out.pointB, [0, 5.5, 0]);
+
+            expect(capsule3.intersectsSphere(capsule, sphere.fromValues([0, 2, 1.5], 1))).toBe(true);
+            capsule3.penetrationSphere(out, capsule, sphere.fromValues([0, 2, 1.5], 1));
+            expect(out.intersecting).toBe(true);
+            expect(out.depth).toBeCloseTo(0.5);
+            expectVec3(out.normal, [0, 0, 1]);
+        });
+
+        it('picks a normal perpendicular to the segment for centered spheres', () => {
+            const out = gjk.createPenetrationResult();
+            capsule3.penetrationSphere(out, capsule, sphere.fromValues([0, 2, 0], 1));
+
+            expect(out.depth).toBeCloseTo(2);
+            expect(out.normal[1]).toBeCloseTo(0);
+            expect(vec3.length(out.normal)).toBeCloseTo(1);
+        });
+    });
+
+    describe('box3', () => {
+        const box: Box3 = [2, 0, -1, 4, 2, 1];
+
+        it('measures separated and overlapping boxes', () => {
+            const out = gjk.createPenetrationResult();
+
+            expect(capsule3.intersectsBox3(capsule, box)).toBe(false);
+            capsule3.penetrationBox3(out, capsule, box);
+            expect(out.intersecting).toBe(false);
+            expect(out.depth).toBeCloseTo(-1);
+            expectVec3(out.normal, [1, 0, 0]);
+            expect(out.pointA[0]).toBeCloseTo(1);
+            expect(out.pointB[0]).toBeCloseTo(2);
+
+            const touching = capsule3.fromValues([1.5, 0, 0], [1.5, 4, 0], 1);
+            expect(capsule3.intersectsBox3(touching, box)).toBe(true);
+            capsule3.penetrationBox3(out, touching, box);
+            expect(out.intersecting).toBe(true);
+            expect(out.depth).toBeCloseTo(0.5);
+            expectVec3(out.normal, [1, 0, 0]);
+        });
+
+        it('adds the radius to the penetration of the segment', () => {
+            const out = gjk.createPenetrationResult();
+            capsule3.penetrationBox3(out, capsule3.fromValues([2.25, -2, 0], [2.25, 4, 0], 0.5), box);
+
+            expect(out.intersecting).toBe(true);
+            expect(out.depth).toBeCloseTo(0.75);
+            expectVec3(out.normal, [1, 0, 0]);
+        });
+    });
+
+    describe('triangle', () => {
+        const a: Vec3 = [-2, 0, -2];
+        const b: Vec3 = [2, 0, -2];
+        const c: Vec3 = [0, 0, 2];
+
+        it('measures capsules standing on a triangle', () => {
+            const out = gjk.createPenetrationResult();
+            const standing = capsule3.fromValues([0, 1.5, 0], [0, 4, 0], 1);
+
+            expect(capsule3.intersectsTriangle3(standing, a, b, c)).toBe(false);
+            capsule3.penetrationTriangle3(out, standing, a, b, c);
+            expect(out.intersecting).toBe(false);
+            expect(out.depth).toBeCloseTo(-0.5);
+            expectVec3(out.normal, [0, -1, 0]);
+
+            standing.start[1] = 0.75;
+            expect(capsule3.intersectsTriangle3(standing, a, b, c)).toBe(true);
+            capsule3.penetrationTriangle3(out, standing, a, b, c);
+            expect(out.intersecting).toBe(true);
+            expect(out.depth).toBeCloseTo(0.25);
+            expectVec3(out.normal, [0, -1, 0]);
+            expectVec3(out.pointA, [0, -0.25, 0]);
+        });
+
+        it('agrees with the overlap test', () => {
+            const random = createMulberry32Generator(5);
+            const out = gjk.createPenetrationResult();
+
+            for (let i = 0; i < 50; i++) {
+                const start: Vec3 = [random() * 6 - 3, random() * 4 - 2, random() * 6 - 3];
+                const end: Vec3 = [random() * 6 - 3, random() * 4 - 2, random() * 6 - 3];
+                const shape = capsule3.fromValues(start, end, random() * 0.5 + 0.1);
+
+                capsule3.penetrationTriangle3(out, shape, a, b, c);
+                const overlaps = capsule3.intersectsTriangle3(shape, a, b, c);
+                if (math.abs(out.depth) > 1e-3) expect(out.intersecting).toBe(overlaps);
+            }
+        });
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { circle, createMulberry32Generator, mat2d, type Vec2 } from '../';
+
+describe('circle', () => {
+    describe('area and circumference', () => {
+        it('computes area and circumference', () => {
+            const c = circle.fromValues([0, 0], 2);
+            expect(circle.area(c)).toBeCloseTo(4 * math.pi);
+            expect(circle.circumference(c)).toBeCloseTo(4 * math.pi);
+        });
+    });
+
+    describe('containsPoint', () => {
+        it('tests points inside, on and outside the boundary', () => {
+            const c = circle.fromValues([1, 1], 1);
+            expect(circle.containsPoint(c, [1, 1])).toBe(true);
+            expect(circle.containsPoint(c, [2, 1])).toBe(true);
+            expect(circle.containsPoint(c, [2, 2])).toBe(false);
+        });
+    });
+
+    describe('intersectsCircle', () => {
+        it('detects overlapping, touching and separate circles', () => {
+            const a = circle.fromValues([0, 0], 1);
+            expect(circle.intersectsCircle(a, circle.fromValues([1, 0], 1))).toBe(true);
+            expect(circle.intersectsCircle(a, circle.fromValues([2, 0], 1))).toBe(true);
+            expect(circle.intersectsCircle(a, circle.fromValues([3, 0], 1))).toBe(false);
+        });
+    });
+
+    describe('intersectsSegment', () => {
+        it('detects a segment passing through the circle', () => {
+            const c = circle.fromValues([0, 0], 1);
+            expect(circle.intersectsSegment(c, [-2, 0.5], [2, 0.5])).toBe(true);
+        });
+
+        it('detects a segment ending before the circle', () => {
+            const c = circle.fromValues([0, 0], 1);
+            expect(circle.intersectsSegment(c, [-5, 0], [-2, 0])).toBe(false);
+        });
+
+        it('detects a segment passing beside the circle', () => {
+            const c = circle.fromValues([0, 0], 1);
+            expect(circle.intersectsSegment(c, [-2, 1.5], [2, 1.5])).toBe(false);
+        });
+    });
+
+    describe('intersectionPoints', () => {
+        it('returns two points for overlapping circles', () => {
+            const outA: Vec2 = [0, 0];
+            const outB: Vec2 = [0, 0];
+            const count = circle.intersectionPoints(outA, outB, circle.fromValues([0, 0], 1), circle.fromValues([1, 0], 1));
+            expect(count).toBe(2);
+            expect(outA[0]).toBeCloseTo(0.5);
+            expect(outB[0]).toBeCloseTo(0.5);
+            expect(math.abs(outA[1])).toBeCloseTo(math.sqrt(3) / 2);
+            expect(outA[1]).toBeCloseTo(-outB[1]);
+        });
+
+        it('returns one point for touching circles', () => {
+            const outA: Vec2 = [0, 0];
+            const outB: Vec2 = [0, 0];
+            const count = circle.intersectionPoints(outA, outB, circle.fromValues([0, 0], 1), circle.fromValues([2, 0], 1));
+            expect(count).toBe(1);
+            expect(outA[0]).toBeCloseTo(1);
+            expect(outA[1]).toBeCloseTo(0);
+        });
+
+        it('returns no points for separate, nested or coincident circles', () => {
+            const outA: Vec2 = [0, 0];
+            const outB: Vec2 = [0, 0];
+            const a = circle.fromValues([0, 0], 2);
+            expect(circle.intersectionPoints(outA, outB, a, circle.fromValues([5, 0], 1))).toBe(0);
+            expect(circle.intersectionPoints(outA, outB, a, circle.fromValues([0.5, 0], 1))).toBe(0);
+            expect(circle.intersectionPoints(outA, outB, a, circle.clone(a))).toBe(0);
+        });
+    });
+
+    describe('tangentPoints', () => {
+        it('computes tangent points from an external point', () => {
+            const outA: Vec2 = [0, 0];
+            const outB: Vec2 = [0, 0];
+            expect(circle.tangentPoints(outA, outB, circle.fromValues([0, 0], 1), [2, 0])).toBe(true);
+            expect(outA[0]).toBeCloseTo(0.5);
+            expect(outA[1]).toBeCloseTo(math.sqrt(3) / 2);
+            expect(outB[0]).toBeCloseTo(0.5);
+            expect(outB[1]).toBeCloseTo(-math.sqrt(3) / 2);
+        });
+
+        it('returns false for a point inside the circle', () => {
+            expect(circle.tangentPoints([0, 0], [0, 0], circle.fromValues([0, 0], 1), [0.5, 0])).toBe(false);
+        });
+    });
+
+    describe('transformMat2d', () => {
+        it('transforms the center and scales the radius by the largest scale', () => {
+            const m = mat2d.fromScaling(mat2d.create(), [2, 3]);
+            mat2d.translate(m, m, [1, 0]);
+            const out = circle.transformMat2d(circle.create(), circle.fromValues([1, 1], 1), m);
+            expect(out.center[0]).toBeCloseTo(4);
+            expect(out.center[1]).toBeCloseTo(3);
+            expect(out.radius).toBeCloseTo(3);
+        });
+
+        it('scales the radius by the largest stretch for sheared matrices', () => {
+            const m = mat2d.fromValues(1, 0, 1, 1, 0, 0);
+            const out = circle.transformMat2d(circle.create(), circle.fromValues([0, 0], 1), m);
+            expect(out.radius).toBeCloseTo((1 + math.sqrt(5)) / 2);
+        });
+    });
+
+    describe('setFromPoints', () => {
+        it('returns the diameter circle for two points', () => {
+            const out = circle.setFromPoints(circle.create(), [0, 0, 4, 0]);
+            expect(out.center[0]).toBeCloseTo(2);
+            expect(out.center[1]).toBeCloseTo(0);
+            expect(out.radius).toBeCloseTo(2);
+        });
+
+        it('returns the minimal circle for a square with interior points', () => {
+            const points = [0, 0, 2, 0, 2, 2, 0, 2, 1, 1, 0.5, 1.5];
+            const out = circle.setFromPoints(circle.create(), points, createMulberry32Generator(1));
+            expect(out.center[0]).toBeCloseTo(1);
+            expect(out.center[1]).toBeCloseTo(1);
+            expect(out.radius).toBeCloseTo(math.sqrt(2));
+        });
+
+        it('handles collinear points', () => {
+            const out = circle.setFromPoints(circle.create(), [0, 0, 1, 0, 3, 0, 2, 0], createMulberry32Generator(2));
+            expect(out.center[0]).toBeCloseTo(1.5);
+            expect(out.radius).toBeCloseTo(1.5);
+        });
+
+        it('encloses random point sets', () => {
+            const random = createMulberry32Generator(3);
+            const points: number[] = [];
+            for (let i = 0; i < 400; i++) {
+                points.push(random() * 10 - 5);
+            }
+            const out = circle.setFromPoints(circle.create(), points, random);
+            for (let i = 0; i < points.size(); i += 2) {
+                const dx = points[i] - out.center[0];
+                const dy = points[i + 1] - out.center[1];
+                expect(math.sqrt(dx * dx + dy * dy)).toBeLessThanOrEqual(out.radius + 1e-6);
+            }
+        });
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { type Box3, cone3, createMulberry32Generator, gjk, raycast3, type Vec3, vec3 } from '../';
+
+describe('cone3', () => {
+    const cone = cone3.fromValues([0, 2, 0], [0, 0, 0], 1);
+
+    describe('setFromDirectionAndAngle', () => {
+        it('places the base along the direction', () => {
+            const out = cone3.setFromDirectionAndAngle(cone3.create(), [1, 1, 1], [0, 0, -2], 10, math.pi / 4);
+            expect(out.apex).toEqual([1, 1, 1]);
+            expect(out.base).toEqual([1, 1, -9]);
+            expect(out.radius).toBeCloseTo(10);
+        });
+    });
+
+    describe('getBoundingBox', () => {
+        it('bounds the apex and the base disc', () => {
+            const out: Box3 = [0, 0, 0, 0, 0, 0];
+            expect(cone3.getBoundingBox(out, cone)).toEqual([-1, 0, -1, 1, 2, 1]);
+
+            cone3.getBoundingBox(out, cone3.fromValues([0, 0, 0], [4, 0, 0], 1));
+            expect(out).toEqual([0, -1, -1, 4, 1, 1]);
+        });
+    });
+
+    describe('containsPoint', () => {
+        it('narrows towards the apex', () => {
+            expect(cone3.containsPoint(cone, [0.9, 0, 0])).toBe(true);
+            expect(cone3.containsPoint(cone, [0.4, 1, 0])).toBe(true);
+            expect(cone3.containsPoint(cone, [0.6, 1, 0])).toBe(false);
+            expect(cone3.containsPoint(cone, [0, 2, 0])).toBe(true);
+            expect(cone3.containsPoint(cone, [0, 2.1, 0])).toBe(false);
+            expect(cone3.containsPoint(cone, [0, -0.1, 0])).toBe(false);
+        });
+
+        it('checks points against a view cone', () => {
+            const view = cone3.setFromDirectionAndAngle(cone3.create(), [0, 0, 0], [0, 0, -1], 50, math.pi / 6);
+            expect(cone3.containsPoint(view, [5, 0, -10])).toBe(true);
+            expect(cone3.containsPoint(view, [10, 0, -10])).toBe(false);
+            expect(cone3.containsPoint(view, [0, 0, 10])).toBe(false);
+            expect(cone3.containsPoint(view, [0, 0, -60])).toBe(false);
+        });
+    });
+
+    describe('raycast', () => {
+        it('hits on the surface with outward normals', () => {
+            const random = createMulberry32Generator(6);
+            const shape = cone3.fromValues([1, -1, 0.5], [-0.5, 1, 1], 1.25);
+            const result = raycast3.createIntersectsShapeResult();
+            const inside = vec3.create();
+            const outside = vec3.create();
+            let hits = 0;
+
+            for (let i = 0; i < 100; i++) {
+                const origin: Vec3 = [random() * 8 - 4, random() * 8 - 4, random() * 8 - 4];
+                const target: Vec3 = [random() - 0.5, random() - 0.5, random() - 0.5];
+                const ray = raycast3.fromSegment(raycast3.create(), origin, target);
+                ray.length *= 2;
+                raycast3.intersectsCone(result, ray, shape.apex, shape.base, shape.radius);
+
+                if (!result.hit || result.fraction === 0) continue;
+                hits++;
+                vec3.scaleAndAdd(inside, result.point, result.normal, -1e-4);
+                vec3.scaleAndAdd(outside, result.point, result.normal, 1e-4);
+                expect(cone3.containsPoint(shape, inside)).toBe(true);
+                expect(cone3.containsPoint(shape, outside)).toBe(false);
+            }
+
+            expect(hits).toBeGreaterThan(10);
+        });
+    });
+
+    describe('support', () => {
+        it('stays within the bounding box', () => {
+            const random = createMulberry32Generator(7);
+            const shape = cone3.fromValues([1, -1, 0.5], [-0.5, 1, 1], 1.25);
+            const support = gjk.coneSupport(shape.apex, shape.base, shape.radius);
+            const bounds = cone3.getBoundingBox([0, 0, 0, 0, 0, 0], shape);
+            const center = vec3.lerp(vec3.create(), shape.apex, shape.base, 0.5);
+            const out = vec3.create();
+
+            for (let i = 0; i < 6; i++) {
+                const direction: Vec3 = [0, 0, 0];
+                direction[i % 3] = i < 3 ? -1 : 1;
+                support(out, direction);
+                expect(out[i % 3]).toBeCloseTo(bounds[i]);
+            }
+
+            for (let i = 0; i < 20; i++) {
+                support(out, [random() - 0.5, random() - 0.5, random() - 0.5]);
+                expect(cone3.containsPoint(shape, vec3.lerp(out, out, center, 1e-6))).toBe(true);
+            }
+        });
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { type Box3, createMulberry32Generator, cylinder3, gjk, raycast3, type Vec3, vec3 } from '../';
+
+describe('cylinder3', () => {
+    const cylinder = cylinder3.fromValues([0, 0, 0], [0, 2, 0], 0.5);
+
+    describe('getBoundingBox', () => {
+        it('bounds the cap discs', () => {
+            const out: Box3 = [0, 0, 0, 0, 0, 0];
+            expect(cylinder3.getBoundingBox(out, cylinder)).toEqual([-0.5, 0, -0.5, 0.5, 2, 0.5]);
+
+            cylinder3.getBoundingBox(out, cylinder3.fromValues([0, 0, 0], [2, 2, 0], 1));
+            const e = 1 / math.sqrt(2);
+            expect(out[0]).toBeCloseTo(-e);
+            expect(out[1]).toBeCloseTo(-e);
+            expect(out[2]).toBeCloseTo(-1);
+            expect(out[3]).toBeCloseTo(2 + e);
+            expect(out[5]).toBeCloseTo(1);
+        });
+    });
+
+    describe('containsPoint', () => {
+        it('tests the radius and both caps', () => {
+            expect(cylinder3.containsPoint(cylinder, [0.4, 1, 0])).toBe(true);
+            expect(cylinder3.containsPoint(cylinder, [0, 2, 0.5])).toBe(true);
+            expect(cylinder3.containsPoint(cylinder, [0.4, 1, 0.4])).toBe(false);
+            expect(cylinder3.containsPoint(cylinder, [0, -0.1, 0])).toBe(false);
+            expect(cylinder3.containsPoint(cylinder, [0, 2.1, 0])).toBe(false);
+        });
+    });
+
+    describe('raycast', () => {
+        it('hits on the surface with outward normals', () => {
+            const random = createMulberry32Generator(3);
+            const shape = cylinder3.fromValues([1, -1, 0.5], [-0.5, 1, 1], 0.75);
+            const result = raycast3.createIntersectsShapeResult();
+            const inside = vec3.create();
+            const outside = vec3.create();
+            let hits = 0;
+
+            for (let i = 0; i < 100; i++) {
+                const origin: Vec3 = [random() * 8 - 4, random() * 8 - 4, random() * 8 - 4];
+                const target: Vec3 = [random() - 0.5, random() - 0.5, random() - 0.5];
+                const ray = raycast3.fromSegment(raycast3.create(), origin, target);
+                ray.length *= 2;
+                raycast3.intersectsCylinder(result, ray, shape.start, shape.end, shape.radius);
+
+                if (!result.hit || result.fraction === 0) continue;
+                hits++;
+                vec3.scaleAndAdd(inside, result.point, result.normal, -1e-4);
+                vec3.scaleAndAdd(outside, result.point, result.normal, 1e-4);
+                expect(cylinder3.containsPoint(shape, inside)).toBe(true);
+                expect(cylinder3.containsPoint(shape, outside)).toBe(false);
+            }
+
+            expect(hits).toBeGreaterThan(10);
+        });
+    });
+
+    describe('support', () => {
+        it('stays within the bounding box', () => {
+            const random = createMulberry32Generator(4);
+            const shape = cylinder3.fromValues([1, -1, 0.5], [-0.5, 1, 1], 0.75);
+            const support = gjk.cylinderSupport(shape.start, shape.end, shape.radius);
+            const bounds = cylinder3.getBoundingBox([0, 0, 0, 0, 0, 0], shape);
+            const center = vec3.lerp(vec3.create(), shape.start, shape.end, 0.5);
+            const out = vec3.create();
+
+            for (let i = 0; i < 6; i++) {
+                const direction: Vec3 = [0, 0, 0];
+                direction[i % 3] = i < 3 ? -1 : 1;
+                support(out, direction);
+                expect(out[i % 3]).toBeCloseTo(bounds[i]);
+            }
+
+            for (let i = 0; i < 20; i++) {
+                support(out, [random() - 0.5, random() - 0.5, random() - 0.5]);
+                expect(cylinder3.containsPoint(shape, vec3.lerp(out, out, center, 1e-6))).toBe(true);
+            }
+        });
+    });
+});
@@ -0,0 +1,208 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { createMulberry32Generator, delaunay2, quickhull2 } from '../';
+
+function orient(points: number[], a: number, b: number, c: number): number {
+    return (
+        (points[b * 2] - points[a * 2]) * (points[c * 2 + 1] - points[a * 2 + 1]) -
+        (points[b * 2 + 1] - points[a * 2 + 1]) * (points[c * 2] - points[a * 2])
+    );
+}
+
+function inCircle(points: number[], a: number, b: number, c: number, d: number): number {
+    const adx = points[a * 2] - points[d * 2];
+    const ady = points[a * 2 + 1] - points[d * 2 + 1];
+    const bdx = points[b * 2] - points[d * 2];
+    const bdy = points[b * 2 + 1] - points[d * 2 + 1];
+    const cdx = points[c * 2] - points[d * 2];
+    const cdy = points[c * 2 + 1] - points[d * 2 + 1];
+    return (
+        (adx * adx + ady * ady) * (bdx * cdy - bdy * cdx) +
+        (bdx * bdx + bdy * bdy) * (cdx * ady - cdy * adx) +
+        (cdx * cdx + cdy * cdy) * (adx * bdy - ady * bdx)
+    );
+}
+
+function randomPoints(seed: number, count: number, scale: number): number[] {
+    const random = createMulberry32Generator(seed);
+    const points: number[] = [];
+    for (let i = 0; i < count * 2; i++) {
+        points.push(random() * scale);
+    }
+    return points;
+}
+
+function hasEdge(d: delaunay2.Delaunay2, a: number, b: number): boolean {
+    for (let e = 0; e < d.triangles.size(); e++) {
+        const u = d.triangles[e];
+        const v = d.triangles[delaunay2.nextHalfedge(e)];
+        if ((u === a && v === b) || (u === b && v === a)) return true;
+    }
+    return false;
+}
+
+/**
+ * Checks triangles are counter-clockwise, half-edges are symmetric, the triangle count matches the
+ * hull size, and every unconstrained edge is locally Delaunay. Returns the number of violations.
+ */
+function validate(d: delaunay2.Delaunay2, points: number[], vertexCount: number): number {
+    let errors = 0;
+    const { triangles, halfedges, constrained } = d;
+
+    if (triangles.size() / 3 !== 2 * vertexCount - d.hull.size() - 2) errors++;
+
+    for (let e = 0; e < triangles.size(); e++) {
+        if (e % 3 === 0 && orient(points, triangles[e], triangles[e + 1], triangles[e + 2]) <= 0) errors++;
+
+        const twin = halfedges[e];
+        if (twin === -1) continue;
+        if (halfedges[twin] !== e || constrained[twin] !== constrained[e]) errors++;
+        if (triangles[twin] !== triangles[delaunay2.nextHalfedge(e)]) errors++;
+        if (constrained[e]) continue;
+
+        const far = triangles[delaunay2.prevHalfedge(twin)];
+        const a = triangles[e];
+        const b = triangles[delaunay2.nextHalfedge(e)];
+        const c = triangles[delaunay2.prevHalfedge(e)];
+        const scale = orient(points, a, b, c) * orient(points, a, b, c) + 1e-12;
+        if (inCircle(points, a, b, c, far) > 1e-9 * scale) errors++;
+    }
+
+    return errors;
+}
+
+describe('delaunay2', () => {
+    describe('triangulate', () => {
+        it('triangulates a square into two triangles', () => {
+            const points = [0, 0, 1, 0, 1, 1, 0, 1];
+            const d = delaunay2.triangulate(delaunay2.create(), points);
+
+            expect(d.triangles.size()).toBe(6);
+            expect(d.hull.size()).toBe(4);
+            expect(validate(d, points, 4)).toBe(0);
+        });
+
+        it('returns no triangles for fewer than 3 or collinear points', () => {
+            expect(delaunay2.triangulate(delaunay2.create(), [0, 0, 1, 1]).triangles.size()).toBe(0);
+            expect(delaunay2.triangulate(delaunay2.create(), [0, 0, 1, 1, 2, 2, 3, 3]).triangles.size()).toBe(0);
+        });
+
+        it('triangulates random points', () => {
+            const points = randomPoints(1, 300, 100);
+            const d = delaunay2.triangulate(delaunay2.create(), points);
+
+            expect(validate(d, points, 300)).toBe(0);
+
+            const hull = quickhull2(points);
+            expect(d.hull.size()).toBe(hull.size());
+            for (const v of hull) {
+                expect(d.hull.includes(v)).toBe(true);
+            }
+        });
+
+        it('triangulates small and offset coordinates', () => {
+            const points = randomPoints(2, 100, 1e-3);
+            for (let i = 0; i < points.size(); i++) {
+                points[i] += 5000;
+            }
+            const d = delaunay2.triangulate(delaunay2.create(), points);
+            expect(validate(d, points, 100)).toBe(0);
+        });
+
+        it('triangulates a grid of cocircular points', () => {
+            const points: number[] = [];
+            for (let y = 0; y < 8; y++) {
+                for (let x = 0; x < 8; x++) {
+                    points.push(x, y);
+                }
+            }
+            const d = delaunay2.triangulate(delaunay2.create(), points);
+
+            expect(d.triangles.size() / 3).toBe(2 * 7 * 7);
+            expect(validate(d, points, 64)).toBe(0);
+        });
+
+        it('skips duplicate points', () => {
+            const points = [0, 0, 2, 0, 1, 2, 2, 0, 1, 0.5, 0, 0];
+            const d = delaunay2.triangulate(delaunay2.create(), points);
+
+            expect(d.triangles.size()).toBe(9);
+            expect(d.triangles.includes(3)).toBe(false);
+            expect(d.triangles.includes(5)).toBe(false);
+            expect(validate(d, points, 4)).toBe(0);
+        });
+
+        it('links half-edges across triangles', () => {
+            const points = randomPoints(3, 50, 10);
+            const d = delaunay2.triangulate(delaunay2.create(), points);
+
+            let hullEdges = 0;
+            for (let e = 0; e < d.halfedges.size(); e++) {
+                if (d.halfedges[e] === -1) hullEdges++;
+            }
+            expect(hullEdges).toBe(d.hull.size());
+
+            // hull is counter-clockwise
+            let area = 0;
+            for (let i = 0; i < d.hull.size(); i++) {
+                const a = d.hull[i];
+                const b = d.hull[(i + 1) % d.hull.size()];
+                area += points[a * 2] * points[b * 2 + 1] - points[b * 2] * points[a * 2 + 1];
+            }
+            expect(area).toBeGreaterThan(0);
+        });
+    });
+
+    describe('constrained edges', () => {
+        it('recovers an edge missing from the Delaunay triangulation', () => {
+            // a wide, flat diamond: the Delaunay diagonal is the short vertical one
+            const points = [0, 0, 10, -1, 20, 0, 10, 1];
+            expect(hasEdge(delaunay2.triangulate(delaunay2.create(), points), 0, 2)).toBe(false);
+
+            const d = delaunay2.triangulate(delaunay2.create(), points, [0, 2]);
+            expect(hasEdge(d, 0, 2)).toBe(true);
+            expect(validate(d, points, 4)).toBe(0);
+
+            let constrainedCount = 0;
+            for (const c of d.constrained) {
+                if (c) constrainedCount++;
+            }
+            expect(constrainedCount).toBe(2);
+        });
+
+        it('recovers edges crossing many triangles', () => {
+            const points = randomPoints(4, 200, 100);
+            points.push(-1, 50, 101, 50, 50, -1, 50, 101);
+            const constraints = [200, 201, 201, 203, 202, 200];
+            const d = delaunay2.triangulate(delaunay2.create(), points, constraints);
+
+            expect(hasEdge(d, 200, 201)).toBe(true);
+            expect(hasEdge(d, 201, 203)).toBe(true);
+            expect(validate(d, points, 204)).toBe(0);
+        });
+
+        it('splits constrained edges passing through points', () => {
+            const points = [0, 0, 4, 0, 4, 4, 0, 4, 2, 2, 1, 3, 3, 1];
+            const d = delaunay2.triangulate(delaunay2.create(), points, [0, 2]);
+
+            expect(hasEdge(d, 0, 4)).toBe(true);
+            expect(hasEdge(d, 4, 2)).toBe(true);
+            expect(validate(d, points, 7)).toBe(0);
+        });
+
+        it('marks existing edges as constrained', () => {
+            const points = [0, 0, 1, 0, 1, 1, 0, 1];
+            const d = delaunay2.triangulate(delaunay2.create(), points, [0, 1, 1, 2]);
+
+            let constrainedCount = 0;
+            for (const c of d.constrained) {
+                if (c) constrainedCount++;
+            }
+            expect(constrainedCount).toBe(2);
+        });
+
+        it('throws on crossing constrained edges', () => {
+            const points = [0, 0, 2, 0, 2, 2, 0, 2];
+            expect(() => delaunay2.triangulate(delaunay2.create(), points, [0, 2, 1, 3])).toThrow();
+        });
+    });
+});
@@ -0,0 +1,211 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { type Box3, box3, createMulberry32Generator, dynamicTree3, raycast3 } from '../';
+
+function randomBox(random: () => number): Box3 {
+    const x = random() * 100 - 50;
+    const y = random() * 100 - 50;
+    const z = random() * 100 - 50;
+    return [x, y, z, x + random() * 4, y + random() * 4, z + random() * 4];
+}
+
+/** checks parent links, heights, bounds and balance of every node reachable from the root */
+function validate(tree: dynamicTree3.DynamicTree3): number {
+    let leafCount = 0;
+    const stack = [tree.root];
+    const parentBox = box3.create();
+    const childBox = box3.create();
+
+    while (stack.size() > 0) {
+        const node = stack.pop()!;
+        if (node === -1) continue;
+
+        const child1 = tree.children[node * 2];
+        const child2 = tree.children[node * 2 + 1];
+
+        if (child1 === -1) {
+            expect(tree.heights[node]).toBe(0);
+            leafCount++;
+            continue;
+        }
+
+        expect(tree.parents[child1]).toBe(node);
+        expect(tree.parents[child2]).toBe(node);
+        expect(tree.heights[node]).toBe(1 + math.max(tree.heights[child1], tree.heights[child2]));
+        expect(math.abs(tree.heights[child1] - tree.heights[child2])).toBeLessThanOrEqual(1);
+
+        dynamicTree3.getFatBox3(parentBox, tree, node);
+        expect(box3.containsBox3(parentBox, dynamicTree3.getFatBox3(childBox, tree, child1))).toBe(true);
+        expect(box3.containsBox3(parentBox, dynamicTree3.getFatBox3(childBox, tree, child2))).toBe(true);
+
+        stack.push(child1, child2);
+    }
+
+    return leafCount;
+}
+
+function sorted(values: number[]): number[] {
+    const copy = [...values];
+    copy.sort((a, b) => a < b);
+    return copy;
+}
+
+describe('dynamicTree3', () => {
+    describe('createProxy and destroyProxy', () => {
+        it('stores fat boxes enlarged by the margin', () => {
+            const tree = dynamicTree3.create(0.5);
+            const proxy = dynamicTree3.createProxy(tree, [0, 0, 0, 1, 1, 1]);
+            expect(dynamicTree3.getFatBox3(box3.create(), tree, proxy)).toEqual([-0.5, -0.5, -0.5, 1.5, 1.5, 1.5]);
+            expect(dynamicTree3.getHeight(tree)).toBe(0);
+        });
+
+        it('keeps the tree balanced and valid under inserts and removals', () => {
+            const random = createMulberry32Generator(1);
+            const tree = dynamicTree3.create();
+            const proxies: number[] = [];
+
+            for (let i = 0; i < 200; i++) {
+                proxies.push(dynamicTree3.createProxy(tree, randomBox(random)));
+            }
+            expect(validate(tree)).toBe(200);
+
+            for (let i = 0; i < 100; i++) {
+                dynamicTree3.destroyProxy(tree, proxies[i * 2]);
+            }
+            expect(validate(tree)).toBe(100);
+
+            // freed nodes are reused
+            const nodeCount = tree.heights.size();
+            for (let i = 0; i < 50; i++) {
+                dynamicTree3.createProxy(tree, randomBox(random));
+            }
+            expect(tree.heights.size()).toBe(nodeCount);
+            expect(validate(tree)).toBe(150);
+        });
+
+        it('rebalances sorted inserts', () => {
+            const tree = dynamicTree3.create();
+            for (let i = 0; i < 256; i++) {
+                dynamicTree3.createProxy(tree, [i, 0, 0, i + 0.5, 0.5, 0.5]);
+            }
+            expect(validate(tree)).toBe(256);
+            expect(dynamicTree3.getHeight(tree)).toBeLessThanOrEqual(16);
+        });
+
+        it('empties the tree when the last proxy is destroyed', () => {
+            const tree = dynamicTree3.create();
+            const proxy = dynamicTree3.createProxy(tree, [0, 0, 0, 1, 1, 1]);
+            dynamicTree3.destroyProxy(tree, proxy);
+            expect(tree.root).toBe(-1);
+            expect(dynamicTree3.queryBox3([], tree, [-10, -10, -10, 10, 10, 10]).size()).toBe(0);
+        });
+    });
+
+    describe('moveProxy', () => {
+        it('does not reinsert small moves inside the fat box', () => {
+            const tree = dynamicTree3.create(0.5);
+            const proxy = dynamicTree3.createProxy(tree, [0, 0, 0, 1, 1, 1]);
+            expect(dynamicTree3.moveProxy(tree, proxy, [0.1, 0, 0, 1.1, 1, 1], [0.1, 0, 0])).toBe(false);
+            expect(dynamicTree3.getFatBox3(box3.create(), tree, proxy)).toEqual([-0.5, -0.5, -0.5, 1.5, 1.5, 1.5]);
+        });
+
+        it('reinserts and predicts displacement for moves leaving the fat box', () => {
+            const tree = dynamicTree3.create(0.5, 4);
+            const proxy = dynamicTree3.createProxy(tree, [0, 0, 0, 1, 1, 1]);
+            dynamicTree3.createProxy(tree, [10, 0, 0, 11, 1, 1]);
+
+            expect(dynamicTree3.moveProxy(tree, proxy, [1, 0, 0, 2, 1, 1], [1, 0, 0])).toBe(true);
+            expect(dynamicTree3.getFatBox3(box3.create(), tree, proxy)).toEqual([0.5, -0.5, -0.5, 6.5, 1.5, 1.5]);
+            expect(validate(tree)).toBe(2);
+        });
+
+        it('shrinks fat boxes that have become too large', () => {
+            const tree = dynamicTree3.create(0.5, 4);
+            const proxy = dynamicTree3.createProxy(tree, [0, 0, 0, 1, 1, 1]);
+            dynamicTree3.moveProxy(tree, proxy, [2, 0, 0, 3, 1, 1], [10, 0, 0]);
+            expect(dynamicTree3.moveProxy(tree, proxy, [2, 0, 0, 3, 1, 1], [0, 0, 0])).toBe(true);
+            expect(dynamicTree3.getFatBox3(box3.create(), tree, proxy)).toEqual([1.5, -0.5, -0.5, 3.5, 1.5, 1.5]);
+        });
+    });
+
+    describe('queries', () => {
+        const random = createMulberry32Generator(2);
+        const tree = dynamicTree3.create();
+        const boxes: Box3[] = [];
+        const proxies: number[] = [];
+        for (let i = 0; i < 300; i++) {
+            const box = randomBox(random);
+            boxes.push(box);
+            proxies.push(dynamicTree3.createProxy(tree, box));
+        }
+
+        it('queryBox3 matches a brute force search over fat boxes', () => {
+            const query: Box3 = [-10, -10, -10, 15, 5, 20];
+            const fatBox = box3.create();
+            const expected: number[] = [];
+            for (const proxy of proxies) {
+                if (box3.intersectsBox3(dynamicTree3.getFatBox3(fatBox, tree, proxy), query)) expected.push(proxy);
+            }
+            expect(expected.size() > 0).toBe(true);
+            expect(sorted(dynamicTree3.queryBox3([], tree, query))).toEqual(sorted(expected));
+        });
+
+        it('queryPairs reports every overlapping pair once', () => {
+            const fatA = box3.create();
+            const fatB = box3.create();
+            let expected = 0;
+            for (let i = 0; i < proxies.size(); i++) {
+                for (let j = i + 1; j < proxies.size(); j++) {
+                    dynamicTree3.getFatBox3(fatA, tree, proxies[i]);
+                    dynamicTree3.getFatBox3(fatB, tree, proxies[j]);
+                    if (box3.intersectsBox3(fatA, fatB)) expected++;
+                }
+            }
+
+            const pairs = dynamicTree3.queryPairs([], tree);
+            expect(pairs.size()).toBe(expected * 2);
+            for (let i = 0; i < pairs.size(); i += 2) {
+                expect(pairs[i] < pairs[i + 1]).toBe(true);
+                dynamicTree3.getFatBox3(fatA, tree, pairs[i]);
+                dynamicTree3.getFatBox3(fatB, tree, pairs[i + 1]);
+                expect(box3.intersectsBox3(fatA, fatB)).toBe(true);
+            }
+        });
+
+        it('raycast finds the closest box by clipping the ray', () => {
+            const ray = raycast3.fromValues([-60, 10, 10], [1, 0, 0], 120);
+            const result = raycast3.createIntersectsBox3Result();
+
+            let expected = -1;
+            let expectedFraction = math.huge;
+            boxes.forEach((box, i) => {
+                raycast3.intersectsBox3WithResult(result, ray, box);
+                if (result.hit && result.fractionNear < expectedFraction) {
+                    expected = proxies[i];
+                    expectedFraction = result.fractionNear;
+                }
+            });
+
+            let closest = -1;
+            let calls = 0;
+            dynamicTree3.raycast(tree, ray, (proxy, clipped) => {
+                calls++;
+                raycast3.intersectsBox3WithResult(result, clipped, boxes[proxies.indexOf(proxy)]);
+                if (!result.hit) return -1;
+                closest = proxy;
+                return result.fractionNear * clipped.length;
+            });
+
+            expect(closest).toBe(expected);
+            expect(calls).toBeLessThan(300);
+        });
+
+        it('raycast stops when the callback returns 0', () => {
+            let calls = 0;
+            dynamicTree3.raycast(tree, raycast3.fromValues([-60, 0, 0], [1, 0, 0], 120), () => {
+                calls++;
+                return 0;
+            });
+            expect(calls).toBeLessThanOrEqual(1);
+        });
+    });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { createMulberry32Generator, frustum3, type Mat4, mat4, obb3, quat, sphere, type Vec3, type Vec4, vec4 } from '../';
+
+function viewProjection(projection: Mat4): Mat4 {
+    const view = mat4.lookAt(mat4.create(), [0, 0, 5], [0, 0, 0], [0, 1, 0]);
+    return mat4.multiply(mat4.create(), projection, view);
+}
+
+describe('frustum3', () => {
+    const frustum = frustum3.fromMat4(frustum3.create(), viewProjection(mat4.perspective(mat4.create(), math.pi / 2, 1, 1, 10)));
+
+    describe('fromMat4', () => {
+        it('extracts normalized planes facing into the frustum', () => {
+            const near = frustum[4];
+            expect(near.normal[2]).toBeCloseTo(-1);
+            expect(near.constant).toBeCloseTo(4);
+
+            const far = frustum[5];
+            expect(far.normal[2]).toBeCloseTo(1);
+            expect(far.constant).toBeCloseTo(5);
+
+            const left = frustum[0];
+            expect(left.normal[0]).toBeCloseTo(1 / math.sqrt(2));
+            expect(left.normal[2]).toBeCloseTo(-1 / math.sqrt(2));
+        });
+
+        it('extracts the same planes for both clip depth ranges', () => {
+            const zo = frustum3.fromMat4(
+                frustum3.create(),
+                viewProjection(mat4.perspectiveZO(mat4.create(), math.pi / 2, 1, 1, 10)),
+                'zero-to-one',
+            );
+
+            for (let i = 0; i < 6; i++) {
+                expect(zo[i].normal[0]).toBeCloseTo(frustum[i].normal[0]);
+                expect(zo[i].normal[1]).toBeCloseTo(frustum[i].normal[1]);
+                expect(zo[i].normal[2]).toBeCloseTo(frustum[i].normal[2]);
+                expect(zo[i].constant).toBeCloseTo(frustum[i].constant);
+            }
+        });
+
+        it('agrees with clip space for perspective and orthographic projections', () => {
+            const random = createMulberry32Generator(12);
+            const cases: [Mat4, frustum3.ClipDepth][] = [
+                [viewProjection(mat4.perspectiveNO(mat4.create(), 1, 1.5, 0.5, 20)), 'negative-one-to-one'],
+                [viewProjection(mat4.perspectiveZO(mat4.create(), 1, 1.5, 0.5, 20)), 'zero-to-one'],
+                [viewProjection(mat4.orthoNO(mat4.create(), -3, 2, -1, 4, 1, 8)), 'negative-one-to-one'],
+                [viewProjection(mat4.orthoZO(mat4.create(), -3, 2, -1, 4, 1, 8)), 'zero-to-one'],
+            ];
+            const clip: Vec4 = [0, 0, 0, 0];
+
+            for (const [matrix, clipDepth] of cases) {
+                const planes = frustum3.fromMat4(frustum3.create(), matrix, clipDepth);
+                const minZ = clipDepth === 'zero-to-one' ? 0 : -1;
+                let inside = 0;
+
+                for (let i = 0; i < 200; i++) {
+                    const point: Vec3 = [random() * 8 - 4, random() * 8 - 4, random() * 21 - 16];
+                    vec4.transformMat4(clip, [point[0], point[1], point[2], 1], matrix);
+                    const w = clip[3];
+                    const expected = math.abs(clip[0]) <= w && math.abs(clip[1]) <= w && clip[2] >= minZ * w && clip[2] <= w;
+
+                    expect(frustum3.containsPoint(planes, point)).toBe(expected);
+                    if (expected) inside++;
+                }
+
+                expect(inside).toBeGreaterThan(5);
+            }
+        });
+
+        it('contains everything beyond the near plane of an infinite projection', () => {
+            const infinite = frustum3.fromMat4(
+                frustum3.create(),
+                viewProjection(mat4.perspective(mat4.create(), math.pi / 2, 1, 1, math.huge)),
+            );
+            expect(frustum3.containsPoint(infinite, [0, 0, -1e6])).toBe(true);
+            expect(frustum3.containsPoint(infinite, [0, 0, 4.5])).toBe(false);
+        });
+    });
+
+    describe('points', () => {
+        it('classifies points', () => {
+            expect(frustum3.containsPoint(frustum, [0, 0, 0])).toBe(true);
+            expect(frustum3.containsPoint(frustum, [4, 0, 0])).toBe(true);
+            expect(frustum3.containsPoint(frustum, [6, 0, 0])).toBe(false);
+            expect(frustum3.containsPoint(frustum, [0, 0, 4.5])).toBe(false);
+            expect(frustum3.containsPoint(frustum, [0, 0, -6])).toBe(false);
+
+            expect(frustum3.classifyPoint(frustum, [0, 1, 0])).toBe('inside');
+            expect(frustum3.classifyPoint(frustum, [0, 20, 0])).toBe('outside');
+        });
+    });
+
+    describe('spheres', () => {
+        it('classifies spheres', () => {
+            expect(frustum3.classifySphere(frustum, sphere.fromValues([0, 0, 0], 1))).toBe('inside');
+            expect(frustum3.classifySphere(frustum, sphere.fromValues([0, 0, -5], 1))).toBe('intersecting');
+            expect(frustum3.classifySphere(frustum, sphere.fromValues([0, 0, -7], 1))).toBe('outside');
+            expect(frustum3.intersectsSphere(frustum, sphere.fromValues([0, 0, -5], 1))).toBe(true);
+            expect(frustum3.intersectsSphere(frustum, sphere.fromValues([10, 0, 0], 1))).toBe(false);
+        });
+    });
+
+    describe('boxes', () => {
+        it('classifies axis-aligned boxes', () => {
+            expect(frustum3.classifyBox3(frustum, [-1, -1, -1, 1, 1, 1])).toBe('inside');
+            expect(frustum3.classifyBox3(frustum, [-1, -1, 3, 1, 1, 6])).toBe('intersecting');
+            expect(frustum3.classifyBox3(frustum, [6, -1, -1, 8, 1, 1])).toBe('outside');
+            expect(frustum3.intersectsBox3(frustum, [4, -1, -1, 8, 1, 1])).toBe(true);
+            expect(frustum3.intersectsBox3(frustum, [-1, -1, -8, 1, 1, -6])).toBe(false);
+        });
+
+        it('classifies oriented boxes', () => {
+            const rotation = quat.setAxisAngle(quat.create(), [0, 0, 1], math.pi / 4);
+            const obb = obb3.setFromCenterHalfExtentsQuaternion(obb3.create(), [0, 0, 0], [1, 1, 1], rotation);
+            expect(frustum3.classifyOBB3(frustum, obb)).toBe('inside');
+
+            // the rotated corner reaches across the right plane at x = 5
+            obb3.setFromCenterHalfExtentsQuaternion(obb, [4, 0, 0], [1, 1, 0.1], rotation);
+            expect(frustum3.classifyOBB3(frustum, obb)).toBe('intersecting');
+            expect(frustum3.intersectsOBB3(frustum, obb)).toBe(true);
+
+            obb3.setFromCenterHalfExtentsQuaternion(obb, [7, 0, 0], [1, 1, 0.1], rotation);
+            expect(frustum3.classifyOBB3(frustum, obb)).toBe('outside');
+            expect(frustum3.intersectsOBB3(frustum, obb)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,214 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { createMulberry32Generator, gjk, obb3, quat, quickhull3, sphere, type Vec3, vec3 } from '../';
+
+function cube(center: Vec3, halfSize: number): number[] {
+    const points: number[] = [];
+    for (const x of [-1, 1]) {
+        for (const y of [-1, 1]) {
+            for (const z of [-1, 1]) {
+                points.push(center[0] + x * halfSize, center[1] + y * halfSize, center[2] + z * halfSize);
+            }
+        }
+    }
+    return points;
+}
+
+describe('gjk', () => {
+    describe('support functions', () => {
+        it('returns the furthest point of each shape', () => {
+            const out: Vec3 = [0, 0, 0];
+
+            gjk.sphereSupport(sphere.fromValues([1, 0, 0], 2))(out, [0, 3, 0]);
+            expect(out).toEqual([1, 2, 0]);
+
+            gjk.box3Support([0, 0, 0, 1, 2, 3])(out, [-1, 1, -1]);
+            expect(out).toEqual([0, 2, 0]);
+
+            gjk.triangleSupport([0, 0, 0], [1, 0, 0], [0, 1, 0])(out, [0, 1, 0]);
+            expect(out).toEqual([0, 1, 0]);
+
+            gjk.capsuleSupport([0, 0, 0], [0, 4, 0], 1)(out, [0, 0, -2]);
+            expect(out).toEqual([0, 0, -1]);
+
+            gjk.hullSupport(cube([0, 0, 0], 1))(out, [1, 1, -1]);
+            expect(out).toEqual([1, 1, -1]);
+        });
+
+        it('returns rim points of cylinders and cones', () => {
+            const out: Vec3 = [0, 0, 0];
+
+            gjk.cylinderSupport([0, 0, 0], [0, 2, 0], 1)(out, [1, 1, 0]);
+            expect(out).toEqual([1, 2, 0]);
+
+            gjk.cylinderSupport([0, 0, 0], [0, 2, 0], 1)(out, [0, -1, 0]);
+            expect(out).toEqual([0, 0, 0]);
+
+            gjk.coneSupport([0, 2, 0], [0, 0, 0], 1)(out, [0, 1, 0]);
+            expect(out).toEqual([0, 2, 0]);
+
+            gjk.coneSupport([0, 2, 0], [0, 0, 0], 1)(out, [0, 1, -3]);
+            expect(out).toEqual([0, 0, -1]);
+        });
+
+        it('rotates the corners of an oriented box', () => {
+            const obb = obb3.setFromCenterHalfExtentsQuaternion(
+                obb3.create(),
+                [0, 0, 0],
+                [1, 1, 1],
+                quat.setAxisAngle(quat.create(), [0, 0, 1], math.pi / 4),
+            );
+            const out = gjk.obb3Support(obb)([0, 0, 0], [1, 0, 0]);
+            expect(out[0]).toBeCloseTo(math.sqrt(2));
+            expect(out[1]).toBeCloseTo(0);
+        });
+    });
+
+    describe('distance', () => {
+        it('computes the distance and closest points between spheres', () => {
+            const result = gjk.createDistanceResult();
+            gjk.distance(
+                result,
+                gjk.sphereSupport(sphere.fromValues([0, 0, 0], 1)),
+                gjk.sphereSupport(sphere.fromValues([5, 0, 0], 2)),
+            );
+            expect(result.intersecting).toBe(false);
+            expect(result.distance).toBeCloseTo(2);
+            expect(result.pointA[0]).toBeCloseTo(1);
+            expect(result.pointB[0]).toBeCloseTo(3);
+        });
+
+        it('computes the distance between boxes', () => {
+            const result = gjk.createDistanceResult();
+            gjk.distance(result, gjk.box3Support([0, 0, 0, 1, 1, 1]), gjk.box3Support([3, 0.5, 0.5, 4, 2, 2]));
+            expect(result.intersecting).toBe(false);
+            expect(result.distance).toBeCloseTo(2);
+            expect(result.pointA[0]).toBeCloseTo(1);
+            expect(result.pointB[0]).toBeCloseTo(3);
+        });
+
+        it('computes the distance between a point-like sphere and a triangle face', () => {
+            const result = gjk.createDistanceResult();
+            gjk.distance(
+                result,
+                gjk.triangleSupport([0, 0, 0], [4, 0, 0], [0, 4, 0]),
+                gjk.sphereSupport(sphere.fromValues([1, 1, 3], 0.5)),
+            );
+            expect(result.distance).toBeCloseTo(2.5);
+            expect(result.pointA[0]).toBeCloseTo(1);
+            expect(result.pointA[1]).toBeCloseTo(1);
+            expect(result.pointA[2]).toBeCloseTo(0);
+        });
+
+        it('computes the distance between capsules', () => {
+            const result = gjk.createDistanceResult();
+            gjk.distance(result, gjk.capsuleSupport([0, 0, 0], [0, 4, 0], 0.5), gjk.capsuleSupport([3, 2, -2], [3, 2, 2], 0.5));
+            expect(result.distance).toBeCloseTo(2);
+        });
+
+        it('reports intersecting shapes', () => {
+            const result = gjk.createDistanceResult();
+            gjk.distance(result, gjk.box3Support([0, 0, 0, 2, 2, 2]), gjk.sphereSupport(sphere.fromValues([2, 1, 1], 0.5)));
+            expect(result.intersecting).toBe(true);
+            expect(result.distance).toBe(0);
+        });
+
+        it('matches the sphere distance for random hull vs sphere pairs', () => {
+            const random = createMulberry32Generator(1);
+            const points = cube([0, 0, 0], 1);
+            const hull = quickhull3(points);
+            const result = gjk.createDistanceResult();
+
+            for (let i = 0; i < 20; i++) {
+                const direction = vec3.normalize(vec3.create(), [random() - 0.5, random() - 0.5, random() - 0.5]);
+                // a sphere centered beyond a face, edge or corner of the cube
+                const center = vec3.scale(vec3.create(), direction, 5);
+                const clamped: Vec3 = [math.clamp(center[0], -1, 1), math.clamp(center[1], -1, 1), math.clamp(center[2], -1, 1)];
+                gjk.distance(result, gjk.hullSupport(points, hull), gjk.sphereSupport(sphere.fromValues(center, 1)));
+                expect(result.distance).toBeCloseTo(vec3.distance(center, clamped) - 1, 3);
+            }
+        });
+    });
+
+    describe('intersects', () => {
+        it('detects overlap and separation', () => {
+            const a = gjk.obb3Support(
+                obb3.setFromCenterHalfExtentsQuaternion(
+                    obb3.create(),
+                    [0, 0, 0],
+                    [1, 1, 1],
+                    quat.setAxisAngle(quat.create(), [0, 1, 0], math.pi / 4),
+                ),
+            );
+            expect(gjk.intersects(a, gjk.sphereSupport(sphere.fromValues([1.8, 0, 0], 0.5)))).toBe(true);
+            expect(gjk.intersects(a, gjk.sphereSupport(sphere.fromValues([2, 0, 0], 0.5)))).toBe(false);
+        });
+    });
+
+    describe('penetration', () => {
+        it('computes the penetration of overlapping spheres', () => {
+            const result = gjk.createPenetrationResult();
+            gjk.penetration(
+                result,
+                gjk.sphereSupport(sphere.fromValues([0, 0, 0], 1)),
+                gjk.sphereSupport(sphere.fromValues([1.5, 0, 0], 1)),
+            );
+            expect(result.intersecting).toBe(true);
+            expect(result.depth).toBeCloseTo(0.5, 2);
+            expect(result.normal[0]).toBeCloseTo(1, 2);
+            expect(result.pointA[0]).toBeCloseTo(1, 2);
+            expect(result.pointB[0]).toBeCloseTo(0.5, 2);
+        });
+
+        it('computes the penetration of overlapping boxes along the shallowest axis', () => {
+            const result = gjk.createPenetrationResult();
+            gjk.penetration(result, gjk.box3Support([0, 0, 0, 2, 2, 2]), gjk.box3Support([1.5, -1, 0.5, 3.5, 3, 1.5]));
+            expect(result.intersecting).toBe(true);
+            expect(result.depth).toBeCloseTo(0.5);
+            expect(result.normal).toEqual([1, 0, 0]);
+            expect(result.pointA[0] - result.pointB[0]).toBeCloseTo(0.5);
+        });
+
+        it('separates the shapes when B is moved by normal * depth', () => {
+            const boxA = gjk.box3Support([0, 0, 0, 2, 2, 2]);
+            const s = sphere.fromValues([1, 1, 2.2], 0.6);
+            const result = gjk.createPenetrationResult();
+            gjk.penetration(result, boxA, gjk.sphereSupport(s));
+            expect(result.depth).toBeCloseTo(0.4, 2);
+            expect(result.normal[2]).toBeCloseTo(1, 2);
+
+            vec3.scaleAndAdd(s.center, s.center, result.normal, result.depth + 1e-3);
+            expect(gjk.intersects(boxA, gjk.sphereSupport(s))).toBe(false);
+        });
+
+        it('handles shapes that touch at a single point', () => {
+            const result = gjk.createPenetrationResult();
+            gjk.penetration(result, gjk.box3Support([0, 0, 0, 1, 1, 1]), gjk.box3Support([1, 1, 1, 2, 2, 2]));
+            expect(result.intersecting).toBe(true);
+            expect(result.depth).toBeCloseTo(0);
+        });
+
+        it('reports the negated distance for separated shapes', () => {
+            const result = gjk.createPenetrationResult();
+            gjk.penetration(
+                result,
+                gjk.sphereSupport(sphere.fromValues([0, 0, 0], 1)),
+                gjk.sphereSupport(sphere.fromValues([0, 4, 0], 1)),
+            );
+            expect(result.intersecting).toBe(false);
+            expect(result.depth).toBeCloseTo(-2);
+            expect(result.normal[1]).toBeCloseTo(1);
+        });
+
+        it('reports zero depth for coplanar triangles', () => {
+            const result = gjk.createPenetrationResult();
+            gjk.penetration(
+                result,
+                gjk.triangleSupport([0, 0, 0], [2, 0, 0], [0, 2, 0]),
+                gjk.triangleSupport([0.5, 0.5, 0], [3, 0.5, 0], [0.5, 3, 0]),
+            );
+            expect(result.intersecting).toBe(true);
+            expect(result.depth).toBe(0);
+            expect(math.abs(result.normal[2])).toBeCloseTo(1);
+        });
+    });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { type Box3, convexHull3, createMulberry32Generator, gjk, hull3, raycast3, type Vec3, vec3 } from '../';
+
+// cube with half extents of 1 centered at the origin, plus an interior point
+const CUBE_POINTS = [-1, -1, -1, 1, -1, -1, -1, 1, -1, 1, 1, -1, -1, -1, 1, 1, -1, 1, -1, 1, 1, 1, 1, 1, 0.2, 0.3, -0.1];
+const CUBE = convexHull3(CUBE_POINTS);
+
+// |x| + |y| + |z| <= 1
+const OCTAHEDRON_POINTS = [1, 0, 0, -1, 0, 0, 0, 1, 0, 0, -1, 0, 0, 0, 1, 0, 0, -1];
+const OCTAHEDRON = convexHull3(OCTAHEDRON_POINTS);
+
+describe('hull3', () => {
+    describe('containsPoint', () => {
+        it('tests points inside, on and outside the boundary', () => {
+            expect(hull3.containsPoint(CUBE, [0, 0, 0])).toBe(true);
+            expect(hull3.containsPoint(CUBE, [1, 0.5, -0.5])).toBe(true);
+            expect(hull3.containsPoint(CUBE, [1.01, 0, 0])).toBe(false);
+            expect(hull3.containsPoint(CUBE, [1.01, 0, 0], 0.1)).toBe(true);
+            expect(hull3.containsPoint(OCTAHEDRON, [0.3, 0.3, 0.3])).toBe(true);
+            expect(hull3.containsPoint(OCTAHEDRON, [0.4, 0.4, 0.4])).toBe(false);
+        });
+
+        it('contains no points for empty and flat hulls', () => {
+            const flat = convexHull3([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0]);
+            expect(hull3.containsPoint(flat, [0.5, 0.5, 0])).toBe(false);
+            expect(hull3.containsPoint(convexHull3([]), [0, 0, 0])).toBe(false);
+        });
+    });
+
+    describe('distanceToPoint', () => {
+        it('measures distance to faces, edges and corners', () => {
+            expect(hull3.distanceToPoint(CUBE, CUBE_POINTS, [3, 0, 0])).toBeCloseTo(2);
+            expect(hull3.distanceToPoint(CUBE, CUBE_POINTS, [2, 2, 0])).toBeCloseTo(math.sqrt(2));
+            expect(hull3.distanceToPoint(CUBE, CUBE_POINTS, [2, 2, 2])).toBeCloseTo(math.sqrt(3));
+        });
+
+        it('returns negative distances inside', () => {
+            expect(hull3.distanceToPoint(CUBE, CUBE_POINTS, [0, 0, 0])).toBeCloseTo(-1);
+            expect(hull3.distanceToPoint(CUBE, CUBE_POINTS, [0.5, 0, 0.8])).toBeCloseTo(-0.2);
+        });
+
+        it('measures distance to flat hulls', () => {
+            const points = [0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0];
+            const flat = convexHull3(points);
+            expect(hull3.distanceToPoint(flat, points, [0.5, 0.5, 2])).toBeCloseTo(2);
+            expect(hull3.distanceToPoint(flat, points, [2, 0.5, 0])).toBeCloseTo(1);
+        });
+
+        it('returns the closest point on the surface', () => {
+            const out = hull3.closestPoint(vec3.create(), CUBE, CUBE_POINTS, [3, 0.5, 4]);
+            expect(out[0]).toBeCloseTo(1);
+            expect(out[1]).toBeCloseTo(0.5);
+            expect(out[2]).toBeCloseTo(1);
+        });
+    });
+
+    describe('intersectsRay', () => {
+        it('hits the entry face with its normal', () => {
+            const out = raycast3.createIntersectsShapeResult();
+            hull3.intersectsRay(out, raycast3.fromValues([-5, 0.2, 0.3], [1, 0, 0], 10), CUBE);
+
+            expect(out.hit).toBe(true);
+            expect(out.fraction).toBeCloseTo(0.4);
+            expect(out.point[0]).toBeCloseTo(-1);
+            expect(out.normal[0]).toBeCloseTo(-1);
+            expect(out.normal[1]).toBeCloseTo(0);
+        });
+
+        it('hits a slanted face', () => {
+            const out = raycast3.createIntersectsShapeResult();
+            hull3.intersectsRay(out, raycast3.fromValues([0.2, 0.2, 5], [0, 0, -1], 10), OCTAHEDRON);
+
+            expect(out.hit).toBe(true);
+            expect(out.point[2]).toBeCloseTo(0.6);
+            const n = 1 / math.sqrt(3);
+            expect(out.normal[0]).toBeCloseTo(n);
+            expect(out.normal[1]).toBeCloseTo(n);
+            expect(out.normal[2]).toBeCloseTo(n);
+        });
+
+        it('misses rays passing beside, pointing away or ending short', () => {
+            const out = raycast3.createIntersectsShapeResult();
+            hull3.intersectsRay(out, raycast3.fromValues([-5, 1.5, 0], [1, 0, 0], 10), CUBE);
+            expect(out.hit).toBe(false);
+            hull3.intersectsRay(out, raycast3.fromValues([-5, 0, 0], [-1, 0, 0], 10), CUBE);
+            expect(out.hit).toBe(false);
+            hull3.intersectsRay(out, raycast3.fromValues([-5, 0, 0], [1, 0, 0], 3), CUBE);
+            expect(out.hit).toBe(false);
+        });
+
+        it('hits at fraction 0 for rays starting inside', () => {
+            const out = raycast3.createIntersectsShapeResult();
+            hull3.intersectsRay(out, raycast3.fromValues([0, 0, 0], [0, 1, 0], 10), CUBE);
+
+            expect(out.hit).toBe(true);
+            expect(out.fraction).toBe(0);
+            expect(out.normal[1]).toBeCloseTo(-1);
+        });
+
+        it('matches containsPoint along random rays', () => {
+            const random = createMulberry32Generator(7);
+            const out = raycast3.createIntersectsShapeResult();
+            const direction: Vec3 = [0, 0, 0];
+
+            for (let i = 0; i < 100; i++) {
+                const origin: Vec3 = [random() * 6 - 3, random() * 6 - 3, random() * 6 - 3];
+                vec3.normalize(direction, [random() - 0.5, random() - 0.5, random() - 0.5]);
+                hull3.intersectsRay(out, raycast3.fromValues(origin, direction, 10), OCTAHEDRON);
+
+                if (out.hit) {
+                    expect(hull3.containsPoint(OCTAHEDRON, out.point, 1e-6)).toBe(true);
+                    expect(hull3.distanceToPoint(OCTAHEDRON, OCTAHEDRON_POINTS, out.point)).toBeLessThanOrEqual(1e-6);
+                }
+            }
+        });
+    });
+
+    describe('intersectsBox3', () => {
+        it('detects overlapping, touching and separated boxes', () => {
+            expect(hull3.intersectsBox3(OCTAHEDRON, OCTAHEDRON_POINTS, [-0.1, -0.1, -0.1, 0.1, 0.1, 0.1])).toBe(true);
+            expect(hull3.intersectsBox3(OCTAHEDRON, OCTAHEDRON_POINTS, [1, -1, -1, 2, 1, 1])).toBe(true);
+            expect(hull3.intersectsBox3(OCTAHEDRON, OCTAHEDRON_POINTS, [1.1, -1, -1, 2, 1, 1])).toBe(false);
+        });
+
+        it('separates boxes by a hull face inside the hull bounds', () => {
+            expect(hull3.intersectsBox3(OCTAHEDRON, OCTAHEDRON_POINTS, [0.6, 0.6, -0.1, 1, 1, 0.1])).toBe(false);
+        });
+
+        it('agrees with gjk for random boxes', () => {
+            const random = createMulberry32Generator(11);
+            const hullSupport = gjk.hullSupport(OCTAHEDRON_POINTS);
+
+            for (let i = 0; i < 200; i++) {
+                const x = random() * 3 - 1.5;
+                const y = random() * 3 - 1.5;
+                const z = random() * 3 - 1.5;
+                const box: Box3 = [x, y, z, x + random() * 0.5, y + random() * 0.5, z + random() * 0.5];
+                const expected = gjk.intersects(hullSupport, gjk.box3Support(box));
+                expect(hull3.intersectsBox3(OCTAHEDRON, OCTAHEDRON_POINTS, box)).toBe(expected);
+            }
+        });
+    });
+
+    describe('intersectsSphere', () => {
+        it('detects spheres near faces and corners', () => {
+            expect(hull3.intersectsSphere(CUBE, CUBE_POINTS, { center: [0, 0, 0], radius: 0.1 })).toBe(true);
+            expect(hull3.intersectsSphere(CUBE, CUBE_POINTS, { center: [1.5, 0, 0], radius: 0.6 })).toBe(true);
+            expect(hull3.intersectsSphere(CUBE, CUBE_POINTS, { center: [1.5, 0, 0], radius: 0.4 })).toBe(false);
+            // within reach of each face plane but not of the corner
+            expect(hull3.intersectsSphere(CUBE, CUBE_POINTS, { center: [1.5, 1.5, 1.5], radius: 0.8 })).toBe(false);
+            expect(hull3.intersectsSphere(CUBE, CUBE_POINTS, { center: [1.5, 1.5, 1.5], radius: 0.9 })).toBe(true);
+        });
+    });
+});
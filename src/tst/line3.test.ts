@@ -0,0 +1,53 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { line3, plane3, segment3, type Vec2, vec3 } from '../';
+
+describe('line3', () => {
+    describe('closestPoint', () => {
+        it('projects points beyond the origin in both directions', () => {
+            const line = line3.fromValues([1, 0, 0], [2, 0, 0]);
+            expect(line3.closestPointParameter(line, [5, 3, 0])).toBeCloseTo(2);
+            expect(line3.closestPointParameter(line, [-3, 3, 0])).toBeCloseTo(-2);
+            expect(line3.closestPoint(vec3.create(), line, [-3, 3, 0])).toEqual([-3, 0, 0]);
+            expect(line3.distanceToPoint(line, [7, 3, 4])).toBeCloseTo(5);
+        });
+
+        it('extends segments', () => {
+            const line = line3.fromSegment(line3.create(), segment3.fromValues([0, 1, 0], [0, 3, 0]));
+            expect(line.direction).toEqual([0, 2, 0]);
+            expect(line3.at(vec3.create(), line, -1)).toEqual([0, -1, 0]);
+        });
+    });
+
+    describe('closestPointParameters', () => {
+        it('finds the parameters of skew lines', () => {
+            const a = line3.fromValues([0, 0, 0], [1, 0, 0]);
+            const b = line3.fromValues([5, -1, 2], [0, 2, 0]);
+            const out: Vec2 = [0, 0];
+
+            expect(line3.closestPointParameters(out, a, b)).toBe(true);
+            expect(out[0]).toBeCloseTo(5);
+            expect(out[1]).toBeCloseTo(0.5);
+        });
+
+        it('reports parallel lines', () => {
+            const out: Vec2 = [0, 0];
+            const a = line3.fromValues([0, 0, 0], [1, 0, 0]);
+            const b = line3.fromValues([3, 1, 0], [-2, 0, 0]);
+
+            expect(line3.closestPointParameters(out, a, b)).toBe(false);
+            expect(out[0]).toBe(0);
+            expect(out[1]).toBeCloseTo(1.5);
+        });
+    });
+
+    describe('intersectPlane3', () => {
+        it('intersects planes behind and ahead of the origin', () => {
+            const plane = plane3.fromNormalAndPoint(plane3.create(), [0, 1, 0], [0, 2, 0]);
+            const out = vec3.create();
+
+            expect(line3.intersectPlane3(out, line3.fromValues([1, 5, 0], [0, 1, 1]), plane)).toBe(true);
+            expect(out).toEqual([1, 2, -3]);
+            expect(line3.intersectPlane3(out, line3.fromValues([0, 0, 0], [1, 0, 0]), plane)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { convexHull3, massProperties3, mat3, type Quat, quat, quickhull3, vec3 } from '../';
+
+function boxPoints(min: number[], max: number[]): number[] {
+    const points: number[] = [];
+    for (let i = 0; i < 8; i++) {
+        points.push(i % 2 < 1 ? min[0] : max[0], i % 4 < 2 ? min[1] : max[1], i < 4 ? min[2] : max[2]);
+    }
+    return points;
+}
+
+function transformPoints(points: number[], rotation: Quat, translation: number[]): number[] {
+    const result: number[] = [];
+    const p = vec3.create();
+    for (let i = 0; i < points.size(); i += 3) {
+        vec3.set(p, points[i], points[i + 1], points[i + 2]);
+        vec3.transformQuat(p, p, rotation);
+        result.push(p[0] + translation[0], p[1] + translation[1], p[2] + translation[2]);
+    }
+    return result;
+}
+
+describe('massProperties3', () => {
+    describe('setFromMesh', () => {
+        it('computes volume, center of mass and inertia of a box hull', () => {
+            const points = boxPoints([9, 18, 27], [11, 22, 33]);
+            const out = massProperties3.setFromMesh(massProperties3.create(), points, quickhull3(points), 2);
+
+            expect(out.volume).toBeCloseTo(48);
+            expect(out.mass).toBeCloseTo(96);
+            expect(out.centerOfMass[0]).toBeCloseTo(10);
+            expect(out.centerOfMass[1]).toBeCloseTo(20);
+            expect(out.centerOfMass[2]).toBeCloseTo(30);
+
+            // solid box: m / 12 * (h² + d²) per axis
+            const expected = [(96 / 12) * (16 + 36), 0, 0, 0, (96 / 12) * (4 + 36), 0, 0, 0, (96 / 12) * (4 + 16)];
+            for (let i = 0; i < 9; i++) {
+                expect(out.inertia[i]).toBeCloseTo(expected[i], 3);
+            }
+        });
+
+        it('computes the inertia of a tetrahedron', () => {
+            // unit right tetrahedron, known closed form inertia about its centroid
+            const points = [0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1];
+            const out = massProperties3.setFromMesh(massProperties3.create(), points, quickhull3(points));
+
+            expect(out.volume).toBeCloseTo(1 / 6);
+            expect(out.centerOfMass[0]).toBeCloseTo(0.25);
+            expect(out.centerOfMass[1]).toBeCloseTo(0.25);
+            expect(out.centerOfMass[2]).toBeCloseTo(0.25);
+            expect(out.inertia[0]).toBeCloseTo(1 / 80);
+            expect(out.inertia[4]).toBeCloseTo(1 / 80);
+            expect(out.inertia[1]).toBeCloseTo(1 / 480);
+            expect(out.inertia[5]).toBeCloseTo(1 / 480);
+        });
+
+        it('returns a negative volume for inside out meshes', () => {
+            const points = boxPoints([0, 0, 0], [1, 1, 1]);
+            const indices = quickhull3(points);
+            for (let i = 0; i < indices.size(); i += 3) {
+                const t = indices[i + 1];
+                indices[i + 1] = indices[i + 2];
+                indices[i + 2] = t;
+            }
+            const out = massProperties3.setFromMesh(massProperties3.create(), points, indices);
+            expect(out.volume).toBeCloseTo(-1);
+        });
+
+        it('returns zero mass for an empty mesh', () => {
+            const out = massProperties3.setFromMesh(massProperties3.create(), [], []);
+            expect(out.volume).toBe(0);
+            expect(out.mass).toBe(0);
+        });
+    });
+
+    describe('setFromConvexHull3', () => {
+        it('matches the triangle mesh result', () => {
+            const rotation = quat.setAxisAngle(quat.create(), vec3.normalize(vec3.create(), [1, 2, 3]), 0.7);
+            const points = transformPoints(boxPoints([-1, -2, -3], [1, 2, 3]), rotation, [5, -4, 3]);
+            const fromHull = massProperties3.setFromConvexHull3(massProperties3.create(), points, convexHull3(points));
+            const fromMesh = massProperties3.setFromMesh(massProperties3.create(), points, quickhull3(points));
+
+            expect(fromHull.volume).toBeCloseTo(fromMesh.volume);
+            for (let i = 0; i < 3; i++) {
+                expect(fromHull.centerOfMass[i]).toBeCloseTo(fromMesh.centerOfMass[i]);
+            }
+            for (let i = 0; i < 9; i++) {
+                expect(fromHull.inertia[i]).toBeCloseTo(fromMesh.inertia[i], 3);
+            }
+        });
+    });
+
+    describe('principalAxes', () => {
+        it('returns identity for a diagonal tensor', () => {
+            const inertia = mat3.fromValues(1, 0, 0, 0, 2, 0, 0, 0, 3);
+            const moments = vec3.create();
+            const rotation = massProperties3.principalAxes(quat.create(), moments, inertia);
+
+            expect(moments[0]).toBeCloseTo(1);
+            expect(moments[1]).toBeCloseTo(2);
+            expect(moments[2]).toBeCloseTo(3);
+            expect(math.abs(rotation[3])).toBeCloseTo(1);
+        });
+
+        it('sorts moments in ascending order', () => {
+            const inertia = mat3.fromValues(5, 0, 0, 0, 1, 0, 0, 0, 3);
+            const moments = vec3.create();
+            const rotation = massProperties3.principalAxes(quat.create(), moments, inertia);
+            const axes = mat3.fromQuat(mat3.create(), rotation);
+
+            expect(moments[0]).toBeCloseTo(1);
+            expect(moments[1]).toBeCloseTo(3);
+            expect(moments[2]).toBeCloseTo(5);
+            // the axis of the smallest moment is y
+            expect(math.abs(axes[1])).toBeCloseTo(1);
+            expect(mat3.determinant(axes)).toBeCloseTo(1);
+        });
+
+        it('recovers the axes of a rotated box', () => {
+            const rotation = quat.setAxisAngle(quat.create(), vec3.normalize(vec3.create(), [-2, 1, 4]), 1.1);
+            const points = transformPoints(boxPoints([-1, -2, -3], [1, 2, 3]), rotation, [1, 2, 3]);
+            const props = massProperties3.setFromMesh(massProperties3.create(), points, quickhull3(points));
+
+            const moments = vec3.create();
+            const axesRotation = massProperties3.principalAxes(quat.create(), moments, props.inertia);
+
+            // box of 2 x 4 x 6, the longest side has the smallest moment
+            expect(moments[0]).toBeCloseTo((48 / 12) * (4 + 16), 3);
+            expect(moments[1]).toBeCloseTo((48 / 12) * (4 + 36), 3);
+            expect(moments[2]).toBeCloseTo((48 / 12) * (16 + 36), 3);
+
+            // principal axes match the rotated box axes up to sign
+            const expectedAxes = mat3.fromQuat(mat3.create(), rotation);
+            const axes = mat3.fromQuat(mat3.create(), axesRotation);
+            const pairs = [
+                [0, 2],
+                [1, 1],
+                [2, 0],
+            ];
+            for (const [axis, boxAxis] of pairs) {
+                const d =
+                    axes[axis * 3] * expectedAxes[boxAxis * 3] +
+                    axes[axis * 3 + 1] * expectedAxes[boxAxis * 3 + 1] +
+                    axes[axis * 3 + 2] * expectedAxes[boxAxis * 3 + 2];
+                expect(math.abs(d)).toBeCloseTo(1);
+            }
+
+            // reconstruct the tensor: R diag(moments) Rᵀ
+            const diagonal = mat3.fromValues(moments[0], 0, 0, 0, moments[1], 0, 0, 0, moments[2]);
+            const transposed = mat3.transpose(mat3.create(), axes);
+            const reconstructed = mat3.multiply(mat3.create(), mat3.multiply(mat3.create(), axes, diagonal), transposed);
+            for (let i = 0; i < 9; i++) {
+                expect(reconstructed[i]).toBeCloseTo(props.inertia[i], 3);
+            }
+        });
+    });
+});
@@ -0,0 +1,465 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { createMulberry32Generator, polygon2, type Vec2 } from '../';
+
+function ringArea(ring: number[]): number {
+    let area = 0;
+    const count = ring.size() / 2;
+    for (let i = 0; i < count; i++) {
+        const j = (i + 1) % count;
+        area += ring[i * 2] * ring[j * 2 + 1] - ring[j * 2] * ring[i * 2 + 1];
+    }
+    return area * 0.5;
+}
+
+/**
+ * Sums the signed areas of the triangles, counting any clockwise triangle in `clockwise`
+ */
+function triangleArea(triangles: number[], vertices: number[]): { area: number; clockwise: number } {
+    let area = 0;
+    let clockwise = 0;
+    for (let t = 0; t < triangles.size(); t += 3) {
+        const a = triangles[t] * 2;
+        const b = triangles[t + 1] * 2;
+        const c = triangles[t + 2] * 2;
+        const cross =
+            (vertices[b] - vertices[a]) * (vertices[c + 1] - vertices[a + 1]) -
+            (vertices[b + 1] - vertices[a + 1]) * (vertices[c] - vertices[a]);
+        if (cross < 0) clockwise++;
+        area += cross * 0.5;
+    }
+    return { area, clockwise };
+}
+
+function concat(outer: number[], holes: number[][]): number[] {
+    const vertices: number[] = [];
+    for (const v of outer) vertices.push(v);
+    for (const hole of holes) {
+        for (const v of hole) vertices.push(v);
+    }
+    return vertices;
+}
+
+function totalArea(rings: number[][]): number {
+    let area = 0;
+    for (const ring of rings) {
+        area += polygon2.signedArea(ring);
+    }
+    return area;
+}
+
+function containsPointInRings(rings: number[][], point: Vec2): boolean {
+    let inside = false;
+    for (const ring of rings) {
+        if (polygon2.containsPoint(ring, point)) inside = !inside;
+    }
+    return inside;
+}
+
+function square(x: number, y: number, size: number): number[] {
+    return [x, y, x + size, y, x + size, y + size, x, y + size];
+}
+
+describe('polygon2', () => {
+    describe('signedArea', () => {
+        it('is positive for counter-clockwise and negative for clockwise polygons', () => {
+            const square = [0, 0, 2, 0, 2, 2, 0, 2];
+            expect(polygon2.signedArea(square)).toBeCloseTo(4);
+            expect(polygon2.isCounterClockwise(square)).toBe(true);
+
+            const reversed = polygon2.reverse([], square);
+            expect(reversed).toEqual([0, 2, 2, 2, 2, 0, 0, 0]);
+            expect(polygon2.signedArea(reversed)).toBeCloseTo(-4);
+            expect(polygon2.isCounterClockwise(reversed)).toBe(false);
+        });
+
+        it('reverses in place', () => {
+            const triangle = [0, 0, 1, 0, 0, 1];
+            expect(polygon2.reverse(triangle, triangle)).toEqual([0, 1, 1, 0, 0, 0]);
+
+            const square = [0, 0, 1, 0, 1, 1, 0, 1];
+            expect(polygon2.reverse(square, square)).toEqual([0, 1, 1, 1, 1, 0, 0, 0]);
+        });
+
+        it('is zero for degenerate polygons', () => {
+            expect(polygon2.signedArea([])).toBe(0);
+            expect(polygon2.signedArea([0, 0, 1, 1, 2, 2])).toBe(0);
+            expect(polygon2.isCounterClockwise([0, 0, 1, 1, 2, 2])).toBe(false);
+        });
+    });
+
+    describe('centroid', () => {
+        it('computes the area centroid of concave polygons', () => {
+            // L shape made of a 2x1 and a 1x1 rectangle
+            const polygon = [0, 0, 2, 0, 2, 1, 1, 1, 1, 2, 0, 2];
+            const out = polygon2.centroid([0, 0], polygon);
+            expect(out[0]).toBeCloseTo(5 / 6);
+            expect(out[1]).toBeCloseTo(5 / 6);
+
+            polygon2.centroid(out, polygon2.reverse([], polygon));
+            expect(out[0]).toBeCloseTo(5 / 6);
+            expect(out[1]).toBeCloseTo(5 / 6);
+        });
+
+        it('is precise far from the origin', () => {
+            const out = polygon2.centroid([0, 0], [1e6, 1e6, 1e6 + 1, 1e6, 1e6 + 1, 1e6 + 1, 1e6, 1e6 + 1]);
+            expect(out[0]).toBeCloseTo(1e6 + 0.5);
+            expect(out[1]).toBeCloseTo(1e6 + 0.5);
+        });
+
+        it('averages the vertices of degenerate polygons', () => {
+            const out = polygon2.centroid([0, 0], [0, 0, 1, 1, 2, 2]);
+            expect(out[0]).toBeCloseTo(1);
+            expect(out[1]).toBeCloseTo(1);
+        });
+    });
+
+    describe('containsPoint', () => {
+        // pentagram, whose center is wound twice
+        const star: number[] = [];
+        for (let i = 0; i < 5; i++) {
+            const angle = math.pi / 2 + (i * 4 * math.pi) / 5;
+            star.push(math.cos(angle), math.sin(angle));
+        }
+
+        it('tests points in concave polygons', () => {
+            const polygon = [0, 0, 2, 0, 2, 1, 1, 1, 1, 2, 0, 2];
+            expect(polygon2.containsPoint(polygon, [0.5, 1.5])).toBe(true);
+            expect(polygon2.containsPoint(polygon, [1.5, 1.5])).toBe(false);
+            expect(polygon2.containsPoint(polygon, [1.5, 0.5], 'non-zero')).toBe(true);
+            expect(polygon2.containsPoint(polygon, [3, 0.5], 'non-zero')).toBe(false);
+        });
+
+        it('applies the fill rule to self-intersecting polygons', () => {
+            const center: Vec2 = [0, 0];
+            expect(polygon2.windingNumber(star, center)).toBe(2);
+            expect(polygon2.containsPoint(star, center, 'even-odd')).toBe(false);
+            expect(polygon2.containsPoint(star, center, 'non-zero')).toBe(true);
+
+            // a star point is wound once
+            const tip: Vec2 = [0, 0.8];
+            expect(polygon2.windingNumber(star, tip)).toBe(1);
+            expect(polygon2.containsPoint(star, tip, 'even-odd')).toBe(true);
+        });
+
+        it('counts clockwise windings as negative', () => {
+            const square = [0, 0, 0, 1, 1, 1, 1, 0];
+            expect(polygon2.windingNumber(square, [0.5, 0.5])).toBe(-1);
+            expect(polygon2.windingNumber(square, [1.5, 0.5])).toBe(0);
+            expect(polygon2.containsPoint(square, [0.5, 0.5], 'non-zero')).toBe(true);
+        });
+
+        it('agrees between fill rules for simple polygons', () => {
+            const random = createMulberry32Generator(13);
+            const polygon = [0, 0, 8, 0, 8, 3, 7, 3, 7, 1, 5, 1, 5, 3, 4, 3, 4, 1, 2, 1, 2, 3, 1, 3, 1, 1, 0, 1];
+
+            for (let i = 0; i < 100; i++) {
+                const point: Vec2 = [random() * 10 - 1, random() * 5 - 1];
+                expect(polygon2.containsPoint(polygon, point, 'non-zero')).toBe(polygon2.containsPoint(polygon, point));
+            }
+        });
+    });
+
+    describe('isConvex', () => {
+        it('detects convex polygons in either winding', () => {
+            const square = [0, 0, 1, 0, 1, 1, 0, 1];
+            expect(polygon2.isConvex(square)).toBe(true);
+            expect(polygon2.isConvex(polygon2.reverse([], square))).toBe(true);
+            expect(polygon2.isConvex([0, 0, 1, 0, 2, 0, 2, 2, 2, 2, 0, 2])).toBe(true);
+        });
+
+        it('rejects concave, self-intersecting and degenerate polygons', () => {
+            expect(polygon2.isConvex([0, 0, 2, 0, 2, 1, 1, 1, 1, 2, 0, 2])).toBe(false);
+            expect(polygon2.isConvex([0, 0, 1, 1, 1, 0, 0, 1])).toBe(false);
+            expect(polygon2.isConvex([0, 0, 1, 1, 2, 2])).toBe(false);
+            expect(polygon2.isConvex([0, 0, 1, 0])).toBe(false);
+
+            // pentagram turns the same way at every vertex, but twice around
+            const star: number[] = [];
+            for (let i = 0; i < 5; i++) {
+                const angle = (i * 4 * math.pi) / 5;
+                star.push(math.cos(angle), math.sin(angle));
+            }
+            expect(polygon2.isConvex(star)).toBe(false);
+        });
+    });
+
+    describe('clip', () => {
+        it('clips overlapping squares', () => {
+            const subject = [0, 0, 2, 0, 2, 2, 0, 2];
+            const out = polygon2.clip([], subject, [1, 1, 3, 1, 3, 3, 1, 3]);
+
+            expect(out.size()).toBe(8);
+            expect(polygon2.signedArea(out)).toBeCloseTo(1);
+            expect(polygon2.containsPoint(out, [1.5, 1.5])).toBe(true);
+        });
+
+        it('clips against clockwise clip polygons', () => {
+            const subject = [0, 0, 2, 0, 2, 2, 0, 2];
+            const out = polygon2.clip([], subject, [1, -1, 1, 3, 3, 3, 3, -1]);
+            expect(polygon2.signedArea(out)).toBeCloseTo(2);
+        });
+
+        it('clips concave subjects', () => {
+            const subject = [0, 0, 2, 0, 2, 1, 1, 1, 1, 2, 0, 2];
+            const out = polygon2.clip(subject, subject, [0.5, 0.5, 3, 0.5, 3, 3, 0.5, 3]);
+            expect(polygon2.signedArea(out)).toBeCloseTo(1.25);
+        });
+
+        it('keeps subjects inside the clip polygon and drops subjects outside', () => {
+            const subject = [0, 0, 1, 0, 0, 1];
+            expect(polygon2.clip([], subject, [-5, -5, 5, -5, 0, 5])).toEqual(subject);
+            expect(polygon2.clip([], subject, [5, 5, 6, 5, 6, 6]).size()).toBe(0);
+        });
+    });
+
+    describe('offset', () => {
+        it('grows and shrinks squares with mitered corners', () => {
+            const square = [0, 0, 2, 0, 2, 2, 0, 2];
+
+            const grown = polygon2.offset([], square, 0.5);
+            expect(grown.size()).toBe(8);
+            expect(grown[0]).toBeCloseTo(-0.5);
+            expect(grown[1]).toBeCloseTo(-0.5);
+            expect(polygon2.signedArea(grown)).toBeCloseTo(9);
+
+            const shrunk = polygon2.offset([], polygon2.reverse([], square), -0.5);
+            expect(polygon2.signedArea(shrunk)).toBeCloseTo(-1);
+        });
+
+        it('bevels sharp corners beyond the miter limit', () => {
+            const square = [0, 0, 2, 0, 2, 2, 0, 2];
+            const beveled = polygon2.offset([], square, 1, 1.2);
+
+            expect(beveled.size()).toBe(16);
+            expect(polygon2.signedArea(beveled)).toBeCloseTo(16 - 2);
+        });
+
+        it('offsets concave corners inward', () => {
+            const polygon = [0, 0, 2, 0, 2, 1, 1, 1, 1, 2, 0, 2];
+            const out = polygon2.offset([], polygon, 0.25);
+
+            expect(out.size()).toBe(12);
+            // the reflex corner at (1, 1) moves diagonally outward
+            expect(out[6]).toBeCloseTo(1.25);
+            expect(out[7]).toBeCloseTo(1.25);
+        });
+
+        it('skips repeated vertices', () => {
+            const out = polygon2.offset([], [0, 0, 2, 0, 2, 0, 2, 2, 0, 2, 0, 0], 1);
+            expect(out.size()).toBe(8);
+            expect(polygon2.signedArea(out)).toBeCloseTo(16);
+        });
+    });
+
+    describe('boolean operations', () => {
+        const a = [square(0, 0, 2)];
+        const b = [square(1, 1, 2)];
+
+        it('combines overlapping squares', () => {
+            expect(totalArea(polygon2.union([], a, b))).toBeCloseTo(7);
+            expect(totalArea(polygon2.intersection([], a, b))).toBeCloseTo(1);
+            expect(totalArea(polygon2.difference([], a, b))).toBeCloseTo(3);
+            expect(totalArea(polygon2.difference([], b, a))).toBeCloseTo(3);
+            expect(totalArea(polygon2.xor([], a, b))).toBeCloseTo(6);
+
+            const union = polygon2.union([], a, b);
+            expect(union.size()).toBe(1);
+            expect(union[0].size()).toBe(16);
+        });
+
+        it('keeps disjoint polygons apart', () => {
+            const far = [square(5, 5, 1)];
+            expect(polygon2.union([], a, far).size()).toBe(2);
+            expect(totalArea(polygon2.union([], a, far))).toBeCloseTo(5);
+            expect(polygon2.intersection([], a, far).size()).toBe(0);
+            expect(totalArea(polygon2.difference([], a, far))).toBeCloseTo(4);
+        });
+
+        it('cuts holes and merges across shared edges', () => {
+            const inner = [square(0.5, 0.5, 1)];
+            const cut = polygon2.difference([], a, inner);
+            expect(cut.size()).toBe(2);
+            expect(totalArea(cut)).toBeCloseTo(3);
+            expect(polygon2.signedArea(cut[0]) * polygon2.signedArea(cut[1])).toBeLessThan(0);
+
+            // adjacent squares merge into a single rectangle without the shared edge
+            const merged = polygon2.union([], a, [square(2, 0, 2)]);
+            expect(merged.size()).toBe(1);
+            expect(merged[0].size()).toBe(8);
+            expect(totalArea(merged)).toBeCloseTo(8);
+            expect(polygon2.intersection([], a, [square(2, 0, 2)]).size()).toBe(0);
+        });
+
+        it('handles identical and touching polygons', () => {
+            expect(totalArea(polygon2.union([], a, a))).toBeCloseTo(4);
+            expect(totalArea(polygon2.intersection([], a, a))).toBeCloseTo(4);
+            expect(polygon2.difference([], a, a).size()).toBe(0);
+            expect(polygon2.xor([], a, a).size()).toBe(0);
+
+            // squares touching at a corner stay two rings
+            const corner = polygon2.union([], a, [square(2, 2, 1)]);
+            expect(corner.size()).toBe(2);
+            expect(totalArea(corner)).toBeCloseTo(5);
+        });
+
+        it('respects holes in the inputs', () => {
+            // a square frame, with its hole given in the same winding as the outer ring
+            const frame = [square(0, 0, 4), square(1, 1, 2)];
+            expect(totalArea(polygon2.union([], frame, []))).toBeCloseTo(12);
+
+            const plug = [square(1.5, 1.5, 1)];
+            expect(polygon2.intersection([], frame, plug).size()).toBe(0);
+            expect(totalArea(polygon2.union([], frame, plug))).toBeCloseTo(13);
+
+            const bar = [[-1, 1.5, 5, 1.5, 5, 2.5, -1, 2.5]];
+            expect(totalArea(polygon2.intersection([], frame, bar))).toBeCloseTo(2);
+            expect(totalArea(polygon2.union([], frame, bar))).toBeCloseTo(12 + 2 + 2);
+            expect(totalArea(polygon2.difference([], frame, bar))).toBeCloseTo(10);
+        });
+
+        it('matches point containment for random polygons', () => {
+            const random = createMulberry32Generator(17);
+
+            for (let trial = 0; trial < 20; trial++) {
+                const rings: number[][][] = [];
+                for (let k = 0; k < 2; k++) {
+                    const cx = random() * 2;
+                    const cy = random() * 2;
+                    const outer: number[] = [];
+                    const count = 5 + math.floor(random() * 10);
+                    for (let i = 0; i < count; i++) {
+                        const angle = (i / count) * math.pi * 2;
+                        const radius = 1 + random() * 1.5;
+                        outer.push(cx + math.cos(angle) * radius, cy + math.sin(angle) * radius);
+                    }
+                    rings.push([outer, square(cx - 0.4, cy - 0.4, 0.8)]);
+                }
+                const [p, q] = rings;
+
+                const union = polygon2.union([], p, q);
+                const inter = polygon2.intersection([], p, q);
+                const diff = polygon2.difference([], p, q);
+                const sym = polygon2.xor([], p, q);
+
+                const areaP = totalArea(polygon2.union([], p, []));
+                const areaQ = totalArea(polygon2.union([], q, []));
+                expect(totalArea(union) + totalArea(inter)).toBeCloseTo(areaP + areaQ, 6);
+                expect(totalArea(diff)).toBeCloseTo(areaP - totalArea(inter), 6);
+                expect(totalArea(sym)).toBeCloseTo(totalArea(union) - totalArea(inter), 6);
+
+                for (let i = 0; i < 50; i++) {
+                    const point: Vec2 = [random() * 7 - 2.5, random() * 7 - 2.5];
+                    const inP = containsPointInRings(p, point);
+                    const inQ = containsPointInRings(q, point);
+                    expect(containsPointInRings(union, point)).toBe(inP || inQ);
+                    expect(containsPointInRings(inter, point)).toBe(inP && inQ);
+                    expect(containsPointInRings(diff, point)).toBe(inP && !inQ);
+                    expect(containsPointInRings(sym, point)).toBe(inP !== inQ);
+                }
+            }
+        });
+    });
+
+    describe('triangulate', () => {
+        it('triangulates a square', () => {
+            const square = [0, 0, 1, 0, 1, 1, 0, 1];
+            const triangles = polygon2.triangulate([], square);
+
+            expect(triangles.size()).toBe(6);
+            const { area, clockwise } = triangleArea(triangles, square);
+            expect(area).toBeCloseTo(1);
+            expect(clockwise).toBe(0);
+        });
+
+        it('accepts clockwise and closed rings', () => {
+            const square = [0, 0, 0, 1, 1, 1, 1, 0, 0, 0];
+            const triangles = polygon2.triangulate([], square);
+
+            expect(triangles.size()).toBe(6);
+            expect(triangles.includes(4)).toBe(false);
+            const { area, clockwise } = triangleArea(triangles, square);
+            expect(area).toBeCloseTo(1);
+            expect(clockwise).toBe(0);
+        });
+
+        it('triangulates concave outlines', () => {
+            // comb with four teeth
+            const comb = [0, 0, 8, 0, 8, 3, 7, 3, 7, 1, 5, 1, 5, 3, 4, 3, 4, 1, 2, 1, 2, 3, 1, 3, 1, 1, 0, 1];
+            const triangles = polygon2.triangulate([], comb);
+
+            expect(triangles.size() / 3).toBe(comb.size() / 2 - 2);
+            const { area, clockwise } = triangleArea(triangles, comb);
+            expect(area).toBeCloseTo(ringArea(comb));
+            expect(clockwise).toBe(0);
+        });
+
+        it('triangulates a random star', () => {
+            const random = createMulberry32Generator(3);
+            const star: number[] = [];
+            for (let i = 0; i < 100; i++) {
+                const angle = (i / 100) * math.pi * 2;
+                const radius = 1 + random() * 4;
+                star.push(math.cos(angle) * radius, math.sin(angle) * radius);
+            }
+            const triangles = polygon2.triangulate([], star);
+
+            expect(triangles.size() / 3).toBe(98);
+            const { area, clockwise } = triangleArea(triangles, star);
+            expect(area).toBeCloseTo(ringArea(star));
+            expect(clockwise).toBe(0);
+        });
+
+        it('triangulates around holes', () => {
+            const outer = [0, 0, 10, 0, 10, 10, 0, 10];
+            const holes = [
+                [2, 2, 4, 2, 4, 4, 2, 4],
+                [6, 6, 6, 8, 8, 8, 8, 6],
+            ];
+            const triangles = polygon2.triangulate([], outer, holes);
+            const vertices = concat(outer, holes);
+
+            // n + 2h - 2 triangles for a polygon with h holes
+            expect(triangles.size() / 3).toBe(12 + 4 - 2);
+            for (let i = 0; i < 12; i++) {
+                expect(triangles.includes(i)).toBe(true);
+            }
+            const { area, clockwise } = triangleArea(triangles, vertices);
+            expect(area).toBeCloseTo(100 - 8);
+            expect(clockwise).toBe(0);
+        });
+
+        it('triangulates a hole touching the outer ring', () => {
+            const outer = [0, 0, 4, 0, 4, 4, 0, 4];
+            const holes = [[0, 1, 2, 1, 2, 3, 0, 3]];
+            const triangles = polygon2.triangulate([], outer, holes);
+
+            const { area, clockwise } = triangleArea(triangles, concat(outer, holes));
+            expect(area).toBeCloseTo(16 - 4);
+            expect(clockwise).toBe(0);
+        });
+
+        it('skips collinear and duplicate vertices', () => {
+            const ring = [0, 0, 1, 0, 2, 0, 2, 0, 2, 1, 2, 2, 1, 2, 0, 2, 0, 1];
+            const triangles = polygon2.triangulate([], ring);
+
+            const { area, clockwise } = triangleArea(triangles, ring);
+            expect(area).toBeCloseTo(4);
+            expect(clockwise).toBe(0);
+            expect(triangles.includes(2) && triangles.includes(3)).toBe(false);
+        });
+
+        it('returns no triangles for degenerate rings', () => {
+            expect(polygon2.triangulate([], []).size()).toBe(0);
+            expect(polygon2.triangulate([], [0, 0, 1, 1]).size()).toBe(0);
+            expect(polygon2.triangulate([], [0, 0, 1, 1, 2, 2, 3, 3]).size()).toBe(0);
+            expect(polygon2.triangulate([], [1, 1, 1, 1, 1, 1]).size()).toBe(0);
+        });
+
+        it('reuses the output array', () => {
+            const out = [99, 99, 99];
+            polygon2.triangulate(out, [0, 0, 1, 0, 0, 1]);
+            expect(out.size()).toBe(3);
+            expect(out.includes(99)).toBe(false);
+        });
+    });
+});
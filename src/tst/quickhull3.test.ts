@@ -1,5 +1,15 @@
 import { describe, expect, it } from '@rbxts/jest-globals';
-import { quickhull3 } from '../';
+import {
+    convexHull3,
+    createMulberry32Generator,
+    createQuickhull3Builder,
+    plane3,
+    type Quickhull3Builder,
+    quickhull3,
+    quickhull3BuilderAddPoint,
+    quickhull3BuilderGetConvexHull,
+    quickhull3BuilderGetTriangles,
+} from '../';
 
 const EPS = 1e-6;
 
@@ -280,3 +290,234 @@ describe('quickhull3', () => {
         });
     });
 });
+
+describe('convexHull3', () => {
+    const cube = flattenPoints([
+        [0, 0, 0],
+        [1, 0, 0],
+        [0, 1, 0],
+        [0, 0, 1],
+        [1, 1, 0],
+        [1, 0, 1],
+        [0, 1, 1],
+        [1, 1, 1],
+    ]);
+
+    it('should return an empty hull for fewer than 4 or collinear points', () => {
+        expect(convexHull3([0, 0, 0, 1, 0, 0]).faces.size()).toBe(0);
+        expect(convexHull3([0, 0, 0, 1, 0, 0, 2, 0, 0, 3, 0, 0]).faces.size()).toBe(0);
+    });
+
+    it('should return two opposite faces for coplanar points', () => {
+        const hull = convexHull3(
+            flattenPoints([
+                [0, 0, 0],
+                [1, 0, 0],
+                [0, 1, 0],
+                [1, 1, 0],
+            ]),
+        );
+
+        expect(hull.faces.size()).toBe(2);
+        expect(hull.facePlanes[0].normal[2]).toBeCloseTo(-hull.facePlanes[1].normal[2]);
+        expect(math.abs(hull.facePlanes[0].normal[2])).toBeCloseTo(1);
+    });
+
+    it('case: cube merges coplanar triangles into quads', () => {
+        const hull = convexHull3(cube);
+
+        expect(hull.vertices.size()).toBe(8);
+        expect(hull.faces.size()).toBe(6);
+        expect(hull.edges.size()).toBe(24); // 12 edges
+        expect(hull.edgeFaces.size()).toBe(24);
+
+        for (const face of hull.faces) {
+            expect(face.size()).toBe(4);
+        }
+    });
+
+    it('case: cube face planes point outwards and contain their vertices', () => {
+        const hull = convexHull3(cube);
+
+        for (let f = 0; f < hull.faces.size(); f++) {
+            const plane = hull.facePlanes[f];
+            for (const v of hull.faces[f]) {
+                expect(plane3.distanceToPoint(plane, [cube[v * 3], cube[v * 3 + 1], cube[v * 3 + 2]])).toBeCloseTo(0);
+            }
+            expect(plane3.distanceToPoint(plane, [0.5, 0.5, 0.5])).toBeCloseTo(-0.5);
+        }
+    });
+
+    it('case: face loops are counter-clockwise seen from outside', () => {
+        const hull = convexHull3(cube);
+
+        for (let f = 0; f < hull.faces.size(); f++) {
+            const loop = hull.faces[f];
+            const normal = hull.facePlanes[f].normal;
+            const a = loop[0] * 3;
+            const b = loop[1] * 3;
+            const c = loop[2] * 3;
+            const e1 = [cube[b] - cube[a], cube[b + 1] - cube[a + 1], cube[b + 2] - cube[a + 2]];
+            const e2 = [cube[c] - cube[b], cube[c + 1] - cube[b + 1], cube[c + 2] - cube[b + 2]];
+            const cross = [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]];
+            expect(cross[0] * normal[0] + cross[1] * normal[1] + cross[2] * normal[2]).toBeGreaterThan(0);
+        }
+    });
+
+    it('case: adjacency is consistent between faces and edges', () => {
+        const random = createMulberry32Generator(3);
+        const points: number[] = [];
+        for (let i = 0; i < 200; i++) {
+            points.push(random() * 2 - 1, random() * 2 - 1, random() * 2 - 1);
+        }
+
+        const hull = convexHull3(points);
+        const faceCount = hull.faces.size();
+        const edgeCount = hull.edges.size() / 2;
+
+        // Euler characteristic of a convex polyhedron
+        expect(hull.vertices.size() - edgeCount + faceCount).toBe(2);
+
+        for (let e = 0; e < edgeCount; e++) {
+            const a = hull.edges[e * 2];
+            const b = hull.edges[e * 2 + 1];
+            const f = hull.edgeFaces[e * 2];
+            const g = hull.edgeFaces[e * 2 + 1];
+
+            // a -> b runs along f and b -> a along g
+            const loopF = hull.faces[f];
+            const k = loopF.indexOf(a);
+            expect(loopF[(k + 1) % loopF.size()]).toBe(b);
+            expect(hull.faceNeighbors[f][k]).toBe(g);
+
+            const loopG = hull.faces[g];
+            const l = loopG.indexOf(b);
+            expect(loopG[(l + 1) % loopG.size()]).toBe(a);
+            expect(hull.faceNeighbors[g][l]).toBe(f);
+        }
+
+        // every input point is inside or on every face plane
+        for (const plane of hull.facePlanes) {
+            for (let i = 0; i < points.size(); i += 3) {
+                expect(plane3.distanceToPoint(plane, [points[i], points[i + 1], points[i + 2]])).toBeLessThan(EPS);
+            }
+        }
+    });
+
+    it('should match the vertices used by quickhull3', () => {
+        const points = flattenPoints([
+            [0, 1, 0],
+            [1, -1, 1],
+            [-1, -1, 1],
+            [0, -1, -1],
+            [0, 0, 0],
+        ]);
+        const hull = convexHull3(points);
+        const triangles = quickhull3(points);
+
+        expect(hull.faces.size()).toBe(4);
+        for (const v of triangles) {
+            expect(hull.vertices.includes(v)).toBe(true);
+        }
+        expect(hull.vertices.includes(4)).toBe(false);
+    });
+});
+
+describe('quickhull3Builder', () => {
+    function addPoints(builder: Quickhull3Builder, points: number[]): boolean[] {
+        const extended: boolean[] = [];
+        for (let i = 0; i < points.size(); i += 3) {
+            extended.push(quickhull3BuilderAddPoint(builder, points[i], points[i + 1], points[i + 2]));
+        }
+        return extended;
+    }
+
+    it('should report whether each point extended the hull', () => {
+        const builder = createQuickhull3Builder();
+        addPoints(
+            builder,
+            flattenPoints([
+                [0, 0, 0],
+                [1, 0, 0],
+                [0, 1, 0],
+                [0, 0, 1],
+            ]),
+        );
+
+        expect(quickhull3BuilderAddPoint(builder, 0.1, 0.1, 0.1)).toBe(false);
+        expect(quickhull3BuilderAddPoint(builder, 1, 1, 1)).toBe(true);
+        expect(quickhull3BuilderAddPoint(builder, 0.5, 0.5, 0.5)).toBe(false);
+        expect(quickhull3BuilderAddPoint(builder, 1, 0, 0)).toBe(false);
+        expect(builder.points.size()).toBe(8 * 3);
+
+        const triangles = quickhull3BuilderGetTriangles(builder);
+        expect(triangles.size()).toBe(6 * 3);
+        expect(triangles.includes(4)).toBe(false);
+        expect(triangles.includes(6)).toBe(false);
+        expect(isConvexHull(builder.points, triangles)).toBe(true);
+    });
+
+    it('should expose a valid hull at every step', () => {
+        const random = createMulberry32Generator(5);
+        const builder = createQuickhull3Builder();
+
+        for (let i = 0; i < 80; i++) {
+            quickhull3BuilderAddPoint(builder, random() * 2 - 1, random() * 2 - 1, random() * 2 - 1);
+
+            if (i >= 3 && i % 8 === 3) {
+                expect(isConvexHull(builder.points, quickhull3BuilderGetTriangles(builder))).toBe(true);
+
+                const hull = quickhull3BuilderGetConvexHull(builder);
+                for (const plane of hull.facePlanes) {
+                    for (let j = 0; j < builder.points.size(); j += 3) {
+                        const p: [number, number, number] = [builder.points[j], builder.points[j + 1], builder.points[j + 2]];
+                        expect(plane3.distanceToPoint(plane, p)).toBeLessThanOrEqual(EPS);
+                    }
+                }
+            }
+        }
+    });
+
+    it('should match the one-shot hull', () => {
+        const random = createMulberry32Generator(9);
+        const points: number[] = [];
+        for (let i = 0; i < 200 * 3; i++) {
+            points.push(random() * 10 - 5);
+        }
+
+        const builder = createQuickhull3Builder();
+        addPoints(builder, points);
+
+        const incremental = quickhull3BuilderGetConvexHull(builder);
+        const oneShot = convexHull3(points);
+        expect(incremental.faces.size()).toBe(oneShot.faces.size());
+        expect(incremental.vertices.size()).toBe(oneShot.vertices.size());
+        for (const v of oneShot.vertices) {
+            expect(incremental.vertices.includes(v)).toBe(true);
+        }
+    });
+
+    it('should collect coincident and coplanar points until they span a volume', () => {
+        const builder = createQuickhull3Builder();
+        const extended = addPoints(
+            builder,
+            flattenPoints([
+                [0, 0, 0],
+                [0, 0, 0],
+                [1, 0, 0],
+                [2, 0, 0],
+                [0, 1, 0],
+                [1, 1, 0],
+            ]),
+        );
+
+        expect(extended.includes(false)).toBe(false);
+        expect(builder.hull).toBeUndefined();
+        expect(quickhull3BuilderGetConvexHull(builder)).toEqual(convexHull3(builder.points));
+
+        expect(quickhull3BuilderAddPoint(builder, 0, 0, 1)).toBe(true);
+        expect(builder.hull).toBeDefined();
+        expect(quickhull3BuilderGetConvexHull(builder).faces.size()).toBe(5);
+        expect(quickhull3BuilderAddPoint(builder, 0.5, 0.2, 0.1)).toBe(false);
+    });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from '@rbxts/jest-globals';
 import type { Box3, Raycast3, Vec3 } from '../';
-import { raycast3, vec3 } from '../';
+import { convexHull3, obb3, plane3, quat, quickhull3, raycast3, sphere, vec3 } from '../';
 
 describe('raycast3', () => {
     describe('create', () => {
@@ -330,4 +330,421 @@ describe('raycast3', () => {
             expect(raycast3.intersectsBox3(ray, box)).toBe(false);
         });
     });
+
+    describe('intersectsMesh', () => {
+        // two unit quads facing -z, at z = 0 and z = 5
+        const positions = [0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0, 0, 0, 5, 1, 0, 5, 1, 1, 5, 0, 1, 5];
+        const indices = [0, 2, 1, 0, 3, 2, 4, 6, 5, 4, 7, 6];
+
+        it('finds the closest hit with triangle index and barycentric coordinates', () => {
+            const ray = raycast3.fromValues([0.75, 0.25, -5], [0, 0, 1], 20);
+            const result = raycast3.createIntersectsMeshResult();
+            raycast3.intersectsMesh(result, ray, positions, indices);
+
+            expect(result.hit).toBe(true);
+            expect(result.fraction).toBeCloseTo(5 / 20);
+            expect(result.triangleIndex).toBe(0);
+            expect(result.frontFacing).toBe(true);
+            expect(result.barycentric[0] + result.barycentric[1] + result.barycentric[2]).toBeCloseTo(1);
+
+            // interpolating the triangle's vertices with the barycentric coordinates gives the hit point
+            const [u, v, w] = result.barycentric;
+            expect(u * positions[0] + v * positions[6] + w * positions[3]).toBeCloseTo(0.75);
+            expect(u * positions[1] + v * positions[7] + w * positions[4]).toBeCloseTo(0.25);
+        });
+
+        it('finds the closest hit regardless of triangle order', () => {
+            const reversed = [4, 6, 5, 4, 7, 6, 0, 2, 1, 0, 3, 2];
+            const ray = raycast3.fromValues([0.25, 0.75, -5], [0, 0, 1], 20);
+            const result = raycast3.createIntersectsMeshResult();
+            raycast3.intersectsMesh(result, ray, positions, reversed);
+
+            expect(result.hit).toBe(true);
+            expect(result.fraction).toBeCloseTo(5 / 20);
+            expect(result.triangleIndex).toBe(3);
+        });
+
+        it('stops at the first hit in any mode', () => {
+            const reversed = [4, 6, 5, 4, 7, 6, 0, 2, 1, 0, 3, 2];
+            const ray = raycast3.fromValues([0.25, 0.75, -5], [0, 0, 1], 20);
+            const result = raycast3.createIntersectsMeshResult();
+            raycast3.intersectsMesh(result, ray, positions, reversed, { mode: 'any' });
+
+            expect(result.hit).toBe(true);
+            expect(result.fraction).toBeCloseTo(10 / 20);
+        });
+
+        it('skips backfaces when culling', () => {
+            const ray = raycast3.fromValues([0.5, 0.25, 10], [0, 0, -1], 20);
+            const result = raycast3.createIntersectsMeshResult();
+
+            raycast3.intersectsMesh(result, ray, positions, indices);
+            expect(result.hit).toBe(true);
+            expect(result.frontFacing).toBe(false);
+            expect(result.fraction).toBeCloseTo(5 / 20);
+
+            raycast3.intersectsMesh(result, ray, positions, indices, { backfaceCulling: true });
+            expect(result.hit).toBe(false);
+            expect(result.triangleIndex).toBe(-1);
+        });
+
+        it('respects the ray length', () => {
+            const ray = raycast3.fromValues([0.5, 0.25, -5], [0, 0, 1], 4);
+            const result = raycast3.createIntersectsMeshResult();
+            raycast3.intersectsMesh(result, ray, positions, indices);
+
+            expect(result.hit).toBe(false);
+        });
+
+        it('works with quickhull3 output', () => {
+            const points = [-1, -1, -1, 1, -1, -1, -1, 1, -1, 1, 1, -1, -1, -1, 1, 1, -1, 1, -1, 1, 1, 1, 1, 1, 0, 0, 0];
+            const hull = quickhull3(points);
+            const ray = raycast3.fromValues([0.2, 0.3, 10], [0, 0, -1], 20);
+            const result = raycast3.createIntersectsMeshResult();
+            raycast3.intersectsMesh(result, ray, points, hull, { backfaceCulling: true });
+
+            expect(result.hit).toBe(true);
+            expect(result.fraction).toBeCloseTo(9 / 20);
+            expect(result.frontFacing).toBe(true);
+        });
+    });
+
+    describe('intersectsBox3WithResult', () => {
+        it('reports near and far fractions and the entry face normal', () => {
+            const ray = raycast3.fromValues([-5, 0, 0], [1, 0, 0], 10);
+            const box: Box3 = [-1, -1, -1, 1, 1, 1];
+            const result = raycast3.createIntersectsBox3Result();
+            raycast3.intersectsBox3WithResult(result, ray, box);
+
+            expect(result.hit).toBe(true);
+            expect(result.inside).toBe(false);
+            expect(result.fractionNear).toBeCloseTo(0.4);
+            expect(result.fractionFar).toBeCloseTo(0.6);
+            expect(result.normal).toEqual([-1, 0, 0]);
+        });
+
+        it('reports the max face normal for rays with negative direction', () => {
+            const ray = raycast3.fromValues([0, 0, 5], [0, 0, -1], 10);
+            const box: Box3 = [-1, -1, -1, 1, 1, 1];
+            const result = raycast3.createIntersectsBox3Result();
+            raycast3.intersectsBox3WithResult(result, ray, box);
+
+            expect(result.hit).toBe(true);
+            expect(result.normal).toEqual([0, 0, 1]);
+        });
+
+        it('reports inside when the origin is inside the box', () => {
+            const ray = raycast3.fromValues([0, 0, 0], [0, 1, 0], 10);
+            const box: Box3 = [-1, -1, -1, 1, 1, 1];
+            const result = raycast3.createIntersectsBox3Result();
+            raycast3.intersectsBox3WithResult(result, ray, box);
+
+            expect(result.hit).toBe(true);
+            expect(result.inside).toBe(true);
+            expect(result.fractionNear).toBe(0);
+            expect(result.fractionFar).toBeCloseTo(0.1);
+            expect(result.normal).toEqual([0, 0, 0]);
+        });
+
+        it('clamps the far fraction when the ray ends inside the box', () => {
+            const ray = raycast3.fromValues([-5, 0, 0], [1, 0, 0], 5);
+            const box: Box3 = [-1, -1, -1, 1, 1, 1];
+            const result = raycast3.createIntersectsBox3Result();
+            raycast3.intersectsBox3WithResult(result, ray, box);
+
+            expect(result.hit).toBe(true);
+            expect(result.fractionNear).toBeCloseTo(0.8);
+            expect(result.fractionFar).toBeCloseTo(1);
+        });
+
+        it('agrees with the boolean test on a miss', () => {
+            const ray = raycast3.fromValues([-5, 2, 0], [1, 0, 0], 10);
+            const box: Box3 = [-1, -1, -1, 1, 1, 1];
+            const result = raycast3.createIntersectsBox3Result();
+            raycast3.intersectsBox3WithResult(result, ray, box);
+
+            expect(result.hit).toBe(false);
+            expect(raycast3.intersectsBox3(ray, box)).toBe(false);
+        });
+    });
+
+    describe('intersectsSphere', () => {
+        it('reports fraction, point and normal for a hit', () => {
+            const ray = raycast3.fromValues([0, 0, -10], [0, 0, 1], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsSphere(result, ray, sphere.fromValues([0, 0, 0], 2));
+
+            expect(result.hit).toBe(true);
+            expect(result.fraction).toBeCloseTo(8 / 20);
+            expect(result.point[2]).toBeCloseTo(-2);
+            expect(result.normal[0]).toBeCloseTo(0);
+            expect(result.normal[1]).toBeCloseTo(0);
+            expect(result.normal[2]).toBeCloseTo(-1);
+        });
+
+        it('misses when the sphere is beyond the ray length', () => {
+            const ray = raycast3.fromValues([0, 0, -10], [0, 0, 1], 5);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsSphere(result, ray, sphere.fromValues([0, 0, 0], 2));
+
+            expect(result.hit).toBe(false);
+        });
+
+        it('misses when the sphere is behind the ray', () => {
+            const ray = raycast3.fromValues([0, 0, 10], [0, 0, 1], 100);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsSphere(result, ray, sphere.fromValues([0, 0, 0], 2));
+
+            expect(result.hit).toBe(false);
+        });
+
+        it('hits at fraction 0 when starting inside', () => {
+            const ray = raycast3.fromValues([0, 0, 0], [1, 0, 0], 10);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsSphere(result, ray, sphere.fromValues([0, 0, 0], 2));
+
+            expect(result.hit).toBe(true);
+            expect(result.fraction).toBe(0);
+            expect(result.normal[0]).toBeCloseTo(-1);
+        });
+    });
+
+    describe('intersectsPlane3', () => {
+        it('hits a plane in front of the ray', () => {
+            const ray = raycast3.fromValues([0, 5, 0], [0, -1, 0], 10);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsPlane3(result, ray, plane3.create());
+
+            expect(result.hit).toBe(true);
+            expect(result.fraction).toBeCloseTo(0.5);
+            expect(result.point[1]).toBeCloseTo(0);
+            expect(result.normal[1]).toBeCloseTo(1);
+        });
+
+        it('flips the normal when hitting the back of the plane', () => {
+            const ray = raycast3.fromValues([0, -5, 0], [0, 1, 0], 10);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsPlane3(result, ray, plane3.create());
+
+            expect(result.hit).toBe(true);
+            expect(result.normal[1]).toBeCloseTo(-1);
+        });
+
+        it('misses a parallel plane and planes out of range', () => {
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsPlane3(result, raycast3.fromValues([0, 5, 0], [1, 0, 0], 10), plane3.create());
+            expect(result.hit).toBe(false);
+
+            raycast3.intersectsPlane3(result, raycast3.fromValues([0, 5, 0], [0, -1, 0], 2), plane3.create());
+            expect(result.hit).toBe(false);
+        });
+    });
+
+    describe('intersectsOBB3', () => {
+        it('hits a rotated box and reports the world space face normal', () => {
+            const obb = obb3.create();
+            obb3.setFromCenterHalfExtentsQuaternion(
+                obb,
+                [0, 0, 0],
+                [1, 1, 1],
+                quat.setAxisAngle(quat.create(), [0, 1, 0], math.pi / 4),
+            );
+            const ray = raycast3.fromValues([-10, 0, 0], [1, 0, 0], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsOBB3(result, ray, obb);
+
+            expect(result.hit).toBe(true);
+            expect(result.point[0]).toBeCloseTo(-math.sqrt(2));
+            expect(result.fraction).toBeCloseTo((10 - math.sqrt(2)) / 20);
+            expect(result.normal[0]).toBeLessThan(0);
+            expect(vec3.length(result.normal)).toBeCloseTo(1);
+        });
+
+        it('hits an axis aligned face with the expected normal', () => {
+            const obb = obb3.create();
+            obb3.setFromCenterHalfExtentsQuaternion(obb, [0, 5, 0], [1, 2, 3], [0, 0, 0, 1]);
+            const ray = raycast3.fromValues([0, 20, 0], [0, -1, 0], 100);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsOBB3(result, ray, obb);
+
+            expect(result.hit).toBe(true);
+            expect(result.point[1]).toBeCloseTo(7);
+            expect(result.normal[1]).toBeCloseTo(1);
+        });
+
+        it('misses a box to the side of the ray', () => {
+            const obb = obb3.create();
+            obb3.setFromCenterHalfExtentsQuaternion(obb, [0, 5, 0], [1, 1, 1], [0, 0, 0, 1]);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsOBB3(result, raycast3.fromValues([-10, 0, 0], [1, 0, 0], 20), obb);
+
+            expect(result.hit).toBe(false);
+        });
+
+        it('hits at fraction 0 when starting inside', () => {
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsOBB3(result, raycast3.fromValues([0, 0, 0], [1, 0, 0], 20), obb3.create());
+
+            expect(result.hit).toBe(true);
+            expect(result.fraction).toBe(0);
+        });
+    });
+
+    describe('intersectsConvexHull3', () => {
+        // cube with half extents of 1 centered at the origin, plus an interior point
+        const CUBE = convexHull3([
+            -1, -1, -1, 1, -1, -1, -1, 1, -1, 1, 1, -1, -1, -1, 1, 1, -1, 1, -1, 1, 1, 1, 1, 1, 0.2, 0.3, -0.1,
+        ]);
+
+        it('hits the entry face with its normal', () => {
+            const out = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsConvexHull3(out, raycast3.fromValues([-5, 0.2, 0.3], [1, 0, 0], 10), CUBE);
+
+            expect(out.hit).toBe(true);
+            expect(out.fraction).toBeCloseTo(0.4);
+            expect(out.point[0]).toBeCloseTo(-1);
+            expect(out.normal[0]).toBeCloseTo(-1);
+        });
+
+        it('never hits empty or flat hulls', () => {
+            const out = raycast3.createIntersectsShapeResult();
+            const flat = convexHull3([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0]);
+
+            raycast3.intersectsConvexHull3(out, raycast3.fromValues([0.5, 0.5, 5], [0, 0, -1], 10), flat);
+            expect(out.hit).toBe(false);
+            raycast3.intersectsConvexHull3(out, raycast3.fromValues([0, 0, 5], [0, 0, -1], 10), convexHull3([]));
+            expect(out.hit).toBe(false);
+        });
+    });
+
+    describe('intersectsCapsule', () => {
+        it('hits the lateral surface', () => {
+            const ray = raycast3.fromValues([-10, 1, 0], [1, 0, 0], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsCapsule(result, ray, [0, 0, 0], [0, 2, 0], 0.5);
+
+            expect(result.hit).toBe(true);
+            expect(result.point[0]).toBeCloseTo(-0.5);
+            expect(result.normal[0]).toBeCloseTo(-1);
+            expect(result.normal[1]).toBeCloseTo(0);
+        });
+
+        it('hits a hemispherical cap', () => {
+            const ray = raycast3.fromValues([0, 10, 0], [0, -1, 0], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsCapsule(result, ray, [0, 0, 0], [0, 2, 0], 0.5);
+
+            expect(result.hit).toBe(true);
+            expect(result.point[1]).toBeCloseTo(2.5);
+            expect(result.fraction).toBeCloseTo(7.5 / 20);
+            expect(result.normal[1]).toBeCloseTo(1);
+        });
+
+        it('misses when passing beside the capsule', () => {
+            const ray = raycast3.fromValues([-10, 3, 0], [1, 0, 0], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsCapsule(result, ray, [0, 0, 0], [0, 2, 0], 0.5);
+
+            expect(result.hit).toBe(false);
+        });
+
+        it('respects the ray length', () => {
+            const ray = raycast3.fromValues([-10, 1, 0], [1, 0, 0], 5);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsCapsule(result, ray, [0, 0, 0], [0, 2, 0], 0.5);
+
+            expect(result.hit).toBe(false);
+        });
+    });
+
+    describe('intersectsCylinder', () => {
+        it('hits the lateral surface', () => {
+            const ray = raycast3.fromValues([-10, 1, 0], [1, 0, 0], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsCylinder(result, ray, [0, 0, 0], [0, 2, 0], 0.5);
+
+            expect(result.hit).toBe(true);
+            expect(result.point[0]).toBeCloseTo(-0.5);
+            expect(result.normal[0]).toBeCloseTo(-1);
+        });
+
+        it('hits a flat cap', () => {
+            const ray = raycast3.fromValues([0.2, 10, 0], [0, -1, 0], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsCylinder(result, ray, [0, 0, 0], [0, 2, 0], 0.5);
+
+            expect(result.hit).toBe(true);
+            expect(result.point[1]).toBeCloseTo(2);
+            expect(result.normal[1]).toBeCloseTo(1);
+        });
+
+        it('hits the bottom cap from below', () => {
+            const ray = raycast3.fromValues([0, -10, 0], [0, 1, 0], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsCylinder(result, ray, [0, 0, 0], [0, 2, 0], 0.5);
+
+            expect(result.hit).toBe(true);
+            expect(result.point[1]).toBeCloseTo(0);
+            expect(result.normal[1]).toBeCloseTo(-1);
+        });
+
+        it('misses past the end of the cylinder', () => {
+            const ray = raycast3.fromValues([-10, 2.2, 0], [1, 0, 0], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsCylinder(result, ray, [0, 0, 0], [0, 2, 0], 0.5);
+
+            expect(result.hit).toBe(false);
+        });
+    });
+
+    describe('intersectsCone', () => {
+        it('hits the lateral surface', () => {
+            const ray = raycast3.fromValues([-10, 1, 0], [1, 0, 0], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsCone(result, ray, [0, 2, 0], [0, 0, 0], 1);
+
+            expect(result.hit).toBe(true);
+            expect(result.point[0]).toBeCloseTo(-0.5);
+            expect(result.normal[0]).toBeCloseTo(-2 / math.sqrt(5));
+            expect(result.normal[1]).toBeCloseTo(1 / math.sqrt(5));
+        });
+
+        it('hits the base', () => {
+            const ray = raycast3.fromValues([0.5, -10, 0], [0, 1, 0], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsCone(result, ray, [0, 2, 0], [0, 0, 0], 1);
+
+            expect(result.hit).toBe(true);
+            expect(result.point[1]).toBeCloseTo(0);
+            expect(result.fraction).toBeCloseTo(0.5);
+            expect(result.normal[1]).toBeCloseTo(-1);
+        });
+
+        it('hits the apex along the axis', () => {
+            const ray = raycast3.fromValues([0, 10, 0], [0, -1, 0], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsCone(result, ray, [0, 2, 0], [0, 0, 0], 1);
+
+            expect(result.hit).toBe(true);
+            expect(result.point[1]).toBeCloseTo(2);
+            expect(result.normal[1]).toBeCloseTo(1);
+        });
+
+        it('misses the mirrored nappe beyond the apex', () => {
+            const ray = raycast3.fromValues([-10, 3, 0], [1, 0, 0], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsCone(result, ray, [0, 2, 0], [0, 0, 0], 1);
+
+            expect(result.hit).toBe(false);
+        });
+
+        it('hits at fraction 0 from inside', () => {
+            const ray = raycast3.fromValues([0, 0.5, 0], [1, 0, 0], 20);
+            const result = raycast3.createIntersectsShapeResult();
+            raycast3.intersectsCone(result, ray, [0, 2, 0], [0, 0, 0], 1);
+
+            expect(result.hit).toBe(true);
+            expect(result.fraction).toBe(0);
+        });
+    });
 });
@@ -1,5 +1,5 @@
 import { describe, expect, it } from '@rbxts/jest-globals';
-import { segment2, type Vec2 } from '../';
+import { createMulberry32Generator, segment2, type Vec2 } from '../';
 
 describe('segment2.closestPoint', () => {
     it('returns the closest point for a point inside the segment', () => {
@@ -52,3 +52,188 @@ describe('segment2.closestPoint', () => {
         expect(out[1]).toBeCloseTo(1);
     });
 });
+
+describe('segment2.length, direction and normal', () => {
+    it('measures the segment and its unit direction and normal', () => {
+        const a: Vec2 = [1, 1];
+        const b: Vec2 = [4, 5];
+        expect(segment2.length(a, b)).toBeCloseTo(5);
+
+        const direction = segment2.direction([0, 0], a, b);
+        expect(direction[0]).toBeCloseTo(0.6);
+        expect(direction[1]).toBeCloseTo(0.8);
+
+        // normal is to the left of the direction
+        const normal = segment2.normal([0, 0], a, b);
+        expect(normal[0]).toBeCloseTo(-0.8);
+        expect(normal[1]).toBeCloseTo(0.6);
+    });
+
+    it('returns zero vectors for degenerate segments', () => {
+        expect(segment2.direction([1, 1], [2, 2], [2, 2])).toEqual([0, 0]);
+        expect(segment2.normal([1, 1], [2, 2], [2, 2])).toEqual([0, 0]);
+    });
+
+    it('interpolates along the segment', () => {
+        const out = segment2.lerp([0, 0], [0, 0], [4, 2], 0.25);
+        expect(out[0]).toBeCloseTo(1);
+        expect(out[1]).toBeCloseTo(0.5);
+    });
+});
+
+describe('segment2.orient2d', () => {
+    it('classifies points left, right and on the line', () => {
+        expect(segment2.orient2d([0, 0], [1, 0], [0, 1])).toBeGreaterThan(0);
+        expect(segment2.orient2d([0, 0], [1, 0], [0, -1])).toBeLessThan(0);
+        expect(segment2.orient2d([0, 0], [1, 0], [5, 0])).toBe(0);
+        expect(segment2.orient2d([0, 0], [2, 0], [0, 2])).toBeCloseTo(4);
+    });
+});
+
+describe('segment2.intersectsSegment', () => {
+    it('finds crossing points and fractions', () => {
+        const out = segment2.createIntersectsSegmentResult();
+        segment2.intersectsSegment(out, [0, 0], [4, 4], [0, 4], [4, 0]);
+
+        expect(out.type).toBe('point');
+        expect(out.start[0]).toBeCloseTo(2);
+        expect(out.start[1]).toBeCloseTo(2);
+        expect(out.end).toEqual(out.start);
+        expect(out.fractionA).toBeCloseTo(0.5);
+        expect(out.fractionB).toBeCloseTo(0.5);
+    });
+
+    it('detects touching endpoints', () => {
+        const out = segment2.createIntersectsSegmentResult();
+        segment2.intersectsSegment(out, [0, 0], [2, 0], [2, 0], [3, 5]);
+
+        expect(out.type).toBe('point');
+        expect(out.start[0]).toBeCloseTo(2);
+        expect(out.fractionA).toBeCloseTo(1);
+        expect(out.fractionB).toBeCloseTo(0);
+    });
+
+    it('misses separated and parallel segments', () => {
+        const out = segment2.createIntersectsSegmentResult();
+        segment2.intersectsSegment(out, [0, 0], [1, 1], [2, 0], [3, -1]);
+        expect(out.type).toBe('none');
+        segment2.intersectsSegment(out, [0, 0], [4, 0], [0, 1], [4, 1]);
+        expect(out.type).toBe('none');
+        segment2.intersectsSegment(out, [0, 0], [1, 0], [2, 0], [3, 0]);
+        expect(out.type).toBe('none');
+    });
+
+    it('returns the shared part of collinear segments', () => {
+        const out = segment2.createIntersectsSegmentResult();
+        segment2.intersectsSegment(out, [0, 0], [4, 0], [5, 0], [2, 0]);
+
+        expect(out.type).toBe('overlap');
+        expect(out.start[0]).toBeCloseTo(2);
+        expect(out.end[0]).toBeCloseTo(4);
+        expect(out.fractionA).toBeCloseTo(0.5);
+        expect(out.endFractionA).toBeCloseTo(1);
+        expect(out.fractionB).toBeCloseTo(1);
+        expect(out.endFractionB).toBeCloseTo(1 / 3);
+
+        // collinear segments meeting end to end touch at a point
+        segment2.intersectsSegment(out, [0, 0], [1, 1], [1, 1], [3, 3]);
+        expect(out.type).toBe('point');
+        expect(out.start[0]).toBeCloseTo(1);
+    });
+
+    it('treats degenerate segments as points', () => {
+        const out = segment2.createIntersectsSegmentResult();
+        segment2.intersectsSegment(out, [1, 0], [1, 0], [0, 0], [4, 0]);
+        expect(out.type).toBe('point');
+        expect(out.fractionB).toBeCloseTo(0.25);
+
+        segment2.intersectsSegment(out, [1, 1], [1, 1], [0, 0], [4, 0]);
+        expect(out.type).toBe('none');
+    });
+});
+
+describe('segment2.intersectsCircle', () => {
+    const circle = { center: [0, 0] as Vec2, radius: 1 };
+
+    it('finds entry and exit points in order along the segment', () => {
+        const out = segment2.createIntersectsCircleResult();
+        segment2.intersectsCircle(out, [2, 0], [-2, 0], circle);
+        expect(out.count).toBe(2);
+        expect(out.start[0]).toBeCloseTo(1);
+        expect(out.end[0]).toBeCloseTo(-1);
+        expect(out.fraction).toBeCloseTo(0.25);
+        expect(out.endFraction).toBeCloseTo(0.75);
+    });
+
+    it('finds a single point for segments starting inside or tangent', () => {
+        const out = segment2.createIntersectsCircleResult();
+        segment2.intersectsCircle(out, [0, 0], [0, 3], circle);
+        expect(out.count).toBe(1);
+        expect(out.start[1]).toBeCloseTo(1);
+        expect(out.end).toEqual(out.start);
+        expect(out.fraction).toBeCloseTo(1 / 3);
+
+        segment2.intersectsCircle(out, [-2, 1], [2, 1], circle);
+        expect(out.count).toBe(1);
+        expect(out.start[0]).toBeCloseTo(0);
+        expect(out.start[1]).toBeCloseTo(1);
+    });
+
+    it('finds no points for segments inside or missing the circle', () => {
+        const out = segment2.createIntersectsCircleResult();
+        segment2.intersectsCircle(out, [-0.5, 0], [0.5, 0], circle);
+        expect(out.count).toBe(0);
+        segment2.intersectsCircle(out, [-2, 2], [2, 2], circle);
+        expect(out.count).toBe(0);
+        segment2.intersectsCircle(out, [2, 0], [3, 0], circle);
+        expect(out.count).toBe(0);
+    });
+});
+
+describe('segment2 distances', () => {
+    it('measures the distance to a point', () => {
+        expect(segment2.distanceToPoint([0, 0], [2, 0], [1, 3])).toBeCloseTo(3);
+        expect(segment2.distanceToPoint([0, 0], [2, 0], [5, 4])).toBeCloseTo(5);
+    });
+
+    it('returns the closest points between segments', () => {
+        const out = segment2.createClosestPointsResult();
+        segment2.closestPointsToSegment(out, [0, 0], [4, 0], [2, 1], [3, 5]);
+        expect(out.distance).toBeCloseTo(1);
+        expect(out.pointA[0]).toBeCloseTo(2);
+        expect(out.pointA[1]).toBeCloseTo(0);
+        expect(out.pointB[0]).toBeCloseTo(2);
+        expect(out.pointB[1]).toBeCloseTo(1);
+        expect(out.fractionA).toBeCloseTo(0.5);
+        expect(out.fractionB).toBe(0);
+
+        segment2.closestPointsToSegment(out, [0, 0], [4, 4], [0, 4], [4, 0]);
+        expect(out.distance).toBe(0);
+        expect(out.fractionA).toBeCloseTo(0.5);
+        expect(out.fractionB).toBeCloseTo(0.5);
+
+        expect(segment2.distanceToSegment([0, 0], [4, 4], [0, 4], [4, 0])).toBe(0);
+        expect(segment2.distanceToSegment([0, 0], [1, 0], [0, 2], [1, 2])).toBeCloseTo(2);
+    });
+
+    it('is never further than sampled points', () => {
+        const random = createMulberry32Generator(4);
+        const point: Vec2 = [0, 0];
+
+        for (let i = 0; i < 50; i++) {
+            const a: Vec2 = [random() * 10, random() * 10];
+            const b: Vec2 = [random() * 10, random() * 10];
+            const c: Vec2 = [random() * 10, random() * 10];
+            const d: Vec2 = [random() * 10, random() * 10];
+            const distance = segment2.distanceToSegment(a, b, c, d);
+
+            let sampled = math.huge;
+            for (let k = 0; k <= 20; k++) {
+                segment2.lerp(point, c, d, k / 20);
+                sampled = math.min(sampled, segment2.distanceToPoint(a, b, point));
+            }
+            expect(distance).toBeLessThanOrEqual(sampled + 1e-9);
+            expect(distance).toBeGreaterThan(sampled - 0.6);
+        }
+    });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { type Box3, createMulberry32Generator, plane3, segment3, type Vec3, vec3 } from '../';
+
+describe('segment3', () => {
+    describe('closestPoint', () => {
+        const segment = segment3.fromValues([0, 0, 0], [4, 0, 0]);
+
+        it('projects points onto the segment interior', () => {
+            expect(segment3.closestPointFraction(segment, [1, 3, 0])).toBeCloseTo(0.25);
+            const out = segment3.closestPoint(vec3.create(), segment, [1, 3, 2]);
+            expect(out).toEqual([1, 0, 0]);
+            expect(segment3.distanceToPoint(segment, [1, 3, 4])).toBeCloseTo(5);
+        });
+
+        it('clamps to the endpoints', () => {
+            expect(segment3.closestPointFraction(segment, [-2, 1, 0])).toBe(0);
+            expect(segment3.closestPointFraction(segment, [6, 1, 0])).toBe(1);
+            expect(segment3.distanceToPoint(segment, [7, 4, 0])).toBeCloseTo(5);
+        });
+
+        it('handles degenerate segments', () => {
+            const point = segment3.fromValues([1, 1, 1], [1, 1, 1]);
+            expect(segment3.closestPointFraction(point, [5, 5, 5])).toBe(0);
+            expect(segment3.length(point)).toBe(0);
+        });
+    });
+
+    describe('closestPointsToSegment', () => {
+        it('finds the closest points of skew segments', () => {
+            const a = segment3.fromValues([0, 0, 0], [4, 0, 0]);
+            const b = segment3.fromValues([1, -1, 2], [1, 3, 2]);
+            const out = segment3.createClosestPointsResult();
+            segment3.closestPointsToSegment(out, a, b);
+
+            expect(out.fractionA).toBeCloseTo(0.25);
+            expect(out.fractionB).toBeCloseTo(0.25);
+            expect(out.pointA).toEqual([1, 0, 0]);
+            expect(out.pointB).toEqual([1, 0, 2]);
+            expect(out.distance).toBeCloseTo(2);
+        });
+
+        it('clamps to endpoints and handles parallel segments', () => {
+            const out = segment3.createClosestPointsResult();
+            segment3.closestPointsToSegment(
+                out,
+                segment3.fromValues([0, 0, 0], [1, 0, 0]),
+                segment3.fromValues([3, 1, 0], [5, 4, 0]),
+            );
+            expect(out.fractionA).toBe(1);
+            expect(out.fractionB).toBe(0);
+            expect(out.distance).toBeCloseTo(math.sqrt(5));
+
+            segment3.closestPointsToSegment(
+                out,
+                segment3.fromValues([0, 0, 0], [2, 0, 0]),
+                segment3.fromValues([1, 1, 0], [3, 1, 0]),
+            );
+            expect(out.distance).toBeCloseTo(1);
+        });
+
+        it('handles degenerate segments', () => {
+            const out = segment3.createClosestPointsResult();
+            const point = segment3.fromValues([1, 2, 0], [1, 2, 0]);
+            segment3.closestPointsToSegment(out, point, segment3.fromValues([0, 0, 0], [4, 0, 0]));
+            expect(out.fractionB).toBeCloseTo(0.25);
+            expect(out.distance).toBeCloseTo(2);
+
+            segment3.closestPointsToSegment(out, point, segment3.fromValues([1, 5, 0], [1, 5, 0]));
+            expect(out.distance).toBeCloseTo(3);
+        });
+
+        it('is never further than sampled points', () => {
+            const random = createMulberry32Generator(8);
+            const out = segment3.createClosestPointsResult();
+            const point = vec3.create();
+
+            for (let i = 0; i < 50; i++) {
+                const a = segment3.fromValues([random(), random(), random()], [random(), random(), random()]);
+                const b = segment3.fromValues([random(), random(), random()], [random(), random(), random()]);
+                segment3.closestPointsToSegment(out, a, b);
+
+                let sampled = math.huge;
+                for (let k = 0; k <= 50; k++) {
+                    segment3.lerp(point, b, k / 50);
+                    sampled = math.min(sampled, segment3.distanceToPoint(a, point));
+                }
+                expect(out.distance).toBeLessThanOrEqual(sampled + 1e-9);
+                expect(out.distance).toBeCloseTo(vec3.distance(out.pointA, out.pointB));
+            }
+        });
+    });
+
+    describe('distanceToTriangle', () => {
+        const a: Vec3 = [0, 0, 0];
+        const b: Vec3 = [2, 0, 0];
+        const c: Vec3 = [0, 2, 0];
+
+        it('is zero for segments piercing the triangle', () => {
+            expect(segment3.distanceToTriangle(segment3.fromValues([0.5, 0.5, -1], [0.5, 0.5, 1]), a, b, c)).toBe(0);
+        });
+
+        it('detects piercing segments regardless of scale', () => {
+            for (const scale of [1e-5, 1e5]) {
+                const segment = segment3.fromValues([0.5 * scale, 0.5 * scale, -scale], [0.5 * scale, 0.5 * scale, scale]);
+                const sa = vec3.scale(vec3.create(), a, scale);
+                const sb = vec3.scale(vec3.create(), b, scale);
+                const sc = vec3.scale(vec3.create(), c, scale);
+                expect(segment3.distanceToTriangle(segment, sa, sb, sc)).toBe(0);
+            }
+        });
+
+        it('measures to the face, edges and endpoints', () => {
+            // above the face
+            expect(segment3.distanceToTriangle(segment3.fromValues([0.5, 0.5, 1], [0.5, 0.5, 3]), a, b, c)).toBeCloseTo(1);
+            // crossing over an edge
+            expect(segment3.distanceToTriangle(segment3.fromValues([1, -1, 1], [1, 1, 1]), a, b, c)).toBeCloseTo(1);
+            // skew to an edge, beyond the hypotenuse
+            expect(segment3.distanceToTriangle(segment3.fromValues([2, 2, -1], [2, 2, 1]), a, b, c)).toBeCloseTo(math.sqrt(2));
+            // coplanar and outside
+            expect(segment3.distanceToTriangle(segment3.fromValues([-3, -1, 0], [-1, -1, 0]), a, b, c)).toBeCloseTo(math.sqrt(2));
+        });
+    });
+
+    describe('intersectPlane3', () => {
+        const plane = plane3.fromNormalAndPoint(plane3.create(), [0, 0, 1], [0, 0, 1]);
+
+        it('finds the crossing point', () => {
+            const out = vec3.create();
+            expect(segment3.intersectPlane3(out, segment3.fromValues([1, 2, -1], [1, 4, 3]), plane)).toBe(true);
+            expect(out[1]).toBeCloseTo(3);
+            expect(out[2]).toBeCloseTo(1);
+        });
+
+        it('misses segments on one side and returns the start of segments in the plane', () => {
+            const out = vec3.create();
+            expect(segment3.intersectPlane3(out, segment3.fromValues([0, 0, 2], [0, 0, 5]), plane)).toBe(false);
+            expect(segment3.intersectPlane3(out, segment3.fromValues([3, 0, 1], [5, 0, 1]), plane)).toBe(true);
+            expect(out).toEqual([3, 0, 1]);
+        });
+    });
+
+    describe('clipBox3', () => {
+        const box: Box3 = [0, 0, 0, 2, 2, 2];
+
+        it('clips segments passing through the box', () => {
+            const out = segment3.create();
+            expect(segment3.clipBox3(out, segment3.fromValues([-1, 1, 1], [3, 1, 1]), box)).toBe(true);
+            expect(out.start).toEqual([0, 1, 1]);
+            expect(out.end).toEqual([2, 1, 1]);
+        });
+
+        it('keeps segments inside the box and clips in place', () => {
+            const inside = segment3.fromValues([0.5, 0.5, 0.5], [1.5, 1, 1]);
+            expect(segment3.clipBox3(inside, inside, box)).toBe(true);
+            expect(inside.start).toEqual([0.5, 0.5, 0.5]);
+            expect(inside.end).toEqual([1.5, 1, 1]);
+
+            const diagonal = segment3.fromValues([-1, -1, -1], [1, 1, 1]);
+            segment3.clipBox3(diagonal, diagonal, box);
+            expect(diagonal.start).toEqual([0, 0, 0]);
+            expect(diagonal.end).toEqual([1, 1, 1]);
+        });
+
+        it('rejects segments outside the box', () => {
+            const out = segment3.create();
+            expect(segment3.clipBox3(out, segment3.fromValues([3, 0, 0], [3, 2, 2]), box)).toBe(false);
+            expect(segment3.clipBox3(out, segment3.fromValues([-1, 3, 1], [3, 2.5, 1]), box)).toBe(false);
+            expect(segment3.clipBox3(out, segment3.fromValues([-2, 1, 1], [-1, 1, 1]), box)).toBe(false);
+        });
+    });
+});
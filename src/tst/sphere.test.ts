@@ -0,0 +1,302 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { box3, createMulberry32Generator, mat4, quat, type Sphere, sphere, type Vec3, vec3 } from '../';
+
+function randomPoints(count: number, seed: number): number[] {
+    const random = createMulberry32Generator(seed);
+    const points: number[] = [];
+    for (let i = 0; i < count * 3; i++) {
+        points.push(random() * 20 - 10);
+    }
+    return points;
+}
+
+function containsAll(s: Sphere, points: number[]): boolean {
+    for (let i = 0; i < points.size(); i += 3) {
+        if (sphere.distanceToPoint(s, [points[i], points[i + 1], points[i + 2]]) > 1e-6) return false;
+    }
+    return true;
+}
+
+describe('sphere', () => {
+    describe('containsPoint', () => {
+        it('returns true for points inside or on the surface', () => {
+            const s = sphere.fromValues([1, 0, 0], 2);
+            expect(sphere.containsPoint(s, [1, 0, 0])).toBe(true);
+            expect(sphere.containsPoint(s, [3, 0, 0])).toBe(true);
+            expect(sphere.containsPoint(s, [1, 1, 1])).toBe(true);
+        });
+
+        it('returns false for points outside', () => {
+            const s = sphere.fromValues([1, 0, 0], 2);
+            expect(sphere.containsPoint(s, [3.1, 0, 0])).toBe(false);
+            expect(sphere.containsPoint(s, [-2, 0, 0])).toBe(false);
+        });
+
+        it('returns false for an empty sphere', () => {
+            const s = sphere.empty(sphere.create());
+            expect(sphere.containsPoint(s, [0, 0, 0])).toBe(false);
+            expect(sphere.containsPoint(s, [0.5, 0, 0])).toBe(false);
+        });
+    });
+
+    describe('distanceToPoint', () => {
+        it('returns signed distance to the surface', () => {
+            const s = sphere.fromValues([0, 0, 0], 1);
+            expect(sphere.distanceToPoint(s, [3, 0, 0])).toBeCloseTo(2);
+            expect(sphere.distanceToPoint(s, [0, 0.5, 0])).toBeCloseTo(-0.5);
+        });
+    });
+
+    describe('clampPoint', () => {
+        it('projects outside points onto the surface', () => {
+            const s = sphere.fromValues([0, 0, 0], 2);
+            const out: Vec3 = [0, 0, 0];
+            sphere.clampPoint(out, s, [0, 10, 0]);
+            expect(out[0]).toBeCloseTo(0);
+            expect(out[1]).toBeCloseTo(2);
+            expect(out[2]).toBeCloseTo(0);
+        });
+
+        it('leaves inside points unchanged', () => {
+            const s = sphere.fromValues([0, 0, 0], 2);
+            const out: Vec3 = [0, 0, 0];
+            sphere.clampPoint(out, s, [0.5, 0.5, 0.5]);
+            expect(out).toEqual([0.5, 0.5, 0.5]);
+        });
+
+        it('leaves points unchanged for an empty sphere', () => {
+            const out: Vec3 = [0, 0, 0];
+            sphere.clampPoint(out, sphere.empty(sphere.create()), [0, 10, 0]);
+            expect(out).toEqual([0, 10, 0]);
+        });
+    });
+
+    describe('intersectsSphere', () => {
+        it('detects overlapping and touching spheres', () => {
+            const a = sphere.fromValues([0, 0, 0], 1);
+            expect(sphere.intersectsSphere(a, sphere.fromValues([1.5, 0, 0], 1))).toBe(true);
+            expect(sphere.intersectsSphere(a, sphere.fromValues([2, 0, 0], 1))).toBe(true);
+            expect(sphere.intersectsSphere(a, sphere.fromValues([2.1, 0, 0], 1))).toBe(false);
+        });
+
+        it('never intersects an empty sphere', () => {
+            const e = sphere.empty(sphere.create());
+            expect(sphere.intersectsSphere(sphere.fromValues([0, 0, 0], 0.5), e)).toBe(false);
+            expect(sphere.intersectsSphere(e, sphere.fromValues([0, 0, 0], 0.5))).toBe(false);
+            expect(sphere.intersectsSphere(e, e)).toBe(false);
+        });
+    });
+
+    describe('expandByPoint', () => {
+        it('starts from a point when the sphere is empty', () => {
+            const s = sphere.empty(sphere.create());
+            sphere.expandByPoint(s, s, [1, 2, 3]);
+            expect(s.center).toEqual([1, 2, 3]);
+            expect(s.radius).toBe(0);
+        });
+
+        it('grows towards points outside the sphere', () => {
+            const s = sphere.fromValues([0, 0, 0], 1);
+            sphere.expandByPoint(s, s, [3, 0, 0]);
+            expect(s.center[0]).toBeCloseTo(1);
+            expect(s.radius).toBeCloseTo(2);
+            expect(sphere.containsPoint(s, [-1, 0, 0])).toBe(true);
+            expect(sphere.containsPoint(s, [3, 0, 0])).toBe(true);
+        });
+
+        it('does not change for points inside the sphere', () => {
+            const s = sphere.fromValues([0, 0, 0], 1);
+            const out = sphere.expandByPoint(sphere.create(), s, [0.5, 0, 0]);
+            expect(sphere.exactEquals(out, s)).toBe(true);
+        });
+    });
+
+    describe('union', () => {
+        it('encloses both spheres', () => {
+            const a = sphere.fromValues([0, 0, 0], 1);
+            const b = sphere.fromValues([4, 0, 0], 1);
+            const out = sphere.union(sphere.create(), a, b);
+            expect(out.center[0]).toBeCloseTo(2);
+            expect(out.radius).toBeCloseTo(3);
+        });
+
+        it('uses the largest stretch for sheared matrices', () => {
+            const s = sphere.fromValues([0, 0, 0], 1);
+            const m = mat4.fromValues(1, 0, 0, 0, 1, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1);
+            const out = sphere.transformMat4(sphere.create(), s, m);
+            expect(out.radius).toBeCloseTo((1 + math.sqrt(5)) / 2);
+        });
+
+        it('encloses transformed surface points under rotated non-uniform scale', () => {
+            const random = createMulberry32Generator(3);
+            const s = sphere.fromValues([1, 2, 3], 2);
+            const parent = mat4.fromScaling(mat4.create(), [1, 4, 0.5]);
+            const child = mat4.fromRotationTranslation(
+                mat4.create(),
+                quat.setAxisAngle(quat.create(), vec3.normalize(vec3.create(), [1, 1, 0]), 0.7),
+                [2, 0, -1],
+            );
+            const m = mat4.multiply(mat4.create(), parent, child);
+            const out = sphere.transformMat4(sphere.create(), s, m);
+
+            const point: Vec3 = [0, 0, 0];
+            for (let i = 0; i < 200; i++) {
+                vec3.normalize(point, [random() - 0.5, random() - 0.5, random() - 0.5]);
+                vec3.scaleAndAdd(point, s.center, point, s.radius);
+                vec3.transformMat4(point, point, m);
+                expect(sphere.distanceToPoint(out, point)).toBeLessThanOrEqual(1e-6);
+            }
+        });
+
+        it('returns the larger sphere when it contains the other', () => {
+            const a = sphere.fromValues([0, 0, 0], 5);
+            const b = sphere.fromValues([1, 0, 0], 1);
+            expect(sphere.equals(sphere.union(sphere.create(), a, b), a)).toBe(true);
+            expect(sphere.equals(sphere.union(sphere.create(), b, a), a)).toBe(true);
+        });
+
+        it('ignores empty spheres', () => {
+            const a = sphere.fromValues([1, 2, 3], 2);
+            const e = sphere.empty(sphere.create());
+            expect(sphere.equals(sphere.union(sphere.create(), a, e), a)).toBe(true);
+            expect(sphere.equals(sphere.union(sphere.create(), e, a), a)).toBe(true);
+        });
+    });
+
+    describe('transformMat4', () => {
+        it('applies rotation and translation', () => {
+            const s = sphere.fromValues([1, 0, 0], 2);
+            const m = mat4.fromRotationTranslation(
+                mat4.create(),
+                quat.setAxisAngle(quat.create(), [0, 0, 1], math.pi / 2),
+                [0, 0, 5],
+            );
+            const out = sphere.transformMat4(sphere.create(), s, m);
+            expect(out.center[0]).toBeCloseTo(0);
+            expect(out.center[1]).toBeCloseTo(1);
+            expect(out.center[2]).toBeCloseTo(5);
+            expect(out.radius).toBeCloseTo(2);
+        });
+
+        it('uses the largest scale for non-uniform scaling', () => {
+            const s = sphere.fromValues([0, 0, 0], 1);
+            const m = mat4.fromScaling(mat4.create(), [1, 3, 2]);
+            const out = sphere.transformMat4(sphere.create(), s, m);
+            expect(out.radius).toBeCloseTo(3);
+        });
+
+        it('uses the largest stretch for sheared matrices', () => {
+            const s = sphere.fromValues([0, 0, 0], 1);
+            const m = mat4.fromValues(1, 0, 0, 0, 1, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1);
+            const out = sphere.transformMat4(sphere.create(), s, m);
+            expect(out.radius).toBeCloseTo((1 + math.sqrt(5)) / 2);
+        });
+
+        it('encloses transformed surface points under rotated non-uniform scale', () => {
+            const random = createMulberry32Generator(3);
+            const s = sphere.fromValues([1, 2, 3], 2);
+            const parent = mat4.fromScaling(mat4.create(), [1, 4, 0.5]);
+            const child = mat4.fromRotationTranslation(
+                mat4.create(),
+                quat.setAxisAngle(quat.create(), vec3.normalize(vec3.create(), [1, 1, 0]), 0.7),
+                [2, 0, -1],
+            );
+            const m = mat4.multiply(mat4.create(), parent, child);
+            const out = sphere.transformMat4(sphere.create(), s, m);
+
+            const point: Vec3 = [0, 0, 0];
+            for (let i = 0; i < 200; i++) {
+                vec3.normalize(point, [random() - 0.5, random() - 0.5, random() - 0.5]);
+                vec3.scaleAndAdd(point, s.center, point, s.radius);
+                vec3.transformMat4(point, point, m);
+                expect(sphere.distanceToPoint(out, point)).toBeLessThanOrEqual(1e-6);
+            }
+        });
+    });
+
+    describe('getBoundingBox', () => {
+        it('computes the enclosing box', () => {
+            const s = sphere.fromValues([1, 2, 3], 1);
+            const out = sphere.getBoundingBox(box3.create(), s);
+            expect(box3.equals(out, [0, 1, 2, 2, 3, 4])).toBe(true);
+        });
+
+        it('returns an empty box for an empty sphere', () => {
+            const out = sphere.getBoundingBox(box3.create(), sphere.empty(sphere.create()));
+            expect(out[0] > out[3]).toBe(true);
+        });
+    });
+
+    describe('equals', () => {
+        it('compares approximately and exactly', () => {
+            const a = sphere.fromValues([1, 2, 3], 4);
+            const b = sphere.fromValues([1, 2, 3 + 1e-9], 4);
+            expect(sphere.equals(a, b)).toBe(true);
+            expect(sphere.exactEquals(a, b)).toBe(false);
+            expect(sphere.exactEquals(a, sphere.clone(a))).toBe(true);
+        });
+    });
+
+    describe('setFromPoints', () => {
+        const cube = [-1, -1, -1, 1, -1, -1, -1, 1, -1, 1, 1, -1, -1, -1, 1, 1, -1, 1, -1, 1, 1, 1, 1, 1];
+
+        it('returns an empty sphere for no points', () => {
+            const out = sphere.setFromPoints(sphere.create(), []);
+            expect(sphere.isEmpty(out)).toBe(true);
+        });
+
+        it('returns a zero radius sphere for a single point', () => {
+            const out = sphere.setFromPoints(sphere.create(), [1, 2, 3], 'welzl');
+            expect(out.center).toEqual([1, 2, 3]);
+            expect(out.radius).toBe(0);
+        });
+
+        it('ritter encloses all points', () => {
+            const points = randomPoints(200, 1);
+            const out = sphere.setFromPoints(sphere.create(), points, 'ritter');
+            expect(containsAll(out, points)).toBe(true);
+        });
+
+        it('welzl finds the exact sphere for cube corners', () => {
+            const out = sphere.setFromPoints(sphere.create(), cube, 'welzl', createMulberry32Generator(42));
+            expect(out.center[0]).toBeCloseTo(0);
+            expect(out.center[1]).toBeCloseTo(0);
+            expect(out.center[2]).toBeCloseTo(0);
+            expect(out.radius).toBeCloseTo(math.sqrt(3));
+        });
+
+        it('welzl finds the exact sphere for points with an interior point', () => {
+            const points = [0, 0, 0, 2, 0, 0, 1, 0.5, 0, 1, 0, 0.2];
+            const out = sphere.setFromPoints(sphere.create(), points, 'welzl', createMulberry32Generator(7));
+            expect(out.center[0]).toBeCloseTo(1);
+            expect(out.center[1]).toBeCloseTo(0);
+            expect(out.center[2]).toBeCloseTo(0);
+            expect(out.radius).toBeCloseTo(1);
+        });
+
+        it('welzl encloses all points and is no larger than ritter', () => {
+            const points = randomPoints(300, 3);
+            const exact = sphere.setFromPoints(sphere.create(), points, 'welzl', createMulberry32Generator(5));
+            const approx = sphere.setFromPoints(sphere.create(), points, 'ritter');
+            expect(containsAll(exact, points)).toBe(true);
+            expect(exact.radius).toBeLessThanOrEqual(approx.radius + 1e-9);
+        });
+
+        it('welzl is independent of the shuffle seed', () => {
+            const points = randomPoints(100, 9);
+            const a = sphere.setFromPoints(sphere.create(), points, 'welzl', createMulberry32Generator(1));
+            const b = sphere.setFromPoints(sphere.create(), points, 'welzl', createMulberry32Generator(2));
+            expect(a.radius).toBeCloseTo(b.radius);
+            expect(vec3.distance(a.center, b.center)).toBeLessThan(1e-6);
+        });
+
+        it('welzl handles coplanar points', () => {
+            const points = [0, 0, 0, 4, 0, 0, 4, 0, 4, 0, 0, 4, 2, 0, 2];
+            const out = sphere.setFromPoints(sphere.create(), points, 'welzl', createMulberry32Generator(3));
+            expect(out.center[0]).toBeCloseTo(2);
+            expect(out.center[1]).toBeCloseTo(0);
+            expect(out.center[2]).toBeCloseTo(2);
+            expect(out.radius).toBeCloseTo(math.sqrt(8));
+        });
+    });
+});
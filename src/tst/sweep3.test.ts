@@ -0,0 +1,284 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { type Box3, box3, createMulberry32Generator, sphere, sweep3, triangle3, type Vec3, vec3 } from '../';
+
+function expectVec3(actual: Vec3, expected: Vec3): void {
+    expect(actual[0]).toBeCloseTo(expected[0]);
+    expect(actual[1]).toBeCloseTo(expected[1]);
+    expect(actual[2]).toBeCloseTo(expected[2]);
+}
+
+function distanceToBox(box: Box3, point: Vec3): number {
+    const closest: Vec3 = [0, 0, 0];
+    for (let i = 0; i < 3; i++) {
+        closest[i] = math.max(box[i], math.min(box[i + 3], point[i]));
+    }
+    return vec3.distance(closest, point);
+}
+
+function distanceToTriangle(point: Vec3, a: Vec3, b: Vec3, c: Vec3): number {
+    return vec3.distance(triangle3.closestPoint(vec3.create(), point, a, b, c), point);
+}
+
+describe('sweep3', () => {
+    describe('sphereSphere', () => {
+        it('finds the time of impact', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.sphereSphere(out, sphere.fromValues([-10, 0, 0], 1), [20, 0, 0], sphere.fromValues([0, 0, 0], 2));
+
+            expect(out.hit).toBe(true);
+            expect(out.time).toBeCloseTo(7 / 20);
+            expectVec3(out.normal, [-1, 0, 0]);
+            expectVec3(out.point, [-2, 0, 0]);
+        });
+
+        it('misses spheres beside or beyond the motion', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.sphereSphere(out, sphere.fromValues([-10, 0, 0], 1), [20, 0, 0], sphere.fromValues([0, 3.5, 0], 2));
+            expect(out.hit).toBe(false);
+
+            sweep3.sphereSphere(out, sphere.fromValues([-10, 0, 0], 1), [5, 0, 0], sphere.fromValues([0, 0, 0], 2));
+            expect(out.hit).toBe(false);
+        });
+
+        it('hits at time 0 when already overlapping', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.sphereSphere(out, sphere.fromValues([1, 0, 0], 1), [0, 4, 0], sphere.fromValues([0, 0, 0], 2));
+
+            expect(out.hit).toBe(true);
+            expect(out.time).toBe(0);
+            expectVec3(out.normal, [0, -1, 0]);
+        });
+
+        it('separates overlapping spheres without a displacement', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.sphereSphere(out, sphere.fromValues([1, 0, 0], 1), [0, 0, 0], sphere.fromValues([0, 0, 0], 2));
+
+            expect(out.hit).toBe(true);
+            expectVec3(out.normal, [1, 0, 0]);
+
+            sweep3.sphereSphere(out, sphere.fromValues([0, 0, 0], 1), [0, 0, 0], sphere.fromValues([0, 0, 0], 2));
+            expect(vec3.length(out.normal)).toBeCloseTo(1);
+        });
+    });
+
+    describe('sphereTriangle3', () => {
+        const a: Vec3 = [-2, 0, -2];
+        const b: Vec3 = [2, 0, -2];
+        const c: Vec3 = [0, 0, 2];
+
+        it('separates overlapping spheres without a displacement', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.sphereTriangle3(out, sphere.fromValues([0, 0.5, 0], 1), [0, 0, 0], a, b, c);
+            expect(out.hit).toBe(true);
+            expectVec3(out.normal, [0, 1, 0]);
+
+            sweep3.sphereTriangle3(out, sphere.fromValues([0, 0, 0], 1), [0, 0, 0], a, b, c);
+            expect(out.hit).toBe(true);
+            expect(math.abs(out.normal[1])).toBeCloseTo(1);
+        });
+
+        it('hits the face from either side', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.sphereTriangle3(out, sphere.fromValues([0, 5, 0], 1), [0, -10, 0], a, b, c);
+
+            expect(out.hit).toBe(true);
+            expect(out.time).toBeCloseTo(0.4);
+            expectVec3(out.point, [0, 0, 0]);
+            expectVec3(out.normal, [0, 1, 0]);
+
+            sweep3.sphereTriangle3(out, sphere.fromValues([0, -5, 0], 1), [0, 10, 0], a, b, c);
+            expect(out.time).toBeCloseTo(0.4);
+            expectVec3(out.normal, [0, -1, 0]);
+        });
+
+        it('hits edges and vertices', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.sphereTriangle3(out, sphere.fromValues([0, 0, -5], 1), [0, 0, 10], a, b, c);
+
+            expect(out.hit).toBe(true);
+            expect(out.time).toBeCloseTo(0.2);
+            expectVec3(out.point, [0, 0, -2]);
+            expectVec3(out.normal, [0, 0, -1]);
+
+            sweep3.sphereTriangle3(out, sphere.fromValues([0, 0, 8], 1), [0, 0, -10], a, b, c);
+            expect(out.time).toBeCloseTo(0.5);
+            expectVec3(out.point, [0, 0, 2]);
+        });
+
+        it('does not tunnel through the triangle', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.sphereTriangle3(out, sphere.fromValues([0.5, 50, 0], 0.1), [0, -100, 0], a, b, c);
+
+            expect(out.hit).toBe(true);
+            expect(out.time).toBeCloseTo(49.9 / 100);
+        });
+
+        it('touches at the time of impact and not before', () => {
+            const random = createMulberry32Generator(21);
+            const out = sweep3.createSweepResult();
+            const position = vec3.create();
+
+            for (let i = 0; i < 60; i++) {
+                const moving = sphere.fromValues([random() * 10 - 5, random() * 10 - 5, random() * 10 - 5], random() + 0.25);
+                const displacement: Vec3 = [random() * 10 - 5, random() * 10 - 5, random() * 10 - 5];
+                vec3.subtract(displacement, displacement, moving.center);
+                sweep3.sphereTriangle3(out, moving, displacement, a, b, c);
+
+                if (out.hit && out.time > 0) {
+                    vec3.scaleAndAdd(position, moving.center, displacement, out.time);
+                    expect(distanceToTriangle(position, a, b, c)).toBeCloseTo(moving.radius);
+                    expect(vec3.distance(position, out.point)).toBeCloseTo(moving.radius);
+                }
+
+                const end = out.hit ? out.time : 1;
+                for (let k = 0; k < 20; k++) {
+                    vec3.scaleAndAdd(position, moving.center, displacement, (end * k) / 20);
+                    if (out.time > 0 || !out.hit) {
+                        expect(distanceToTriangle(position, a, b, c)).toBeGreaterThan(moving.radius - 1e-6);
+                    }
+                }
+            }
+        });
+    });
+
+    describe('sphereBox3', () => {
+        const box: Box3 = [0, 0, 0, 2, 2, 2];
+
+        it('separates overlapping spheres without a displacement', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.sphereBox3(out, sphere.fromValues([2.5, 1, 1], 1), [0, 0, 0], box);
+            expect(out.hit).toBe(true);
+            expectVec3(out.normal, [1, 0, 0]);
+
+            // center inside, nearest to the top face
+            sweep3.sphereBox3(out, sphere.fromValues([1, 1.8, 0.9], 0.5), [0, 0, 0], box);
+            expect(out.hit).toBe(true);
+            expectVec3(out.normal, [0, 1, 0]);
+        });
+
+        it('hits a face', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.sphereBox3(out, sphere.fromValues([-5, 1, 1], 1), [10, 0, 0], box);
+
+            expect(out.hit).toBe(true);
+            expect(out.time).toBeCloseTo(0.4);
+            expectVec3(out.point, [0, 1, 1]);
+            expectVec3(out.normal, [-1, 0, 0]);
+        });
+
+        it('hits a rounded edge', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.sphereBox3(out, sphere.fromValues([-5, 2.5, 1], 1), [10, 0, 0], box);
+
+            expect(out.hit).toBe(true);
+            expect(out.time).toBeCloseTo((5 - math.sqrt(0.75)) / 10);
+            expectVec3(out.point, [0, 2, 1]);
+            expect(out.normal[1]).toBeCloseTo(0.5);
+        });
+
+        it('misses a corner the sphere passes diagonally', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.sphereBox3(out, sphere.fromValues([-5, 2.8, -5], 1), [10, 0, 10], box);
+            expect(out.hit).toBe(true);
+
+            sweep3.sphereBox3(out, sphere.fromValues([-5, 2.8, 4], 1), [10, 0, 0], box);
+            expect(out.hit).toBe(false);
+        });
+
+        it('touches at the time of impact and not before', () => {
+            const random = createMulberry32Generator(22);
+            const out = sweep3.createSweepResult();
+            const position = vec3.create();
+
+            for (let i = 0; i < 60; i++) {
+                const moving = sphere.fromValues([random() * 10 - 4, random() * 10 - 4, random() * 10 - 4], random() + 0.25);
+                const displacement: Vec3 = [random() * 6 - 2, random() * 6 - 2, random() * 6 - 2];
+                vec3.subtract(displacement, displacement, moving.center);
+                sweep3.sphereBox3(out, moving, displacement, box);
+
+                if (out.hit && out.time > 0) {
+                    vec3.scaleAndAdd(position, moving.center, displacement, out.time);
+                    expect(distanceToBox(box, position)).toBeCloseTo(moving.radius);
+                    expect(distanceToBox(box, out.point)).toBeCloseTo(0);
+                }
+
+                if (!out.hit || out.time > 0) {
+                    const end = out.hit ? out.time : 1;
+                    for (let k = 0; k < 20; k++) {
+                        vec3.scaleAndAdd(position, moving.center, displacement, (end * k) / 20);
+                        expect(distanceToBox(box, position)).toBeGreaterThan(moving.radius - 1e-6);
+                    }
+                }
+            }
+        });
+    });
+
+    describe('box3Box3', () => {
+        const target: Box3 = [0, 0, 0, 2, 2, 2];
+
+        it('hits a face and reports the center of the touching region', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.box3Box3(out, [-4, 1, 1, -3, 3, 3], [10, 0, 0], target);
+
+            expect(out.hit).toBe(true);
+            expect(out.time).toBeCloseTo(0.3);
+            expectVec3(out.normal, [-1, 0, 0]);
+            expectVec3(out.point, [0, 1.5, 1.5]);
+        });
+
+        it('misses boxes passing beside the target', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.box3Box3(out, [-4, 2.5, 0, -3, 3, 1], [10, 0, 0], target);
+            expect(out.hit).toBe(false);
+        });
+
+        it('hits at time 0 when already overlapping', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.box3Box3(out, [1, 1, 1, 3, 3, 3], [0, 0, 5], target);
+
+            expect(out.hit).toBe(true);
+            expect(out.time).toBe(0);
+            expectVec3(out.point, [1.5, 1.5, 1.5]);
+            expectVec3(out.normal, [0, 0, -1]);
+        });
+
+        it('separates overlapping boxes along the axis of least overlap without a displacement', () => {
+            const out = sweep3.createSweepResult();
+            sweep3.box3Box3(out, [1.5, 0.5, -1, 3.5, 1.5, 3], [0, 0, 0], target);
+
+            expect(out.hit).toBe(true);
+            expect(out.time).toBe(0);
+            expectVec3(out.normal, [1, 0, 0]);
+        });
+
+        it('stops moving boxes at the surface of the target', () => {
+            const random = createMulberry32Generator(23);
+            const out = sweep3.createSweepResult();
+            const moved: Box3 = [0, 0, 0, 0, 0, 0];
+
+            for (let i = 0; i < 60; i++) {
+                const x = random() * 12 - 6;
+                const y = random() * 12 - 6;
+                const z = random() * 12 - 6;
+                const moving: Box3 = [x, y, z, x + random() + 0.1, y + random() + 0.1, z + random() + 0.1];
+                const displacement: Vec3 = [random() * 4 - 1 - x, random() * 4 - 1 - y, random() * 4 - 1 - z];
+                sweep3.box3Box3(out, moving, displacement, target);
+                if (!out.hit || out.time === 0) continue;
+
+                // just past the time of impact, allowing for rounding at the touching faces
+                const time = out.time + 1e-6;
+                for (let k = 0; k < 3; k++) {
+                    moved[k] = moving[k] + displacement[k] * time;
+                    moved[k + 3] = moving[k + 3] + displacement[k] * time;
+                }
+                expect(box3.intersectsBox3(moved, target)).toBe(true);
+
+                for (let k = 0; k < 3; k++) {
+                    moved[k] -= displacement[k] * 1e-3;
+                    moved[k + 3] -= displacement[k] * 1e-3;
+                }
+                expect(box3.intersectsBox3(moved, target)).toBe(false);
+            }
+        });
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { plane3, triangle3, type Vec3 } from '../';
+
+const a: Vec3 = [0, 0, 0];
+const b: Vec3 = [2, 0, 0];
+const c: Vec3 = [0, 2, 0];
+
+describe('triangle3', () => {
+    describe('area', () => {
+        it('computes the area of a right triangle', () => {
+            expect(triangle3.area(a, b, c)).toBeCloseTo(2);
+        });
+
+        it('returns zero for a degenerate triangle', () => {
+            expect(triangle3.area(a, b, [4, 0, 0])).toBeCloseTo(0);
+        });
+    });
+
+    describe('barycentric', () => {
+        it('returns unit weights at the vertices', () => {
+            const out: Vec3 = [0, 0, 0];
+            expect(triangle3.barycentric(out, b, a, b, c)).toEqual([0, 1, 0]);
+            expect(triangle3.barycentric(out, c, a, b, c)).toEqual([0, 0, 1]);
+        });
+
+        it('returns equal weights at the centroid', () => {
+            const centroid = triangle3.centroid([0, 0, 0], a, b, c);
+            const out = triangle3.barycentric([0, 0, 0], centroid, a, b, c);
+            expect(out[0]).toBeCloseTo(1 / 3);
+            expect(out[1]).toBeCloseTo(1 / 3);
+            expect(out[2]).toBeCloseTo(1 / 3);
+        });
+
+        it('projects points off the plane', () => {
+            const out = triangle3.barycentric([0, 0, 0], [1, 0.5, 5], a, b, c);
+            expect(out[0]).toBeCloseTo(0.25);
+            expect(out[1]).toBeCloseTo(0.5);
+            expect(out[2]).toBeCloseTo(0.25);
+        });
+    });
+
+    describe('containsPoint', () => {
+        it('tests points inside, on the edge and outside', () => {
+            expect(triangle3.containsPoint([0.5, 0.5, 0], a, b, c)).toBe(true);
+            expect(triangle3.containsPoint([1, 0, 0], a, b, c)).toBe(true);
+            expect(triangle3.containsPoint([1.5, 1.5, 0], a, b, c)).toBe(false);
+        });
+
+        it('returns false for a degenerate triangle', () => {
+            expect(triangle3.containsPoint([0, 0, 0], a, a, a)).toBe(false);
+        });
+    });
+
+    describe('closestPoint', () => {
+        it('returns the projection for points above the face', () => {
+            const out = triangle3.closestPoint([0, 0, 0], [0.5, 0.5, 3], a, b, c);
+            expect(out[0]).toBeCloseTo(0.5);
+            expect(out[1]).toBeCloseTo(0.5);
+            expect(out[2]).toBeCloseTo(0);
+        });
+
+        it('returns vertices for points in vertex regions', () => {
+            expect(triangle3.closestPoint([0, 0, 0], [-1, -1, 1], a, b, c)).toEqual(a);
+            expect(triangle3.closestPoint([0, 0, 0], [3, -1, 0], a, b, c)).toEqual(b);
+            expect(triangle3.closestPoint([0, 0, 0], [-1, 3, 0], a, b, c)).toEqual(c);
+        });
+
+        it('returns points on edges for points in edge regions', () => {
+            const ab = triangle3.closestPoint([0, 0, 0], [1, -1, 0], a, b, c);
+            expect(ab[0]).toBeCloseTo(1);
+            expect(ab[1]).toBeCloseTo(0);
+
+            const ac = triangle3.closestPoint([0, 0, 0], [-1, 1, 0], a, b, c);
+            expect(ac[0]).toBeCloseTo(0);
+            expect(ac[1]).toBeCloseTo(1);
+
+            const bc = triangle3.closestPoint([0, 0, 0], [2, 2, 1], a, b, c);
+            expect(bc[0]).toBeCloseTo(1);
+            expect(bc[1]).toBeCloseTo(1);
+            expect(bc[2]).toBeCloseTo(0);
+        });
+    });
+
+    describe('isFrontFacing', () => {
+        it('is front facing when looking against the counter-clockwise normal', () => {
+            expect(triangle3.isFrontFacing(a, b, c, [0, 0, -1])).toBe(true);
+            expect(triangle3.isFrontFacing(a, b, c, [0, 0, 1])).toBe(false);
+            expect(triangle3.isFrontFacing(a, c, b, [0, 0, -1])).toBe(false);
+        });
+    });
+
+    describe('getPlane', () => {
+        it('computes the plane through the triangle', () => {
+            const plane = triangle3.getPlane(plane3.create(), [0, 0, 3], [1, 0, 3], [0, 1, 3]);
+            expect(plane.normal[2]).toBeCloseTo(1);
+            expect(plane.constant).toBeCloseTo(-3);
+            expect(plane3.distanceToPoint(plane, [5, 5, 3])).toBeCloseTo(0);
+        });
+    });
+
+    describe('interpolate', () => {
+        it('blends vertex attributes by barycentric weights', () => {
+            const out = triangle3.interpolate([0, 0, 0], [1, 0.5, 0], a, b, c, [1, 0, 0], [0, 1, 0], [0, 0, 1]);
+            expect(out[0]).toBeCloseTo(0.25);
+            expect(out[1]).toBeCloseTo(0.5);
+            expect(out[2]).toBeCloseTo(0.25);
+        });
+    });
+});
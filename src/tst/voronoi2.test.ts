@@ -0,0 +1,135 @@
+import { describe, expect, it } from '@rbxts/jest-globals';
+import { type Box2, createMulberry32Generator, voronoi2 } from '../';
+
+function polygonArea(polygon: number[]): number {
+    let area = 0;
+    const count = polygon.size() / 2;
+    for (let i = 0; i < count; i++) {
+        const j = (i + 1) % count;
+        area += polygon[i * 2] * polygon[j * 2 + 1] - polygon[j * 2] * polygon[i * 2 + 1];
+    }
+    return area * 0.5;
+}
+
+function containsPoint(polygon: number[], x: number, y: number): boolean {
+    const count = polygon.size() / 2;
+    for (let i = 0; i < count; i++) {
+        const j = (i + 1) % count;
+        const ax = polygon[i * 2];
+        const ay = polygon[i * 2 + 1];
+        const cross = (polygon[j * 2] - ax) * (y - ay) - (polygon[j * 2 + 1] - ay) * (x - ax);
+        if (cross < -1e-9) return false;
+    }
+    return count >= 3;
+}
+
+/**
+ * Counts cell vertices that are closer to another site than to their own site
+ */
+function countNearestViolations(v: voronoi2.Voronoi2, points: number[]): number {
+    let errors = 0;
+    const n = points.size() / 2;
+
+    for (let i = 0; i < n; i++) {
+        const cell = v.cells[i];
+        for (let k = 0; k < cell.size(); k += 2) {
+            const x = cell[k];
+            const y = cell[k + 1];
+            const own = (x - points[i * 2]) ** 2 + (y - points[i * 2 + 1]) ** 2;
+            for (let j = 0; j < n; j++) {
+                const other = (x - points[j * 2]) ** 2 + (y - points[j * 2 + 1]) ** 2;
+                if (other < own - 1e-6) errors++;
+            }
+        }
+    }
+
+    return errors;
+}
+
+describe('voronoi2', () => {
+    describe('compute', () => {
+        it('computes unit square cells for a grid', () => {
+            const points: number[] = [];
+            for (let y = 0; y < 4; y++) {
+                for (let x = 0; x < 4; x++) {
+                    points.push(x + 0.5, y + 0.5);
+                }
+            }
+            const v = voronoi2.compute(voronoi2.create(), points, [0, 0, 4, 4]);
+
+            expect(v.cells.size()).toBe(16);
+            for (const cell of v.cells) {
+                expect(cell.size()).toBe(8);
+                expect(polygonArea(cell)).toBeCloseTo(1);
+            }
+
+            // interior cell around (1.5, 1.5)
+            const cell = v.cells[5];
+            for (let k = 0; k < cell.size(); k += 2) {
+                expect(math.abs(cell[k] - 1.5)).toBeCloseTo(0.5);
+                expect(math.abs(cell[k + 1] - 1.5)).toBeCloseTo(0.5);
+            }
+        });
+
+        it('partitions the bounds for random sites', () => {
+            const random = createMulberry32Generator(5);
+            const points: number[] = [];
+            for (let i = 0; i < 200; i++) {
+                points.push(random() * 100, random() * 50);
+            }
+            const bounds: Box2 = [0, 0, 100, 50];
+            const v = voronoi2.compute(voronoi2.create(), points, bounds);
+
+            let total = 0;
+            for (let i = 0; i < 200; i++) {
+                const cell = v.cells[i];
+                expect(polygonArea(cell)).toBeGreaterThan(0);
+                expect(containsPoint(cell, points[i * 2], points[i * 2 + 1])).toBe(true);
+                total += polygonArea(cell);
+            }
+            expect(total).toBeCloseTo(5000, 6);
+            expect(countNearestViolations(v, points)).toBe(0);
+        });
+
+        it('stores a circumcenter per Delaunay triangle', () => {
+            const points = [0, 0, 4, 0, 0, 4];
+            const v = voronoi2.compute(voronoi2.create(), points, [-10, -10, 10, 10]);
+
+            expect(v.circumcenters.size()).toBe(2);
+            expect(v.circumcenters[0]).toBeCloseTo(2);
+            expect(v.circumcenters[1]).toBeCloseTo(2);
+        });
+
+        it('splits the bounds between two or collinear sites', () => {
+            const two = voronoi2.compute(voronoi2.create(), [1, 1, 3, 1], [0, 0, 4, 2]);
+            expect(polygonArea(two.cells[0])).toBeCloseTo(4);
+            expect(polygonArea(two.cells[1])).toBeCloseTo(4);
+
+            const points = [0.5, 1, 1.5, 1, 2.5, 1, 3.5, 1];
+            const collinear = voronoi2.compute(voronoi2.create(), points, [0, 0, 4, 2]);
+            for (const cell of collinear.cells) {
+                expect(polygonArea(cell)).toBeCloseTo(2);
+            }
+            expect(countNearestViolations(collinear, points)).toBe(0);
+        });
+
+        it('leaves cells of duplicate sites empty', () => {
+            const points = [0, 0, 2, 0, 1, 2, 2, 0, 1, 0.5];
+            const v = voronoi2.compute(voronoi2.create(), points, [-5, -5, 5, 5]);
+
+            expect(v.cells[3].size()).toBe(0);
+            let total = 0;
+            for (const cell of v.cells) {
+                total += polygonArea(cell);
+            }
+            expect(total).toBeCloseTo(100);
+        });
+
+        it('leaves cells outside the bounds empty', () => {
+            const v = voronoi2.compute(voronoi2.create(), [0, 0, 1, 0, 0, 1, 20, 20], [-1, -1, 2, 2]);
+
+            expect(v.cells[3].size()).toBe(0);
+            expect(polygonArea(v.cells[0]) + polygonArea(v.cells[1]) + polygonArea(v.cells[2])).toBeCloseTo(9);
+        });
+    });
+});
@@ -77,15 +77,73 @@ export type Spherical = [r: number, theta: number, phi: number];
 /** A circle in 2D space */
 export type Circle = { center: Vec2; radius: number };
 
+/** A box in 2D space */
+export type Box2 = [minX: number, minY: number, maxX: number, maxY: number];
+
 /** A ray in 3D space */
 export type Ray3 = {
     origin: Vec3;
     direction: Vec3;
 };
 
+/** A line segment in 3D space, between two endpoints */
+export type Segment3 = {
+    start: Vec3;
+    end: Vec3;
+};
+
+/** An infinite line in 3D space, through an origin along a direction that need not be unit length */
+export type Line3 = {
+    origin: Vec3;
+    direction: Vec3;
+};
+
+/** A capsule in 3D space, the set of points within radius of the segment between start and end */
+export type Capsule3 = {
+    start: Vec3;
+    end: Vec3;
+    radius: number;
+};
+
+/** A cylinder in 3D space, capped with flat discs of radius centered at start and end */
+export type Cylinder3 = {
+    start: Vec3;
+    end: Vec3;
+    radius: number;
+};
+
+/** A cone in 3D space, from its apex to a flat base disc of radius centered at base */
+export type Cone3 = {
+    apex: Vec3;
+    base: Vec3;
+    radius: number;
+};
+
+/** A view frustum in 3D space, six planes with normals pointing into the frustum */
+export type Frustum3 = [left: Plane3, right: Plane3, bottom: Plane3, top: Plane3, near: Plane3, far: Plane3];
+
 /** A raycast in 3D space */
 export type Raycast3 = {
     origin: Vec3;
     direction: Vec3;
     length: number;
 };
+
+/**
+ * A convex hull in 3D space, as computed by convexHull3.
+ * Vertex indices refer to points in the flat point array the hull was computed from.
+ *  vertices      - indices of the points on the hull, each listed once
+ *  faces         - polygon faces, coplanar triangles merged, as vertex index loops in counter-clockwise order seen from outside
+ *  facePlanes    - the plane of each face, with the normal pointing outwards
+ *  faceNeighbors - per face, the index of the face across each polygon edge, faceNeighbors[f][k] is across faces[f][k] -> faces[f][k + 1]
+ *  edges         - unique edges as pairs of vertex indices: [a0, b0, a1, b1, ...]
+ *  edgeFaces     - the two faces adjacent to each edge: [f0, g0, f1, g1, ...], edge a -> b runs counter-clockwise around face f
+ */
+export type ConvexHull3 = {
+    vertices: number[];
+    faces: number[][];
+    facePlanes: Plane3[];
+    faceNeighbors: number[][];
+    edges: number[];
+    edgeFaces: number[];
+};
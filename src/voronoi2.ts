@@ -0,0 +1,287 @@
+//!native
+
+import * as circle from './circle';
+import { circumcircle } from './circumcircle';
+import * as delaunay2 from './delaunay2';
+import type { Box2 } from './types';
+import * as vec2 from './vec2';
+
+/**
+ * A 2D Voronoi diagram, derived from the Delaunay triangulation of its sites.
+ *  delaunay      - the Delaunay triangulation of the sites
+ *  circumcenters - the circumcenter of each Delaunay triangle, which are the Voronoi vertices: [x0, y0, x1, y1, ...]
+ *  cells         - per site, the cell polygon clipped to the bounds as a flat counter-clockwise loop: [x0, y0, x1, y1, ...].
+ *                  Empty if the cell lies outside the bounds or the site duplicates an earlier site.
+ * @see create
+ */
+export type Voronoi2 = {
+    delaunay: delaunay2.Delaunay2;
+    circumcenters: number[];
+    cells: number[][];
+};
+
+/**
+ * Creates a new empty Voronoi diagram
+ * @returns A new Voronoi diagram
+ */
+export function create(): Voronoi2 {
+    return {
+        delaunay: delaunay2.create(),
+        circumcenters: [],
+        cells: [],
+    };
+}
+
+const _compute_degenerate: boolean[] = [];
+const _compute_siteEdge: number[] = [];
+const _compute_clipped: boolean[] = [];
+const _compute_neighbors: number[] = [];
+
+/**
+ * Computes the Voronoi diagram of a set of 2D points, clipped to a bounding rectangle.
+ *
+ * Cells of interior sites are the loops of circumcenters of the Delaunay triangles around them.
+ * Cells of sites on the convex hull are unbounded, so they are built by clipping the bounds with
+ * the bisectors between the site and its Delaunay neighbors instead.
+ *
+ * @param out - The output Voronoi diagram
+ * @param points - Flat array of 2D sites: [x0, y0, x1, y1, ...]
+ * @param bounds - The rectangle to clip the cells to
+ * @returns The output Voronoi diagram
+ */
+export function compute(out: Voronoi2, points: number[], bounds: Box2): Voronoi2 {
+    const n = math.floor(points.size() / 2);
+    const d = delaunay2.triangulate(out.delaunay, points);
+    const triangles = d.triangles;
+    const halfedges = d.halfedges;
+
+    computeCircumcenters(out, points);
+
+    // any half-edge leaving each site, and whether its cell needs clipping by bisectors
+    const siteEdge = _compute_siteEdge;
+    const clipped = _compute_clipped;
+    siteEdge.clear();
+    clipped.clear();
+    for (let i = 0; i < n; i++) {
+        siteEdge.push(-1);
+        clipped.push(false);
+    }
+    for (let e = 0; e < triangles.size(); e++) {
+        siteEdge[triangles[e]] = e;
+        if (_compute_degenerate[math.floor(e / 3)]) clipped[triangles[e]] = true;
+    }
+    for (const v of d.hull) {
+        clipped[v] = true;
+    }
+
+    out.cells.clear();
+    const neighbors = _compute_neighbors;
+    const tolerance = 1e-9 * math.max(bounds[2] - bounds[0], bounds[3] - bounds[1]);
+
+    for (let i = 0; i < n; i++) {
+        const cell: number[] = [];
+        out.cells.push(cell);
+
+        if (triangles.size() === 0) {
+            // no triangulation for fewer than 3 or collinear sites, every other site is a potential neighbor
+            neighbors.clear();
+            for (let j = 0; j < n; j++) {
+                if (j !== i) neighbors.push(j);
+            }
+            clipBoundsByBisectors(cell, points, i, neighbors, bounds);
+            removeDuplicateVertices(cell, tolerance);
+            continue;
+        }
+
+        const start = siteEdge[i];
+        if (start === -1) continue;
+
+        if (clipped[i]) {
+            collectNeighbors(d, start, neighbors);
+            clipBoundsByBisectors(cell, points, i, neighbors, bounds);
+            removeDuplicateVertices(cell, tolerance);
+            continue;
+        }
+
+        // rotating counter-clockwise around the site visits its Voronoi vertices in order
+        let e = start;
+        do {
+            const t = math.floor(e / 3);
+            cell.push(out.circumcenters[t * 2], out.circumcenters[t * 2 + 1]);
+            e = halfedges[delaunay2.prevHalfedge(e)];
+        } while (e !== start);
+
+        clipToBounds(cell, bounds);
+        removeDuplicateVertices(cell, tolerance);
+    }
+
+    return out;
+}
+
+const _circumcenters_circle = /*@__PURE__*/ circle.create();
+const _circumcenters_a = /*@__PURE__*/ vec2.create();
+const _circumcenters_b = /*@__PURE__*/ vec2.create();
+const _circumcenters_c = /*@__PURE__*/ vec2.create();
+
+function computeCircumcenters(out: Voronoi2, points: number[]): void {
+    const triangles = out.delaunay.triangles;
+    const circumcenters = out.circumcenters;
+    const degenerate = _compute_degenerate;
+    circumcenters.clear();
+    degenerate.clear();
+
+    for (let t = 0; t < triangles.size(); t += 3) {
+        const a = triangles[t] * 2;
+        const b = triangles[t + 1] * 2;
+        const c = triangles[t + 2] * 2;
+        const ax = points[a];
+        const ay = points[a + 1];
+
+        // circumcircle tests for collinearity with an absolute tolerance, so evaluate it
+        // relative to a with the longest edge scaled to unit length
+        const bx = points[b] - ax;
+        const by = points[b + 1] - ay;
+        const cx = points[c] - ax;
+        const cy = points[c + 1] - ay;
+        const dx = cx - bx;
+        const dy = cy - by;
+        const scale = math.sqrt(math.max(bx * bx + by * by, cx * cx + cy * cy, dx * dx + dy * dy));
+
+        vec2.set(_circumcenters_a, 0, 0);
+        vec2.set(_circumcenters_b, bx / scale, by / scale);
+        vec2.set(_circumcenters_c, cx / scale, cy / scale);
+        const result = circumcircle(_circumcenters_circle, _circumcenters_a, _circumcenters_b, _circumcenters_c);
+
+        if (result.radius > 0) {
+            circumcenters.push(ax + result.center[0] * scale, ay + result.center[1] * scale);
+            degenerate.push(false);
+        } else {
+            // nearly collinear hull sliver, its circumcenter is far outside the hull so store the centroid
+            // instead and build the cells around it from bisectors
+            circumcenters.push(ax + (bx + cx) / 3, ay + (by + cy) / 3);
+            degenerate.push(true);
+        }
+    }
+}
+
+function collectNeighbors(d: delaunay2.Delaunay2, start: number, result: number[]): void {
+    const triangles = d.triangles;
+    const halfedges = d.halfedges;
+    result.clear();
+
+    let e = start;
+    do {
+        result.push(triangles[delaunay2.nextHalfedge(e)]);
+        const previous = delaunay2.prevHalfedge(e);
+        e = halfedges[previous];
+        if (e === -1) {
+            // the last neighbor on the hull is only reachable through the incoming edge
+            result.push(triangles[previous]);
+            break;
+        }
+    } while (e !== start);
+
+    if (e === start) return;
+
+    // rotate the other way from the start
+    e = halfedges[start];
+    while (e !== -1) {
+        e = delaunay2.nextHalfedge(e);
+        result.push(triangles[delaunay2.nextHalfedge(e)]);
+        e = halfedges[e];
+    }
+}
+
+const _clip_buffer: number[] = [];
+
+function clipBoundsByBisectors(cell: number[], points: number[], site: number, neighbors: number[], bounds: Box2): void {
+    cell.clear();
+    cell.push(bounds[0], bounds[1], bounds[2], bounds[1], bounds[2], bounds[3], bounds[0], bounds[3]);
+
+    const px = points[site * 2];
+    const py = points[site * 2 + 1];
+
+    for (const j of neighbors) {
+        const qx = points[j * 2];
+        const qy = points[j * 2 + 1];
+        const nx = qx - px;
+        const ny = qy - py;
+        if (nx === 0 && ny === 0) continue;
+
+        // keep the side of the bisector closer to the site
+        clipHalfPlane(cell, nx, ny, (nx * (px + qx) + ny * (py + qy)) * 0.5);
+        if (cell.size() === 0) return;
+    }
+}
+
+function clipToBounds(cell: number[], bounds: Box2): void {
+    clipHalfPlane(cell, -1, 0, -bounds[0]);
+    clipHalfPlane(cell, 1, 0, bounds[2]);
+    clipHalfPlane(cell, 0, -1, -bounds[1]);
+    clipHalfPlane(cell, 0, 1, bounds[3]);
+}
+
+/**
+ * Clips a convex polygon in place to the half-plane nx * x + ny * y <= c (Sutherland-Hodgman)
+ */
+function clipHalfPlane(polygon: number[], nx: number, ny: number, c: number): void {
+    const input = _clip_buffer;
+    input.clear();
+    for (const v of polygon) {
+        input.push(v);
+    }
+    polygon.clear();
+
+    const count = input.size() / 2;
+    for (let i = 0; i < count; i++) {
+        const j = (i + 1) % count;
+        const ax = input[i * 2];
+        const ay = input[i * 2 + 1];
+        const bx = input[j * 2];
+        const by = input[j * 2 + 1];
+        const da = nx * ax + ny * ay - c;
+        const db = nx * bx + ny * by - c;
+
+        if (da <= 0) polygon.push(ax, ay);
+        if ((da < 0 && db > 0) || (da > 0 && db < 0)) {
+            const t = da / (da - db);
+            polygon.push(ax + (bx - ax) * t, ay + (by - ay) * t);
+        }
+    }
+}
+
+/**
+ * Removes vertices closer than tolerance to the previous one, left by cocircular sites sharing a
+ * circumcenter or by clipping through a vertex
+ */
+function removeDuplicateVertices(polygon: number[], tolerance: number): void {
+    const toleranceSq = tolerance * tolerance;
+    let count = 0;
+
+    for (let i = 0; i < polygon.size(); i += 2) {
+        const x = polygon[i];
+        const y = polygon[i + 1];
+        if (count > 0) {
+            const dx = x - polygon[count * 2 - 2];
+            const dy = y - polygon[count * 2 - 1];
+            if (dx * dx + dy * dy <= toleranceSq) continue;
+        }
+        polygon[count * 2] = x;
+        polygon[count * 2 + 1] = y;
+        count++;
+    }
+
+    // the loop closes back on the first vertex
+    if (count > 1) {
+        const dx = polygon[count * 2 - 2] - polygon[0];
+        const dy = polygon[count * 2 - 1] - polygon[1];
+        if (dx * dx + dy * dy <= toleranceSq) count--;
+    }
+
+    // fewer than three vertices enclose no area
+    if (count < 3) count = 0;
+
+    while (polygon.size() > count * 2) {
+        polygon.pop();
+    }
+}